@@ -0,0 +1,69 @@
+/**
+ * Generate a TypeScript tag type and zod schemas from OLI tag_definitions.yml
+ *
+ * Usage:
+ *   npm run generate:tags -- --out src/oli-tags.ts
+ *   npm run generate:tags -- --input ./tag_definitions.yml --out oli-tags.ts --interface MyTags --no-value-sets
+ *
+ * Without --input the latest definitions and value sets are fetched from the OLI repository.
+ * With --input, value sets are still derived from the file and fetched unless --no-value-sets is set.
+ * Without --out the generated module is written to stdout.
+ */
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { OLIClient } from '../src';
+import { generateTagSchemaSource, parseTagDefinitionsYaml } from '../src/tagSchema';
+
+function readArgs(argv: string[]): Record<string, string | boolean> {
+  const args: Record<string, string | boolean> = {};
+  for (let index = 0; index < argv.length; index++) {
+    const arg = argv[index];
+    if (!arg.startsWith('--')) continue;
+    const key = arg.slice(2);
+    const next = argv[index + 1];
+    if (next !== undefined && !next.startsWith('--')) {
+      args[key] = next;
+      index += 1;
+    } else {
+      args[key] = true;
+    }
+  }
+  return args;
+}
+
+async function main(): Promise<void> {
+  const args = readArgs(process.argv.slice(2));
+  const interfaceName = typeof args.interface === 'string' ? args.interface : undefined;
+  const useValueSets = args['no-value-sets'] !== true;
+
+  let source: string;
+  if (typeof args.input === 'string') {
+    const definitions = parseTagDefinitionsYaml(await readFile(args.input, 'utf8'));
+    let valueSets = {};
+    if (useValueSets) {
+      const oli = new OLIClient();
+      oli.tagDefinitions = definitions;
+      valueSets = await oli.fetcher.getOLIValueSets();
+    }
+    source = generateTagSchemaSource(definitions, { interfaceName, valueSets });
+  } else {
+    const oli = new OLIClient();
+    await oli.init();
+    source = await oli.fetcher.generateTagSchemaSource({
+      interfaceName,
+      valueSets: useValueSets ? undefined : {}
+    });
+  }
+
+  if (typeof args.out === 'string') {
+    await writeFile(args.out, source, 'utf8');
+    console.log(`Wrote ${args.out}`);
+  } else {
+    process.stdout.write(source);
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
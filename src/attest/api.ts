@@ -1,29 +1,62 @@
 import type {
+  AttestationApi,
+  AttestationSimulationResult,
+  AttestationVerificationResult,
+  AttestationFieldValue,
   AttestationRowInput,
+  BulkOffchainSubmitResult,
   BulkOnchainSubmitResult,
   BulkValidationResult,
+  ChunkedBulkOnchainSubmitResult,
+  ChunkedBulkSubmitOptions,
+  CorrectionSubmitResult,
+  OffchainSubmitResult,
   OnchainAttestationRequest,
+  OnchainRevocationRequest,
+  OnchainSubmitResult,
   OnchainWalletAdapter,
   ParseCsvOptions,
   PrepareSingleOptions,
   PreparedAttestation,
+  PreparedCorrection,
+  PrepareCorrectionOptions,
+  PreparedOffchainAttestation,
+  PrepareOffchainOptions,
   ProjectRecord,
+  RevokeOptions,
   SingleValidationResult,
+  SubmitCorrectionOptions,
   ValidationOptions
 } from './types';
 import { AttestValidationError } from './types';
-import { createAttestationRequestData, prepareEncodedData, prepareTags } from './core/payload';
+import type { TagDefinitions, ValueSets } from '../types/tags';
+import type { AttestationPayload, RestAttestationRecord } from '../types/api';
+import { createAttestationRequestData, prepareEncodedData, prepareTags, tagsToRow } from './core/payload';
 import {
   DEFAULT_ATTESTATION_NETWORK,
   FRONTEND_ATTESTATION_RECIPIENT,
   getAttestationNetworkConfig,
-  isSupportedAttestationNetwork
+  isSupportedAttestationNetwork,
+  networkFromSchemaInfo
 } from './core/eas';
 import { resolveModeProfile } from './core/profiles';
 import { buildCaip10, parseCaip10 } from './core/caip';
+import { buildOffchainTypedData, computeOffchainUid, splitSignature } from './core/offchain';
 import { parseCsv as parseCsvValidation } from './validation/csv';
+import { mergeDiagnostics } from './validation/diagnostics';
+import { checkExistingLabels as checkExistingLabelsInPool, getEnumTagIds } from './validation/existingLabels';
+import { verifyAttestationRecord } from './validation/verify';
 import { validateBulk as validateBulkRows, validateSingle as validateSingleRow } from './validation/validate';
-import { submitBulkOnchain as submitBulkTransport, submitSingleOnchain as submitSingleTransport } from './transport/submit';
+import {
+  revokeOffchain as revokeOffchainTransport,
+  revokeOnchain as revokeOnchainTransport,
+  submitBulkOnchain as submitBulkTransport,
+  submitBulkOnchainChunked as submitBulkChunkedTransport,
+  submitCorrectionOnchain as submitCorrectionTransport,
+  submitSingleOnchain as submitSingleTransport
+} from './transport/submit';
+import { simulateOnchain } from './transport/simulate';
+import type { Eip1193ProviderLike } from './transport/eip1193';
 
 /**
  * Client for building, validating, and submitting OLI attestations onchain.
@@ -45,12 +78,22 @@ export class AttestClient {
    *   Defaults to Base (8453).
    * @param options.defaultRecipient - Default attestation recipient address. Defaults to the
    *   OLI canonical recipient address.
+   * @param options.onSubmitted - Called after `submitSingleOnchain` succeeds or is submitted,
+   *   and after `submitSingleOffchain` is accepted. `OLIClient` uses it to invalidate cached
+   *   labels when `api.invalidateLabelsOnSubmit` is set. Errors thrown by the callback are ignored.
+   * @param options.api - REST client used to submit signed offchain attestations and to look up
+   *   attestations for corrections. `OLIClient` passes its own `api`.
+   * @param options.getTagSchemas - Returns the tag definitions and value sets row values are
+   *   checked against during validation. `OLIClient` supplies the ones loaded by `init()`.
    */
   constructor(
     private readonly options: {
       fetchProjects?: () => Promise<ProjectRecord[]>;
       defaultAttestationNetwork?: number;
       defaultRecipient?: string;
+      onSubmitted?: (prepared: PreparedAttestation, result: OnchainSubmitResult | OffchainSubmitResult) => unknown;
+      api?: AttestationApi;
+      getTagSchemas?: () => { tagDefinitions?: TagDefinitions; valueSets?: ValueSets };
     } = {}
   ) {}
 
@@ -77,25 +120,58 @@ export class AttestClient {
    * @returns Validation result with the normalised row and diagnostics.
    */
   async validateSingle(input: AttestationRowInput, options: ValidationOptions = {}): Promise<SingleValidationResult> {
+    const tagSchemas = this.options.getTagSchemas?.();
     return validateSingleRow(input, {
       ...options,
-      fetchProjects: options.fetchProjects ?? this.options.fetchProjects
+      fetchProjects: options.fetchProjects ?? this.options.fetchProjects,
+      tagDefinitions: options.tagDefinitions ?? tagSchemas?.tagDefinitions,
+      valueSets: options.valueSets ?? tagSchemas?.valueSets
     });
   }
 
   /**
    * Validate an array of attestation rows (up to 50).
    *
+   * With `options.checkExistingLabels`, valid rows are also compared with the labels already in
+   * the pool via `getLabelsBulk`. Each compared row gets a suggested action in `existingLabels`,
+   * plus `LABEL_UNCHANGED`/`LABEL_CONFLICT` warnings and `LABEL_OVERRIDES_OWN` suggestions.
+   *
    * @param rows - Array of row data objects.
    * @param options - Validation options including mode and max-row limit.
    * @returns Bulk validation result with per-row diagnostics and a `validRows` subset.
    */
   async validateBulk(rows: AttestationRowInput[], options: ValidationOptions = {}): Promise<BulkValidationResult> {
-    return validateBulkRows(rows, {
+    const tagSchemas = this.options.getTagSchemas?.();
+    const result = await validateBulkRows(rows, {
       ...options,
       fetchProjects: options.fetchProjects ?? this.options.fetchProjects,
+      tagDefinitions: options.tagDefinitions ?? tagSchemas?.tagDefinitions,
+      valueSets: options.valueSets ?? tagSchemas?.valueSets,
       maxRows: options.maxRows ?? 50
     });
+
+    if (!options.checkExistingLabels) {
+      return result;
+    }
+
+    const api = this.requireApi('Checking existing labels');
+    const getLabelsBulk = api.getLabelsBulk?.bind(api);
+    if (!getLabelsBulk) {
+      throw new Error('Checking existing labels requires an API client with getLabelsBulk.');
+    }
+    const invalid = new Set(result.invalidRows);
+    const candidates = result.rows
+      .map((row, index) => ({ index, row }))
+      .filter(({ index }) => !invalid.has(index));
+    const { checks, diagnostics } = await checkExistingLabelsInPool(
+      candidates,
+      getLabelsBulk,
+      options.checkExistingLabels === true ? {} : options.checkExistingLabels,
+      getEnumTagIds(options.tagDefinitions ?? tagSchemas?.tagDefinitions, options.valueSets ?? tagSchemas?.valueSets)
+    );
+
+    mergeDiagnostics(result.diagnostics, diagnostics);
+    return { ...result, existingLabels: checks };
   }
 
   /**
@@ -181,7 +257,7 @@ export class AttestClient {
       tags,
       encodedData,
       raw: row,
-      request: createAttestationRequestData(encodedData, recipient)
+      request: createAttestationRequestData(encodedData, recipient, { refUID: options.refUID })
     };
   }
 
@@ -195,32 +271,460 @@ export class AttestClient {
   async submitSingleOnchain(
     prepared: PreparedAttestation,
     walletAdapter: OnchainWalletAdapter
-  ): Promise<import('./types').OnchainSubmitResult> {
+  ): Promise<OnchainSubmitResult> {
     const request: OnchainAttestationRequest = {
       schemaUID: prepared.network.schemaUID,
       data: prepared.request,
       prepared
     };
 
-    return submitSingleTransport(request, walletAdapter, {
+    const result = await submitSingleTransport(request, walletAdapter, {
       network: prepared.network
     });
+
+    if (result.status !== 'failed' && this.options.onSubmitted) {
+      try {
+        await this.options.onSubmitted(prepared, result);
+      } catch {
+        // The attestation is already onchain; a failing callback must not mask that
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Dry-run the transaction `submitSingleOnchain` (one attestation) or `submitBulkOnchain`
+   * (an array) would send, without broadcasting anything. Runs `eth_call` and `eth_estimateGas`
+   * against the EAS contract of the attestation network, switching the wallet to it if needed.
+   *
+   * @param prepared - Attestation(s) produced by `prepareSingleAttestation`, all on one network.
+   * @param walletAdapter - Adapter implementing `request` and `getAddress`.
+   * @returns Calldata, gas estimate, estimated cost in wei, sponsorship, and revert status.
+   *
+   * @example
+   * ```ts
+   * const simulation = await oli.attest.simulate(prepared, adapter);
+   * if (!simulation.success) console.warn(simulation.revertReason);
+   * else console.log(`~${formatEther(simulation.estimatedCost!)} ETH`, simulation.sponsored);
+   * ```
+   */
+  async simulate(
+    prepared: PreparedAttestation | PreparedAttestation[],
+    walletAdapter: OnchainWalletAdapter
+  ): Promise<AttestationSimulationResult> {
+    const rows = Array.isArray(prepared) ? prepared : [prepared];
+    if (rows.length === 0) {
+      throw new Error('simulate requires at least one attestation.');
+    }
+    if (rows.length > 50) {
+      throw new Error(`You can only submit up to 50 attestations at once. You currently have ${rows.length} rows.`);
+    }
+    if (rows.some((row) => row.network.chainId !== rows[0].network.chainId)) {
+      throw new Error('simulate does not support mixed attestation networks in one batch.');
+    }
+
+    const requests: OnchainAttestationRequest[] = rows.map((row) => ({
+      schemaUID: row.network.schemaUID,
+      data: row.request,
+      prepared: row
+    }));
+
+    return simulateOnchain(Array.isArray(prepared) ? requests : requests[0], walletAdapter, {
+      network: rows[0].network
+    });
+  }
+
+  /**
+   * Build the EIP-712 typed data for signing a prepared attestation offchain.
+   *
+   * @param prepared - Attestation produced by `prepareSingleAttestation`.
+   * @param options - Attestation time, expiration, salt, or EAS domain version overrides.
+   * @returns Typed data plus the offchain UID it will have once signed.
+   */
+  prepareOffchainAttestation(
+    prepared: PreparedAttestation,
+    options: PrepareOffchainOptions = {}
+  ): PreparedOffchainAttestation {
+    const typedData = buildOffchainTypedData(prepared, options);
+    return {
+      prepared,
+      uid: computeOffchainUid(typedData.message),
+      typedData
+    };
+  }
+
+  /**
+   * Sign prepared offchain typed data with the wallet adapter.
+   *
+   * @param offchain - Result of `prepareOffchainAttestation`.
+   * @param walletAdapter - Adapter implementing `signTypedData` and `getAddress`.
+   * @returns Signed payload in the shape accepted by `postAttestation`.
+   */
+  async signOffchainAttestation(
+    offchain: PreparedOffchainAttestation,
+    walletAdapter: OnchainWalletAdapter
+  ): Promise<AttestationPayload> {
+    if (typeof walletAdapter.signTypedData !== 'function' || typeof walletAdapter.getAddress !== 'function') {
+      throw new Error(`${walletAdapter.name ?? 'Wallet adapter'} does not support offchain signing (signTypedData/getAddress).`);
+    }
+
+    // Wallets reject typed data whose domain chain differs from the active chain
+    await walletAdapter.switchNetwork(offchain.prepared.network.chainId);
+    const signer = await walletAdapter.getAddress();
+    const signature = await walletAdapter.signTypedData(offchain.typedData);
+
+    return {
+      sig: {
+        uid: offchain.uid,
+        domain: offchain.typedData.domain,
+        types: offchain.typedData.types,
+        primaryType: offchain.typedData.primaryType,
+        message: offchain.typedData.message,
+        version: offchain.typedData.message.version,
+        signature: splitSignature(signature)
+      },
+      signer
+    };
+  }
+
+  /**
+   * Sign a prepared attestation offchain and submit it to the OLI API (no gas required).
+   *
+   * @param prepared - Attestation produced by `prepareSingleAttestation`.
+   * @param walletAdapter - Adapter implementing `signTypedData` and `getAddress`.
+   * @param options - Offchain options such as attestation time or salt.
+   * @returns The attestation UID, signer, signed payload, and API response.
+   */
+  async submitSingleOffchain(
+    prepared: PreparedAttestation,
+    walletAdapter: OnchainWalletAdapter,
+    options: PrepareOffchainOptions = {}
+  ): Promise<OffchainSubmitResult> {
+    const api = this.requireApi();
+    const offchain = this.prepareOffchainAttestation(prepared, options);
+    const payload = await this.signOffchainAttestation(offchain, walletAdapter);
+    const response = await api.postAttestation(payload);
+
+    const result: OffchainSubmitResult = {
+      uid: response.uid || offchain.uid,
+      signer: payload.signer,
+      payload,
+      response
+    };
+
+    if (this.options.onSubmitted) {
+      try {
+        await this.options.onSubmitted(prepared, result);
+      } catch {
+        // The attestation is already accepted; a failing callback must not mask that
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Validate, prepare, sign, and submit up to 50 attestation rows offchain in one
+   * `postAttestationsBulk` request. Each row is signed separately by the wallet.
+   *
+   * @param rows - Raw row data or already-prepared attestations.
+   * @param walletAdapter - Adapter implementing `signTypedData` and `getAddress`.
+   * @param options - Offchain options applied to every row (a `salt` override is ignored).
+   * @returns Locally computed UIDs plus the API's accepted/duplicate counts.
+   * @throws `AttestValidationError` when any row fails validation.
+   */
+  async submitBulkOffchain(
+    rows: AttestationRowInput[] | PreparedAttestation[],
+    walletAdapter: OnchainWalletAdapter,
+    options: PrepareOffchainOptions = {}
+  ): Promise<BulkOffchainSubmitResult> {
+    const api = this.requireApi();
+    const preparedRows = await this.normalizeBulkPreparedRows(rows, 'submitBulkOffchain');
+    const time = options.time ?? Math.floor(Date.now() / 1000);
+
+    const payloads: AttestationPayload[] = [];
+    for (const prepared of preparedRows) {
+      const offchain = this.prepareOffchainAttestation(prepared, { ...options, time, salt: undefined });
+      payloads.push(await this.signOffchainAttestation(offchain, walletAdapter));
+    }
+
+    const response = await api.postAttestationsBulk({ attestations: payloads });
+
+    return {
+      uids: payloads.map((payload) => payload.sig.uid),
+      signer: payloads[0].signer,
+      accepted: response.accepted,
+      duplicates: response.duplicates,
+      failedValidation: response.failed_validation ?? [],
+      payloads,
+      response
+    };
+  }
+
+  /**
+   * Load an existing attestation back into an editable row, e.g. as `initialRow` for
+   * `useSingleAttestUI` or for CSV export. Tag values are converted back to their form/CSV
+   * representation (see `tagsToRow`), so the row can be validated and prepared again.
+   *
+   * @param source - Attestation UID (fetched with `getAttestations({ uid })`) or a REST record.
+   * @returns Row with `chain_id`, `address`, and one field per tag.
+   *
+   * @example
+   * ```ts
+   * const row = await oli.attest.preparedFromOnchain(uid);
+   * const ui = useSingleAttestUI(oli.attest, { initialRow: row });
+   * ```
+   */
+  async preparedFromOnchain(source: string | RestAttestationRecord): Promise<AttestationRowInput> {
+    const record = typeof source === 'string' ? await this.fetchAttestation(source, 'Loading an attestation') : source;
+    if (!record.chain_id || !record.recipient) {
+      throw new Error(`Attestation ${record.uid} has no chain_id or address.`);
+    }
+
+    return {
+      chain_id: record.chain_id,
+      address: record.recipient,
+      ...tagsToRow(record.tags_json ?? {})
+    };
+  }
+
+  /**
+   * Check that an onchain attestation returned by the REST API matches the EAS contract:
+   * the record's `tags_json` is re-encoded and compared with `getAttestation(uid)` read over
+   * `provider`, along with schema, attester, and revocation status.
+   *
+   * @param source - Attestation UID (fetched with `getAttestations({ uid })`) or a REST record.
+   * @param provider - EIP-1193 provider or viem client on the attestation network.
+   * @returns `valid` plus the mismatching fields.
+   *
+   * @example
+   * ```ts
+   * const check = await oli.attest.verifyAttestation(uid, createPublicClient({ chain: base, transport: http() }));
+   * if (!check.valid) console.warn(check.mismatches);
+   * ```
+   */
+  async verifyAttestation(
+    source: string | RestAttestationRecord,
+    provider: Eip1193ProviderLike
+  ): Promise<AttestationVerificationResult> {
+    const record = typeof source === 'string' ? await this.fetchAttestation(source, 'Verifying an attestation') : source;
+    return verifyAttestationRecord(record, provider);
+  }
+
+  /**
+   * Prepare a corrected label that supersedes an existing attestation.
+   * The existing record is fetched with `getAttestations({ uid })` and the patch is merged into its
+   * `tags_json` (`null` or `''` removes a tag). The correction is attested on the record's network
+   * (from `schema_info`) and references the old UID via `refUID` when the old attestation is
+   * onchain; EAS rejects a `refUID` that is not an onchain attestation on the same chain.
+   *
+   * @param existingUid - UID of the attestation to correct.
+   * @param patch - Tag values to change, add, or remove.
+   * @param options - Prepare options; the merged row is validated in `advancedProfile` mode by default.
+   * @returns Prepared attestation plus the superseded record.
+   * @throws `AttestValidationError` when the merged row fails validation, and an error when
+   * `attestationNetwork` differs from the record's network.
+   */
+  async prepareCorrection(
+    existingUid: string,
+    patch: Record<string, AttestationFieldValue>,
+    options: PrepareCorrectionOptions = {}
+  ): Promise<PreparedCorrection> {
+    const record = await this.fetchAttestation(existingUid, 'Preparing a correction');
+    if (!record.chain_id || !record.recipient) {
+      throw new Error(`Attestation ${record.uid} has no chain_id or address to correct.`);
+    }
+
+    const network = networkFromSchemaInfo(record.schema_info);
+    if (options.attestationNetwork !== undefined && options.attestationNetwork !== network.chainId) {
+      throw new Error(
+        `Attestation ${record.uid} is on ${network.name} (${network.chainId}); its correction must be attested on the same network.`
+      );
+    }
+
+    const row: AttestationRowInput = {
+      ...tagsToRow(record.tags_json ?? {}),
+      chain_id: record.chain_id,
+      address: record.recipient
+    };
+    Object.entries(patch).forEach(([field, value]) => {
+      if (value === null || value === undefined || value === '') {
+        delete row[field];
+      } else {
+        row[field] = value;
+      }
+    });
+
+    const prepared = await this.prepareSingleAttestation(row, {
+      mode: 'advancedProfile',
+      ...options,
+      attestationNetwork: network.chainId,
+      refUID: record.is_offchain ? undefined : record.uid
+    });
+
+    return { ...prepared, supersedes: record };
+  }
+
+  /**
+   * Submit a correction onchain and revoke the attestation it supersedes.
+   * When the adapter supports `sponsoredAttestAndRevoke`, both calls are sent as one sponsored
+   * batch; otherwise the attestation is submitted first and the old one revoked afterwards.
+   * Offchain predecessors are revoked with `multiRevokeOffchain`.
+   *
+   * @param correction - Result of `prepareCorrection`.
+   * @param walletAdapter - Wallet adapter; must be the original attester to revoke.
+   * @param options - `revoke: false` keeps the superseded attestation.
+   * @returns The new attestation result and, when sent separately, the revocation result.
+   */
+  async submitCorrectionOnchain(
+    correction: PreparedCorrection,
+    walletAdapter: OnchainWalletAdapter,
+    options: SubmitCorrectionOptions = {}
+  ): Promise<CorrectionSubmitResult> {
+    const revoke = options.revoke !== false && !correction.supersedes.revoked;
+    const onchainRevoke = revoke && !correction.supersedes.is_offchain;
+    const context = { network: correction.network };
+
+    const result = await submitCorrectionTransport(
+      { schemaUID: correction.network.schemaUID, data: correction.request, prepared: correction },
+      onchainRevoke
+        ? { schemaUID: correction.network.schemaUID, data: { uid: correction.supersedes.uid, value: BigInt(0) } }
+        : null,
+      walletAdapter,
+      context
+    );
+
+    if (revoke && !onchainRevoke && result.attestation.status !== 'failed') {
+      result.revocation = await revokeOffchainTransport([correction.supersedes.uid], walletAdapter, context);
+    }
+
+    if (result.attestation.status !== 'failed' && this.options.onSubmitted) {
+      try {
+        await this.options.onSubmitted(correction, result.attestation);
+      } catch {
+        // The attestation is already onchain; a failing callback must not mask that
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Revoke onchain attestations with `revoke` (one UID) or `multiRevoke` (up to 50 UIDs).
+   * Uses the sponsored variants when the adapter supports them, falling back to regular transactions.
+   *
+   * @param uids - Attestation UID or UIDs to revoke.
+   * @param walletAdapter - Adapter implementing `revoke`/`multiRevoke`; the wallet must be the original attester.
+   * @param options - Attestation network and schema of the attestations.
+   * @returns Onchain result with the revoked UIDs.
+   */
+  async revokeOnchain(
+    uids: string | string[],
+    walletAdapter: OnchainWalletAdapter,
+    options: RevokeOptions = {}
+  ): Promise<OnchainSubmitResult> {
+    const network = this.resolveRevocationNetwork(options);
+    const schemaUID = options.schemaUID ?? network.schemaUID;
+    const requests: OnchainRevocationRequest[] = this.normalizeUids(uids).map((uid) => ({
+      schemaUID,
+      data: { uid, value: BigInt(0) }
+    }));
+
+    return revokeOnchainTransport(requests, walletAdapter, { network });
+  }
+
+  /**
+   * Revoke offchain attestations by recording their UIDs with the EAS `multiRevokeOffchain` call.
+   * The revocation timestamp is tied to the wallet that signed the attestations.
+   *
+   * @param uids - Offchain attestation UID or UIDs (up to 50).
+   * @param walletAdapter - Adapter implementing `multiRevokeOffchain`.
+   * @param options - EAS network the revocation is recorded on.
+   * @returns Onchain result with the revoked UIDs.
+   */
+  async revokeOffchain(
+    uids: string | string[],
+    walletAdapter: OnchainWalletAdapter,
+    options: Pick<RevokeOptions, 'attestationNetwork'> = {}
+  ): Promise<OnchainSubmitResult> {
+    const network = this.resolveRevocationNetwork(options);
+    return revokeOffchainTransport(this.normalizeUids(uids), walletAdapter, { network });
+  }
+
+  private resolveRevocationNetwork(options: RevokeOptions) {
+    const networkId = options.attestationNetwork ?? this.options.defaultAttestationNetwork ?? DEFAULT_ATTESTATION_NETWORK;
+    if (!isSupportedAttestationNetwork(networkId)) {
+      throw new Error(`Unsupported attestation network: ${networkId}`);
+    }
+    return getAttestationNetworkConfig(networkId);
+  }
+
+  private async fetchAttestation(existingUid: string, action: string): Promise<RestAttestationRecord> {
+    const [uid] = this.normalizeUids(existingUid);
+    const response = await this.requireApi(action).getAttestations({ uid, limit: 1 });
+    const record = response.attestations.find((attestation) => attestation.uid.toLowerCase() === uid.toLowerCase());
+    if (!record) {
+      throw new Error(`Attestation ${uid} was not found.`);
+    }
+    return record;
+  }
+
+  private normalizeUids(uids: string | string[]): string[] {
+    const list = (Array.isArray(uids) ? uids : [uids]).map((uid) => uid.trim());
+    const invalid = list.find((uid) => !/^0x[0-9a-fA-F]{64}$/.test(uid));
+    if (invalid !== undefined) {
+      throw new Error(`Invalid attestation UID: "${invalid}". Expected a 32-byte hex string.`);
+    }
+    return list;
+  }
+
+  private requireApi(action = 'Offchain submission'): AttestationApi {
+    if (!this.options.api) {
+      throw new Error(`${action} requires an API client. Use OLIClient.attest or pass \`api\` to AttestClient.`);
+    }
+    return this.options.api;
   }
 
   /**
    * Validate, prepare, and submit up to 50 attestation rows in a single
    * `multiAttest` transaction.
    *
+   * Pass `options.chunkSize` to submit any number of rows as sequential batches instead.
+   * Each batch is recorded in a checkpoint handed to `onCheckpoint`; passing that checkpoint
+   * back as `options.checkpoint` skips batches that already succeeded or were submitted.
+   *
    * @param rows - Raw row data or already-prepared attestations.
    * @param walletAdapter - Wallet adapter that signs and broadcasts the transaction.
+   * @param options - Chunked mode options.
    * @returns Bulk onchain result with per-row status and UIDs.
    * @throws `AttestValidationError` when any row fails validation.
+   *
+   * @example
+   * ```ts
+   * const result = await oli.attest.submitBulkOnchain(rows, adapter, {
+   *   chunkSize: 50,
+   *   checkpoint: JSON.parse(localStorage.getItem('bulk') ?? 'null'),
+   *   onCheckpoint: (checkpoint) => localStorage.setItem('bulk', JSON.stringify(checkpoint)),
+   *   onProgress: ({ completedRows, totalRows }) => console.log(`${completedRows}/${totalRows}`)
+   * });
+   * ```
    */
   async submitBulkOnchain(
     rows: AttestationRowInput[] | PreparedAttestation[],
     walletAdapter: OnchainWalletAdapter
-  ): Promise<BulkOnchainSubmitResult> {
-    const preparedRows = await this.normalizeBulkPreparedRows(rows);
+  ): Promise<BulkOnchainSubmitResult>;
+  async submitBulkOnchain(
+    rows: AttestationRowInput[] | PreparedAttestation[],
+    walletAdapter: OnchainWalletAdapter,
+    options: ChunkedBulkSubmitOptions
+  ): Promise<ChunkedBulkOnchainSubmitResult>;
+  async submitBulkOnchain(
+    rows: AttestationRowInput[] | PreparedAttestation[],
+    walletAdapter: OnchainWalletAdapter,
+    options?: ChunkedBulkSubmitOptions
+  ): Promise<BulkOnchainSubmitResult | ChunkedBulkOnchainSubmitResult> {
+    const preparedRows = await this.normalizeBulkPreparedRows(rows, 'submitBulkOnchain', options ? Infinity : 50);
 
     const requests: OnchainAttestationRequest[] = preparedRows.map((prepared) => ({
       schemaUID: prepared.network.schemaUID,
@@ -228,36 +732,43 @@ export class AttestClient {
       prepared
     }));
 
-    return submitBulkTransport(requests, walletAdapter, {
-      network: preparedRows[0].network
-    });
+    const context = { network: preparedRows[0].network };
+    if (options) {
+      return submitBulkChunkedTransport(requests, walletAdapter, context, options);
+    }
+    return submitBulkTransport(requests, walletAdapter, context);
   }
 
+  /**
+   * Validate and prepare bulk rows for one network; `method` names the public caller in errors.
+   */
   private async normalizeBulkPreparedRows(
-    rows: AttestationRowInput[] | PreparedAttestation[]
+    rows: AttestationRowInput[] | PreparedAttestation[],
+    method: 'submitBulkOnchain' | 'submitBulkOffchain',
+    maxRows = 50
   ): Promise<PreparedAttestation[]> {
     if (!Array.isArray(rows) || rows.length === 0) {
-      throw new Error('submitBulkOnchain requires at least one row.');
+      throw new Error(`${method} requires at least one row.`);
     }
 
     const maybePrepared = rows as PreparedAttestation[];
     if (this.isPreparedAttestation(maybePrepared[0])) {
       const preparedRows = maybePrepared;
-      if (preparedRows.length > 50) {
-        throw new Error(`You can only submit up to 50 attestations at once. You currently have ${preparedRows.length} rows.`);
+      if (preparedRows.length > maxRows) {
+        throw new Error(`You can only submit up to ${maxRows} attestations at once. You currently have ${preparedRows.length} rows.`);
       }
 
       const networkId = preparedRows[0].network.chainId;
       const hasMixedNetwork = preparedRows.some((row) => row.network.chainId !== networkId);
       if (hasMixedNetwork) {
-        throw new Error('submitBulkOnchain does not support mixed attestation networks in one batch.');
+        throw new Error(`${method} does not support mixed attestation networks in one batch.`);
       }
       return preparedRows;
     }
 
     const rawRows = rows as AttestationRowInput[];
     const bulkValidation = await this.validateBulk(rawRows, {
-      maxRows: 50
+      maxRows
     });
 
     if (!bulkValidation.valid) {
@@ -270,11 +781,11 @@ export class AttestClient {
     });
 
     if (validRows.length === 0) {
-      throw new Error('No valid rows available for onchain submission.');
+      throw new Error(`No valid rows available for ${method}.`);
     }
 
-    if (validRows.length > 50) {
-      throw new Error(`You can only submit up to 50 attestations at once. You currently have ${validRows.length} rows.`);
+    if (validRows.length > maxRows) {
+      throw new Error(`You can only submit up to ${maxRows} attestations at once. You currently have ${validRows.length} rows.`);
     }
 
     const networkId =
@@ -288,7 +799,7 @@ export class AttestClient {
     });
 
     if (hasMixedNetwork) {
-      throw new Error('submitBulkOnchain does not support mixed attestation networks in one batch.');
+      throw new Error(`${method} does not support mixed attestation networks in one batch.`);
     }
 
     const preparedRows: PreparedAttestation[] = [];
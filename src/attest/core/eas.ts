@@ -11,7 +11,8 @@ const NETWORK_CONFIG: Record<number, AttestationNetworkConfig> = {
     easContractAddress: '0x4200000000000000000000000000000000000021',
     schemaUID: '0xcff83309b59685fdae9dad7c63d969150676d51d8eeda66799d1c4898b84556a',
     schemaDefinition: 'string caip10,string tags_json',
-    explorerUrl: 'https://base.easscan.org'
+    explorerUrl: 'https://base.easscan.org',
+    easVersion: '1.2.0'
   },
   42161: {
     chainId: 42161,
@@ -19,7 +20,8 @@ const NETWORK_CONFIG: Record<number, AttestationNetworkConfig> = {
     easContractAddress: '0xbD75f629A22Dc1ceD33dDA0b68c546A1c035c458',
     schemaUID: '0xcff83309b59685fdae9dad7c63d969150676d51d8eeda66799d1c4898b84556a',
     schemaDefinition: 'string caip10,string tags_json',
-    explorerUrl: 'https://arbitrum.easscan.org'
+    explorerUrl: 'https://arbitrum.easscan.org',
+    easVersion: '0.26'
   }
 };
 
@@ -37,6 +39,17 @@ export function getAttestationNetworkConfig(chainId: number = DEFAULT_ATTESTATIO
   return config;
 }
 
+/**
+ * Resolve the attestation network from a record's `schema_info` (`<chainId>__<schemaUID>`).
+ */
+export function networkFromSchemaInfo(schemaInfo: string): AttestationNetworkConfig {
+  const chainId = Number.parseInt(schemaInfo.split('__')[0], 10);
+  if (!Number.isFinite(chainId)) {
+    throw new Error(`Cannot determine the attestation network from schema_info "${schemaInfo}".`);
+  }
+  return getAttestationNetworkConfig(chainId);
+}
+
 export function getSupportedAttestationNetworks(): AttestationNetworkConfig[] {
   return Object.values(NETWORK_CONFIG);
 }
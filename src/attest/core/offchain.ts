@@ -0,0 +1,181 @@
+import { encodePacked, keccak256, parseSignature, toHex, zeroAddress } from 'viem';
+import type { AttestationDomain, AttestationMessage, AttestationSignatureFields, AttestationTypes } from '../../types/api';
+import type { AttestationNetworkConfig, OffchainAttestationTypedData, PreparedAttestation, PrepareOffchainOptions } from '../types';
+import { ZERO_BYTES32 } from './eas';
+
+/**
+ * Latest EAS offchain attestation format version. Version 0 (legacy) has neither `version`
+ * nor `salt` in the signed struct, version 1 adds `version`, version 2 adds `salt`.
+ */
+export const OFFCHAIN_ATTESTATION_VERSION = 2;
+
+const OFFCHAIN_DOMAIN_NAME = 'EAS Attestation';
+const DEFAULT_EAS_VERSION = '1.2.0';
+
+const LEGACY_ATTEST_FIELDS: AttestationTypes['Attest'] = [
+  { name: 'schema', type: 'bytes32' },
+  { name: 'recipient', type: 'address' },
+  { name: 'time', type: 'uint64' },
+  { name: 'expirationTime', type: 'uint64' },
+  { name: 'revocable', type: 'bool' },
+  { name: 'refUID', type: 'bytes32' },
+  { name: 'data', type: 'bytes' }
+];
+
+export const EAS_OFFCHAIN_ATTEST_TYPES: AttestationTypes = {
+  Attest: [{ name: 'version', type: 'uint16' }, ...LEGACY_ATTEST_FIELDS, { name: 'salt', type: 'bytes32' }]
+};
+
+/**
+ * `Attest` types for an offchain attestation format version.
+ */
+export function getOffchainAttestTypes(version: number): AttestationTypes {
+  if (version >= 2) return EAS_OFFCHAIN_ATTEST_TYPES;
+  if (version === 1) return { Attest: [{ name: 'version', type: 'uint16' }, ...LEGACY_ATTEST_FIELDS] };
+  return { Attest: LEGACY_ATTEST_FIELDS };
+}
+
+function compareVersions(a: string, b: string): number {
+  const left = a.split('.').map(part => parseInt(part, 10) || 0);
+  const right = b.split('.').map(part => parseInt(part, 10) || 0);
+  for (let index = 0; index < Math.max(left.length, right.length); index++) {
+    const diff = (left[index] ?? 0) - (right[index] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+/**
+ * Offchain attestation format an EAS contract version signs, following the EAS SDK:
+ * legacy (0) before 1.0.1, version 1 before 1.2.0, version 2 from 1.2.0.
+ * Arbitrum's EAS contract (0.26) therefore uses the legacy format.
+ */
+export function getOffchainAttestationVersion(easVersion: string): number {
+  if (compareVersions(easVersion, '1.0.1') < 0) return 0;
+  if (compareVersions(easVersion, '1.2.0') < 0) return 1;
+  return OFFCHAIN_ATTESTATION_VERSION;
+}
+
+export function createRandomSalt(): string {
+  const bytes = new Uint8Array(32);
+  globalThis.crypto.getRandomValues(bytes);
+  return toHex(bytes);
+}
+
+/**
+ * EIP-712 domain of the EAS contract on `network`.
+ */
+export function buildOffchainDomain(network: AttestationNetworkConfig, easVersion?: string): AttestationDomain {
+  return {
+    name: OFFCHAIN_DOMAIN_NAME,
+    version: easVersion ?? network.easVersion ?? DEFAULT_EAS_VERSION,
+    chainId: String(network.chainId),
+    verifyingContract: network.easContractAddress
+  };
+}
+
+/**
+ * Build the EAS `Attest` typed data for a prepared attestation, in the offchain format the
+ * network's EAS version signs. Only version 2 carries a salt; `options.salt` is ignored otherwise.
+ */
+export function buildOffchainTypedData(
+  prepared: PreparedAttestation,
+  options: PrepareOffchainOptions = {}
+): OffchainAttestationTypedData {
+  const domain = buildOffchainDomain(prepared.network, options.easVersion);
+  const version = getOffchainAttestationVersion(domain.version);
+  const message: AttestationMessage = {
+    version,
+    schema: prepared.network.schemaUID,
+    recipient: prepared.request.recipient,
+    time: String(options.time ?? Math.floor(Date.now() / 1000)),
+    expirationTime: String(options.expirationTime ?? 0),
+    revocable: prepared.request.revocable,
+    refUID: prepared.request.refUID ?? ZERO_BYTES32,
+    data: prepared.request.data
+  };
+
+  if (version >= 2) {
+    const salt = options.salt ?? createRandomSalt();
+    if (!/^0x[0-9a-fA-F]{64}$/.test(salt)) {
+      throw new Error('Offchain attestation salt must be a 32-byte hex string.');
+    }
+    message.salt = salt;
+  }
+
+  return { domain, types: getOffchainAttestTypes(version), primaryType: 'Attest', message };
+}
+
+/**
+ * Offchain attestation UID, computed the same way as the EAS SDK for the format in `message.version`.
+ */
+export function computeOffchainUid(message: AttestationMessage): string {
+  const fields = [
+    // EAS hashes the UTF-8 bytes of the schema UID string, not the bytes32 value
+    toHex(message.schema),
+    message.recipient as `0x${string}`,
+    zeroAddress,
+    BigInt(message.time),
+    BigInt(message.expirationTime),
+    message.revocable,
+    message.refUID as `0x${string}`,
+    message.data as `0x${string}`
+  ] as const;
+  const types = ['bytes', 'address', 'address', 'uint64', 'uint64', 'bool', 'bytes32', 'bytes'] as const;
+
+  if (message.version >= 2) {
+    return keccak256(encodePacked(['uint16', ...types, 'bytes32', 'uint32'], [message.version, ...fields, message.salt as `0x${string}`, 0]));
+  }
+  if (message.version === 1) {
+    return keccak256(encodePacked(['uint16', ...types, 'uint32'], [message.version, ...fields, 0]));
+  }
+  return keccak256(encodePacked([...types, 'uint32'], [...fields, 0]));
+}
+
+/**
+ * Split a 65-byte hex signature into the `{ r, s, v }` fields the OLI API expects.
+ */
+export function splitSignature(signature: string): AttestationSignatureFields {
+  const parsed = parseSignature(signature as `0x${string}`);
+  const v = parsed.v !== undefined ? Number(parsed.v) : 27 + (parsed.yParity ?? 0);
+  return { r: parsed.r, s: parsed.s, v };
+}
+
+/**
+ * Typed data with numeric fields as `bigint`/`number`, the form viem's `signTypedData` expects.
+ */
+export function toSignableTypedData(typedData: OffchainAttestationTypedData) {
+  return {
+    domain: {
+      ...typedData.domain,
+      chainId: Number(typedData.domain.chainId),
+      verifyingContract: typedData.domain.verifyingContract as `0x${string}`
+    },
+    types: typedData.types,
+    primaryType: typedData.primaryType,
+    message: {
+      ...typedData.message,
+      time: BigInt(typedData.message.time),
+      expirationTime: BigInt(typedData.message.expirationTime)
+    }
+  };
+}
+
+/**
+ * JSON string for `eth_signTypedData_v4`, including the `EIP712Domain` type.
+ */
+export function toTypedDataJson(typedData: OffchainAttestationTypedData): string {
+  return JSON.stringify({
+    ...typedData,
+    domain: { ...typedData.domain, chainId: Number(typedData.domain.chainId) },
+    types: {
+      EIP712Domain: [
+        { name: 'name', type: 'string' },
+        { name: 'version', type: 'string' },
+        { name: 'chainId', type: 'uint256' },
+        { name: 'verifyingContract', type: 'address' }
+      ],
+      ...typedData.types
+    }
+  });
+}
@@ -1,6 +1,7 @@
-import type { AttestationRowInput, OnchainAttestationRequestData } from '../types';
+import { decodeAbiParameters } from 'viem';
+import type { AttestationPrimitive, AttestationRowInput, OnchainAttestationRequestData } from '../types';
 import { ZERO_BYTES32 } from './eas';
-import { buildCaip10 } from './caip';
+import { buildCaip10, parseCaip10 } from './caip';
 
 const EXCLUDED_TAG_FIELDS = new Set(['chain_id', 'address', 'attestation_network']);
 
@@ -87,6 +88,92 @@ export function prepareTags(row: AttestationRowInput): Record<string, unknown> {
   return tags;
 }
 
+function isPrimitiveArray(value: unknown[]): value is AttestationPrimitive[] {
+  return value.every((item) => typeof item === 'string' || typeof item === 'number' || typeof item === 'boolean');
+}
+
+/**
+ * Turn a `tags_json` object back into form/CSV row values, undoing `prepareTags`: `erc_type`
+ * arrays become comma-separated strings, `deployment_date` gets its `T` separator back, and
+ * numeric tags become strings. Other arrays of strings, numbers, or booleans stay arrays.
+ *
+ * `prepareTags(tagsToRow(tags))` returns the original tags when they are in the form
+ * `prepareTags` produces. Objects and nested arrays have no row form and become JSON strings,
+ * so they come back as strings.
+ * @param tags - Decoded `tags_json` object.
+ */
+export function tagsToRow(tags: Record<string, unknown>): AttestationRowInput {
+  const row: AttestationRowInput = {};
+
+  Object.entries(tags)
+    .filter(([key, value]) => !EXCLUDED_TAG_FIELDS.has(key) && value !== undefined && value !== null)
+    .forEach(([key, value]) => {
+      if ((key === 'erc20.decimals' || key === 'version') && typeof value === 'number') {
+        row[key] = String(value);
+        return;
+      }
+
+      if (key === 'deployment_date' && typeof value === 'string') {
+        row[key] = value.replace(' ', 'T');
+        return;
+      }
+
+      if (key === 'erc_type' && Array.isArray(value)) {
+        row[key] = value.map((item) => String(item)).join(',');
+        return;
+      }
+
+      if (Array.isArray(value) && isPrimitiveArray(value)) {
+        row[key] = [...value];
+        return;
+      }
+
+      row[key] =
+        typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean'
+          ? value
+          : JSON.stringify(value);
+    });
+
+  return row;
+}
+
+/**
+ * Decode EAS attestation data (`string caip10, string tags_json`) back into a row, the inverse of
+ * `prepareEncodedData` followed by `prepareTags`.
+ * @param data - ABI-encoded attestation data as hex.
+ * @throws When the data is not OLI-encoded or `caip10`/`tags_json` cannot be parsed.
+ */
+export function decodeAttestationData(data: string): AttestationRowInput {
+  let caip10: string;
+  let tagsJson: string;
+  try {
+    [caip10, tagsJson] = decodeAbiParameters([{ type: 'string' }, { type: 'string' }], data as `0x${string}`);
+  } catch {
+    throw new Error('Attestation data is not an ABI-encoded (string caip10, string tags_json) tuple.');
+  }
+
+  const parts = parseCaip10(caip10);
+  if (!parts) {
+    throw new Error(`Attestation data contains an invalid CAIP-10 identifier: ${caip10}`);
+  }
+
+  let tags: unknown;
+  try {
+    tags = JSON.parse(tagsJson);
+  } catch {
+    throw new Error('Attestation data contains invalid tags_json.');
+  }
+  if (!tags || typeof tags !== 'object' || Array.isArray(tags)) {
+    throw new Error('Attestation data contains invalid tags_json.');
+  }
+
+  return {
+    chain_id: parts.chainId,
+    address: parts.address,
+    ...tagsToRow(tags as Record<string, unknown>)
+  };
+}
+
 export function prepareEncodedData(chainId: string, address: string, tags: Record<string, unknown>): string {
   const caip10 = buildCaip10(chainId, address);
   return encodeTwoStrings(caip10, JSON.stringify(tags));
@@ -0,0 +1,41 @@
+import { encodePacked, keccak256 } from 'viem';
+import type { OffchainUidOptions, OnchainUidOptions, PreparedAttestation } from '../types';
+import { ZERO_BYTES32 } from './eas';
+import { buildOffchainTypedData, computeOffchainUid } from './offchain';
+
+/**
+ * Compute the UID the EAS contract will assign to a prepared attestation, as in
+ * `EAS._getUID`: keccak256 over the packed attestation fields and the bump nonce.
+ *
+ * @param prepared - Attestation produced by `prepareSingleAttestation`.
+ * @param options - Attester, block time, and bump nonce.
+ */
+export function computeOnchainUid(prepared: PreparedAttestation, options: OnchainUidOptions): string {
+  return keccak256(
+    encodePacked(
+      ['bytes32', 'address', 'address', 'uint64', 'uint64', 'bool', 'bytes32', 'bytes', 'uint32'],
+      [
+        prepared.network.schemaUID as `0x${string}`,
+        prepared.request.recipient as `0x${string}`,
+        options.attester as `0x${string}`,
+        BigInt(options.time),
+        prepared.request.expirationTime,
+        prepared.request.revocable,
+        (prepared.request.refUID ?? ZERO_BYTES32) as `0x${string}`,
+        prepared.request.data as `0x${string}`,
+        options.nonce ?? 0
+      ]
+    )
+  );
+}
+
+/**
+ * Compute the offchain UID a prepared attestation gets when signed with the given time and salt.
+ * Matches `prepareOffchainAttestation(prepared, { time, salt }).uid`.
+ *
+ * @param prepared - Attestation produced by `prepareSingleAttestation`.
+ * @param options - Attestation time, salt, and optional expiration.
+ */
+export function computePreparedOffchainUid(prepared: PreparedAttestation, options: OffchainUidOptions): string {
+  return computeOffchainUid(buildOffchainTypedData(prepared, options).message);
+}
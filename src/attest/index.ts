@@ -1,6 +1,13 @@
 export { AttestClient } from './api';
 export { createDynamicWalletAdapter } from './transport/dynamic';
+export { createEip1193WalletAdapter } from './transport/eip1193';
+export { createViemWalletAdapter } from './transport/viem';
+export { createPrivateKeyWalletAdapter } from './transport/privateKey';
 export { simpleProfile, advancedProfile } from './core/profiles';
+export { computeOffchainUid } from './core/offchain';
+export { decodeAttestationData, tagsToRow } from './core/payload';
+export { computeOnchainUid, computePreparedOffchainUid } from './core/uid';
+export { verifyAttestationRecord, verifyOffchainAttestation } from './validation/verify';
 
 export type {
   AttestationFieldValue,
@@ -25,7 +32,35 @@ export type {
   OnchainTxResult,
   OnchainWalletAdapter,
   OnchainSubmitResult,
-  BulkOnchainSubmitResult
+  BulkOnchainSubmitResult,
+  AttestationSimulationResult,
+  OnchainRevocationRequest,
+  OnchainRevocationRequestData,
+  RevokeOptions,
+  OffchainAttestationTypedData,
+  PrepareOffchainOptions,
+  PreparedOffchainAttestation,
+  AttestationApi,
+  OffchainSubmitResult,
+  BulkOffchainSubmitResult,
+  PrepareCorrectionOptions,
+  PreparedCorrection,
+  SubmitCorrectionOptions,
+  CorrectionSubmitResult,
+  BulkSubmitBatch,
+  BulkSubmitCheckpoint,
+  BulkSubmitProgress,
+  ChunkedBulkSubmitOptions,
+  ChunkedBulkOnchainSubmitResult,
+  ExistingLabelCheckOptions,
+  ExistingLabelAction,
+  ExistingLabelDifference,
+  ExistingLabelRowCheck,
+  OnchainUidOptions,
+  OffchainUidOptions,
+  AttestationVerificationMismatch,
+  AttestationVerificationResult
 } from './types';
+export type { Eip1193ProviderLike } from './transport/eip1193';
 
 export { AttestValidationError } from './types';
@@ -1,31 +1,18 @@
-import { encodeFunctionData } from 'viem';
-import type {
-  OnchainAttestationRequest,
-  OnchainSubmitContext,
-  OnchainTxResult,
-  OnchainWalletAdapter
-} from '../types';
-import {
-  BASE_CHAIN_IDS,
-  getDefaultCoinbasePaymasterUrl,
-  isSupportedAttestationNetwork
-} from '../core/eas';
-import { EAS_ATTEST_ABI } from './easAbi';
-import { extractUidsFromReceipt, getTransactionHash, normalizeReceiptStatus, waitForTransactionReceipt } from './utils';
-
-const CALL_STATUS_TIMEOUT_MS = 120_000;
-const CALL_STATUS_POLL_INTERVAL_MS = 1_500;
-
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
+import type { OffchainAttestationTypedData, OnchainSubmitContext, OnchainTxResult, OnchainWalletAdapter } from '../types';
+import { BASE_CHAIN_IDS, isSupportedAttestationNetwork } from '../core/eas';
+import { toSignableTypedData, toTypedDataJson } from '../core/offchain';
+import { EAS_ABI, EasWalletAdapter, encodeEasCall } from './easAdapter';
+import type { EasCall } from './easAdapter';
+import { extractUidsFromReceipt, normalizeReceiptStatus, settleCalls, waitForTransactionReceipt } from './utils';
 
 export interface DynamicWalletClientLike {
   chain?: { id?: number };
+  account?: { address?: string };
   getChainId?: () => Promise<number>;
   writeContract?: (params: Record<string, unknown>) => Promise<string>;
   sendCalls?: (params: Record<string, unknown>) => Promise<unknown>;
   waitForCallsStatus?: (params: { id: string }) => Promise<unknown>;
+  signTypedData?: (params: Record<string, unknown>) => Promise<string>;
   request?: (payload: { method: string; params?: unknown[] }) => Promise<unknown>;
   transport?: {
     request?: (payload: { method: string; params?: unknown[] }) => Promise<unknown>;
@@ -40,15 +27,17 @@ export interface DynamicPrimaryWalletLike {
   getWalletClient: () => Promise<DynamicWalletClientLike>;
 }
 
-class DynamicWalletAdapter implements OnchainWalletAdapter {
+class DynamicWalletAdapter extends EasWalletAdapter {
   public readonly name = 'dynamic-wallet-adapter';
 
   constructor(
     private readonly primaryWallet: DynamicPrimaryWalletLike,
-    private readonly options: {
+    options: {
       paymasterUrl?: string;
     } = {}
-  ) {}
+  ) {
+    super(options);
+  }
 
   private async getWalletClient(): Promise<DynamicWalletClientLike> {
     const client = await this.primaryWallet.getWalletClient();
@@ -70,154 +59,8 @@ class DynamicWalletAdapter implements OnchainWalletAdapter {
     throw new Error('Dynamic wallet client does not expose an RPC request interface.');
   }
 
-  private resolvePaymasterUrl(context: OnchainSubmitContext): string | undefined {
-    return context.paymasterUrl ?? this.options.paymasterUrl ?? getDefaultCoinbasePaymasterUrl();
-  }
-
-  private getCallsId(result: unknown): string | null {
-    if (typeof result === 'string' && result.trim()) {
-      return result;
-    }
-
-    if (!result || typeof result !== 'object') {
-      return null;
-    }
-
-    const payload = result as Record<string, unknown>;
-    const id = payload.id ?? payload.callsId ?? payload.callId;
-    return typeof id === 'string' && id.trim() ? id : null;
-  }
-
-  private extractReceiptsFromCallsStatus(payload: unknown): unknown[] {
-    if (!payload || typeof payload !== 'object') {
-      return [];
-    }
-
-    const objectPayload = payload as Record<string, unknown>;
-    const directReceipts = objectPayload.receipts;
-    if (Array.isArray(directReceipts)) {
-      return directReceipts;
-    }
-
-    const txReceipts = objectPayload.transactionReceipts;
-    if (Array.isArray(txReceipts)) {
-      return txReceipts;
-    }
-
-    const receipts = objectPayload.results;
-    if (Array.isArray(receipts)) {
-      const collected = receipts
-        .map((entry) => (entry && typeof entry === 'object' ? (entry as Record<string, unknown>).receipt : undefined))
-        .filter((entry) => entry !== undefined);
-
-      if (collected.length > 0) {
-        return collected;
-      }
-    }
-
-    return [];
-  }
-
-  private isCallsStatusTerminal(payload: unknown): boolean {
-    if (!payload || typeof payload !== 'object') {
-      return false;
-    }
-
-    const objectPayload = payload as Record<string, unknown>;
-    if (this.extractReceiptsFromCallsStatus(objectPayload).length > 0) {
-      return true;
-    }
-
-    if (objectPayload.error !== undefined) {
-      return true;
-    }
-
-    const status = objectPayload.status;
-    if (typeof status === 'string') {
-      const normalized = status.toLowerCase();
-      if (
-        normalized === 'confirmed' ||
-        normalized === 'completed' ||
-        normalized === 'success' ||
-        normalized === 'failed' ||
-        normalized === 'reverted' ||
-        normalized === '0x1' ||
-        normalized === '0x0'
-      ) {
-        return true;
-      }
-
-      if (
-        normalized === 'pending' ||
-        normalized === 'queued' ||
-        normalized === 'in_progress' ||
-        normalized === 'processing'
-      ) {
-        return false;
-      }
-    }
-
-    if (typeof status === 'number') {
-      // EIP-5792 implementations commonly use 100 (pending), 200 (confirmed), 500 (failed)
-      return status >= 200 || status === 0 || status === 1;
-    }
-
-    if (typeof status === 'bigint') {
-      return status >= BigInt(200) || status === BigInt(0) || status === BigInt(1);
-    }
-
-    return false;
-  }
-
-  private normalizeCallsStatus(payload: unknown): 'success' | 'failed' | 'submitted' {
-    const receipts = this.extractReceiptsFromCallsStatus(payload);
-    if (receipts.length > 0) {
-      return normalizeReceiptStatus(receipts[0]);
-    }
-
-    if (!payload || typeof payload !== 'object') {
-      return 'submitted';
-    }
-
-    const status = (payload as Record<string, unknown>).status;
-    if (typeof status === 'string') {
-      const normalized = status.toLowerCase();
-      if (normalized === 'confirmed' || normalized === 'completed' || normalized === 'success' || normalized === '0x1') {
-        return 'success';
-      }
-      if (normalized === 'failed' || normalized === 'reverted' || normalized === '0x0') {
-        return 'failed';
-      }
-    }
-
-    if (typeof status === 'number') {
-      if (status === 200 || status === 1) return 'success';
-      if (status >= 400 || status === 0) return 'failed';
-    }
-
-    if (typeof status === 'bigint') {
-      if (status === BigInt(200) || status === BigInt(1)) return 'success';
-      if (status >= BigInt(400) || status === BigInt(0)) return 'failed';
-    }
-
-    return 'submitted';
-  }
-
-  private async waitForCallsStatus(client: DynamicWalletClientLike, callsId: string): Promise<unknown> {
-    if (typeof client.waitForCallsStatus === 'function') {
-      return client.waitForCallsStatus({ id: callsId });
-    }
-
-    const deadline = Date.now() + CALL_STATUS_TIMEOUT_MS;
-    while (Date.now() < deadline) {
-      const payload = await this.rpcRequest(client, 'wallet_getCallsStatus', [callsId]);
-      if (this.isCallsStatusTerminal(payload)) {
-        return payload;
-      }
-      await sleep(CALL_STATUS_POLL_INTERVAL_MS);
-    }
-
-    throw new Error(`Timed out waiting for sendCalls status: ${callsId}`);
+  async request(args: { method: string; params?: unknown[] }): Promise<unknown> {
+    return this.rpcRequest(await this.getWalletClient(), args.method, args.params);
   }
 
   async getChainId(): Promise<number> {
@@ -258,6 +101,40 @@ class DynamicWalletAdapter implements OnchainWalletAdapter {
     throw new Error('Dynamic wallet cannot switch networks programmatically.');
   }
 
+  async getAddress(): Promise<string> {
+    if (this.primaryWallet.address) {
+      return this.primaryWallet.address;
+    }
+
+    const client = await this.getWalletClient();
+    if (client.account?.address) {
+      return client.account.address;
+    }
+
+    const accounts = await this.rpcRequest(client, 'eth_accounts');
+    if (!Array.isArray(accounts) || typeof accounts[0] !== 'string') {
+      throw new Error('Unable to determine wallet address.');
+    }
+
+    return accounts[0];
+  }
+
+  async signTypedData(typedData: OffchainAttestationTypedData): Promise<string> {
+    const client = await this.getWalletClient();
+    const address = await this.getAddress();
+
+    if (typeof client.signTypedData === 'function') {
+      return client.signTypedData({ account: address, ...toSignableTypedData(typedData) });
+    }
+
+    const signature = await this.rpcRequest(client, 'eth_signTypedData_v4', [address, toTypedDataJson(typedData)]);
+    if (typeof signature !== 'string') {
+      throw new Error('Wallet returned an invalid typed data signature.');
+    }
+
+    return signature;
+  }
+
   async isSponsorshipSupported(chainId: number): Promise<boolean> {
     const walletName = this.primaryWallet.connector?.name?.toLowerCase() ?? '';
     const isCoinbase =
@@ -268,13 +145,10 @@ class DynamicWalletAdapter implements OnchainWalletAdapter {
     return isCoinbase && BASE_CHAIN_IDS.includes(chainId as (typeof BASE_CHAIN_IDS)[number]);
   }
 
-  private async executeWrite(
-    requestParams: {
-      functionName: 'attest' | 'multiAttest';
-      args: unknown[];
-    },
+  protected async executeWrite(
+    requestParams: EasCall,
     context: OnchainSubmitContext,
-    sponsored: boolean
+    sponsored = false
   ): Promise<OnchainTxResult> {
     const client = await this.getWalletClient();
 
@@ -284,23 +158,16 @@ class DynamicWalletAdapter implements OnchainWalletAdapter {
 
     const writeParams: Record<string, unknown> = {
       address: context.network.easContractAddress,
-      abi: EAS_ATTEST_ABI,
+      abi: EAS_ABI,
       functionName: requestParams.functionName,
       args: requestParams.args,
       value: BigInt(0)
     };
 
     if (sponsored) {
-      const paymasterUrl = this.resolvePaymasterUrl(context);
-      if (!paymasterUrl) {
-        throw new Error(
-          'Sponsorship requested but no paymaster URL is configured. ' +
-          'Set OLI_COINBASE_PAYMASTER_URL in your environment or pass paymasterUrl in the adapter/context options.'
-        );
-      }
       writeParams.capabilities = {
         paymasterService: {
-          url: paymasterUrl
+          url: this.requirePaymasterUrl(context)
         }
       };
     }
@@ -316,41 +183,28 @@ class DynamicWalletAdapter implements OnchainWalletAdapter {
     };
   }
 
-  private async executeSponsoredCall(
-    requestParams: {
-      functionName: 'attest' | 'multiAttest';
-      args: unknown[];
-    },
+  protected async executeSponsoredCall(
+    requestParams: EasCall | EasCall[],
     context: OnchainSubmitContext
   ): Promise<OnchainTxResult> {
     const client = await this.getWalletClient();
 
     if (typeof client.sendCalls !== 'function') {
+      if (Array.isArray(requestParams)) {
+        throw new Error('Dynamic wallet client does not support batched calls (wallet_sendCalls).');
+      }
       return this.executeWrite(requestParams, context, true);
     }
 
-    const paymasterUrl = this.resolvePaymasterUrl(context);
-    if (!paymasterUrl) {
-      throw new Error(
-        'Sponsorship requested but no paymaster URL is configured. ' +
-        'Set OLI_COINBASE_PAYMASTER_URL in your environment or pass paymasterUrl in the adapter/context options.'
-      );
-    }
-
-    const encodedData = encodeFunctionData({
-      abi: EAS_ATTEST_ABI,
-      functionName: requestParams.functionName,
-      args: requestParams.args as never
-    });
+    const paymasterUrl = this.requirePaymasterUrl(context);
+    const calls = (Array.isArray(requestParams) ? requestParams : [requestParams]).map((call) => ({
+      to: context.network.easContractAddress,
+      data: encodeEasCall(call),
+      value: BigInt(0)
+    }));
 
     const callsResult = await client.sendCalls({
-      calls: [
-        {
-          to: context.network.easContractAddress,
-          data: encodedData,
-          value: BigInt(0)
-        }
-      ],
+      calls,
       capabilities: {
         paymasterService: {
           url: paymasterUrl
@@ -358,107 +212,7 @@ class DynamicWalletAdapter implements OnchainWalletAdapter {
       }
     });
 
-    const callsId = this.getCallsId(callsResult);
-    const callsStatus = callsId ? await this.waitForCallsStatus(client, callsId) : callsResult;
-
-    const receipts = this.extractReceiptsFromCallsStatus(callsStatus);
-    const firstReceipt = receipts[0];
-
-    const txHash =
-      (firstReceipt ? getTransactionHash(firstReceipt) : undefined) ??
-      getTransactionHash(callsStatus) ??
-      getTransactionHash(callsResult);
-
-    const uids = receipts.flatMap((receipt) => extractUidsFromReceipt(receipt, context.network.easContractAddress));
-
-    return {
-      status: this.normalizeCallsStatus(callsStatus),
-      txHash,
-      uids,
-      raw: {
-        callsResult,
-        callsStatus,
-        receipts
-      }
-    };
-  }
-
-  async attest(request: OnchainAttestationRequest, context: OnchainSubmitContext): Promise<OnchainTxResult> {
-    return this.executeWrite(
-      {
-        functionName: 'attest',
-        args: [
-          {
-            schema: request.schemaUID,
-            data: request.data
-          }
-        ]
-      },
-      context,
-      false
-    );
-  }
-
-  async sponsoredAttest(request: OnchainAttestationRequest, context: OnchainSubmitContext): Promise<OnchainTxResult> {
-    return this.executeSponsoredCall(
-      {
-        functionName: 'attest',
-        args: [
-          {
-            schema: request.schemaUID,
-            data: request.data
-          }
-        ]
-      },
-      context
-    );
-  }
-
-  async multiAttest(requests: OnchainAttestationRequest[], context: OnchainSubmitContext): Promise<OnchainTxResult> {
-    if (requests.length === 0) {
-      throw new Error('multiAttest requires at least one request.');
-    }
-
-    const schemaUID = requests[0].schemaUID;
-
-    return this.executeWrite(
-      {
-        functionName: 'multiAttest',
-        args: [
-          [
-            {
-              schema: schemaUID,
-              data: requests.map((request) => request.data)
-            }
-          ]
-        ]
-      },
-      context,
-      false
-    );
-  }
-
-  async sponsoredMultiAttest(requests: OnchainAttestationRequest[], context: OnchainSubmitContext): Promise<OnchainTxResult> {
-    if (requests.length === 0) {
-      throw new Error('sponsoredMultiAttest requires at least one request.');
-    }
-
-    const schemaUID = requests[0].schemaUID;
-
-    return this.executeSponsoredCall(
-      {
-        functionName: 'multiAttest',
-        args: [
-          [
-            {
-              schema: schemaUID,
-              data: requests.map((request) => request.data)
-            }
-          ]
-        ]
-      },
-      context
-    );
+    return settleCalls(client as unknown as Record<string, unknown>, callsResult, context.network.easContractAddress);
   }
 }
 
@@ -58,3 +58,123 @@ export const EAS_ATTEST_ABI = [
     type: 'function'
   }
 ] as const;
+
+export const EAS_REVOKE_ABI = [
+  {
+    inputs: [
+      {
+        components: [
+          { internalType: 'bytes32', name: 'schema', type: 'bytes32' },
+          {
+            components: [
+              { internalType: 'bytes32', name: 'uid', type: 'bytes32' },
+              { internalType: 'uint256', name: 'value', type: 'uint256' }
+            ],
+            internalType: 'struct RevocationRequestData',
+            name: 'data',
+            type: 'tuple'
+          }
+        ],
+        internalType: 'struct RevocationRequest',
+        name: 'request',
+        type: 'tuple'
+      }
+    ],
+    name: 'revoke',
+    outputs: [],
+    stateMutability: 'payable',
+    type: 'function'
+  },
+  {
+    inputs: [
+      {
+        components: [
+          { internalType: 'bytes32', name: 'schema', type: 'bytes32' },
+          {
+            components: [
+              { internalType: 'bytes32', name: 'uid', type: 'bytes32' },
+              { internalType: 'uint256', name: 'value', type: 'uint256' }
+            ],
+            internalType: 'struct RevocationRequestData[]',
+            name: 'data',
+            type: 'tuple[]'
+          }
+        ],
+        internalType: 'struct MultiRevocationRequest[]',
+        name: 'multiRequests',
+        type: 'tuple[]'
+      }
+    ],
+    name: 'multiRevoke',
+    outputs: [],
+    stateMutability: 'payable',
+    type: 'function'
+  },
+  {
+    inputs: [{ internalType: 'bytes32', name: 'data', type: 'bytes32' }],
+    name: 'revokeOffchain',
+    outputs: [{ internalType: 'uint64', name: '', type: 'uint64' }],
+    stateMutability: 'nonpayable',
+    type: 'function'
+  },
+  {
+    inputs: [{ internalType: 'bytes32[]', name: 'data', type: 'bytes32[]' }],
+    name: 'multiRevokeOffchain',
+    outputs: [{ internalType: 'uint64', name: '', type: 'uint64' }],
+    stateMutability: 'nonpayable',
+    type: 'function'
+  }
+] as const;
+
+export const EAS_READ_ABI = [
+  {
+    inputs: [{ internalType: 'bytes32', name: 'uid', type: 'bytes32' }],
+    name: 'getAttestation',
+    outputs: [
+      {
+        components: [
+          { internalType: 'bytes32', name: 'uid', type: 'bytes32' },
+          { internalType: 'bytes32', name: 'schema', type: 'bytes32' },
+          { internalType: 'uint64', name: 'time', type: 'uint64' },
+          { internalType: 'uint64', name: 'expirationTime', type: 'uint64' },
+          { internalType: 'uint64', name: 'revocationTime', type: 'uint64' },
+          { internalType: 'bytes32', name: 'refUID', type: 'bytes32' },
+          { internalType: 'address', name: 'recipient', type: 'address' },
+          { internalType: 'address', name: 'attester', type: 'address' },
+          { internalType: 'bool', name: 'revocable', type: 'bool' },
+          { internalType: 'bytes', name: 'data', type: 'bytes' }
+        ],
+        internalType: 'struct Attestation',
+        name: '',
+        type: 'tuple'
+      }
+    ],
+    stateMutability: 'view',
+    type: 'function'
+  }
+] as const;
+
+export const EAS_EVENTS_ABI = [
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'address', name: 'recipient', type: 'address' },
+      { indexed: true, internalType: 'address', name: 'attester', type: 'address' },
+      { indexed: false, internalType: 'bytes32', name: 'uid', type: 'bytes32' },
+      { indexed: true, internalType: 'bytes32', name: 'schemaUID', type: 'bytes32' }
+    ],
+    name: 'Attested',
+    type: 'event'
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'address', name: 'recipient', type: 'address' },
+      { indexed: true, internalType: 'address', name: 'attester', type: 'address' },
+      { indexed: false, internalType: 'bytes32', name: 'uid', type: 'bytes32' },
+      { indexed: true, internalType: 'bytes32', name: 'schemaUID', type: 'bytes32' }
+    ],
+    name: 'Revoked',
+    type: 'event'
+  }
+] as const;
@@ -0,0 +1,170 @@
+import { encodeFunctionData } from 'viem';
+import type {
+  OffchainAttestationTypedData,
+  OnchainAttestationRequest,
+  OnchainRevocationRequest,
+  OnchainSubmitContext,
+  OnchainTxResult,
+  OnchainWalletAdapter
+} from '../types';
+import { getDefaultCoinbasePaymasterUrl } from '../core/eas';
+import { EAS_ATTEST_ABI, EAS_REVOKE_ABI } from './easAbi';
+
+export const EAS_ABI = [...EAS_ATTEST_ABI, ...EAS_REVOKE_ABI] as const;
+
+export type EasFunctionName = 'attest' | 'multiAttest' | 'revoke' | 'multiRevoke' | 'multiRevokeOffchain';
+
+export interface EasCall {
+  functionName: EasFunctionName;
+  args: unknown[];
+}
+
+export function encodeEasCall(call: EasCall): `0x${string}` {
+  return encodeFunctionData({
+    abi: EAS_ABI,
+    functionName: call.functionName,
+    args: call.args as never
+  });
+}
+
+/**
+ * Shared `OnchainWalletAdapter` implementation: maps every EAS operation to an `EasCall` and
+ * leaves sending it to the wallet-specific subclass.
+ */
+export abstract class EasWalletAdapter implements OnchainWalletAdapter {
+  public abstract readonly name: string;
+
+  constructor(protected readonly adapterOptions: { paymasterUrl?: string } = {}) {}
+
+  abstract getChainId(): Promise<number>;
+  abstract switchNetwork(chainId: number): Promise<void>;
+  abstract getAddress(): Promise<string>;
+  abstract signTypedData(typedData: OffchainAttestationTypedData): Promise<string>;
+  abstract isSponsorshipSupported(chainId: number): Promise<boolean>;
+  abstract request(args: { method: string; params?: unknown[] }): Promise<unknown>;
+
+  /** Send one EAS call as a regular transaction and wait for its receipt. */
+  protected abstract executeWrite(call: EasCall, context: OnchainSubmitContext): Promise<OnchainTxResult>;
+
+  /** Send EAS calls as one sponsored EIP-5792 call batch and wait for it to settle. */
+  protected abstract executeSponsoredCall(calls: EasCall | EasCall[], context: OnchainSubmitContext): Promise<OnchainTxResult>;
+
+  protected resolvePaymasterUrl(context?: OnchainSubmitContext): string | undefined {
+    return context?.paymasterUrl ?? this.adapterOptions.paymasterUrl ?? getDefaultCoinbasePaymasterUrl();
+  }
+
+  protected requirePaymasterUrl(context: OnchainSubmitContext): string {
+    const paymasterUrl = this.resolvePaymasterUrl(context);
+    if (!paymasterUrl) {
+      throw new Error(
+        'Sponsorship requested but no paymaster URL is configured. ' +
+        'Set OLI_COINBASE_PAYMASTER_URL in your environment or pass paymasterUrl in the adapter/context options.'
+      );
+    }
+    return paymasterUrl;
+  }
+
+  async attest(request: OnchainAttestationRequest, context: OnchainSubmitContext): Promise<OnchainTxResult> {
+    return this.executeWrite(attestCall(request), context);
+  }
+
+  async sponsoredAttest(request: OnchainAttestationRequest, context: OnchainSubmitContext): Promise<OnchainTxResult> {
+    return this.executeSponsoredCall(attestCall(request), context);
+  }
+
+  async multiAttest(requests: OnchainAttestationRequest[], context: OnchainSubmitContext): Promise<OnchainTxResult> {
+    if (requests.length === 0) {
+      throw new Error('multiAttest requires at least one request.');
+    }
+
+    return this.executeWrite(multiAttestCall(requests), context);
+  }
+
+  async sponsoredMultiAttest(requests: OnchainAttestationRequest[], context: OnchainSubmitContext): Promise<OnchainTxResult> {
+    if (requests.length === 0) {
+      throw new Error('sponsoredMultiAttest requires at least one request.');
+    }
+
+    return this.executeSponsoredCall(multiAttestCall(requests), context);
+  }
+
+  async sponsoredAttestAndRevoke(
+    attestRequest: OnchainAttestationRequest,
+    revokeRequest: OnchainRevocationRequest,
+    context: OnchainSubmitContext
+  ): Promise<OnchainTxResult> {
+    return this.executeSponsoredCall([attestCall(attestRequest), revokeCall(revokeRequest)], context);
+  }
+
+  async revoke(request: OnchainRevocationRequest, context: OnchainSubmitContext): Promise<OnchainTxResult> {
+    return this.executeWrite(revokeCall(request), context);
+  }
+
+  async sponsoredRevoke(request: OnchainRevocationRequest, context: OnchainSubmitContext): Promise<OnchainTxResult> {
+    return this.executeSponsoredCall(revokeCall(request), context);
+  }
+
+  async multiRevoke(requests: OnchainRevocationRequest[], context: OnchainSubmitContext): Promise<OnchainTxResult> {
+    if (requests.length === 0) {
+      throw new Error('multiRevoke requires at least one request.');
+    }
+
+    return this.executeWrite(multiRevokeCall(requests), context);
+  }
+
+  async sponsoredMultiRevoke(requests: OnchainRevocationRequest[], context: OnchainSubmitContext): Promise<OnchainTxResult> {
+    if (requests.length === 0) {
+      throw new Error('sponsoredMultiRevoke requires at least one request.');
+    }
+
+    return this.executeSponsoredCall(multiRevokeCall(requests), context);
+  }
+
+  async multiRevokeOffchain(uids: string[], context: OnchainSubmitContext): Promise<OnchainTxResult> {
+    return this.executeWrite({ functionName: 'multiRevokeOffchain', args: [uids] }, context);
+  }
+
+  async sponsoredMultiRevokeOffchain(uids: string[], context: OnchainSubmitContext): Promise<OnchainTxResult> {
+    return this.executeSponsoredCall({ functionName: 'multiRevokeOffchain', args: [uids] }, context);
+  }
+}
+
+export function attestCall(request: OnchainAttestationRequest): EasCall {
+  return {
+    functionName: 'attest',
+    args: [
+      {
+        schema: request.schemaUID,
+        data: request.data
+      }
+    ]
+  };
+}
+
+export function multiAttestCall(requests: OnchainAttestationRequest[]): EasCall {
+  return {
+    functionName: 'multiAttest',
+    args: [
+      [
+        {
+          schema: requests[0].schemaUID,
+          data: requests.map((request) => request.data)
+        }
+      ]
+    ]
+  };
+}
+
+function revokeCall(request: OnchainRevocationRequest): EasCall {
+  return {
+    functionName: 'revoke',
+    args: [{ schema: request.schemaUID, data: request.data }]
+  };
+}
+
+function multiRevokeCall(requests: OnchainRevocationRequest[]): EasCall {
+  return {
+    functionName: 'multiRevoke',
+    args: [[{ schema: requests[0].schemaUID, data: requests.map((request) => request.data) }]]
+  };
+}
@@ -0,0 +1,181 @@
+import type { OffchainAttestationTypedData, OnchainSubmitContext, OnchainTxResult, OnchainWalletAdapter } from '../types';
+import { isSupportedAttestationNetwork } from '../core/eas';
+import { toTypedDataJson } from '../core/offchain';
+import { EasWalletAdapter, encodeEasCall } from './easAdapter';
+import type { EasCall } from './easAdapter';
+import {
+  extractUidsFromReceipt,
+  hasPaymasterCapability,
+  normalizeReceiptStatus,
+  settleCalls,
+  waitForTransactionReceipt
+} from './utils';
+
+export interface Eip1193ProviderLike {
+  request(args: { method: string; params?: unknown[] }): Promise<unknown>;
+}
+
+export interface Eip1193WalletAdapterOptions {
+  /** Account to attest from. Defaults to the provider's first account. */
+  account?: string;
+  /** Paymaster used for sponsored calls. Falls back to `OLI_COINBASE_PAYMASTER_URL`. */
+  paymasterUrl?: string;
+}
+
+function toHexChainId(chainId: number): string {
+  return `0x${chainId.toString(16)}`;
+}
+
+class Eip1193WalletAdapter extends EasWalletAdapter {
+  public readonly name = 'eip1193-wallet-adapter';
+
+  constructor(
+    private readonly provider: Eip1193ProviderLike,
+    private readonly options: Eip1193WalletAdapterOptions = {}
+  ) {
+    super(options);
+  }
+
+  private send(method: string, params: unknown[] = []): Promise<unknown> {
+    return this.provider.request({ method, params });
+  }
+
+  async getChainId(): Promise<number> {
+    const chainIdHex = await this.send('eth_chainId');
+    if (typeof chainIdHex !== 'string') {
+      throw new Error('Unable to determine wallet chain ID.');
+    }
+
+    return Number.parseInt(chainIdHex, 16);
+  }
+
+  async switchNetwork(chainId: number): Promise<void> {
+    if (!isSupportedAttestationNetwork(chainId)) {
+      throw new Error(`Unsupported attestation network: ${chainId}`);
+    }
+
+    if ((await this.getChainId()) === chainId) {
+      return;
+    }
+
+    await this.send('wallet_switchEthereumChain', [{ chainId: toHexChainId(chainId) }]);
+  }
+
+  async getAddress(): Promise<string> {
+    if (this.options.account) {
+      return this.options.account;
+    }
+
+    let accounts = await this.send('eth_accounts');
+    if (!Array.isArray(accounts) || accounts.length === 0) {
+      accounts = await this.send('eth_requestAccounts');
+    }
+    if (!Array.isArray(accounts) || typeof accounts[0] !== 'string') {
+      throw new Error('Unable to determine wallet address.');
+    }
+
+    return accounts[0];
+  }
+
+  async signTypedData(typedData: OffchainAttestationTypedData): Promise<string> {
+    const signature = await this.send('eth_signTypedData_v4', [await this.getAddress(), toTypedDataJson(typedData)]);
+    if (typeof signature !== 'string') {
+      throw new Error('Wallet returned an invalid typed data signature.');
+    }
+
+    return signature;
+  }
+
+  async isSponsorshipSupported(chainId: number): Promise<boolean> {
+    if (!this.resolvePaymasterUrl()) {
+      return false;
+    }
+
+    try {
+      const capabilities = await this.send('wallet_getCapabilities', [await this.getAddress(), [toHexChainId(chainId)]]);
+      return hasPaymasterCapability(capabilities, chainId);
+    } catch {
+      // Wallets without EIP-5792 reject wallet_getCapabilities
+      return false;
+    }
+  }
+
+  async request(args: { method: string; params?: unknown[] }): Promise<unknown> {
+    return this.provider.request({ method: args.method, params: args.params ?? [] });
+  }
+
+  protected async executeWrite(call: EasCall, context: OnchainSubmitContext): Promise<OnchainTxResult> {
+    const txHash = await this.send('eth_sendTransaction', [
+      {
+        from: await this.getAddress(),
+        to: context.network.easContractAddress,
+        data: encodeEasCall(call),
+        value: '0x0'
+      }
+    ]);
+    if (typeof txHash !== 'string') {
+      throw new Error('Wallet returned an invalid transaction hash.');
+    }
+
+    const receipt = await waitForTransactionReceipt(this.provider as unknown as Record<string, unknown>, txHash);
+
+    return {
+      status: normalizeReceiptStatus(receipt),
+      txHash,
+      uids: extractUidsFromReceipt(receipt, context.network.easContractAddress),
+      raw: receipt
+    };
+  }
+
+  protected async executeSponsoredCall(calls: EasCall | EasCall[], context: OnchainSubmitContext): Promise<OnchainTxResult> {
+    const callsResult = await this.send('wallet_sendCalls', [
+      {
+        version: '2.0.0',
+        chainId: toHexChainId(context.network.chainId),
+        from: await this.getAddress(),
+        atomicRequired: true,
+        calls: (Array.isArray(calls) ? calls : [calls]).map((call) => ({
+          to: context.network.easContractAddress,
+          data: encodeEasCall(call),
+          value: '0x0'
+        })),
+        capabilities: {
+          paymasterService: {
+            url: this.requirePaymasterUrl(context)
+          }
+        }
+      }
+    ]);
+
+    return settleCalls(this.provider as unknown as Record<string, unknown>, callsResult, context.network.easContractAddress);
+  }
+}
+
+/**
+ * Create an `OnchainWalletAdapter` from any EIP-1193 provider (`window.ethereum`, MetaMask,
+ * WalletConnect, or a wagmi connector's provider).
+ *
+ * Regular transactions use `eth_sendTransaction`. Sponsored calls use EIP-5792 `wallet_sendCalls`
+ * with a paymaster and are offered when the wallet reports `paymasterService` support through
+ * `wallet_getCapabilities` and a paymaster URL is configured.
+ *
+ * @param provider - EIP-1193 provider exposing `request({ method, params })`.
+ * @param options.account - Account to attest from; defaults to the provider's first account.
+ * @param options.paymasterUrl - Paymaster URL for sponsored calls.
+ *   Falls back to the `OLI_COINBASE_PAYMASTER_URL` environment variable.
+ * @returns An `OnchainWalletAdapter` compatible with all `AttestClient` submission methods.
+ *
+ * @example
+ * ```ts
+ * import { createEip1193WalletAdapter } from '@openlabels/oli-sdk';
+ *
+ * const adapter = createEip1193WalletAdapter(window.ethereum);
+ * await oli.attest.submitSingleOnchain(prepared, adapter);
+ * ```
+ */
+export function createEip1193WalletAdapter(
+  provider: Eip1193ProviderLike,
+  options: Eip1193WalletAdapterOptions = {}
+): OnchainWalletAdapter {
+  return new Eip1193WalletAdapter(provider, options);
+}
@@ -0,0 +1,378 @@
+import { privateKeyToAccount } from 'viem/accounts';
+import type { OffchainAttestationTypedData, OnchainSubmitContext, OnchainTxResult, OnchainWalletAdapter } from '../types';
+import { isSupportedAttestationNetwork } from '../core/eas';
+import { toSignableTypedData } from '../core/offchain';
+import { EasWalletAdapter, encodeEasCall } from './easAdapter';
+import type { EasCall } from './easAdapter';
+import { extractUidsFromReceipt, normalizeReceiptStatus } from './utils';
+
+export interface PrivateKeyWalletAdapterOptions {
+  /** 32-byte hex private key of the attester */
+  privateKey: string;
+  /** JSON-RPC endpoint, or one endpoint per EVM chain ID to attest on several networks */
+  rpcUrl: string | Record<number, string>;
+  /**
+   * Chain ID the node reports per attestation network, for local forks: `{ 8453: 31337 }` lets
+   * `anvil --fork-url <Base RPC>` or a Hardhat fork stand in for Base. Transactions are signed for the fork's chain ID.
+   */
+  forkChainIds?: Record<number, number>;
+  /** Multiplier applied to `eth_estimateGas` (default: 1.2) */
+  gasLimitMultiplier?: number;
+  /** Resend with higher fees when a transaction is not mined within this time (default: 60s) */
+  feeBumpAfterMs?: number;
+  /** Fee multiplier per bump; nodes require at least 1.1 to replace a transaction (default: 1.125) */
+  feeBumpMultiplier?: number;
+  /** Maximum number of fee bumps per transaction (default: 3) */
+  maxFeeBumps?: number;
+  /** Blocks to wait for after inclusion (default: 1) */
+  confirmations?: number;
+  /** Give up waiting and return `status: 'submitted'` after this time (default: 5 minutes) */
+  timeoutMs?: number;
+  /** Receipt polling interval (default: 2s) */
+  pollIntervalMs?: number;
+  fetch?: typeof fetch;
+}
+
+interface TransactionFees {
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+  gasPrice?: bigint;
+}
+
+const DEFAULT_PRIORITY_FEE = BigInt(1_000_000_000);
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function toBigInt(value: unknown, field: string): bigint {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    throw new Error(`JSON-RPC response is missing ${field}.`);
+  }
+  return BigInt(value);
+}
+
+function scale(value: bigint, multiplier: number): bigint {
+  return (value * BigInt(Math.round(multiplier * 1000)) + BigInt(999)) / BigInt(1000);
+}
+
+function isNonceTooLow(error: unknown): boolean {
+  return error instanceof Error && /nonce too low/i.test(error.message);
+}
+
+class PrivateKeyWalletAdapter extends EasWalletAdapter {
+  public readonly name = 'private-key-wallet-adapter';
+
+  private readonly account: ReturnType<typeof privateKeyToAccount>;
+  private readonly nonces = new Map<number, number>();
+  private readonly rpcChainIds = new Map<string, number>();
+  private queue: Promise<unknown> = Promise.resolve();
+  private currentChainId: number | null = null;
+  private requestId = 0;
+
+  constructor(private readonly options: PrivateKeyWalletAdapterOptions) {
+    super();
+    if (!/^0x[0-9a-fA-F]{64}$/.test(options.privateKey)) {
+      throw new Error('privateKey must be a 32-byte hex string.');
+    }
+    this.account = privateKeyToAccount(options.privateKey as `0x${string}`);
+
+    if (typeof options.rpcUrl !== 'string') {
+      const chainIds = Object.keys(options.rpcUrl).map(Number);
+      if (chainIds.length === 0) {
+        throw new Error('rpcUrl must name at least one endpoint.');
+      }
+      this.currentChainId = chainIds[0];
+    }
+  }
+
+  private resolveRpcUrl(chainId: number): string {
+    const { rpcUrl } = this.options;
+    if (typeof rpcUrl === 'string') {
+      return rpcUrl;
+    }
+
+    const url = rpcUrl[chainId];
+    if (!url) {
+      throw new Error(`No rpcUrl configured for chain ${chainId}.`);
+    }
+    return url;
+  }
+
+  /** Chain ID the node behind an attestation network's rpcUrl reports and signs for */
+  private nodeChainId(chainId: number): number {
+    return this.options.forkChainIds?.[chainId] ?? chainId;
+  }
+
+  private async rpc(url: string, method: string, params: unknown[] = []): Promise<unknown> {
+    const fetchImpl = this.options.fetch ?? fetch;
+    this.requestId += 1;
+    const response = await fetchImpl(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: this.requestId, method, params })
+    });
+    if (!response.ok) {
+      throw new Error(`JSON-RPC request ${method} failed with HTTP ${response.status}.`);
+    }
+
+    const payload = (await response.json()) as { result?: unknown; error?: { code?: number; message?: string } };
+    if (payload.error) {
+      const error = new Error(payload.error.message ?? `JSON-RPC request ${method} failed.`) as Error & { code?: number };
+      error.code = payload.error.code;
+      throw error;
+    }
+    return payload.result;
+  }
+
+  private async getRpcChainId(url: string): Promise<number> {
+    const cached = this.rpcChainIds.get(url);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const chainId = Number(toBigInt(await this.rpc(url, 'eth_chainId'), 'eth_chainId'));
+    this.rpcChainIds.set(url, chainId);
+    return chainId;
+  }
+
+  /** Serialize nonce allocation and broadcasting so concurrent submissions get distinct nonces. */
+  private runExclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async nextNonce(url: string, chainId: number): Promise<number> {
+    const cached = this.nonces.get(chainId);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const nonce = Number(toBigInt(await this.rpc(url, 'eth_getTransactionCount', [this.account.address, 'pending']), 'nonce'));
+    this.nonces.set(chainId, nonce);
+    return nonce;
+  }
+
+  private async estimateFees(url: string): Promise<TransactionFees> {
+    const block = (await this.rpc(url, 'eth_getBlockByNumber', ['latest', false])) as { baseFeePerGas?: string } | null;
+    if (!block?.baseFeePerGas) {
+      return { gasPrice: toBigInt(await this.rpc(url, 'eth_gasPrice'), 'gasPrice') };
+    }
+
+    let maxPriorityFeePerGas = DEFAULT_PRIORITY_FEE;
+    try {
+      maxPriorityFeePerGas = toBigInt(await this.rpc(url, 'eth_maxPriorityFeePerGas'), 'maxPriorityFeePerGas');
+    } catch {
+      // Not every node implements eth_maxPriorityFeePerGas
+    }
+
+    return {
+      maxFeePerGas: BigInt(block.baseFeePerGas) * BigInt(2) + maxPriorityFeePerGas,
+      maxPriorityFeePerGas
+    };
+  }
+
+  private async broadcast(
+    url: string,
+    chainId: number,
+    tx: { to: `0x${string}`; data: `0x${string}`; nonce: number; gas: bigint },
+    fees: TransactionFees
+  ): Promise<string> {
+    const base = { chainId, to: tx.to, data: tx.data, nonce: tx.nonce, gas: tx.gas, value: BigInt(0) };
+    const serialized =
+      fees.gasPrice !== undefined
+        ? await this.account.signTransaction({ ...base, type: 'legacy', gasPrice: fees.gasPrice })
+        : await this.account.signTransaction({
+            ...base,
+            type: 'eip1559',
+            maxFeePerGas: fees.maxFeePerGas!,
+            maxPriorityFeePerGas: fees.maxPriorityFeePerGas!
+          });
+
+    const hash = await this.rpc(url, 'eth_sendRawTransaction', [serialized]);
+    if (typeof hash !== 'string') {
+      throw new Error('JSON-RPC endpoint returned an invalid transaction hash.');
+    }
+    return hash;
+  }
+
+  private bumpFees(fees: TransactionFees): TransactionFees {
+    const multiplier = this.options.feeBumpMultiplier ?? 1.125;
+    if (fees.gasPrice !== undefined) {
+      return { gasPrice: scale(fees.gasPrice, multiplier) };
+    }
+    return {
+      maxFeePerGas: scale(fees.maxFeePerGas!, multiplier),
+      maxPriorityFeePerGas: scale(fees.maxPriorityFeePerGas!, multiplier)
+    };
+  }
+
+  private async findReceipt(url: string, hashes: string[]): Promise<Record<string, unknown> | null> {
+    for (const hash of hashes) {
+      const receipt = await this.rpc(url, 'eth_getTransactionReceipt', [hash]);
+      if (receipt && typeof receipt === 'object') {
+        return receipt as Record<string, unknown>;
+      }
+    }
+    return null;
+  }
+
+  async getChainId(): Promise<number> {
+    if (this.currentChainId !== null) {
+      return this.currentChainId;
+    }
+    return this.getRpcChainId(this.resolveRpcUrl(0));
+  }
+
+  async switchNetwork(chainId: number): Promise<void> {
+    if (!isSupportedAttestationNetwork(chainId)) {
+      throw new Error(
+        `Unsupported attestation network: ${chainId}. For a local fork, switch to the forked network and map it with forkChainIds, e.g. { 8453: ${chainId} }.`
+      );
+    }
+
+    const url = this.resolveRpcUrl(chainId);
+    const rpcChainId = await this.getRpcChainId(url);
+    if (rpcChainId !== this.nodeChainId(chainId)) {
+      throw new Error(`rpcUrl for chain ${chainId} is connected to chain ${rpcChainId}.`);
+    }
+    this.currentChainId = chainId;
+  }
+
+  async getAddress(): Promise<string> {
+    return this.account.address;
+  }
+
+  async signTypedData(typedData: OffchainAttestationTypedData): Promise<string> {
+    return this.account.signTypedData(toSignableTypedData(typedData) as never);
+  }
+
+  async isSponsorshipSupported(): Promise<boolean> {
+    return false;
+  }
+
+  async request(args: { method: string; params?: unknown[] }): Promise<unknown> {
+    return this.rpc(this.resolveRpcUrl(await this.getChainId()), args.method, args.params);
+  }
+
+  protected async executeWrite(call: EasCall, context: OnchainSubmitContext): Promise<OnchainTxResult> {
+    const chainId = context.network.chainId;
+    const url = this.resolveRpcUrl(chainId);
+    const to = context.network.easContractAddress as `0x${string}`;
+    const data = encodeEasCall(call);
+
+    const { tx, fees, hash } = await this.runExclusive(async () => {
+      const estimate = toBigInt(
+        await this.rpc(url, 'eth_estimateGas', [{ from: this.account.address, to, data, value: '0x0' }]),
+        'gas estimate'
+      );
+      const gas = scale(estimate, this.options.gasLimitMultiplier ?? 1.2);
+      const initialFees = await this.estimateFees(url);
+
+      for (let attempt = 0; ; attempt += 1) {
+        const prepared = { to, data, nonce: await this.nextNonce(url, chainId), gas };
+        try {
+          const sent = await this.broadcast(url, this.nodeChainId(chainId), prepared, initialFees);
+          this.nonces.set(chainId, prepared.nonce + 1);
+          return { tx: prepared, fees: initialFees, hash: sent };
+        } catch (error) {
+          // Re-read the pending nonce; another process may have sent from this key
+          this.nonces.delete(chainId);
+          if (attempt > 0 || !isNonceTooLow(error)) {
+            throw error;
+          }
+        }
+      }
+    });
+
+    return this.waitForConfirmation(url, this.nodeChainId(chainId), tx, fees, hash, context);
+  }
+
+  private async waitForConfirmation(
+    url: string,
+    chainId: number,
+    tx: { to: `0x${string}`; data: `0x${string}`; nonce: number; gas: bigint },
+    initialFees: TransactionFees,
+    initialHash: string,
+    context: OnchainSubmitContext
+  ): Promise<OnchainTxResult> {
+    const pollIntervalMs = this.options.pollIntervalMs ?? 2_000;
+    const bumpAfterMs = this.options.feeBumpAfterMs ?? 60_000;
+    const maxFeeBumps = this.options.maxFeeBumps ?? 3;
+    const confirmations = Math.max(1, this.options.confirmations ?? 1);
+    const deadline = Date.now() + (this.options.timeoutMs ?? 300_000);
+
+    const hashes = [initialHash];
+    let fees = initialFees;
+    let bumps = 0;
+    let lastSentAt = Date.now();
+
+    while (Date.now() < deadline) {
+      const receipt = await this.findReceipt(url, hashes);
+      if (receipt) {
+        const minedIn = toBigInt(receipt.blockNumber, 'blockNumber');
+        const head = toBigInt(await this.rpc(url, 'eth_blockNumber'), 'blockNumber');
+        if (head - minedIn + BigInt(1) >= BigInt(confirmations)) {
+          return {
+            status: normalizeReceiptStatus(receipt),
+            txHash: typeof receipt.transactionHash === 'string' ? receipt.transactionHash : hashes[hashes.length - 1],
+            uids: extractUidsFromReceipt(receipt, context.network.easContractAddress),
+            raw: receipt
+          };
+        }
+      } else if (bumps < maxFeeBumps && Date.now() - lastSentAt >= bumpAfterMs) {
+        fees = this.bumpFees(fees);
+        bumps += 1;
+        lastSentAt = Date.now();
+        try {
+          hashes.push(await this.broadcast(url, chainId, tx, fees));
+        } catch {
+          // The original transaction may have been mined meanwhile ("nonce too low"); keep polling
+        }
+      }
+
+      await sleep(pollIntervalMs);
+    }
+
+    return {
+      status: 'submitted',
+      txHash: hashes[hashes.length - 1],
+      uids: [],
+      raw: { hashes }
+    };
+  }
+
+  protected async executeSponsoredCall(): Promise<OnchainTxResult> {
+    throw new Error('The private key adapter does not support sponsored transactions.');
+  }
+}
+
+/**
+ * Create an `OnchainWalletAdapter` that signs with a private key and talks to any JSON-RPC
+ * endpoint: a hosted provider, or a local Anvil/Hardhat node in tests. Intended for backends
+ * and bots without a browser wallet.
+ *
+ * Nonces are tracked locally and allocated one transaction at a time. Gas limits come from
+ * `eth_estimateGas`; fees use EIP-1559 when the chain reports a base fee and `eth_gasPrice`
+ * otherwise. Transactions that are not mined within `feeBumpAfterMs` are resent with the same
+ * nonce and higher fees. The adapter also signs offchain attestations for the REST path.
+ *
+ * @param options.privateKey - Attester private key. Keep it out of browser bundles.
+ * @param options.rpcUrl - JSON-RPC endpoint, or `{ [chainId]: url }` for several networks.
+ * @returns An `OnchainWalletAdapter` compatible with all `AttestClient` submission methods.
+ *
+ * @example
+ * ```ts
+ * import { createPrivateKeyWalletAdapter } from '@openlabels/oli-sdk';
+ *
+ * const adapter = createPrivateKeyWalletAdapter({
+ *   privateKey: process.env.ATTESTER_PRIVATE_KEY!,
+ *   rpcUrl: 'https://mainnet.base.org'
+ * });
+ * await oli.attest.submitBulkOnchain(rows, adapter);
+ * ```
+ */
+export function createPrivateKeyWalletAdapter(options: PrivateKeyWalletAdapterOptions): OnchainWalletAdapter {
+  return new PrivateKeyWalletAdapter(options);
+}
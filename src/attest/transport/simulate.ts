@@ -0,0 +1,89 @@
+import type { AttestationSimulationResult, OnchainAttestationRequest, OnchainSubmitContext, OnchainWalletAdapter } from '../types';
+import { attestCall, encodeEasCall, multiAttestCall } from './easAdapter';
+
+function toBigInt(value: unknown, method: string): bigint {
+  if (typeof value !== 'string' && typeof value !== 'number' && typeof value !== 'bigint') {
+    throw new Error(`${method} returned an invalid value.`);
+  }
+  return BigInt(value);
+}
+
+/** Return the revert message, or `null` when the error is a transport failure rather than a revert. */
+function toRevertReason(error: unknown): string | null {
+  let current = error as { code?: unknown; shortMessage?: unknown; message?: unknown; cause?: unknown } | undefined;
+  for (let depth = 0; current && typeof current === 'object' && depth < 5; depth += 1) {
+    const message = typeof current.shortMessage === 'string' ? current.shortMessage : current.message;
+    // JSON-RPC error code 3 is "execution reverted"; older nodes only say so in the message
+    if (current.code === 3 || (typeof message === 'string' && /revert/i.test(message))) {
+      return typeof message === 'string' ? message : 'execution reverted';
+    }
+    current = current.cause as typeof current;
+  }
+  return null;
+}
+
+/**
+ * Run the `attest` (single request) or `multiAttest` (array) call a submission would send through
+ * `eth_call` and `eth_estimateGas` without broadcasting it.
+ */
+export async function simulateOnchain(
+  requests: OnchainAttestationRequest | OnchainAttestationRequest[],
+  walletAdapter: OnchainWalletAdapter,
+  context: OnchainSubmitContext
+): Promise<AttestationSimulationResult> {
+  if (typeof walletAdapter.request !== 'function' || typeof walletAdapter.getAddress !== 'function') {
+    throw new Error(`${walletAdapter.name ?? 'Wallet adapter'} does not support simulation (request/getAddress).`);
+  }
+  if (Array.isArray(requests) && requests.length === 0) {
+    throw new Error('simulate requires at least one attestation.');
+  }
+
+  const call = Array.isArray(requests) ? multiAttestCall(requests) : attestCall(requests);
+  const calldata = encodeEasCall(call);
+  const request = walletAdapter.request.bind(walletAdapter);
+
+  // Estimates are only meaningful on the chain the attestation will be sent to
+  if ((await walletAdapter.getChainId()) !== context.network.chainId) {
+    await walletAdapter.switchNetwork(context.network.chainId);
+  }
+
+  const from = await walletAdapter.getAddress();
+  const canUseSponsorship =
+    typeof walletAdapter.isSponsorshipSupported === 'function'
+      ? await walletAdapter.isSponsorshipSupported(context.network.chainId)
+      : false;
+  const sponsoredMethod = Array.isArray(requests) ? walletAdapter.sponsoredMultiAttest : walletAdapter.sponsoredAttest;
+
+  const result: AttestationSimulationResult = {
+    functionName: call.functionName as AttestationSimulationResult['functionName'],
+    to: context.network.easContractAddress,
+    from,
+    calldata,
+    calldataSize: (calldata.length - 2) / 2,
+    success: true,
+    sponsored: canUseSponsorship && typeof sponsoredMethod === 'function',
+    network: {
+      chainId: context.network.chainId,
+      name: context.network.name,
+      explorerUrl: context.network.explorerUrl
+    }
+  };
+
+  const tx = { from, to: context.network.easContractAddress, data: calldata, value: '0x0' };
+  try {
+    await request({ method: 'eth_call', params: [tx, 'latest'] });
+    result.gasEstimate = toBigInt(await request({ method: 'eth_estimateGas', params: [tx] }), 'eth_estimateGas');
+  } catch (error) {
+    const revertReason = toRevertReason(error);
+    if (revertReason === null) {
+      throw error;
+    }
+    result.success = false;
+    result.revertReason = revertReason;
+    return result;
+  }
+
+  result.gasPrice = toBigInt(await request({ method: 'eth_gasPrice', params: [] }), 'eth_gasPrice');
+  result.estimatedCost = result.gasEstimate * result.gasPrice;
+  return result;
+}
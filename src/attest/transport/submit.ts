@@ -1,11 +1,19 @@
+import { keccak256, toHex } from 'viem';
 import type {
   BulkOnchainSubmitResult,
+  BulkSubmitBatch,
+  BulkSubmitCheckpoint,
+  ChunkedBulkOnchainSubmitResult,
+  ChunkedBulkSubmitOptions,
+  CorrectionSubmitResult,
   OnchainAttestationRequest,
+  OnchainRevocationRequest,
   OnchainSubmitContext,
   OnchainSubmitResult,
   OnchainTxResult,
   OnchainWalletAdapter
 } from '../types';
+import { getErrorTransactionHash, isPreSubmissionError } from './utils';
 
 function normalizeTxResult(result: OnchainTxResult | undefined): OnchainTxResult {
   if (!result) {
@@ -23,6 +31,11 @@ function normalizeTxResult(result: OnchainTxResult | undefined): OnchainTxResult
   };
 }
 
+/**
+ * Run the sponsored call when available and fall back to a regular transaction only when the
+ * sponsored call failed before anything was broadcast; resending after e.g. a calls-status
+ * timeout could attest twice.
+ */
 async function executeWithFallback(
   executeSponsored: (() => Promise<OnchainTxResult>) | null,
   executeRegular: () => Promise<OnchainTxResult>
@@ -39,7 +52,10 @@ async function executeWithFallback(
       result: await executeSponsored(),
       sponsored: true
     };
-  } catch {
+  } catch (error) {
+    if (!isPreSubmissionError(error)) {
+      throw error;
+    }
     return {
       result: await executeRegular(),
       sponsored: false
@@ -116,7 +132,7 @@ export async function submitBulkOnchain(
   const resultRows = requests.map((_, index) => ({
     row: index,
     uid: normalized.uids?.[index],
-    status: normalized.status === 'failed' ? 'failed' : 'success'
+    status: normalized.status === 'failed' ? ('failed' as const) : ('success' as const)
   }));
 
   return {
@@ -133,3 +149,306 @@ export async function submitBulkOnchain(
     raw: normalized.raw
   };
 }
+
+async function canUseSponsorship(walletAdapter: OnchainWalletAdapter, chainId: number): Promise<boolean> {
+  return typeof walletAdapter.isSponsorshipSupported === 'function'
+    ? walletAdapter.isSponsorshipSupported(chainId)
+    : false;
+}
+
+function toSubmitResult(
+  result: OnchainTxResult,
+  sponsored: boolean,
+  uids: string[],
+  context: OnchainSubmitContext
+): OnchainSubmitResult {
+  const normalized = normalizeTxResult(result);
+  return {
+    status: normalized.status,
+    txHash: normalized.txHash,
+    uids,
+    sponsored,
+    network: {
+      chainId: context.network.chainId,
+      name: context.network.name,
+      explorerUrl: context.network.explorerUrl
+    },
+    raw: normalized.raw
+  };
+}
+
+export async function revokeOnchain(
+  requests: OnchainRevocationRequest[],
+  walletAdapter: OnchainWalletAdapter,
+  context: OnchainSubmitContext,
+  options: {
+    maxRows?: number;
+  } = {}
+): Promise<OnchainSubmitResult> {
+  const maxRows = options.maxRows ?? 50;
+  if (requests.length === 0) {
+    throw new Error('revokeOnchain requires at least one UID.');
+  }
+
+  if (requests.length > maxRows) {
+    throw new Error(`You can only revoke up to ${maxRows} attestations at once.`);
+  }
+
+  const single = requests.length === 1;
+  const regular = single ? walletAdapter.revoke : walletAdapter.multiRevoke;
+  if (typeof regular !== 'function') {
+    throw new Error(`${walletAdapter.name ?? 'Wallet adapter'} does not support ${single ? 'revoke' : 'multiRevoke'}.`);
+  }
+
+  await walletAdapter.switchNetwork(context.network.chainId);
+
+  const sponsoredFn = single ? walletAdapter.sponsoredRevoke : walletAdapter.sponsoredMultiRevoke;
+  const sponsoredExec =
+    typeof sponsoredFn === 'function' && (await canUseSponsorship(walletAdapter, context.network.chainId))
+      ? () => (single ? walletAdapter.sponsoredRevoke!(requests[0], context) : walletAdapter.sponsoredMultiRevoke!(requests, context))
+      : null;
+
+  const { result, sponsored } = await executeWithFallback(sponsoredExec, () =>
+    single ? walletAdapter.revoke!(requests[0], context) : walletAdapter.multiRevoke!(requests, context)
+  );
+
+  return toSubmitResult(result, sponsored, requests.map((request) => request.data.uid), context);
+}
+
+export async function revokeOffchain(
+  uids: string[],
+  walletAdapter: OnchainWalletAdapter,
+  context: OnchainSubmitContext,
+  options: {
+    maxRows?: number;
+  } = {}
+): Promise<OnchainSubmitResult> {
+  const maxRows = options.maxRows ?? 50;
+  if (uids.length === 0) {
+    throw new Error('revokeOffchain requires at least one UID.');
+  }
+
+  if (uids.length > maxRows) {
+    throw new Error(`You can only revoke up to ${maxRows} attestations at once.`);
+  }
+
+  if (typeof walletAdapter.multiRevokeOffchain !== 'function') {
+    throw new Error(`${walletAdapter.name ?? 'Wallet adapter'} does not support multiRevokeOffchain.`);
+  }
+
+  await walletAdapter.switchNetwork(context.network.chainId);
+
+  const sponsoredExec =
+    typeof walletAdapter.sponsoredMultiRevokeOffchain === 'function' &&
+    (await canUseSponsorship(walletAdapter, context.network.chainId))
+      ? () => walletAdapter.sponsoredMultiRevokeOffchain!(uids, context)
+      : null;
+
+  const { result, sponsored } = await executeWithFallback(sponsoredExec, () =>
+    walletAdapter.multiRevokeOffchain!(uids, context)
+  );
+
+  return toSubmitResult(result, sponsored, uids, context);
+}
+
+export async function submitCorrectionOnchain(
+  attestRequest: OnchainAttestationRequest,
+  revokeRequest: OnchainRevocationRequest | null,
+  walletAdapter: OnchainWalletAdapter,
+  context: OnchainSubmitContext
+): Promise<CorrectionSubmitResult> {
+  if (revokeRequest && typeof walletAdapter.sponsoredAttestAndRevoke === 'function') {
+    await walletAdapter.switchNetwork(context.network.chainId);
+    if (await canUseSponsorship(walletAdapter, context.network.chainId)) {
+      try {
+        const result = await walletAdapter.sponsoredAttestAndRevoke(attestRequest, revokeRequest, context);
+        const normalized = normalizeTxResult(result);
+        // Receipts carry both the Attested and Revoked UIDs; keep only the new attestation
+        const uids = (normalized.uids ?? []).filter((uid) => uid.toLowerCase() !== revokeRequest.data.uid.toLowerCase());
+        return {
+          attestation: toSubmitResult(result, true, uids, context),
+          batched: true
+        };
+      } catch (error) {
+        // Fall back to separate attest and revoke transactions only when nothing was broadcast;
+        // a timeout after sending the batch would otherwise attest twice
+        if (!isPreSubmissionError(error)) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  const attestation = await submitSingleOnchain(attestRequest, walletAdapter, context);
+  if (!revokeRequest || attestation.status === 'failed') {
+    return { attestation, batched: false };
+  }
+
+  const revocation = await revokeOnchain([revokeRequest], walletAdapter, context);
+  return { attestation, revocation, batched: false };
+}
+
+const MAX_BULK_ROWS = 50;
+
+function fingerprintRequests(requests: OnchainAttestationRequest[], chainId: number): string {
+  const rows = requests.map(
+    (request) => `${request.schemaUID}:${request.data.recipient}:${request.data.refUID ?? ''}:${request.data.data}`
+  );
+  return keccak256(toHex(`${chainId}\n${rows.join('\n')}`));
+}
+
+function resumeCheckpoint(
+  checkpoint: BulkSubmitCheckpoint,
+  fingerprint: string,
+  chunkSize: number,
+  totalRows: number
+): BulkSubmitCheckpoint {
+  if (checkpoint.version !== 1 || checkpoint.fingerprint !== fingerprint || checkpoint.totalRows !== totalRows) {
+    throw new Error('Bulk submission checkpoint does not match these rows. Resume with the rows the checkpoint was created for.');
+  }
+  if (checkpoint.chunkSize !== chunkSize) {
+    throw new Error(`Bulk submission checkpoint was created with chunkSize ${checkpoint.chunkSize}; resume with the same chunkSize.`);
+  }
+  return { ...checkpoint, batches: checkpoint.batches.map((batch) => ({ ...batch, uids: [...batch.uids] })) };
+}
+
+/**
+ * Submit any number of requests as sequential `multiAttest` batches of `chunkSize` rows,
+ * recording every batch in a checkpoint so an interrupted run can resume without resending
+ * batches that already landed.
+ */
+export async function submitBulkOnchainChunked(
+  requests: OnchainAttestationRequest[],
+  walletAdapter: OnchainWalletAdapter,
+  context: OnchainSubmitContext,
+  options: ChunkedBulkSubmitOptions
+): Promise<ChunkedBulkOnchainSubmitResult> {
+  const { chunkSize } = options;
+  if (!Number.isInteger(chunkSize) || chunkSize < 1 || chunkSize > MAX_BULK_ROWS) {
+    throw new Error(`chunkSize must be an integer between 1 and ${MAX_BULK_ROWS}.`);
+  }
+  if (requests.length === 0) {
+    throw new Error('submitBulkOnchain requires at least one request.');
+  }
+
+  const fingerprint = fingerprintRequests(requests, context.network.chainId);
+  const checkpoint: BulkSubmitCheckpoint = options.checkpoint
+    ? resumeCheckpoint(options.checkpoint, fingerprint, chunkSize, requests.length)
+    : {
+        version: 1,
+        fingerprint,
+        chainId: context.network.chainId,
+        chunkSize,
+        totalRows: requests.length,
+        batches: []
+      };
+
+  // Switch before any batch is marked pending so a failed switch leaves the checkpoint untouched
+  await walletAdapter.switchNetwork(context.network.chainId);
+
+  const totalBatches = Math.ceil(requests.length / chunkSize);
+  const previous = new Map(checkpoint.batches.map((batch) => [batch.batch, batch]));
+  const retryFailed = options.retryFailed !== false;
+  let resumedBatches = 0;
+
+  const saveBatch = async (batch: BulkSubmitBatch) => {
+    checkpoint.batches = [...checkpoint.batches.filter((entry) => entry.batch !== batch.batch), batch].sort(
+      (a, b) => a.batch - b.batch
+    );
+    await options.onCheckpoint?.({ ...checkpoint, batches: checkpoint.batches.map((entry) => ({ ...entry })) });
+  };
+
+  for (let index = 0; index < totalBatches; index += 1) {
+    const start = index * chunkSize;
+    const end = Math.min(start + chunkSize, requests.length);
+    const existing = previous.get(index);
+
+    if (existing?.status === 'pending' && !options.retryPending) {
+      const sentTx = existing.txHash ? ` in transaction ${existing.txHash}` : '';
+      throw new Error(
+        `Batch ${index} (rows ${start}-${end - 1}) was being sent when the previous run stopped and may already be onchain${sentTx}. ` +
+          'Check the attester\'s transactions, then resume with `retryPending: true` to resend it.'
+      );
+    }
+    if (existing && (existing.status === 'success' || existing.status === 'submitted' || (existing.status === 'failed' && !retryFailed))) {
+      resumedBatches += 1;
+      continue;
+    }
+
+    const pending: BulkSubmitBatch = { batch: index, start, end, status: 'pending', uids: [], sponsored: false };
+    await saveBatch(pending);
+
+    let batch: BulkSubmitBatch;
+    try {
+      const result = await submitBulkOnchain(requests.slice(start, end), walletAdapter, context, { maxRows: MAX_BULK_ROWS });
+      batch = {
+        batch: index,
+        start,
+        end,
+        status: result.status,
+        txHash: result.txHash,
+        uids: result.uids,
+        sponsored: result.sponsored
+      };
+    } catch (error) {
+      if (isPreSubmissionError(error)) {
+        // Nothing was broadcast (rejected request, missing capability), so the batch is safe to resend
+        checkpoint.batches = checkpoint.batches.filter((entry) => entry.batch !== index);
+        if (existing) {
+          checkpoint.batches = [...checkpoint.batches, existing].sort((a, b) => a.batch - b.batch);
+        }
+        await options.onCheckpoint?.({ ...checkpoint, batches: checkpoint.batches.map((entry) => ({ ...entry })) });
+      } else {
+        // The transaction may have been sent (e.g. a receipt timeout), so the batch stays pending
+        await saveBatch({ ...pending, txHash: getErrorTransactionHash(error) });
+      }
+      throw error;
+    }
+
+    await saveBatch(batch);
+    await options.onProgress?.({
+      batch: index,
+      totalBatches,
+      completedRows: checkpoint.batches
+        .filter((entry) => entry.status !== 'pending')
+        .reduce((sum, entry) => sum + (entry.end - entry.start), 0),
+      totalRows: requests.length,
+      result: batch
+    });
+  }
+
+  const batches = checkpoint.batches.map((entry) => ({ ...entry }));
+  const results = batches.flatMap((entry) =>
+    requests.slice(entry.start, entry.end).map((_, offset) => ({
+      row: entry.start + offset,
+      batch: entry.batch,
+      uid: entry.uids[offset],
+      txHash: entry.txHash,
+      status: entry.status as 'success' | 'submitted' | 'failed'
+    }))
+  );
+
+  const failed = batches.filter((entry) => entry.status === 'failed').length;
+  let status: ChunkedBulkOnchainSubmitResult['status'];
+  if (failed === batches.length) {
+    status = 'failed';
+  } else if (failed > 0) {
+    status = 'partial';
+  } else {
+    status = batches.some((entry) => entry.status === 'submitted') ? 'submitted' : 'success';
+  }
+
+  return {
+    status,
+    uids: results.flatMap((result) => (result.uid ? [result.uid] : [])),
+    batches,
+    results,
+    resumedBatches,
+    network: {
+      chainId: context.network.chainId,
+      name: context.network.name,
+      explorerUrl: context.network.explorerUrl
+    },
+    checkpoint: { ...checkpoint, batches }
+  };
+}
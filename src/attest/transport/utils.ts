@@ -1,16 +1,19 @@
+import type { OnchainTxResult } from '../types';
+
 function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
-function getRpcRequest(client: Record<string, unknown>): ((payload: { method: string; params?: unknown[] }) => Promise<unknown>) | null {
+export function getRpcRequest(client: Record<string, unknown>): ((payload: { method: string; params?: unknown[] }) => Promise<unknown>) | null {
   const direct = client.request;
   if (typeof direct === 'function') {
-    return direct as (payload: { method: string; params?: unknown[] }) => Promise<unknown>;
+    // EIP-1193 providers such as MetaMask's rely on `this`
+    return (direct as (payload: { method: string; params?: unknown[] }) => Promise<unknown>).bind(client);
   }
 
   const transport = client.transport as { request?: (payload: { method: string; params?: unknown[] }) => Promise<unknown> } | undefined;
   if (transport && typeof transport.request === 'function') {
-    return transport.request;
+    return transport.request.bind(transport);
   }
 
   return null;
@@ -137,3 +140,258 @@ export function getTransactionHash(result: unknown): string | undefined {
   const hash = objectResult.txHash ?? objectResult.hash ?? objectResult.transactionHash;
   return typeof hash === 'string' ? hash : undefined;
 }
+
+export function getCallsId(result: unknown): string | null {
+  if (typeof result === 'string' && result.trim()) {
+    return result;
+  }
+
+  if (!result || typeof result !== 'object') {
+    return null;
+  }
+
+  const payload = result as Record<string, unknown>;
+  const id = payload.id ?? payload.callsId ?? payload.callId;
+  return typeof id === 'string' && id.trim() ? id : null;
+}
+
+export function extractReceiptsFromCallsStatus(payload: unknown): unknown[] {
+  if (!payload || typeof payload !== 'object') {
+    return [];
+  }
+
+  const objectPayload = payload as Record<string, unknown>;
+  const directReceipts = objectPayload.receipts;
+  if (Array.isArray(directReceipts)) {
+    return directReceipts;
+  }
+
+  const txReceipts = objectPayload.transactionReceipts;
+  if (Array.isArray(txReceipts)) {
+    return txReceipts;
+  }
+
+  const receipts = objectPayload.results;
+  if (Array.isArray(receipts)) {
+    const collected = receipts
+      .map((entry) => (entry && typeof entry === 'object' ? (entry as Record<string, unknown>).receipt : undefined))
+      .filter((entry) => entry !== undefined);
+
+    if (collected.length > 0) {
+      return collected;
+    }
+  }
+
+  return [];
+}
+
+export function isCallsStatusTerminal(payload: unknown): boolean {
+  if (!payload || typeof payload !== 'object') {
+    return false;
+  }
+
+  const objectPayload = payload as Record<string, unknown>;
+  if (extractReceiptsFromCallsStatus(objectPayload).length > 0) {
+    return true;
+  }
+
+  if (objectPayload.error !== undefined) {
+    return true;
+  }
+
+  const status = objectPayload.status;
+  if (typeof status === 'string') {
+    const normalized = status.toLowerCase();
+    if (
+      normalized === 'confirmed' ||
+      normalized === 'completed' ||
+      normalized === 'success' ||
+      normalized === 'failed' ||
+      normalized === 'reverted' ||
+      normalized === '0x1' ||
+      normalized === '0x0'
+    ) {
+      return true;
+    }
+
+    if (
+      normalized === 'pending' ||
+      normalized === 'queued' ||
+      normalized === 'in_progress' ||
+      normalized === 'processing'
+    ) {
+      return false;
+    }
+  }
+
+  if (typeof status === 'number') {
+    // EIP-5792 implementations commonly use 100 (pending), 200 (confirmed), 500 (failed)
+    return status >= 200 || status === 0 || status === 1;
+  }
+
+  if (typeof status === 'bigint') {
+    return status >= BigInt(200) || status === BigInt(0) || status === BigInt(1);
+  }
+
+  return false;
+}
+
+export function normalizeCallsStatus(payload: unknown): 'success' | 'failed' | 'submitted' {
+  const receipts = extractReceiptsFromCallsStatus(payload);
+  if (receipts.length > 0) {
+    return normalizeReceiptStatus(receipts[0]);
+  }
+
+  if (!payload || typeof payload !== 'object') {
+    return 'submitted';
+  }
+
+  const status = (payload as Record<string, unknown>).status;
+  if (typeof status === 'string') {
+    const normalized = status.toLowerCase();
+    if (normalized === 'confirmed' || normalized === 'completed' || normalized === 'success' || normalized === '0x1') {
+      return 'success';
+    }
+    if (normalized === 'failed' || normalized === 'reverted' || normalized === '0x0') {
+      return 'failed';
+    }
+  }
+
+  if (typeof status === 'number') {
+    if (status === 200 || status === 1) return 'success';
+    if (status >= 400 || status === 0) return 'failed';
+  }
+
+  if (typeof status === 'bigint') {
+    if (status === BigInt(200) || status === BigInt(1)) return 'success';
+    if (status >= BigInt(400) || status === BigInt(0)) return 'failed';
+  }
+
+  return 'submitted';
+}
+
+/**
+ * Wait for an EIP-5792 call batch to settle, using the client's `waitForCallsStatus` when
+ * available and polling `wallet_getCallsStatus` otherwise.
+ */
+export async function waitForCallsStatus(
+  walletClient: Record<string, unknown>,
+  callsId: string,
+  options: { timeoutMs?: number; pollIntervalMs?: number } = {}
+): Promise<unknown> {
+  const timeoutMs = options.timeoutMs ?? 120_000;
+  const pollIntervalMs = options.pollIntervalMs ?? 1_500;
+
+  const waitForCallsStatusFn = walletClient.waitForCallsStatus;
+  if (typeof waitForCallsStatusFn === 'function') {
+    return waitForCallsStatusFn.call(walletClient, { id: callsId });
+  }
+
+  const request = getRpcRequest(walletClient);
+  if (!request) {
+    throw new Error('Wallet client does not expose a calls status interface.');
+  }
+
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    const payload = await request({ method: 'wallet_getCallsStatus', params: [callsId] });
+    if (isCallsStatusTerminal(payload)) {
+      return payload;
+    }
+    await sleep(pollIntervalMs);
+  }
+
+  throw new Error(`Timed out waiting for sendCalls status: ${callsId}`);
+}
+
+/**
+ * Wait for a `sendCalls` result and turn its receipts into an `OnchainTxResult`.
+ */
+export async function settleCalls(
+  walletClient: Record<string, unknown>,
+  callsResult: unknown,
+  easAddress: string
+): Promise<OnchainTxResult> {
+  const callsId = getCallsId(callsResult);
+  const callsStatus = callsId ? await waitForCallsStatus(walletClient, callsId) : callsResult;
+
+  const receipts = extractReceiptsFromCallsStatus(callsStatus);
+  const firstReceipt = receipts[0];
+
+  const txHash =
+    (firstReceipt ? getTransactionHash(firstReceipt) : undefined) ??
+    getTransactionHash(callsStatus) ??
+    getTransactionHash(callsResult);
+
+  return {
+    status: normalizeCallsStatus(callsStatus),
+    txHash,
+    uids: receipts.flatMap((receipt) => extractUidsFromReceipt(receipt, easAddress)),
+    raw: {
+      callsResult,
+      callsStatus,
+      receipts
+    }
+  };
+}
+
+/**
+ * Read `paymasterService.supported` from a `wallet_getCapabilities` result, keyed by hex or
+ * numeric chain ID or already scoped to one chain.
+ */
+export function hasPaymasterCapability(capabilities: unknown, chainId: number): boolean {
+  if (!capabilities || typeof capabilities !== 'object') {
+    return false;
+  }
+
+  const byChain = capabilities as Record<string, unknown>;
+  const scoped = byChain[`0x${chainId.toString(16)}`] ?? byChain[String(chainId)] ?? capabilities;
+  const paymaster = scoped && typeof scoped === 'object' ? (scoped as Record<string, unknown>).paymasterService : undefined;
+  return Boolean(paymaster && typeof paymaster === 'object' && (paymaster as Record<string, unknown>).supported === true);
+}
+
+/** EIP-1193 and EIP-5792 error codes for requests the wallet refused before broadcasting */
+const PRE_SUBMISSION_ERROR_CODES = new Set([4001, 4100, 4200, -32601, 5700, 5710]);
+
+/** viem error names for the same failures */
+const PRE_SUBMISSION_ERROR_NAMES = new Set([
+  'UserRejectedRequestError',
+  'UnauthorizedProviderError',
+  'UnsupportedProviderMethodError',
+  'MethodNotFoundRpcError',
+  'MethodNotSupportedRpcError',
+  'UnsupportedNonOptionalCapabilityError',
+  'UnsupportedChainIdError'
+]);
+
+/**
+ * Whether a wallet error was raised before anything was broadcast: the user rejected the
+ * request, the wallet lacks the method or capability, or the paymaster refused to sponsor it.
+ * Other errors, such as receipt or calls-status timeouts, can follow a broadcast, so sending
+ * the same calls again could attest twice.
+ */
+export function isPreSubmissionError(error: unknown): boolean {
+  let current: unknown = error;
+  for (let depth = 0; current && typeof current === 'object' && depth < 5; depth++) {
+    const { code, name, message, cause } = current as { code?: unknown; name?: unknown; message?: unknown; cause?: unknown };
+    if (typeof code === 'number' && PRE_SUBMISSION_ERROR_CODES.has(code)) return true;
+    if (typeof name === 'string' && PRE_SUBMISSION_ERROR_NAMES.has(name)) return true;
+    if (typeof message === 'string' && /user (rejected|denied)|paymaster|does not support/i.test(message)) return true;
+    current = cause;
+  }
+  return false;
+}
+
+/**
+ * Transaction hash carried by a wallet error raised after broadcasting, e.g. a receipt timeout
+ */
+export function getErrorTransactionHash(error: unknown): string | undefined {
+  if (!error || typeof error !== 'object') {
+    return undefined;
+  }
+  const { txHash, transactionHash, message } = error as { txHash?: unknown; transactionHash?: unknown; message?: unknown };
+  if (typeof txHash === 'string') return txHash;
+  if (typeof transactionHash === 'string') return transactionHash;
+  const match = typeof message === 'string' ? /transaction receipt: (0x[0-9a-fA-F]{64})/.exec(message) : null;
+  return match?.[1];
+}
@@ -0,0 +1,192 @@
+import type { Account, Chain, PublicClient, Transport, WalletClient } from 'viem';
+import type {
+  AttestationNetworkConfig,
+  OffchainAttestationTypedData,
+  OnchainSubmitContext,
+  OnchainTxResult,
+  OnchainWalletAdapter
+} from '../types';
+import { isSupportedAttestationNetwork } from '../core/eas';
+import { toSignableTypedData } from '../core/offchain';
+import { EAS_ABI, EasWalletAdapter, encodeEasCall } from './easAdapter';
+import type { EasCall } from './easAdapter';
+import {
+  extractUidsFromReceipt,
+  hasPaymasterCapability,
+  normalizeReceiptStatus,
+  settleCalls,
+  waitForTransactionReceipt
+} from './utils';
+
+type AnyWalletClient = WalletClient<Transport, Chain | undefined, Account | undefined>;
+
+export interface ViemWalletAdapterOptions {
+  /** Paymaster used for sponsored calls. Falls back to `OLI_COINBASE_PAYMASTER_URL`. */
+  paymasterUrl?: string;
+}
+
+class ViemWalletAdapter extends EasWalletAdapter {
+  public readonly name = 'viem-wallet-adapter';
+
+  constructor(
+    private readonly walletClient: AnyWalletClient,
+    private readonly publicClient: PublicClient | undefined,
+    options: ViemWalletAdapterOptions = {}
+  ) {
+    super(options);
+  }
+
+  private async getAccount(): Promise<Account | `0x${string}`> {
+    if (this.walletClient.account) {
+      return this.walletClient.account;
+    }
+
+    const [address] = await this.walletClient.getAddresses();
+    if (!address) {
+      throw new Error('Unable to determine wallet address.');
+    }
+
+    return address;
+  }
+
+  /**
+   * Chain for the attestation network. The wallet client's own chain is only used when it matches;
+   * a client created for another chain would otherwise fail viem's current-chain check after
+   * `switchNetwork`.
+   */
+  private getChain(network: AttestationNetworkConfig): Chain {
+    if (this.walletClient.chain?.id === network.chainId) {
+      return this.walletClient.chain;
+    }
+
+    return {
+      id: network.chainId,
+      name: network.name,
+      nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+      rpcUrls: { default: { http: [] } },
+      blockExplorers: { default: { name: network.name, url: network.explorerUrl } }
+    };
+  }
+
+  async getChainId(): Promise<number> {
+    return this.walletClient.getChainId();
+  }
+
+  async switchNetwork(chainId: number): Promise<void> {
+    if (!isSupportedAttestationNetwork(chainId)) {
+      throw new Error(`Unsupported attestation network: ${chainId}`);
+    }
+
+    if ((await this.getChainId()) === chainId) {
+      return;
+    }
+
+    await this.walletClient.switchChain({ id: chainId });
+  }
+
+  async getAddress(): Promise<string> {
+    const account = await this.getAccount();
+    return typeof account === 'string' ? account : account.address;
+  }
+
+  async signTypedData(typedData: OffchainAttestationTypedData): Promise<string> {
+    return this.walletClient.signTypedData({
+      account: await this.getAccount(),
+      ...toSignableTypedData(typedData)
+    } as never);
+  }
+
+  async isSponsorshipSupported(chainId: number): Promise<boolean> {
+    if (!this.resolvePaymasterUrl()) {
+      return false;
+    }
+
+    try {
+      const capabilities = await this.walletClient.getCapabilities({ account: await this.getAccount(), chainId });
+      return hasPaymasterCapability(capabilities, chainId);
+    } catch {
+      // Wallets without EIP-5792 reject wallet_getCapabilities
+      return false;
+    }
+  }
+
+  async request(args: { method: string; params?: unknown[] }): Promise<unknown> {
+    const request = (this.publicClient ?? this.walletClient).request as (args: { method: string; params?: unknown[] }) => Promise<unknown>;
+    return request(args);
+  }
+
+  protected async executeWrite(call: EasCall, context: OnchainSubmitContext): Promise<OnchainTxResult> {
+    const txHash = await this.walletClient.writeContract({
+      account: await this.getAccount(),
+      chain: this.getChain(context.network),
+      address: context.network.easContractAddress as `0x${string}`,
+      abi: EAS_ABI,
+      functionName: call.functionName,
+      args: call.args,
+      value: BigInt(0)
+    } as never);
+
+    const receiptClient = (this.publicClient ?? this.walletClient) as unknown as Record<string, unknown>;
+    const receipt = await waitForTransactionReceipt(receiptClient, txHash);
+
+    return {
+      status: normalizeReceiptStatus(receipt),
+      txHash,
+      uids: extractUidsFromReceipt(receipt, context.network.easContractAddress),
+      raw: receipt
+    };
+  }
+
+  protected async executeSponsoredCall(calls: EasCall | EasCall[], context: OnchainSubmitContext): Promise<OnchainTxResult> {
+    const callsResult = await this.walletClient.sendCalls({
+      account: await this.getAccount(),
+      chain: this.getChain(context.network),
+      calls: (Array.isArray(calls) ? calls : [calls]).map((call) => ({
+        to: context.network.easContractAddress as `0x${string}`,
+        data: encodeEasCall(call),
+        value: BigInt(0)
+      })),
+      capabilities: {
+        paymasterService: {
+          url: this.requirePaymasterUrl(context)
+        }
+      }
+    } as never);
+
+    return settleCalls(this.walletClient as unknown as Record<string, unknown>, callsResult, context.network.easContractAddress);
+  }
+}
+
+/**
+ * Create an `OnchainWalletAdapter` from a viem `WalletClient`, e.g. wagmi's `useWalletClient()`
+ * or RainbowKit's connected client.
+ *
+ * Regular transactions use `writeContract`; receipts are read from `publicClient` when given and
+ * polled through the wallet's transport otherwise. Sponsored calls use EIP-5792 `sendCalls` with a
+ * paymaster and are offered when the wallet reports `paymasterService` support and a paymaster
+ * URL is configured.
+ *
+ * @param walletClient - viem wallet client, ideally with an `account`.
+ * @param publicClient - Optional public client used to wait for receipts.
+ * @param options.paymasterUrl - Paymaster URL for sponsored calls.
+ *   Falls back to the `OLI_COINBASE_PAYMASTER_URL` environment variable.
+ * @returns An `OnchainWalletAdapter` compatible with all `AttestClient` submission methods.
+ *
+ * @example
+ * ```ts
+ * import { createViemWalletAdapter } from '@openlabels/oli-sdk';
+ * import { usePublicClient, useWalletClient } from 'wagmi';
+ *
+ * const { data: walletClient } = useWalletClient();
+ * const publicClient = usePublicClient();
+ * const adapter = createViemWalletAdapter(walletClient, publicClient);
+ * await oli.attest.submitSingleOnchain(prepared, adapter);
+ * ```
+ */
+export function createViemWalletAdapter(
+  walletClient: AnyWalletClient,
+  publicClient?: PublicClient,
+  options: ViemWalletAdapterOptions = {}
+): OnchainWalletAdapter {
+  return new ViemWalletAdapter(walletClient, publicClient, options);
+}
@@ -1,3 +1,19 @@
+import type { TagDefinitions, ValueSets } from '../types/tags';
+import type {
+  AttestationDomain,
+  AttestationMessage,
+  AttestationPayload,
+  AttestationTypes,
+  BulkAttestationRequest,
+  BulkAttestationResponse,
+  BulkLabelsRequest,
+  BulkLabelsResponse,
+  RestAttestationQueryParams,
+  RestAttestationQueryResponse,
+  RestAttestationRecord,
+  SingleAttestationResponse
+} from '../types/api';
+
 export type AttestationPrimitive = string | number | boolean;
 export type AttestationFieldValue = AttestationPrimitive | AttestationPrimitive[] | null | undefined;
 
@@ -33,6 +49,49 @@ export interface ValidationOptions {
   fetchProjects?: () => Promise<ProjectRecord[]>;
   maxRows?: number;
   allowedFields?: string[];
+  /** Tag definitions (e.g. `oli.tagDefinitions`) whose JSON schemas row values are checked against */
+  tagDefinitions?: TagDefinitions;
+  /** Allowed values per tag_id, checked in place of the schema enum */
+  valueSets?: ValueSets;
+  /**
+   * Compare valid rows with the labels already in the pool (`validateBulk` only; needs the
+   * `api` client `OLIClient.attest` provides). Pass `{ attester }` to tell your own earlier
+   * labels apart from other attesters'.
+   */
+  checkExistingLabels?: boolean | ExistingLabelCheckOptions;
+}
+
+export interface ExistingLabelCheckOptions {
+  /** Address the rows will be attested from; its labels count as your own */
+  attester?: string;
+}
+
+/**
+ * Suggested handling for a row after comparing it with existing labels:
+ * `submit` (new information), `skip` (every tag already has this value), `update` (changes
+ * your own earlier label), or `review` (disagrees with another attester)
+ */
+export type ExistingLabelAction = 'submit' | 'skip' | 'update' | 'review';
+
+export interface ExistingLabelDifference {
+  tagId: string;
+  value: unknown;
+  existing: string;
+  attester: string | null;
+  time: string;
+}
+
+export interface ExistingLabelRowCheck {
+  row: number;
+  address: string;
+  chainId: string;
+  action: ExistingLabelAction;
+  /** Tag ids whose value already exists */
+  unchanged: string[];
+  /** Tags where another attester holds a different value */
+  conflicts: ExistingLabelDifference[];
+  /** Tags where the row replaces your own earlier value */
+  overrides: ExistingLabelDifference[];
 }
 
 export interface PrepareSingleOptions {
@@ -42,6 +101,8 @@ export interface PrepareSingleOptions {
   validate?: boolean;
   projects?: ProjectRecord[];
   fetchProjects?: () => Promise<ProjectRecord[]>;
+  /** UID of an attestation this one references, e.g. the label it corrects */
+  refUID?: string;
 }
 
 export interface ParseCsvOptions {
@@ -87,6 +148,8 @@ export interface BulkValidationResult {
   validRows: AttestationRowInput[];
   invalidRows: number[];
   diagnostics: AttestationDiagnostics;
+  /** Per-row comparison with existing labels; set when `checkExistingLabels` is enabled */
+  existingLabels?: ExistingLabelRowCheck[];
 }
 
 export interface AttestationNetworkConfig {
@@ -96,6 +159,8 @@ export interface AttestationNetworkConfig {
   schemaUID: string;
   schemaDefinition: string;
   explorerUrl: string;
+  /** EIP-712 domain version of the EAS contract, used for offchain attestations */
+  easVersion?: string;
 }
 
 export interface PreparedAttestation {
@@ -126,6 +191,23 @@ export interface OnchainAttestationRequest {
   prepared: PreparedAttestation;
 }
 
+export interface OnchainRevocationRequestData {
+  uid: string;
+  value: bigint;
+}
+
+export interface OnchainRevocationRequest {
+  schemaUID: string;
+  data: OnchainRevocationRequestData;
+}
+
+export interface RevokeOptions {
+  /** EVM chain ID of the EAS network the attestations live on (default: the client's default network) */
+  attestationNetwork?: number;
+  /** Schema of the attestations (default: the OLI label schema) */
+  schemaUID?: string;
+}
+
 export interface OnchainSubmitContext {
   network: AttestationNetworkConfig;
   paymasterUrl?: string;
@@ -180,6 +262,172 @@ export interface OnchainWalletAdapter {
   sponsoredAttest?(request: OnchainAttestationRequest, context: OnchainSubmitContext): Promise<OnchainTxResult>;
   /** Sponsored variant of `multiAttest` (uses EIP-5792 `wallet_sendCalls`). */
   sponsoredMultiAttest?(requests: OnchainAttestationRequest[], context: OnchainSubmitContext): Promise<OnchainTxResult>;
+  /**
+   * Submit a single `revoke` call to the EAS contract. Required for `revokeOnchain`.
+   * @param request - Schema and attestation UID to revoke.
+   * @param context - Network config and optional paymaster URL.
+   */
+  revoke?(request: OnchainRevocationRequest, context: OnchainSubmitContext): Promise<OnchainTxResult>;
+  /**
+   * Submit a `multiRevoke` call to the EAS contract. Required for `revokeOnchain` with several UIDs.
+   * @param requests - Revocation requests (same schema UID).
+   * @param context - Network config and optional paymaster URL.
+   */
+  multiRevoke?(requests: OnchainRevocationRequest[], context: OnchainSubmitContext): Promise<OnchainTxResult>;
+  /** Sponsored variant of `revoke` (uses EIP-5792 `wallet_sendCalls`). */
+  sponsoredRevoke?(request: OnchainRevocationRequest, context: OnchainSubmitContext): Promise<OnchainTxResult>;
+  /** Sponsored variant of `multiRevoke` (uses EIP-5792 `wallet_sendCalls`). */
+  sponsoredMultiRevoke?(requests: OnchainRevocationRequest[], context: OnchainSubmitContext): Promise<OnchainTxResult>;
+  /**
+   * Record revocations of offchain attestation UIDs with `multiRevokeOffchain`. Required for `revokeOffchain`.
+   * @param uids - Offchain attestation UIDs.
+   * @param context - Network config and optional paymaster URL.
+   */
+  multiRevokeOffchain?(uids: string[], context: OnchainSubmitContext): Promise<OnchainTxResult>;
+  /** Sponsored variant of `multiRevokeOffchain` (uses EIP-5792 `wallet_sendCalls`). */
+  sponsoredMultiRevokeOffchain?(uids: string[], context: OnchainSubmitContext): Promise<OnchainTxResult>;
+  /**
+   * Send `attest` and `revoke` as one sponsored EIP-5792 call batch. Used by `submitCorrectionOnchain`;
+   * when absent, or failing before anything was broadcast, the calls are sent as separate transactions.
+   */
+  sponsoredAttestAndRevoke?(
+    attestRequest: OnchainAttestationRequest,
+    revokeRequest: OnchainRevocationRequest,
+    context: OnchainSubmitContext
+  ): Promise<OnchainTxResult>;
+  /** Return the connected account address. Required for offchain attestations. */
+  getAddress?(): Promise<string>;
+  /**
+   * Sign EIP-712 typed data (`eth_signTypedData_v4`) and return the 65-byte hex signature.
+   * Required for offchain attestations.
+   * @param typedData - EAS `Attest` typed data built by `prepareOffchainAttestation`.
+   */
+  signTypedData?(typedData: OffchainAttestationTypedData): Promise<string>;
+  /**
+   * Send a read-only JSON-RPC request (`eth_call`, `eth_estimateGas`, `eth_gasPrice`) to the
+   * connected chain. Required for `simulate`.
+   */
+  request?(args: { method: string; params?: unknown[] }): Promise<unknown>;
+}
+
+/**
+ * EIP-712 typed data for an EAS offchain attestation.
+ * Numeric message fields are decimal strings, matching the OLI API payload.
+ */
+export interface OffchainAttestationTypedData {
+  domain: AttestationDomain;
+  types: AttestationTypes;
+  primaryType: 'Attest';
+  message: AttestationMessage;
+}
+
+export interface PrepareOffchainOptions {
+  /** Attestation time in Unix seconds (default: now) */
+  time?: number;
+  /** Expiration time in Unix seconds (default: 0, never expires) */
+  expirationTime?: number;
+  /** 32-byte hex salt (default: random); ignored on networks whose EAS version signs without a salt, e.g. Arbitrum */
+  salt?: string;
+  /** Override the EAS contract's EIP-712 domain version */
+  easVersion?: string;
+}
+
+export interface OnchainUidOptions {
+  /** Address that sends the attestation (`msg.sender` of `attest`) */
+  attester: string;
+  /** Block timestamp in Unix seconds */
+  time: number | bigint;
+  /** EAS collision bump; 0 unless an identical attestation exists in the same block (default: 0) */
+  nonce?: number;
+}
+
+export interface OffchainUidOptions {
+  /** Attestation time in Unix seconds */
+  time: number;
+  /** 32-byte hex salt of the offchain attestation; ignored on networks whose EAS version signs without a salt */
+  salt: string;
+  /** Expiration time in Unix seconds (default: 0, never expires) */
+  expirationTime?: number;
+}
+
+export interface AttestationVerificationMismatch {
+  field: 'uid' | 'domain' | 'schema' | 'attester' | 'revoked' | 'data' | 'signer';
+  expected: unknown;
+  actual: unknown;
+}
+
+export interface AttestationVerificationResult {
+  uid: string;
+  /** `true` when every check passed */
+  valid: boolean;
+  mismatches: AttestationVerificationMismatch[];
+  /**
+   * Whether `prepareEncodedData` reproduced the attested bytes exactly. `false` with `valid: true`
+   * means the content matches but `tags_json` keys were serialized in a different order.
+   */
+  exactEncoding?: boolean;
+  /** Signer recovered from an offchain EIP-712 signature */
+  signer?: string;
+}
+
+export interface PreparedOffchainAttestation {
+  prepared: PreparedAttestation;
+  /** Offchain attestation UID computed from the message */
+  uid: string;
+  typedData: OffchainAttestationTypedData;
+}
+
+/**
+ * Subset of `RestClient` used to submit offchain attestations and look up existing attestations and labels
+ */
+export interface AttestationApi {
+  postAttestation(payload: AttestationPayload): Promise<SingleAttestationResponse>;
+  postAttestationsBulk(payload: BulkAttestationRequest): Promise<BulkAttestationResponse>;
+  getAttestations(params: RestAttestationQueryParams): Promise<RestAttestationQueryResponse>;
+  /** Required only for `checkExistingLabels` */
+  getLabelsBulk?(payload: BulkLabelsRequest): Promise<BulkLabelsResponse>;
+}
+
+export interface OffchainSubmitResult {
+  /** UID returned by the API, or the locally computed UID when the API does not return one */
+  uid: string;
+  signer: string;
+  payload: AttestationPayload;
+  response: SingleAttestationResponse;
+}
+
+export type PrepareCorrectionOptions = Omit<PrepareSingleOptions, 'refUID'>;
+
+/**
+ * Corrected label that references an onchain predecessor via `request.refUID`
+ */
+export interface PreparedCorrection extends PreparedAttestation {
+  /** The superseded attestation as returned by `getAttestations` */
+  supersedes: RestAttestationRecord;
+}
+
+export interface SubmitCorrectionOptions {
+  /** Revoke the superseded attestation (default: true) */
+  revoke?: boolean;
+}
+
+export interface CorrectionSubmitResult {
+  attestation: OnchainSubmitResult;
+  /** Present when the superseded attestation was revoked in a separate transaction */
+  revocation?: OnchainSubmitResult;
+  /** True when the attest and revoke calls were sent as one sponsored call batch */
+  batched: boolean;
+}
+
+export interface BulkOffchainSubmitResult {
+  /** Locally computed UIDs in row order */
+  uids: string[];
+  signer: string;
+  accepted: number;
+  duplicates: number;
+  failedValidation: Record<string, unknown>[];
+  payloads: AttestationPayload[];
+  response: BulkAttestationResponse;
 }
 
 export interface OnchainSubmitResult {
@@ -195,6 +443,33 @@ export interface OnchainSubmitResult {
   raw?: unknown;
 }
 
+export interface AttestationSimulationResult {
+  /** EAS function a submission would call: `attest` for one row, `multiAttest` for an array */
+  functionName: 'attest' | 'multiAttest';
+  /** EAS contract address of the attestation network */
+  to: string;
+  /** Account the call was simulated from */
+  from: string;
+  /** ABI-encoded calldata, identical to what the submit methods send */
+  calldata: string;
+  /** Calldata size in bytes */
+  calldataSize: number;
+  /** `false` when `eth_call` or `eth_estimateGas` reverted */
+  success: boolean;
+  revertReason?: string;
+  gasEstimate?: bigint;
+  gasPrice?: bigint;
+  /** `gasEstimate * gasPrice` in wei; covered by the paymaster when `sponsored` is true */
+  estimatedCost?: bigint;
+  /** Whether submitting with this adapter would use a sponsored call */
+  sponsored: boolean;
+  network: {
+    chainId: number;
+    name: string;
+    explorerUrl: string;
+  };
+}
+
 export interface BulkOnchainSubmitResult extends OnchainSubmitResult {
   results: Array<{
     row: number;
@@ -203,6 +478,79 @@ export interface BulkOnchainSubmitResult extends OnchainSubmitResult {
   }>;
 }
 
+export interface BulkSubmitBatch {
+  batch: number;
+  /** First row index in the batch */
+  start: number;
+  /** Row index after the last row in the batch */
+  end: number;
+  /** `pending` while the transaction is being sent; never returned for a finished batch */
+  status: 'pending' | 'success' | 'submitted' | 'failed';
+  txHash?: string;
+  uids: string[];
+  sponsored: boolean;
+}
+
+/**
+ * JSON-serializable state of a chunked bulk submission. Persist the object passed to
+ * `onCheckpoint` and pass it back as `checkpoint` to resume an interrupted run.
+ */
+export interface BulkSubmitCheckpoint {
+  version: 1;
+  /** Hash of the prepared rows and network; resuming with different rows throws */
+  fingerprint: string;
+  chainId: number;
+  chunkSize: number;
+  totalRows: number;
+  batches: BulkSubmitBatch[];
+}
+
+export interface BulkSubmitProgress {
+  batch: number;
+  totalBatches: number;
+  /** Rows in batches that are no longer pending, including ones finished in earlier runs */
+  completedRows: number;
+  totalRows: number;
+  result: BulkSubmitBatch;
+}
+
+export interface ChunkedBulkSubmitOptions {
+  /** Rows per `multiAttest` transaction, 1-50 */
+  chunkSize: number;
+  /** Checkpoint from an earlier run; batches that succeeded or were submitted are skipped */
+  checkpoint?: BulkSubmitCheckpoint | null;
+  /** Called (and awaited) before and after every batch with the updated checkpoint */
+  onCheckpoint?: (checkpoint: BulkSubmitCheckpoint) => unknown;
+  onProgress?: (progress: BulkSubmitProgress) => unknown;
+  /** Resend batches whose transaction failed in an earlier run (default: true) */
+  retryFailed?: boolean;
+  /**
+   * Resend a batch the checkpoint still marks `pending`, i.e. a run that stopped while the
+   * transaction was being sent. Only set this after checking the batch did not land onchain.
+   * Default: false, which throws instead.
+   */
+  retryPending?: boolean;
+}
+
+export interface ChunkedBulkOnchainSubmitResult {
+  /** `partial` when some batches failed and others did not */
+  status: 'success' | 'submitted' | 'partial' | 'failed';
+  /** UIDs of attested rows in row order */
+  uids: string[];
+  batches: BulkSubmitBatch[];
+  results: Array<{
+    row: number;
+    batch: number;
+    uid?: string;
+    txHash?: string;
+    status: 'success' | 'submitted' | 'failed';
+  }>;
+  /** Batches taken from the checkpoint instead of being sent again */
+  resumedBatches: number;
+  network: OnchainSubmitResult['network'];
+  checkpoint: BulkSubmitCheckpoint;
+}
+
 export class AttestValidationError extends Error {
   public readonly diagnostics: AttestationDiagnostics;
 
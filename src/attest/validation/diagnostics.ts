@@ -21,8 +21,14 @@ export const DIAGNOSTIC_CODES = {
   BOOLEAN_INVALID: 'BOOLEAN_INVALID',
   FIELD_NOT_IN_MODE: 'FIELD_NOT_IN_MODE',
   REQUIRED_FIELD_MISSING: 'REQUIRED_FIELD_MISSING',
+  TAG_VALUE_INVALID: 'TAG_VALUE_INVALID',
+  TAG_UNKNOWN: 'TAG_UNKNOWN',
   BULK_EMPTY: 'BULK_EMPTY',
   BULK_ROW_LIMIT_EXCEEDED: 'BULK_ROW_LIMIT_EXCEEDED',
+  // Existing labels
+  LABEL_UNCHANGED: 'LABEL_UNCHANGED',
+  LABEL_CONFLICT: 'LABEL_CONFLICT',
+  LABEL_OVERRIDES_OWN: 'LABEL_OVERRIDES_OWN',
   // CSV
   CSV_EMPTY: 'CSV_EMPTY',
   CSV_HEADER_PARSE_ERROR: 'CSV_HEADER_PARSE_ERROR',
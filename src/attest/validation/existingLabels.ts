@@ -0,0 +1,192 @@
+import type { BulkLabelsRequest, BulkLabelsResponse, LabelItem } from '../../types/api';
+import type { TagDefinitions, ValueSets } from '../../types/tags';
+import type {
+  AttestationDiagnostics,
+  AttestationRowInput,
+  ExistingLabelAction,
+  ExistingLabelCheckOptions,
+  ExistingLabelDifference,
+  ExistingLabelRowCheck
+} from '../types';
+import { prepareTags } from '../core/payload';
+import { addSuggestion, addWarning, createDiagnostics } from './diagnostics';
+
+/** `/labels/bulk` accepts at most 100 addresses per request */
+const LABELS_BULK_MAX_ADDRESSES = 100;
+const LABELS_PER_ADDRESS = 1000;
+
+export type LabelsBulkLookup = (payload: BulkLabelsRequest) => Promise<BulkLabelsResponse>;
+
+const HEX_VALUE = /^0x[0-9a-f]+$/i;
+
+function normalizeScalar(value: unknown, caseInsensitive: boolean): string {
+  const text = String(value).trim();
+  return caseInsensitive || HEX_VALUE.test(text) ? text.toLowerCase() : text;
+}
+
+function normalizeList(values: unknown[], caseInsensitive: boolean): string {
+  return values.map((value) => normalizeScalar(value, caseInsensitive)).filter(Boolean).sort().join(',');
+}
+
+/**
+ * Compare a row value with a stored `tag_value` string. List values may be stored as a JSON
+ * array or a comma-separated string. Values compare case-sensitively unless they are hex
+ * (addresses, hashes) or `caseInsensitive` is set for enum tags.
+ */
+function isSameTagValue(value: unknown, existing: string, caseInsensitive: boolean): boolean {
+  if (!Array.isArray(value)) {
+    return normalizeScalar(value, caseInsensitive) === normalizeScalar(existing, caseInsensitive);
+  }
+
+  const trimmed = existing.trim();
+  if (trimmed.startsWith('[')) {
+    try {
+      const parsed: unknown = JSON.parse(trimmed);
+      if (Array.isArray(parsed)) {
+        return normalizeList(value, caseInsensitive) === normalizeList(parsed, caseInsensitive);
+      }
+    } catch {
+      // Not JSON; compare as a comma-separated list
+    }
+  }
+  return normalizeList(value, caseInsensitive) === normalizeList(trimmed.split(','), caseInsensitive);
+}
+
+/**
+ * Tag ids whose values come from a value set or a schema `enum`; these compare case-insensitively
+ * the same way tag value validation matches them.
+ */
+export function getEnumTagIds(tagDefinitions: TagDefinitions = {}, valueSets: ValueSets = {}): Set<string> {
+  const ids = new Set(Object.keys(valueSets));
+  for (const [tagId, definition] of Object.entries(tagDefinitions)) {
+    if (definition.schema?.enum || definition.schema?.items?.enum) {
+      ids.add(tagId);
+    }
+  }
+  return ids;
+}
+
+function suggestAction(check: Omit<ExistingLabelRowCheck, 'action'>, tagCount: number): ExistingLabelAction {
+  if (check.conflicts.length > 0) return 'review';
+  if (check.overrides.length > 0) return 'update';
+  if (tagCount > 0 && check.unchanged.length === tagCount) return 'skip';
+  return 'submit';
+}
+
+async function fetchLabels(addresses: string[], chainId: string | null, lookup: LabelsBulkLookup): Promise<Map<string, LabelItem[]>> {
+  const labels = new Map<string, LabelItem[]>();
+  for (let start = 0; start < addresses.length; start += LABELS_BULK_MAX_ADDRESSES) {
+    const response = await lookup({
+      addresses: addresses.slice(start, start + LABELS_BULK_MAX_ADDRESSES),
+      chain_id: chainId,
+      limit_per_address: LABELS_PER_ADDRESS
+    });
+    for (const result of response.results) {
+      const key = result.address.toLowerCase();
+      labels.set(key, [...(labels.get(key) ?? []), ...result.labels]);
+    }
+  }
+  return labels;
+}
+
+/**
+ * Compare rows with the latest label per (chain, attester, tag) in the pool.
+ *
+ * Without `options.attester`, every existing label is treated as another attester's: identical
+ * values count as unchanged and different values as conflicts.
+ *
+ * @param rows - Validated rows with their index in the bulk input.
+ * @param lookup - `/labels/bulk` client, e.g. `oli.api.getLabelsBulk`.
+ * @param enumTagIds - Tags compared case-insensitively, see `getEnumTagIds`.
+ * @returns One check per row with an address, plus `LABEL_*` diagnostics.
+ */
+export async function checkExistingLabels(
+  rows: Array<{ index: number; row: AttestationRowInput }>,
+  lookup: LabelsBulkLookup,
+  options: ExistingLabelCheckOptions = {},
+  enumTagIds: ReadonlySet<string> = new Set()
+): Promise<{ checks: ExistingLabelRowCheck[]; diagnostics: AttestationDiagnostics }> {
+  const diagnostics = createDiagnostics();
+  const targets = rows
+    .map(({ index, row }) => ({
+      index,
+      address: typeof row.address === 'string' ? row.address.trim() : '',
+      chainId: typeof row.chain_id === 'string' ? row.chain_id.trim() : '',
+      tags: prepareTags(row)
+    }))
+    .filter((target) => target.address !== '' && target.chainId !== '');
+
+  if (targets.length === 0) {
+    return { checks: [], diagnostics };
+  }
+
+  const addresses = [...new Set(targets.map((target) => target.address.toLowerCase()))];
+  const chainIds = new Set(targets.map((target) => target.chainId));
+  const labels = await fetchLabels(addresses, chainIds.size === 1 ? targets[0].chainId : null, lookup);
+  const ownAttester = options.attester?.toLowerCase();
+
+  const checks = targets.map((target) => {
+    const existing = (labels.get(target.address.toLowerCase()) ?? []).filter((label) => label.chain_id === target.chainId);
+    const check: Omit<ExistingLabelRowCheck, 'action'> = {
+      row: target.index,
+      address: target.address,
+      chainId: target.chainId,
+      unchanged: [],
+      conflicts: [],
+      overrides: []
+    };
+
+    for (const [tagId, value] of Object.entries(target.tags)) {
+      const current = existing.filter((label) => label.tag_id === tagId);
+      const caseInsensitive = enumTagIds.has(tagId);
+      const isSame = (label: LabelItem) => isSameTagValue(value, label.tag_value, caseInsensitive);
+      const own = ownAttester ? current.filter((label) => label.attester?.toLowerCase() === ownAttester) : [];
+      const others = ownAttester ? current.filter((label) => label.attester?.toLowerCase() !== ownAttester) : current;
+      const toDifference = (label: LabelItem): ExistingLabelDifference => ({
+        tagId,
+        value,
+        existing: label.tag_value,
+        attester: label.attester,
+        time: label.time
+      });
+
+      const reference = ownAttester ? own : current;
+      if (reference.length > 0 && reference.every(isSame)) {
+        check.unchanged.push(tagId);
+      }
+      check.overrides.push(...own.filter((label) => !isSame(label)).map(toDifference));
+      check.conflicts.push(...others.filter((label) => !isSame(label)).map(toDifference));
+    }
+
+    const result: ExistingLabelRowCheck = { ...check, action: suggestAction(check, Object.keys(target.tags).length) };
+    const pointer = { row: target.index };
+
+    if (result.action === 'skip') {
+      addWarning(diagnostics, 'LABEL_UNCHANGED', `Every tag for ${target.chainId}:${target.address} already has this value.`, {
+        ...pointer,
+        suggestion: 'skip',
+        metadata: { tags: result.unchanged }
+      });
+    }
+    result.conflicts.forEach((conflict) => {
+      addWarning(
+        diagnostics,
+        'LABEL_CONFLICT',
+        `${conflict.tagId} is "${conflict.existing}" according to ${conflict.attester ?? 'an unknown attester'}.`,
+        { ...pointer, field: conflict.tagId, suggestion: 'review', metadata: { existing: conflict.existing, attester: conflict.attester } }
+      );
+    });
+    result.overrides.forEach((override) => {
+      addSuggestion(
+        diagnostics,
+        'LABEL_OVERRIDES_OWN',
+        `${override.tagId} replaces your earlier value "${override.existing}".`,
+        { ...pointer, field: override.tagId, suggestion: 'update', metadata: { existing: override.existing, time: override.time } }
+      );
+    });
+
+    return result;
+  });
+
+  return { checks, diagnostics };
+}
@@ -0,0 +1,287 @@
+import type { JSONSchema, TagDefinitions, ValueSets } from '../../types/tags';
+
+/**
+ * JSON-schema keyword a tag value failed, or `unknown_tag` for tag ids without a definition
+ */
+export type TagValueIssueKeyword =
+  | 'unknown_tag'
+  | 'type'
+  | 'enum'
+  | 'pattern'
+  | 'minLength'
+  | 'maxLength'
+  | 'minimum'
+  | 'maximum'
+  | 'exclusiveMinimum'
+  | 'exclusiveMaximum'
+  | 'minItems'
+  | 'maxItems'
+  | 'uniqueItems'
+  | 'required'
+  | 'additionalProperties';
+
+export interface TagValueIssue {
+  tagId: string;
+  /** Location inside the value, e.g. `[1]` or `.name`; empty for the value itself */
+  path: string;
+  keyword: TagValueIssueKeyword;
+  message: string;
+}
+
+export interface TagValueValidationOptions {
+  /** Allowed values per tag_id; replaces the enum from the tag's JSON schema (strings compare case-insensitively) */
+  valueSets?: ValueSets;
+  /** Report tag ids without a definition (default: true) */
+  reportUnknownTags?: boolean;
+  /**
+   * Accept string input for boolean, numeric, and array tags the way forms and CSV files supply it
+   * (`"true"`, `"18"`, `"erc20,erc721"`). Default: false
+   */
+  coerceStrings?: boolean;
+}
+
+/**
+ * JSON types a schema allows; `array` and `object` are inferred from `items` and `properties`
+ * when the schema has no `type`. Shared with the zod generator in `tagSchema.ts`.
+ */
+export function schemaTypes(schema: JSONSchema): string[] {
+  if (Array.isArray(schema.type)) return schema.type;
+  if (typeof schema.type === 'string') return [schema.type];
+  if (Array.isArray(schema.enum)) return [];
+  if (schema.items) return ['array'];
+  if (schema.properties) return ['object'];
+  return [];
+}
+
+/**
+ * Apply a value set to a tag schema: enums of scalar tags, or of the items of array tags
+ */
+export function withValueSet(schema: JSONSchema, values: unknown[] | undefined): JSONSchema {
+  if (!values) return schema;
+  if (schemaTypes(schema).includes('array')) {
+    return { ...schema, items: { ...(schema.items ?? {}), enum: values } };
+  }
+  return { ...schema, enum: values };
+}
+
+/**
+ * Compile a JSON-schema `pattern` with the `u` flag.
+ *
+ * @returns null for patterns the JS engine cannot compile; callers skip those rather than failing every value
+ */
+export function compilePattern(pattern: string): RegExp | null {
+  try {
+    return new RegExp(pattern, 'u');
+  } catch {
+    return null;
+  }
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+}
+
+function matchesType(type: string, value: unknown): boolean {
+  const actual = typeOf(value);
+  if (type === 'number') return actual === 'number' || actual === 'integer';
+  return actual === type;
+}
+
+function describe(value: unknown): string {
+  const text = JSON.stringify(value) ?? String(value);
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+}
+
+function isSameValue(allowed: unknown, value: unknown, caseInsensitive: boolean): boolean {
+  if (allowed === value) return true;
+  if (caseInsensitive && typeof allowed === 'string' && typeof value === 'string') {
+    return allowed.toLowerCase() === value.toLowerCase();
+  }
+  return typeof allowed === 'object' && allowed !== null && JSON.stringify(allowed) === JSON.stringify(value);
+}
+
+/**
+ * Convert form/CSV string input to the type the schema expects. Values that do not convert are
+ * returned unchanged so the type check reports them.
+ */
+function coerceString(schema: JSONSchema, value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+  const types = schemaTypes(schema);
+  if (types.length === 0 || types.includes('string')) return value;
+
+  const trimmed = value.trim();
+  if (types.includes('array')) {
+    return trimmed
+      .split(',')
+      .map(item => item.trim())
+      .filter(Boolean)
+      .map(item => (schema.items ? coerceString(schema.items, item) : item));
+  }
+  if (types.includes('boolean')) {
+    const lower = trimmed.toLowerCase();
+    if (['1', 'yes', 'true'].includes(lower)) return true;
+    if (['0', 'no', 'false'].includes(lower)) return false;
+  }
+  if ((types.includes('integer') || types.includes('number')) && trimmed !== '' && Number.isFinite(Number(trimmed))) {
+    return Number(trimmed);
+  }
+  return value;
+}
+
+function checkSchema(
+  schema: JSONSchema,
+  value: unknown,
+  tagId: string,
+  path: string,
+  issues: TagValueIssue[],
+  options: { caseInsensitiveEnum: boolean; coerceStrings: boolean }
+): void {
+  const input = options.coerceStrings ? coerceString(schema, value) : value;
+  const at = path ? ` at ${path}` : '';
+  const push = (keyword: TagValueIssueKeyword, message: string) => {
+    issues.push({ tagId, path, keyword, message: `${tagId}${at}: ${message}` });
+  };
+
+  const types = schemaTypes(schema);
+  if (types.length > 0 && !types.some(type => matchesType(type, input))) {
+    push('type', `expected ${types.join(' or ')}, got ${typeOf(input)}`);
+    return;
+  }
+
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+    if (!schema.enum.some(allowed => isSameValue(allowed, input, options.caseInsensitiveEnum))) {
+      const preview = schema.enum.slice(0, 5).map(describe).join(', ');
+      const more = schema.enum.length > 5 ? `, ... (${schema.enum.length} allowed)` : '';
+      push('enum', `${describe(input)} is not an allowed value (${preview}${more})`);
+    }
+  }
+
+  if (typeof input === 'string') {
+    if (typeof schema.minLength === 'number' && input.length < schema.minLength) {
+      push('minLength', `must be at least ${schema.minLength} characters`);
+    }
+    if (typeof schema.maxLength === 'number' && input.length > schema.maxLength) {
+      push('maxLength', `must be at most ${schema.maxLength} characters`);
+    }
+    if (typeof schema.pattern === 'string') {
+      const pattern = compilePattern(schema.pattern);
+      if (pattern && !pattern.test(input)) {
+        push('pattern', `${describe(input)} does not match ${schema.pattern}`);
+      }
+    }
+  }
+
+  if (typeof input === 'number') {
+    if (typeof schema.minimum === 'number' && input < schema.minimum) {
+      push('minimum', `must be >= ${schema.minimum}`);
+    }
+    if (typeof schema.maximum === 'number' && input > schema.maximum) {
+      push('maximum', `must be <= ${schema.maximum}`);
+    }
+    if (typeof schema.exclusiveMinimum === 'number' && input <= schema.exclusiveMinimum) {
+      push('exclusiveMinimum', `must be > ${schema.exclusiveMinimum}`);
+    }
+    if (typeof schema.exclusiveMaximum === 'number' && input >= schema.exclusiveMaximum) {
+      push('exclusiveMaximum', `must be < ${schema.exclusiveMaximum}`);
+    }
+  }
+
+  if (Array.isArray(input)) {
+    if (typeof schema.minItems === 'number' && input.length < schema.minItems) {
+      push('minItems', `must contain at least ${schema.minItems} item(s)`);
+    }
+    if (typeof schema.maxItems === 'number' && input.length > schema.maxItems) {
+      push('maxItems', `must contain at most ${schema.maxItems} item(s)`);
+    }
+    if (schema.uniqueItems === true) {
+      const seen = new Set(input.map(item => JSON.stringify(item)));
+      if (seen.size !== input.length) {
+        push('uniqueItems', 'must not contain duplicate items');
+      }
+    }
+    if (schema.items) {
+      input.forEach((item, index) => {
+        checkSchema(schema.items!, item, tagId, `${path}[${index}]`, issues, options);
+      });
+    }
+  }
+
+  if (typeOf(input) === 'object') {
+    const record = input as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (record[key] === undefined) {
+        push('required', `missing required property "${key}"`);
+      }
+    }
+    const properties = schema.properties ?? {};
+    for (const [key, item] of Object.entries(record)) {
+      if (properties[key]) {
+        checkSchema(properties[key], item, tagId, `${path}.${key}`, issues, options);
+      } else if (schema.additionalProperties === false) {
+        push('additionalProperties', `unexpected property "${key}"`);
+      }
+    }
+  }
+}
+
+/**
+ * Check one tag value against its tag definition's JSON schema.
+ * Tags without a definition return no issues; use `validateTagValues` to report them.
+ *
+ * @returns Schema violations; empty when the value is valid
+ */
+export function validateTagValue(
+  tagId: string,
+  value: unknown,
+  definitions: TagDefinitions,
+  options: TagValueValidationOptions = {}
+): TagValueIssue[] {
+  const definition = definitions[tagId];
+  if (!definition) {
+    return [];
+  }
+
+  const values = options.valueSets?.[tagId];
+  const schema = withValueSet(definition.schema ?? {}, values);
+
+  const issues: TagValueIssue[] = [];
+  checkSchema(schema, value, tagId, '', issues, {
+    caseInsensitiveEnum: Boolean(values),
+    coerceStrings: options.coerceStrings ?? false
+  });
+  return issues;
+}
+
+/**
+ * Check a tag map against tag definitions (e.g. from `oli.fetcher.getOLITags()`): types,
+ * enums and value sets, string patterns and lengths, numeric bounds, array items, and unknown tag ids.
+ *
+ * @example
+ * ```ts
+ * const issues = validateTagValues({ is_eoa: 'yes', erc_type: ['erc20', 'erc9999'] }, oli.tagDefinitions);
+ * // [{ tagId: 'is_eoa', keyword: 'type', ... }, { tagId: 'erc_type', path: '[1]', keyword: 'enum', ... }]
+ * ```
+ */
+export function validateTagValues(
+  tags: Record<string, unknown>,
+  definitions: TagDefinitions,
+  options: TagValueValidationOptions = {}
+): TagValueIssue[] {
+  const issues: TagValueIssue[] = [];
+  for (const [tagId, value] of Object.entries(tags)) {
+    if (value === undefined) {
+      continue;
+    }
+    if (!definitions[tagId]) {
+      if (options.reportUnknownTags !== false) {
+        issues.push({ tagId, path: '', keyword: 'unknown_tag', message: `Unknown tag_id "${tagId}".` });
+      }
+      continue;
+    }
+    issues.push(...validateTagValue(tagId, value, definitions, options));
+  }
+  return issues;
+}
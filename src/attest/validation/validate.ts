@@ -6,9 +6,11 @@ import type {
   SingleValidationResult,
   ValidationOptions
 } from '../types';
+import type { TagDefinitions, ValueSets } from '../../types/tags';
 import { FORM_FIELDS, REQUIRED_FIELD_IDS } from '../core/formFields';
 import { resolveModeProfile } from '../core/profiles';
 import { parseCaip10 } from '../core/caip';
+import { prepareTags } from '../core/payload';
 import { createDiagnostics, addConversion, addError, addSuggestion, addWarning, mergeDiagnostics } from './diagnostics';
 import {
   validateAddress,
@@ -24,6 +26,7 @@ import {
 import { convertCategoryAlias, getSmartCategorySuggestions } from './category';
 import { convertPaymasterAlias, getSmartPaymasterSuggestions, VALID_PAYMASTER_CATEGORIES } from './paymaster';
 import { getProjectValidation, resolveProjectsList } from './project';
+import { validateTagValues } from './tagValues';
 
 const FIELD_DEFINITIONS = new Map(FORM_FIELDS.map((field) => [field.id, field]));
 
@@ -342,6 +345,44 @@ function validateFieldValue(
   }
 }
 
+function validateTagSchemas(
+  row: AttestationRowInput,
+  diagnostics: AttestationDiagnostics,
+  tagDefinitions: TagDefinitions | undefined,
+  valueSets: ValueSets | undefined,
+  rowIndex?: number
+): void {
+  if (!tagDefinitions || Object.keys(tagDefinitions).length === 0) {
+    return;
+  }
+
+  // Fields a dedicated validator already rejected are not reported twice
+  const reported = new Set(
+    diagnostics.errors.filter((error) => error.row === rowIndex && error.field).map((error) => error.field)
+  );
+
+  const issues = validateTagValues(prepareTags(row), tagDefinitions, { valueSets, coerceStrings: true });
+  issues.forEach((issue) => {
+    if (reported.has(issue.tagId)) {
+      return;
+    }
+
+    if (issue.keyword === 'unknown_tag') {
+      addWarning(diagnostics, 'TAG_UNKNOWN', `Field "${issue.tagId}" is not a known OLI tag.`, {
+        row: rowIndex,
+        field: issue.tagId
+      });
+      return;
+    }
+
+    addError(diagnostics, 'TAG_VALUE_INVALID', issue.message, {
+      row: rowIndex,
+      field: issue.tagId,
+      metadata: { keyword: issue.keyword, path: issue.path }
+    });
+  });
+}
+
 async function validateRow(
   rowInput: AttestationRowInput,
   diagnostics: AttestationDiagnostics,
@@ -349,6 +390,8 @@ async function validateRow(
     mode: ReturnType<typeof resolveModeProfile>;
     projects: ProjectRecord[];
     allowedFields: Set<string> | null;
+    tagDefinitions?: TagDefinitions;
+    valueSets?: ValueSets;
     rowIndex?: number;
   }
 ): Promise<AttestationRowInput> {
@@ -389,6 +432,7 @@ async function validateRow(
   await validateProject(row, diagnostics, projects, rowIndex);
   validateCategoryFieldValue(row, diagnostics, rowIndex);
   validatePaymasterFieldValue(row, diagnostics, rowIndex);
+  validateTagSchemas(row, diagnostics, options.tagDefinitions, options.valueSets, rowIndex);
 
   return row;
 }
@@ -402,7 +446,9 @@ export async function validateSingle(input: AttestationRowInput, options: Valida
   const row = await validateRow(input, diagnostics, {
     mode,
     projects,
-    allowedFields
+    allowedFields,
+    tagDefinitions: options.tagDefinitions,
+    valueSets: options.valueSets
   });
 
   return {
@@ -454,6 +500,8 @@ export async function validateBulk(rows: AttestationRowInput[], options: Validat
       mode,
       projects,
       allowedFields,
+      tagDefinitions: options.tagDefinitions,
+      valueSets: options.valueSets,
       rowIndex: index
     });
 
@@ -0,0 +1,189 @@
+import { decodeAbiParameters, decodeFunctionResult, encodeFunctionData, recoverTypedDataAddress } from 'viem';
+import type { AttestationDomain, AttestationPayload, RestAttestationRecord } from '../../types/api';
+import type { AttestationVerificationMismatch, AttestationVerificationResult } from '../types';
+import { getAttestationNetworkConfig, isSupportedAttestationNetwork, networkFromSchemaInfo } from '../core/eas';
+import { buildCaip10 } from '../core/caip';
+import { buildOffchainDomain, computeOffchainUid, toSignableTypedData } from '../core/offchain';
+import { prepareEncodedData } from '../core/payload';
+import { EAS_READ_ABI } from '../transport/easAbi';
+import type { Eip1193ProviderLike } from '../transport/eip1193';
+
+/** JSON with object keys sorted, so differently ordered `tags_json` compare equal. */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function sameAddress(a: string | null | undefined, b: string | null | undefined): boolean {
+  return typeof a === 'string' && typeof b === 'string' && a.toLowerCase() === b.toLowerCase();
+}
+
+function sameDomain(actual: AttestationDomain, expected: AttestationDomain): boolean {
+  return (
+    actual.name === expected.name &&
+    actual.version === expected.version &&
+    Number(actual.chainId) === Number(expected.chainId) &&
+    sameAddress(actual.verifyingContract, expected.verifyingContract)
+  );
+}
+
+/**
+ * Compare attested data with a record's `chain_id`, `recipient`, and `tags_json`. Returns whether
+ * the re-encoded bytes match exactly and whether the decoded content matches.
+ */
+function compareRecordData(record: RestAttestationRecord, data: string): { exact: boolean; matches: boolean } {
+  if (!record.chain_id || !record.recipient) {
+    return { exact: false, matches: false };
+  }
+
+  const expected = prepareEncodedData(record.chain_id, record.recipient, record.tags_json ?? {});
+  if (expected.toLowerCase() === data.toLowerCase()) {
+    return { exact: true, matches: true };
+  }
+
+  try {
+    const [caip10, tagsJson] = decodeAbiParameters([{ type: 'string' }, { type: 'string' }], data as `0x${string}`);
+    const matches =
+      caip10.toLowerCase() === buildCaip10(record.chain_id, record.recipient).toLowerCase() &&
+      canonicalJson(JSON.parse(tagsJson)) === canonicalJson(record.tags_json ?? {});
+    return { exact: false, matches };
+  } catch {
+    return { exact: false, matches: false };
+  }
+}
+
+function toResult(uid: string, mismatches: AttestationVerificationMismatch[], extra: Partial<AttestationVerificationResult> = {}) {
+  return { uid, valid: mismatches.length === 0, mismatches, ...extra };
+}
+
+/**
+ * Check an onchain `RestAttestationRecord` against the EAS contract: reads `getAttestation(uid)`
+ * over `provider` and compares schema, attester, revocation, and the data re-encoded from the
+ * record's `tags_json` with `prepareEncodedData`.
+ *
+ * @param record - Record returned by `getAttestations`.
+ * @param provider - EIP-1193 provider or viem client connected to the record's attestation network.
+ * @throws When the record is offchain or the provider is on another chain.
+ */
+export async function verifyAttestationRecord(
+  record: RestAttestationRecord,
+  provider: Eip1193ProviderLike
+): Promise<AttestationVerificationResult> {
+  if (record.is_offchain) {
+    throw new Error(`Attestation ${record.uid} is offchain; verify its signed payload with verifyOffchainAttestation.`);
+  }
+
+  const network = networkFromSchemaInfo(record.schema_info);
+  const chainIdHex = await provider.request({ method: 'eth_chainId', params: [] });
+  const chainId = typeof chainIdHex === 'string' ? Number.parseInt(chainIdHex, 16) : Number(chainIdHex);
+  if (chainId !== network.chainId) {
+    throw new Error(`Provider is connected to chain ${chainId}, but attestation ${record.uid} is on ${network.name} (${network.chainId}).`);
+  }
+
+  const returnData = await provider.request({
+    method: 'eth_call',
+    params: [
+      {
+        to: network.easContractAddress,
+        data: encodeFunctionData({ abi: EAS_READ_ABI, functionName: 'getAttestation', args: [record.uid as `0x${string}`] })
+      },
+      'latest'
+    ]
+  });
+  const attestation = decodeFunctionResult({
+    abi: EAS_READ_ABI,
+    functionName: 'getAttestation',
+    data: returnData as `0x${string}`
+  });
+
+  // EAS returns an empty attestation for unknown UIDs
+  if (attestation.uid.toLowerCase() !== record.uid.toLowerCase()) {
+    return toResult(record.uid, [{ field: 'uid', expected: record.uid, actual: attestation.uid }]);
+  }
+
+  const mismatches: AttestationVerificationMismatch[] = [];
+  if (attestation.schema.toLowerCase() !== network.schemaUID.toLowerCase()) {
+    mismatches.push({ field: 'schema', expected: network.schemaUID, actual: attestation.schema });
+  }
+  if (!sameAddress(attestation.attester, record.attester)) {
+    mismatches.push({ field: 'attester', expected: record.attester, actual: attestation.attester });
+  }
+  const revoked = attestation.revocationTime > BigInt(0);
+  if (revoked !== record.revoked) {
+    mismatches.push({ field: 'revoked', expected: record.revoked, actual: revoked });
+  }
+  const data = compareRecordData(record, attestation.data);
+  if (!data.matches) {
+    mismatches.push({ field: 'data', expected: record.tags_json, actual: attestation.data });
+  }
+
+  return toResult(record.uid, mismatches, { exactEncoding: data.exact });
+}
+
+/**
+ * Verify a signed offchain attestation: checks the EIP-712 domain and schema against the
+ * attestation network, recovers the signer, recomputes the UID from the message, and, when
+ * `record` is given, checks the signed data against its `tags_json`.
+ *
+ * The network is the record's (`schema_info`) when given, otherwise the one the domain's
+ * `chainId` names; a domain for an unsupported chain is reported as a `domain` mismatch.
+ *
+ * @param payload - Signed payload as posted to `postAttestation`.
+ * @param options.record - REST record the payload claims to back.
+ */
+export async function verifyOffchainAttestation(
+  payload: AttestationPayload,
+  options: { record?: RestAttestationRecord } = {}
+): Promise<AttestationVerificationResult> {
+  const { sig } = payload;
+  const mismatches: AttestationVerificationMismatch[] = [];
+
+  const uid = computeOffchainUid(sig.message);
+  if (uid.toLowerCase() !== sig.uid.toLowerCase()) {
+    mismatches.push({ field: 'uid', expected: sig.uid, actual: uid });
+  }
+
+  const domainChainId = Number(sig.domain.chainId);
+  const network = options.record
+    ? networkFromSchemaInfo(options.record.schema_info)
+    : isSupportedAttestationNetwork(domainChainId)
+      ? getAttestationNetworkConfig(domainChainId)
+      : null;
+  const domain = network ? buildOffchainDomain(network) : null;
+  if (!domain || !sameDomain(sig.domain, domain)) {
+    mismatches.push({ field: 'domain', expected: domain, actual: sig.domain });
+  }
+  if (network && sig.message.schema.toLowerCase() !== network.schemaUID.toLowerCase()) {
+    mismatches.push({ field: 'schema', expected: network.schemaUID, actual: sig.message.schema });
+  }
+
+  const signer = await recoverTypedDataAddress({
+    ...toSignableTypedData({ domain: sig.domain, types: sig.types, primaryType: 'Attest', message: sig.message }),
+    signature: { r: sig.signature.r as `0x${string}`, s: sig.signature.s as `0x${string}`, v: BigInt(sig.signature.v) }
+  } as never);
+  if (!sameAddress(signer, payload.signer)) {
+    mismatches.push({ field: 'signer', expected: payload.signer, actual: signer });
+  }
+
+  let exactEncoding: boolean | undefined;
+  if (options.record) {
+    if (!sameAddress(signer, options.record.attester)) {
+      mismatches.push({ field: 'attester', expected: options.record.attester, actual: signer });
+    }
+    const data = compareRecordData(options.record, sig.message.data);
+    exactEncoding = data.exact;
+    if (!data.matches) {
+      mismatches.push({ field: 'data', expected: options.record.tags_json, actual: sig.message.data });
+    }
+  }
+
+  return toResult(sig.uid, mismatches, { signer, exactEncoding });
+}
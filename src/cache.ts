@@ -0,0 +1,383 @@
+/**
+ * Cache adapters for RestClient responses
+ * In-memory LRU, filesystem JSON (Node.js), localStorage, and IndexedDB backends
+ */
+
+import type {
+  CacheAdapter,
+  CacheRecord,
+  FileSystemCacheAdapterOptions,
+  IndexedDBCacheAdapterOptions,
+  LocalStorageCacheAdapterOptions,
+  MemoryCacheAdapterOptions
+} from './types/cache';
+
+/**
+ * Stored form of a cache record with its expiry time
+ */
+interface StoredRecord {
+  record: CacheRecord;
+  /** Unix time in milliseconds after which the record may be dropped */
+  expiresAt: number;
+}
+
+/**
+ * In-memory record with its estimated size
+ */
+interface MemoryRecord extends StoredRecord {
+  bytes: number;
+}
+
+function estimateBytes(record: CacheRecord): number {
+  try {
+    return JSON.stringify(record.data)?.length ?? 0;
+  } catch {
+    return 0;
+  }
+}
+
+function toStoredRecord(record: CacheRecord, ttlMs: number): StoredRecord {
+  return { record, expiresAt: Date.now() + Math.max(0, ttlMs) };
+}
+
+function isExpired(stored: StoredRecord): boolean {
+  return stored.expiresAt <= Date.now();
+}
+
+/**
+ * In-memory cache with least-recently-used eviction.
+ * Used by RestClient when no `cacheAdapter` is configured.
+ */
+export class MemoryCacheAdapter implements CacheAdapter {
+  private readonly entries = new Map<string, MemoryRecord>();
+  private readonly maxEntries: number;
+  private readonly maxBytes: number;
+  private totalBytes = 0;
+
+  constructor(options: MemoryCacheAdapterOptions = {}) {
+    this.maxEntries = options.maxEntries ?? Infinity;
+    this.maxBytes = options.maxBytes ?? Infinity;
+  }
+
+  /** Number of cached entries */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /** Estimated size of all cached responses in bytes */
+  get bytes(): number {
+    return this.totalBytes;
+  }
+
+  get<T = unknown>(key: string): CacheRecord<T> | undefined {
+    const stored = this.entries.get(key);
+    if (!stored) {
+      return undefined;
+    }
+    if (isExpired(stored)) {
+      this.delete(key);
+      return undefined;
+    }
+    // Re-insert to mark the entry as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, stored);
+    return stored.record as CacheRecord<T>;
+  }
+
+  set<T = unknown>(key: string, record: CacheRecord<T>, ttlMs: number): void {
+    this.delete(key);
+    const bytes = estimateBytes(record);
+    if (bytes > this.maxBytes) {
+      return;
+    }
+    this.entries.set(key, { ...toStoredRecord(record, ttlMs), bytes });
+    this.totalBytes += bytes;
+    while (this.entries.size > this.maxEntries || this.totalBytes > this.maxBytes) {
+      this.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  delete(key: string): void {
+    const stored = this.entries.get(key);
+    if (stored) {
+      this.entries.delete(key);
+      this.totalBytes -= stored.bytes;
+    }
+  }
+
+  keys(): string[] {
+    return [...this.entries.keys()];
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.totalBytes = 0;
+  }
+}
+
+/**
+ * Cache persisted to a JSON file (Node.js only).
+ * The file is read once on first access and rewritten after every change.
+ */
+export class FileSystemCacheAdapter implements CacheAdapter {
+  private readonly path: string;
+  private entries: Map<string, StoredRecord> | null = null;
+  private loading: Promise<Map<string, StoredRecord>> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(options: FileSystemCacheAdapterOptions) {
+    this.path = options.path;
+  }
+
+  async get<T = unknown>(key: string): Promise<CacheRecord<T> | undefined> {
+    const entries = await this.load();
+    const stored = entries.get(key);
+    if (!stored) {
+      return undefined;
+    }
+    if (isExpired(stored)) {
+      entries.delete(key);
+      await this.persist();
+      return undefined;
+    }
+    return stored.record as CacheRecord<T>;
+  }
+
+  async set<T = unknown>(key: string, record: CacheRecord<T>, ttlMs: number): Promise<void> {
+    const entries = await this.load();
+    entries.set(key, toStoredRecord(record, ttlMs));
+    await this.persist();
+  }
+
+  async delete(key: string): Promise<void> {
+    const entries = await this.load();
+    if (entries.delete(key)) {
+      await this.persist();
+    }
+  }
+
+  async keys(): Promise<string[]> {
+    return [...(await this.load()).keys()];
+  }
+
+  async clear(): Promise<void> {
+    (await this.load()).clear();
+    await this.persist();
+  }
+
+  private load(): Promise<Map<string, StoredRecord>> {
+    if (this.entries) {
+      return Promise.resolve(this.entries);
+    }
+    if (!this.loading) {
+      this.loading = (async () => {
+        const fs = await loadNodeFs();
+        let entries = new Map<string, StoredRecord>();
+        try {
+          const parsed = JSON.parse(await fs.readFile(this.path, 'utf8'));
+          if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+            entries = new Map(Object.entries(parsed as Record<string, StoredRecord>).filter(([, stored]) => !isExpired(stored)));
+          }
+        } catch (error) {
+          // A missing or corrupt file starts an empty cache
+          if ((error as { code?: string }).code !== 'ENOENT' && !(error instanceof SyntaxError)) {
+            throw error;
+          }
+        }
+        this.entries = entries;
+        return entries;
+      })();
+    }
+    return this.loading;
+  }
+
+  private persist(): Promise<void> {
+    // Chain writes so concurrent updates never interleave on disk
+    this.writing = this.writing.catch(() => undefined).then(async () => {
+      const fs = await loadNodeFs();
+      const snapshot = Object.fromEntries(this.entries ?? new Map());
+      await fs.writeFile(this.path, JSON.stringify(snapshot), 'utf8');
+    });
+    return this.writing;
+  }
+}
+
+/**
+ * Cache persisted to `localStorage` (browser).
+ * Each record is stored under its own prefixed key.
+ */
+export class LocalStorageCacheAdapter implements CacheAdapter {
+  private readonly prefix: string;
+  private readonly storage: Storage;
+
+  constructor(options: LocalStorageCacheAdapterOptions = {}) {
+    const storage = options.storage ?? (globalThis as { localStorage?: Storage }).localStorage;
+    if (!storage) {
+      throw new Error('localStorage is not available in this environment');
+    }
+    this.storage = storage;
+    this.prefix = options.prefix ?? 'oli-cache:';
+  }
+
+  get<T = unknown>(key: string): CacheRecord<T> | undefined {
+    const raw = this.storage.getItem(this.prefix + key);
+    if (raw === null) {
+      return undefined;
+    }
+    try {
+      const stored = JSON.parse(raw) as StoredRecord;
+      if (!isExpired(stored)) {
+        return stored.record as CacheRecord<T>;
+      }
+    } catch {
+      // Fall through and drop unreadable entries
+    }
+    this.storage.removeItem(this.prefix + key);
+    return undefined;
+  }
+
+  set<T = unknown>(key: string, record: CacheRecord<T>, ttlMs: number): void {
+    try {
+      this.storage.setItem(this.prefix + key, JSON.stringify(toStoredRecord(record, ttlMs)));
+    } catch {
+      // Quota exceeded: skip caching rather than failing the request
+    }
+  }
+
+  delete(key: string): void {
+    this.storage.removeItem(this.prefix + key);
+  }
+
+  keys(): string[] {
+    const keys: string[] = [];
+    for (let index = 0; index < this.storage.length; index++) {
+      const key = this.storage.key(index);
+      if (key?.startsWith(this.prefix)) {
+        keys.push(key.slice(this.prefix.length));
+      }
+    }
+    return keys;
+  }
+
+  clear(): void {
+    this.keys().forEach(key => this.delete(key));
+  }
+}
+
+/**
+ * Cache persisted to IndexedDB (browser).
+ */
+export class IndexedDBCacheAdapter implements CacheAdapter {
+  private readonly dbName: string;
+  private readonly storeName: string;
+  private readonly factory: IDBFactory;
+  private database: Promise<IDBDatabase> | null = null;
+
+  constructor(options: IndexedDBCacheAdapterOptions = {}) {
+    const factory = options.indexedDB ?? (globalThis as { indexedDB?: IDBFactory }).indexedDB;
+    if (!factory) {
+      throw new Error('IndexedDB is not available in this environment');
+    }
+    this.factory = factory;
+    this.dbName = options.dbName ?? 'oli-sdk-cache';
+    this.storeName = options.storeName ?? 'responses';
+  }
+
+  async get<T = unknown>(key: string): Promise<CacheRecord<T> | undefined> {
+    const stored = await this.run<StoredRecord | undefined>('readonly', store => store.get(key));
+    if (!stored) {
+      return undefined;
+    }
+    if (isExpired(stored)) {
+      await this.delete(key);
+      return undefined;
+    }
+    return stored.record as CacheRecord<T>;
+  }
+
+  async set<T = unknown>(key: string, record: CacheRecord<T>, ttlMs: number): Promise<void> {
+    await this.run('readwrite', store => store.put(toStoredRecord(record, ttlMs), key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.run('readwrite', store => store.delete(key));
+  }
+
+  async keys(): Promise<string[]> {
+    const keys = await this.run<IDBValidKey[]>('readonly', store => store.getAllKeys());
+    return keys.map(key => String(key));
+  }
+
+  async clear(): Promise<void> {
+    await this.run('readwrite', store => store.clear());
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = new Promise((resolve, reject) => {
+        const request = this.factory.open(this.dbName, 1);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(this.storeName)) {
+            request.result.createObjectStore(this.storeName);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.database;
+  }
+
+  private async run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = await this.open();
+    return new Promise<T>((resolve, reject) => {
+      const request = action(db.transaction(this.storeName, mode).objectStore(this.storeName));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+/**
+ * Create an in-memory LRU cache adapter bounded by entry count and/or estimated size.
+ *
+ * @example
+ * ```ts
+ * const oli = new OLIClient({ api: { enableCache: true, cacheTtl: 30_000, cacheAdapter: createMemoryCacheAdapter({ maxEntries: 500, maxBytes: 5_000_000 }) } });
+ * ```
+ */
+export function createMemoryCacheAdapter(options: MemoryCacheAdapterOptions = {}): CacheAdapter {
+  return new MemoryCacheAdapter(options);
+}
+
+/**
+ * Create a cache adapter persisted to a JSON file (Node.js only).
+ */
+export function createFileSystemCacheAdapter(options: FileSystemCacheAdapterOptions): CacheAdapter {
+  return new FileSystemCacheAdapter(options);
+}
+
+/**
+ * Create a cache adapter persisted to `localStorage`.
+ */
+export function createLocalStorageCacheAdapter(options: LocalStorageCacheAdapterOptions = {}): CacheAdapter {
+  return new LocalStorageCacheAdapter(options);
+}
+
+/**
+ * Create a cache adapter persisted to IndexedDB.
+ */
+export function createIndexedDBCacheAdapter(options: IndexedDBCacheAdapterOptions = {}): CacheAdapter {
+  return new IndexedDBCacheAdapter(options);
+}
+
+interface NodeFs {
+  readFile(path: string, encoding: 'utf8'): Promise<string>;
+  writeFile(path: string, data: string, encoding: 'utf8'): Promise<void>;
+}
+
+async function loadNodeFs(): Promise<NodeFs> {
+  // Resolved at runtime so browser bundles never try to include `fs`
+  const moduleName = 'fs/promises';
+  return (await import(/* webpackIgnore: true */ moduleName)) as NodeFs;
+}
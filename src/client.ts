@@ -6,6 +6,7 @@ import { DataFetcher } from './fetcher';
 import { DEFAULT_API_CONFIG } from './types/common';
 import type { OLIConfig, LabelDisplayConfig, LabelFilterConfig, ResolvedAPIConfig, APIConfig } from './types/common';
 import type { TagDefinitions, ValueSets } from './types/tags';
+import type { TrustPolicy } from './types/trust';
 import type { IOLIClient } from './types/client';
 import * as helpers from './helpers';
 import { RestClient } from './rest';
@@ -43,6 +44,9 @@ export class OLIClient<TCustomTags extends Record<string, unknown> = Record<stri
   
   /** Filter configuration */
   public readonly filterConfig: LabelFilterConfig;
+
+  /** Trust policy used when ranking labels */
+  public readonly trustPolicy?: TrustPolicy;
   
   /** REST API configuration */
   public readonly apiConfig: ResolvedAPIConfig;
@@ -82,13 +86,20 @@ export class OLIClient<TCustomTags extends Record<string, unknown> = Record<stri
       showRevoked: false
     };
     this.filterConfig = config.filters || {};
+    this.trustPolicy = config.trust;
     this.apiConfig = this.resolveApiConfig(config.api);
 
     // Initialize sub-modules
     this.fetcher = new DataFetcher(this);
     this.api = new RestClient<TCustomTags>(this);
     this.rest = this.api;
-    this.attest = new AttestClient();
+    this.attest = new AttestClient({
+      api: this.api,
+      getTagSchemas: () => ({ tagDefinitions: this.tagDefinitions, valueSets: this.valueSets }),
+      onSubmitted: this.apiConfig.invalidateLabelsOnSubmit
+        ? prepared => this.api.invalidateAddress(prepared.address)
+        : undefined
+    });
   }
 
   /**
@@ -206,7 +217,7 @@ export class OLIClient<TCustomTags extends Record<string, unknown> = Record<stri
    * 
    * @param tagId - The tag_id to validate against
    * @param value - The value to validate
-   * @returns True if valid or tag has no restrictions
+   * @returns True if the value matches the tag's value set or JSON schema, or the tag is unknown
    */
   validateValue(tagId: string, value: any): boolean {
     this.ensureInitialized();
@@ -226,10 +237,24 @@ export class OLIClient<TCustomTags extends Record<string, unknown> = Record<stri
       },
       timeoutMs: apiConfig?.timeoutMs ?? DEFAULT_API_CONFIG.timeoutMs,
       retries: apiConfig?.retries ?? DEFAULT_API_CONFIG.retries,
+      retryBackoff: {
+        ...DEFAULT_API_CONFIG.retryBackoff,
+        ...(apiConfig?.retryBackoff ?? {})
+      },
+      rateLimit: apiConfig?.rateLimit ?? DEFAULT_API_CONFIG.rateLimit,
+      interceptors: [...(apiConfig?.interceptors ?? DEFAULT_API_CONFIG.interceptors ?? [])],
       enableDeduplication: apiConfig?.enableDeduplication ?? DEFAULT_API_CONFIG.enableDeduplication,
       enableCache: apiConfig?.enableCache ?? DEFAULT_API_CONFIG.enableCache,
       cacheTtl: apiConfig?.cacheTtl ?? DEFAULT_API_CONFIG.cacheTtl,
-      staleWhileRevalidate: apiConfig?.staleWhileRevalidate ?? DEFAULT_API_CONFIG.staleWhileRevalidate
+      staleWhileRevalidate: apiConfig?.staleWhileRevalidate ?? DEFAULT_API_CONFIG.staleWhileRevalidate,
+      endpointCacheTtl: {
+        ...DEFAULT_API_CONFIG.endpointCacheTtl,
+        ...(apiConfig?.endpointCacheTtl ?? {})
+      },
+      cacheMaxEntries: apiConfig?.cacheMaxEntries ?? DEFAULT_API_CONFIG.cacheMaxEntries,
+      cacheMaxBytes: apiConfig?.cacheMaxBytes ?? DEFAULT_API_CONFIG.cacheMaxBytes,
+      cacheAdapter: apiConfig?.cacheAdapter ?? DEFAULT_API_CONFIG.cacheAdapter,
+      invalidateLabelsOnSubmit: apiConfig?.invalidateLabelsOnSubmit ?? DEFAULT_API_CONFIG.invalidateLabelsOnSubmit
     };
   }
 }
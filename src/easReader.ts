@@ -0,0 +1,261 @@
+/**
+ * Reads OLI attestations straight from the EAS contracts over JSON-RPC
+ * A fallback source that needs neither the OLI REST API nor the growthepie exports
+ */
+
+import { decodeAbiParameters, decodeEventLog, decodeFunctionResult, encodeEventTopics, encodeFunctionData, padHex } from 'viem';
+import * as helpers from './helpers';
+import { ZERO_BYTES32, getAttestationNetworkConfig } from './attest/core/eas';
+import { EAS_EVENTS_ABI, EAS_READ_ABI } from './attest/transport/easAbi';
+import type { AttestationNetworkConfig } from './attest/types';
+import type { RestAttestationRecord } from './types/api';
+import type { ExpandedAttestation } from './types/attestation';
+import { throwIfAborted } from './rest';
+
+const DEFAULT_BLOCK_RANGE = 10_000;
+
+/**
+ * Anything with an EIP-1193 `request` method: `window.ethereum`, a viem client, or an ethers provider wrapper
+ */
+export interface JsonRpcRequester {
+  request(args: { method: string; params?: unknown[] }): Promise<unknown>;
+}
+
+/**
+ * Options for `EasOnchainReader`
+ */
+export interface EasOnchainReaderOptions {
+  /** JSON-RPC endpoint URL or EIP-1193 provider per attestation network chain ID (8453, 42161) */
+  rpc: Record<number, string | JsonRpcRequester>;
+  /** Blocks per `eth_getLogs` request; halved automatically when a node rejects the range (default: 10000) */
+  blockRange?: number;
+  fetch?: typeof fetch;
+}
+
+/**
+ * Options for `EasOnchainReader.scanAttestations`
+ */
+export interface EasScanOptions {
+  /** Attestation network to scan (default: the first configured network) */
+  chainId?: number;
+  /** First block to scan */
+  fromBlock: number | bigint;
+  /** Last block to scan (default: the latest block) */
+  toBlock?: number | bigint;
+  /** Only attestations from this attester */
+  attester?: string;
+  /** Overrides the reader's `blockRange` */
+  blockRange?: number;
+  signal?: AbortSignal;
+}
+
+interface RpcLog {
+  topics: `0x${string}`[];
+  data: `0x${string}`;
+  blockNumber: string;
+  transactionHash: string;
+  logIndex: string;
+}
+
+type OnchainAttestation = ReturnType<typeof decodeFunctionResult<typeof EAS_READ_ABI, 'getAttestation'>>;
+
+/**
+ * Reads OLI label attestations from the EAS contract of each configured network.
+ *
+ * `getAttestation` reads one attestation by UID; `scanAttestations` walks `Attested` and
+ * `Revoked` logs for the OLI schema over a block range. Both return `ExpandedAttestation`
+ * objects shaped like the REST client's, so they can stand in for it when the API is down.
+ *
+ * @example
+ * ```ts
+ * const reader = new EasOnchainReader({ rpc: { 8453: 'https://mainnet.base.org' } });
+ * const label = await reader.getAttestation(uid);
+ *
+ * for await (const attestation of reader.scanAttestations({ fromBlock: 30_000_000 })) {
+ *   console.log(attestation.uid, attestation.owner_project, attestation.revoked);
+ * }
+ * ```
+ */
+export class EasOnchainReader<TCustomTags extends Record<string, unknown> = Record<string, unknown>> {
+  private readonly networks: AttestationNetworkConfig[];
+  private requestId = 0;
+
+  constructor(private readonly options: EasOnchainReaderOptions) {
+    this.networks = Object.keys(options.rpc).map((chainId) => getAttestationNetworkConfig(Number(chainId)));
+    if (this.networks.length === 0) {
+      throw new Error('EasOnchainReader needs at least one rpc endpoint.');
+    }
+  }
+
+  /**
+   * Fetch one attestation by UID.
+   *
+   * @param uid - Attestation UID.
+   * @param options.chainId - Network to read; every configured network is tried when omitted.
+   * @returns The attestation, or null when no configured network has an OLI attestation with this UID.
+   */
+  async getAttestation(uid: string, options: { chainId?: number } = {}): Promise<ExpandedAttestation<TCustomTags> | null> {
+    for (const network of this.resolveNetworks(options.chainId)) {
+      const attestation = await this.readAttestation(network, uid);
+      if (attestation) {
+        return this.expand(network, attestation);
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Walk `Attested` and `Revoked` logs for the OLI schema and yield the current state of every
+   * attestation they mention, in log order. An attestation revoked inside the range is yielded
+   * once, already marked revoked.
+   *
+   * @param options - Block range, network, and optional attester filter.
+   */
+  async *scanAttestations(options: EasScanOptions): AsyncGenerator<ExpandedAttestation<TCustomTags>, void, undefined> {
+    const [network] = this.resolveNetworks(options.chainId);
+    const toBlock =
+      options.toBlock !== undefined ? BigInt(options.toBlock) : BigInt(await this.call(network, 'eth_blockNumber', []) as string);
+    let range = BigInt(Math.max(1, options.blockRange ?? this.options.blockRange ?? DEFAULT_BLOCK_RANGE));
+    let from = BigInt(options.fromBlock);
+    const seen = new Set<string>();
+
+    while (from <= toBlock) {
+      throwIfAborted(options.signal);
+      const to = from + range - BigInt(1) < toBlock ? from + range - BigInt(1) : toBlock;
+
+      let logs: RpcLog[];
+      try {
+        logs = await this.getLogs(network, from, to, options.attester);
+      } catch (error) {
+        // Nodes cap the block range or result count; retry smaller chunks before giving up
+        if (range === BigInt(1)) {
+          throw error;
+        }
+        range = range / BigInt(2);
+        continue;
+      }
+
+      for (const log of logs) {
+        const { args } = decodeEventLog({ abi: EAS_EVENTS_ABI, topics: log.topics as never, data: log.data });
+        const uid = args.uid.toLowerCase();
+        if (seen.has(uid)) continue;
+        seen.add(uid);
+
+        throwIfAborted(options.signal);
+        const attestation = await this.readAttestation(network, args.uid);
+        if (attestation) {
+          yield this.expand(network, attestation, log.transactionHash);
+        }
+      }
+
+      from = to + BigInt(1);
+    }
+  }
+
+  private resolveNetworks(chainId?: number): AttestationNetworkConfig[] {
+    if (chainId === undefined) {
+      return this.networks;
+    }
+    const network = this.networks.find((candidate) => candidate.chainId === chainId);
+    if (!network) {
+      throw new Error(`No rpc endpoint configured for attestation network ${chainId}.`);
+    }
+    return [network];
+  }
+
+  private async call(network: AttestationNetworkConfig, method: string, params: unknown[]): Promise<unknown> {
+    const endpoint = this.options.rpc[network.chainId];
+    if (typeof endpoint !== 'string') {
+      return endpoint.request({ method, params });
+    }
+
+    const fetchImpl = this.options.fetch ?? fetch;
+    this.requestId += 1;
+    const response = await fetchImpl(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: this.requestId, method, params })
+    });
+    if (!response.ok) {
+      throw new Error(`JSON-RPC request ${method} failed with HTTP ${response.status}.`);
+    }
+
+    const payload = (await response.json()) as { result?: unknown; error?: { message?: string } };
+    if (payload.error) {
+      throw new Error(payload.error.message ?? `JSON-RPC request ${method} failed.`);
+    }
+    return payload.result;
+  }
+
+  private async getLogs(network: AttestationNetworkConfig, from: bigint, to: bigint, attester?: string): Promise<RpcLog[]> {
+    const [attested] = encodeEventTopics({ abi: EAS_EVENTS_ABI, eventName: 'Attested' });
+    const [revoked] = encodeEventTopics({ abi: EAS_EVENTS_ABI, eventName: 'Revoked' });
+    const logs = await this.call(network, 'eth_getLogs', [
+      {
+        address: network.easContractAddress,
+        fromBlock: `0x${from.toString(16)}`,
+        toBlock: `0x${to.toString(16)}`,
+        topics: [[attested, revoked], null, attester ? padHex(attester.toLowerCase() as `0x${string}`) : null, network.schemaUID]
+      }
+    ]);
+
+    return (Array.isArray(logs) ? (logs as RpcLog[]) : []).sort(
+      (a, b) => Number(BigInt(a.blockNumber) - BigInt(b.blockNumber)) || Number(BigInt(a.logIndex) - BigInt(b.logIndex))
+    );
+  }
+
+  private async readAttestation(network: AttestationNetworkConfig, uid: string): Promise<OnchainAttestation | null> {
+    const data = await this.call(network, 'eth_call', [
+      {
+        to: network.easContractAddress,
+        data: encodeFunctionData({ abi: EAS_READ_ABI, functionName: 'getAttestation', args: [uid as `0x${string}`] })
+      },
+      'latest'
+    ]);
+    const attestation = decodeFunctionResult({ abi: EAS_READ_ABI, functionName: 'getAttestation', data: data as `0x${string}` });
+
+    // Unknown UIDs come back as an empty attestation; other schemas are not OLI labels
+    if (attestation.uid === ZERO_BYTES32 || attestation.schema.toLowerCase() !== network.schemaUID.toLowerCase()) {
+      return null;
+    }
+    return attestation;
+  }
+
+  private expand(network: AttestationNetworkConfig, attestation: OnchainAttestation, txid = ''): ExpandedAttestation<TCustomTags> {
+    let caip10: string | null = null;
+    let tags: Record<string, unknown> | null = null;
+    let parsingError: string | undefined;
+    try {
+      const [decodedCaip10, tagsJson] = decodeAbiParameters([{ type: 'string' }, { type: 'string' }], attestation.data);
+      caip10 = decodedCaip10;
+      tags = JSON.parse(tagsJson) as Record<string, unknown>;
+    } catch (error) {
+      parsingError = error instanceof Error ? error.message : String(error);
+    }
+
+    const caipParts = caip10 ? caip10.split(':') : [];
+    const record: RestAttestationRecord = {
+      uid: attestation.uid,
+      time: new Date(Number(attestation.time) * 1000).toISOString(),
+      chain_id: caipParts.length >= 3 ? `${caipParts[0]}:${caipParts[1]}` : null,
+      attester: attestation.attester,
+      recipient: caipParts.length >= 3 ? caipParts.slice(2).join(':') : attestation.recipient,
+      revoked: attestation.revocationTime > BigInt(0),
+      is_offchain: false,
+      ipfs_hash: null,
+      schema_info: `${network.chainId}__${network.schemaUID}`,
+      tags_json: tags
+    };
+
+    const expanded = helpers.expandRestAttestation<TCustomTags>(record);
+    expanded.expirationTime = Number(attestation.expirationTime);
+    expanded.revocationTime = Number(attestation.revocationTime);
+    expanded.refUID = attestation.refUID;
+    expanded.revocable = attestation.revocable;
+    expanded.txid = txid;
+    if (parsingError !== undefined) {
+      expanded._parsing_error = parsingError;
+    }
+    return expanded;
+  }
+}
@@ -3,8 +3,14 @@
  */
 
 import yaml from 'js-yaml';
-import type { TagDefinitions, TagDefinitionsResponse, UsageCategoriesResponse, ValueSets, TagDefinition } from './types/tags';
+import type { TagDefinitions, UsageCategoriesResponse, ValueSets, TagDefinition } from './types/tags';
 import type { IOLIClient } from './types/client';
+import { LabelPoolIndex } from './labelPool';
+import { generateTagSchemaSource, parseTagDefinitionsYaml } from './tagSchema';
+import type { TagSchemaGeneratorOptions } from './tagSchema';
+import type { LabelPoolIndexOptions } from './labelPool';
+import { validateTagValue, validateTagValues } from './attest/validation/tagValues';
+import type { TagValueIssue, TagValueValidationOptions } from './attest/validation/tagValues';
 
 export class DataFetcher {
   private oli: IOLIClient;
@@ -29,19 +35,7 @@ export class DataFetcher {
     }
     
     const text = await response.text();
-    const data = yaml.load(text) as TagDefinitionsResponse;
-    
-    // Convert array to dictionary keyed by tag_id and normalize field names
-    const tagDefinitions: TagDefinitions = {};
-    for (const tag of data.tags) {
-      tagDefinitions[tag.tag_id] = {
-        ...tag,
-        display_name: tag.name, // Normalize: API uses 'name', we use 'display_name' internally
-        name: tag.name // Keep original for compatibility
-      };
-    }
-    
-    return tagDefinitions;
+    return parseTagDefinitionsYaml(text);
   }
 
   /**
@@ -151,6 +145,41 @@ export class DataFetcher {
     return await response.json();
   }
 
+  /**
+   * Download the decoded label export and load it into an in-memory index.
+   * Uses the client's filter, display, and trust configuration unless overridden.
+   * 
+   * @param options - Index options overriding the client configuration
+   * @returns LabelPoolIndex over the full label pool
+   */
+  async getLabelPoolIndex<T extends Record<string, unknown> = Record<string, unknown>>(
+    options: LabelPoolIndexOptions = {}
+  ): Promise<LabelPoolIndex<T>> {
+    return LabelPoolIndex.fromExport<T>(this, {
+      filterConfig: this.oli.filterConfig,
+      displayConfig: this.oli.displayConfig,
+      trustPolicy: this.oli.trustPolicy,
+      ...options
+    });
+  }
+
+  /**
+   * Generate a TypeScript module with a tag type and zod schemas for every OLI tag.
+   * Uses the client's loaded tag definitions and value sets, fetching the definitions if needed.
+   * 
+   * @param options - Generator options; pass `valueSets: {}` to keep only the enums from tag schemas
+   * @returns TypeScript source code
+   */
+  async generateTagSchemaSource(options: TagSchemaGeneratorOptions = {}): Promise<string> {
+    const definitions = Object.keys(this.oli.tagDefinitions).length > 0
+      ? this.oli.tagDefinitions
+      : await this.getOLITags();
+    return generateTagSchemaSource(definitions, {
+      ...options,
+      valueSets: options.valueSets ?? this.oli.valueSets
+    });
+  }
+
   /**
    * Get all valid values for a specific tag.
    * Useful for validation and auto-complete features.
@@ -164,20 +193,32 @@ export class DataFetcher {
 
   /**
    * Check if a value is valid for a specific tag.
+   * Tags with a value set are checked for membership; other tags against their JSON schema.
    * 
    * @param tagId - The tag_id to check against
    * @param value - The value to validate
-   * @returns True if valid, false if invalid or tag has no value set
+   * @returns True if valid or the tag is unknown, false if invalid
    */
   isValidValue(tagId: string, value: any): boolean {
     const validValues = this.oli.valueSets[tagId];
     if (!validValues) {
-      return true; // No value set means any value is valid
+      return validateTagValue(tagId, value, this.oli.tagDefinitions).length === 0;
     }
     
     // Normalize for comparison
     const normalizedValue = typeof value === 'string' ? value.toLowerCase() : value;
     return validValues.some((v: any) => v === normalizedValue);
   }
-}
 
+  /**
+   * Check a tag map against the loaded tag definitions and value sets.
+   * Reports type, enum, pattern, length, range, and array item violations as well as unknown tag ids.
+   * 
+   * @param tags - Tag values keyed by tag_id
+   * @param options - Validation options (value sets default to the client's)
+   * @returns Schema violations; empty when every tag is valid
+   */
+  validateTags(tags: Record<string, unknown>, options: TagValueValidationOptions = {}): TagValueIssue[] {
+    return validateTagValues(tags, this.oli.tagDefinitions, { valueSets: this.oli.valueSets, ...options });
+  }
+}
@@ -5,6 +5,10 @@
 
 import type { ExpandedAttestation } from './types/attestation';
 import type { RestAttestationRecord } from './types/api';
+import type { LabelConsensus, TagConsensus, TagValueSupport, TrustPolicy, TrustScore } from './types/trust';
+import { normalizeTagValue, scoreLabels } from './trust';
+
+export { scoreLabels } from './trust';
 
 /**
  * Configuration for label display preferences
@@ -46,7 +50,7 @@ export function getAvailableTags<T extends Record<string, unknown> = Record<stri
   const baseFields = [
     'attester', 'decodedDataJson', 'expirationTime', 'id', 'ipfsHash',
     'isOffchain', 'recipient', 'refUID', 'revocable', 'revocationTime',
-    'revoked', 'time', 'timeCreated', 'txid', '_parsing_error'
+    'revoked', 'time', 'timeCreated', 'txid', '_parsing_error', '_trust', '_source'
   ];
   
   return Object.keys(label).filter(key => !baseFields.includes(key));
@@ -201,25 +205,40 @@ export function filterLabels<T extends Record<string, unknown> = Record<string,
 }
 
 /**
- * Rank labels by recency and revocation status (non-revoked first)
+ * Rank labels by revocation status (non-revoked first) and recency.
+ * When a trust policy is given, labels are scored first and ranked by score
+ * (excluded labels last), with recency as the tie-breaker. Each returned label
+ * then carries its score and explanation in `_trust`.
  */
 export function rankLabels<T extends Record<string, unknown> = Record<string, unknown>>(
-  labels: ExpandedAttestation<T>[]
+  labels: ExpandedAttestation<T>[],
+  trustPolicy?: TrustPolicy
 ): ExpandedAttestation<T>[] {
-  return [...labels].sort((a, b) => {
+  const candidates = trustPolicy ? scoreLabels(labels, trustPolicy) : [...labels];
+  return candidates.sort((a, b) => {
     if (a.revoked !== b.revoked) {
       return a.revoked ? 1 : -1;
     }
+    if (a._trust && b._trust) {
+      if (a._trust.excluded !== b._trust.excluded) {
+        return a._trust.excluded ? 1 : -1;
+      }
+      if (a._trust.score !== b._trust.score) {
+        return b._trust.score - a._trust.score;
+      }
+    }
     return b.timeCreated - a.timeCreated;
   });
 }
 
 /**
- * Get the best label for an address based on configuration
+ * Get the best label for an address based on configuration.
+ * Labels excluded by the trust policy are never returned.
  */
 export function getBestLabel<T extends Record<string, unknown> = Record<string, unknown>>(
   labels: ExpandedAttestation<T>[],
-  filterConfig: LabelFilterConfig = {}
+  filterConfig: LabelFilterConfig = {},
+  trustPolicy?: TrustPolicy
 ): ExpandedAttestation<T> | null {
   if (labels.length === 0) return null;
 
@@ -227,7 +246,8 @@ export function getBestLabel<T extends Record<string, unknown> = Record<string,
   filtered = filterLabels(filtered, filterConfig);
   if (filtered.length === 0) return null;
 
-  return rankLabels(filtered)[0];
+  const best = rankLabels(filtered, trustPolicy)[0];
+  return best._trust?.excluded ? null : best;
 }
 
 /**
@@ -285,6 +305,10 @@ export interface LabelSummary {
   isValid: boolean;
   isRevoked: boolean;
   fields: Record<string, any>;
+  /** Trust score of the summarized label, present when a TrustPolicy was applied */
+  trust?: TrustScore;
+  /** Label source that returned the summarized label, present when read through a `LabelSource` */
+  source?: string;
 }
 
 export function getLabelSummary<T extends Record<string, unknown> = Record<string, unknown>>(
@@ -303,7 +327,9 @@ export function getLabelSummary<T extends Record<string, unknown> = Record<strin
     formattedDate: formatTimestamp(label.timeCreated, displayConfig.dateFormat),
     isValid: isLabelValid(label),
     isRevoked: label.revoked,
-    fields: getLabelFields(label)
+    fields: getLabelFields(label),
+    ...(label._trust ? { trust: label._trust } : {}),
+    ...(label._source ? { source: label._source } : {})
   };
 }
 function parseRestTimestamp(value: string | null | undefined): number {
@@ -359,3 +385,100 @@ export function expandRestAttestations<T extends Record<string, unknown> = Recor
 ): ExpandedAttestation<T>[] {
   return records.map(record => expandRestAttestation<T>(record));
 }
+
+/**
+ * Fields added by `expandRestAttestation` that are not tags
+ */
+const EXPANDED_META_FIELDS = new Set(['tags_json', 'schema_info', 'uid', 'time_iso', 'chain_id']);
+
+function getLabelTagEntries<T extends Record<string, unknown> = Record<string, unknown>>(
+  label: ExpandedAttestation<T>
+): Array<[string, unknown]> {
+  const tags = label.tags_json;
+  if (tags && typeof tags === 'object' && !Array.isArray(tags)) {
+    return Object.entries(tags);
+  }
+  return getAvailableTags(label)
+    .filter(key => !EXPANDED_META_FIELDS.has(key))
+    .map(key => [key, label[key]]);
+}
+
+/**
+ * Group labels by tag_id and report which attesters support each distinct value.
+ * Revoked and expired labels are ignored. When an attester has re-attested a tag,
+ * only their most recent value counts, so an attester never conflicts with itself.
+ */
+export function buildLabelConsensus<T extends Record<string, unknown> = Record<string, unknown>>(
+  address: string,
+  labels: ExpandedAttestation<T>[]
+): LabelConsensus {
+  const valid = labels
+    .filter(label => isLabelValid(label))
+    .sort((a, b) => b.timeCreated - a.timeCreated);
+
+  const attesters = new Map<string, string>();
+  const latestValueByAttester = new Map<string, string>();
+  const supportByTag = new Map<string, Map<string, TagValueSupport>>();
+
+  for (const label of valid) {
+    const attesterKey = (label.attester ?? '').toLowerCase();
+    if (!attesters.has(attesterKey)) {
+      attesters.set(attesterKey, label.attester);
+    }
+
+    for (const [tagId, rawValue] of getLabelTagEntries(label)) {
+      const normalizedValue = normalizeTagValue(rawValue);
+      if (normalizedValue === null) continue;
+
+      const attesterTagKey = `${tagId}:${attesterKey}`;
+      const latestValue = latestValueByAttester.get(attesterTagKey);
+      if (latestValue === undefined) {
+        latestValueByAttester.set(attesterTagKey, normalizedValue);
+      } else if (latestValue !== normalizedValue) {
+        // Superseded by a newer value from the same attester
+        continue;
+      }
+
+      const values = supportByTag.get(tagId) ?? new Map<string, TagValueSupport>();
+      const support = values.get(normalizedValue) ?? {
+        value: rawValue,
+        normalizedValue,
+        attesters: [],
+        count: 0,
+        latestTime: label.timeCreated,
+        uids: []
+      };
+      if (!support.attesters.some(existing => existing.toLowerCase() === attesterKey)) {
+        support.attesters.push(label.attester);
+      }
+      support.count += 1;
+      support.uids.push(label.uid ?? label.id);
+      values.set(normalizedValue, support);
+      supportByTag.set(tagId, values);
+    }
+  }
+
+  const tags: Record<string, TagConsensus> = {};
+  const conflicts: string[] = [];
+  for (const [tagId, values] of supportByTag.entries()) {
+    const sorted = Array.from(values.values()).sort((a, b) => {
+      if (a.attesters.length !== b.attesters.length) {
+        return b.attesters.length - a.attesters.length;
+      }
+      return b.latestTime - a.latestTime;
+    });
+    const hasConflict = sorted.length > 1;
+    tags[tagId] = { tag_id: tagId, values: sorted, hasConflict };
+    if (hasConflict) {
+      conflicts.push(tagId);
+    }
+  }
+
+  return {
+    address,
+    attestationCount: valid.length,
+    attesters: Array.from(attesters.values()),
+    tags,
+    conflicts
+  };
+}
@@ -16,6 +16,59 @@ export { RestClient } from './rest';
 export { AttestClient } from './attest';
 export { createProxyHandler } from './proxy';
 export type { ProxyHandlerOptions } from './proxy';
+export {
+  WEBHOOK_SIGNATURE_HEADER,
+  WebhookDispatcher,
+  createWebhookHandler,
+  signWebhookPayload,
+  verifyWebhookSignature
+} from './webhooks';
+export type {
+  WebhookDeadLetter,
+  WebhookDeadLetterStore,
+  WebhookDispatcherOptions,
+  WebhookHandlerOptions,
+  WebhookPayload,
+  WebhookSubscription,
+  WebhookTagFilter,
+  WebhookWatchSource
+} from './webhooks';
+export { createLoggingInterceptor, createMetricsInterceptor, redactHeaders } from './interceptors';
+export type { LoggingInterceptorOptions, MetricsInterceptor, RequestMetrics } from './interceptors';
+export {
+  createMemoryCacheAdapter,
+  createFileSystemCacheAdapter,
+  createLocalStorageCacheAdapter,
+  createIndexedDBCacheAdapter
+} from './cache';
+export { LabelPoolIndex, expandLabelPoolExport } from './labelPool';
+export { EasOnchainReader } from './easReader';
+export type { EasOnchainReaderOptions, EasScanOptions, JsonRpcRequester } from './easReader';
+export {
+  LabelSourceError,
+  createExportLabelSource,
+  createFallbackLabelSource,
+  createRestLabelSource,
+  createRpcLabelSource,
+  resolveLabelSource
+} from './labelSource';
+export type {
+  FallbackLabelSourceOptions,
+  LabelSource,
+  LabelSourceQueryOptions,
+  LabelSourceRestApi,
+  LabelSourceStreamOptions,
+  RpcLabelSourceOptions
+} from './labelSource';
+export { buildTagZodSchema, generateTagSchemaSource, parseTagDefinitionsYaml } from './tagSchema';
+export type { TagSchemaGeneratorOptions, TagZodSchemaOptions } from './tagSchema';
+export type {
+  LabelPoolIndexOptions,
+  LabelPoolExportSource,
+  LabelPoolSyncSource,
+  LabelPoolSyncOptions,
+  LabelPoolSyncResult
+} from './labelPool';
 export {
   PROJECTS_URL,
   fetchProjects,
@@ -50,10 +103,32 @@ export type {
   LabelDisplayConfig,
   LabelFilterConfig,
   APIConfig,
-  ResolvedAPIConfig
+  ResolvedAPIConfig,
+  RetryBackoffConfig,
+  RateLimitConfig
 } from './types/common';
 export { DEFAULT_API_CONFIG } from './types/common';
 
+// Types - Interceptors
+export type {
+  RestInterceptor,
+  InterceptedRequest,
+  InterceptedResponse,
+  InterceptedError,
+  InterceptorResponse
+} from './types/interceptors';
+
+// Types - Cache
+export type {
+  CacheAdapter,
+  CacheRecord,
+  CacheKeyPattern,
+  MemoryCacheAdapterOptions,
+  FileSystemCacheAdapterOptions,
+  LocalStorageCacheAdapterOptions,
+  IndexedDBCacheAdapterOptions
+} from './types/cache';
+
 // Types - Client
 export type {
   IOLIClient
@@ -101,10 +176,20 @@ export type {
   HTTPValidationError,
   ValidationError,
   LabelItem,
-  AddressLabels
+  AddressLabels,
+  RateLimitInfo
 } from './types/api';
 export { RestAPIError } from './rest';
 
+// Types - Watch
+export type {
+  WatchCheckpoint,
+  WatchEvent,
+  WatchFilter,
+  WatchHandle,
+  WatchOptions
+} from './types/watch';
+
 // Types - Attestations
 export type {
   RawAttestation,
@@ -113,6 +198,17 @@ export type {
   CommonOLITags
 } from './types/attestation';
 
+// Types - Trust
+export type {
+  TrustPolicy,
+  TrustRule,
+  TrustContribution,
+  TrustScore,
+  TagValueSupport,
+  TagConsensus,
+  LabelConsensus
+} from './types/trust';
+
 // Helper utilities
 export * as helpers from './helpers';
 export type { LabelSummary } from './helpers';
@@ -120,8 +216,18 @@ export type { LabelSummary } from './helpers';
 // Attest (write) APIs
 export {
   createDynamicWalletAdapter,
+  createEip1193WalletAdapter,
+  createViemWalletAdapter,
+  createPrivateKeyWalletAdapter,
   simpleProfile,
-  advancedProfile
+  advancedProfile,
+  computeOffchainUid,
+  decodeAttestationData,
+  tagsToRow,
+  computeOnchainUid,
+  computePreparedOffchainUid,
+  verifyAttestationRecord,
+  verifyOffchainAttestation
 } from './attest';
 export type {
   AttestationFieldValue,
@@ -146,11 +252,41 @@ export type {
   OnchainTxResult,
   OnchainWalletAdapter,
   OnchainSubmitResult,
-  BulkOnchainSubmitResult
+  BulkOnchainSubmitResult,
+  AttestationSimulationResult,
+  OnchainRevocationRequest,
+  OnchainRevocationRequestData,
+  RevokeOptions,
+  OffchainAttestationTypedData,
+  PrepareOffchainOptions,
+  PreparedOffchainAttestation,
+  AttestationApi,
+  OffchainSubmitResult,
+  BulkOffchainSubmitResult,
+  PrepareCorrectionOptions,
+  PreparedCorrection,
+  SubmitCorrectionOptions,
+  CorrectionSubmitResult,
+  BulkSubmitBatch,
+  BulkSubmitCheckpoint,
+  BulkSubmitProgress,
+  ChunkedBulkSubmitOptions,
+  ChunkedBulkOnchainSubmitResult,
+  ExistingLabelCheckOptions,
+  ExistingLabelAction,
+  ExistingLabelDifference,
+  ExistingLabelRowCheck,
+  OnchainUidOptions,
+  OffchainUidOptions,
+  AttestationVerificationMismatch,
+  AttestationVerificationResult,
+  Eip1193ProviderLike
 } from './attest';
 export { AttestValidationError } from './attest';
 export { DIAGNOSTIC_CODES } from './attest/validation/diagnostics';
 export type { DiagnosticCode } from './attest/validation/diagnostics';
+export { validateTagValue, validateTagValues } from './attest/validation/tagValues';
+export type { TagValueIssue, TagValueIssueKeyword, TagValueValidationOptions } from './attest/validation/tagValues';
 
 export type {
   ProjectSimilarityField,
@@ -0,0 +1,211 @@
+/**
+ * Interceptor pipeline for RestClient and the proxy handler
+ * Runs onRequest/onResponse/onError hooks and ships logging and metrics interceptors
+ */
+
+import type {
+  InterceptedError,
+  InterceptedRequest,
+  InterceptedResponse,
+  InterceptorResponse,
+  RestInterceptor
+} from './types/interceptors';
+
+/** Headers whose values are masked by the logging interceptor by default */
+const DEFAULT_REDACTED_HEADERS = ['x-api-key', 'authorization', 'cookie', 'proxy-authorization'];
+
+function isInterceptorResponse(value: unknown): value is InterceptorResponse {
+  return typeof value === 'object' && value !== null && 'respondWith' in value;
+}
+
+/**
+ * Run `onRequest` hooks in order.
+ * @returns The final request, or the short-circuit response of the first hook that returned one
+ */
+export async function runRequestInterceptors(
+  interceptors: RestInterceptor[],
+  request: InterceptedRequest
+): Promise<{ request: InterceptedRequest; response?: InterceptorResponse }> {
+  let current = request;
+  for (const interceptor of interceptors) {
+    if (!interceptor.onRequest) continue;
+    const result = await interceptor.onRequest(current);
+    if (isInterceptorResponse(result)) {
+      return { request: current, response: result };
+    }
+    if (result) {
+      current = result;
+    }
+  }
+  return { request: current };
+}
+
+/**
+ * Run `onResponse` hooks in order and return the final response
+ */
+export async function runResponseInterceptors(
+  interceptors: RestInterceptor[],
+  response: InterceptedResponse
+): Promise<InterceptedResponse> {
+  let current = response;
+  for (const interceptor of interceptors) {
+    if (!interceptor.onResponse) continue;
+    const result = await interceptor.onResponse(current);
+    if (result) {
+      current = result;
+    }
+  }
+  return current;
+}
+
+/**
+ * Run `onError` hooks in order.
+ * @returns `{ response }` when a hook recovered, otherwise `{ error }` with the error to rethrow
+ */
+export async function runErrorInterceptors(
+  interceptors: RestInterceptor[],
+  failure: InterceptedError
+): Promise<{ response?: InterceptorResponse; error: unknown }> {
+  let error = failure.error;
+  for (const interceptor of interceptors) {
+    if (!interceptor.onError) continue;
+    const result = await interceptor.onError({ ...failure, error });
+    if (isInterceptorResponse(result)) {
+      return { response: result, error };
+    }
+    if (result instanceof Error) {
+      error = result;
+    }
+  }
+  return { error };
+}
+
+/**
+ * Copy of `headers` with sensitive values replaced by `[REDACTED]`
+ */
+export function redactHeaders(
+  headers: Record<string, string>,
+  names: string[] = DEFAULT_REDACTED_HEADERS
+): Record<string, string> {
+  const redacted = names.map(name => name.toLowerCase());
+  const result: Record<string, string> = {};
+  for (const [key, value] of Object.entries(headers)) {
+    result[key] = redacted.includes(key.toLowerCase()) ? '[REDACTED]' : value;
+  }
+  return result;
+}
+
+/**
+ * Options for `createLoggingInterceptor`
+ */
+export interface LoggingInterceptorOptions {
+  /** Log sink (default: console) */
+  logger?: Pick<Console, 'info' | 'error'>;
+  /** Include (redacted) request headers in request logs (default: false) */
+  logHeaders?: boolean;
+  /** Header names to redact (default: x-api-key, authorization, cookie, proxy-authorization) */
+  redactHeaders?: string[];
+}
+
+/**
+ * Interceptor that logs each request, its status, and latency with credentials redacted.
+ *
+ * @example
+ * ```ts
+ * const oli = new OLIClient({ api: { interceptors: [createLoggingInterceptor()] } });
+ * ```
+ */
+export function createLoggingInterceptor(options: LoggingInterceptorOptions = {}): RestInterceptor {
+  const logger = options.logger ?? console;
+  return {
+    name: 'logging',
+    onRequest(request) {
+      if (options.logHeaders) {
+        logger.info(`[oli] → ${request.method} ${request.url}`, redactHeaders(request.headers, options.redactHeaders));
+      } else {
+        logger.info(`[oli] → ${request.method} ${request.url}`);
+      }
+    },
+    onResponse(response) {
+      logger.info(`[oli] ← ${response.status} ${response.request.method} ${response.request.url} (${response.durationMs}ms)`);
+    },
+    onError(failure) {
+      const status = (failure.error as { status?: number })?.status;
+      const message = failure.error instanceof Error ? failure.error.message : String(failure.error);
+      logger.error(
+        `[oli] ✕ ${status ?? 'ERR'} ${failure.request.method} ${failure.request.url} (${failure.durationMs}ms): ${message}`
+      );
+    }
+  };
+}
+
+/**
+ * Aggregated request metrics per `METHOD path`
+ */
+export interface RequestMetrics {
+  count: number;
+  errors: number;
+  totalDurationMs: number;
+  maxDurationMs: number;
+  statuses: Record<number, number>;
+}
+
+/**
+ * Metrics interceptor with access to the collected numbers
+ */
+export interface MetricsInterceptor extends RestInterceptor {
+  /** Snapshot of metrics keyed by `METHOD path` */
+  getMetrics(): Record<string, RequestMetrics>;
+  /** Clear collected metrics */
+  reset(): void;
+}
+
+/**
+ * Interceptor that counts requests, errors, status codes, and latency per endpoint.
+ *
+ * @example
+ * ```ts
+ * const metrics = createMetricsInterceptor();
+ * const oli = new OLIClient({ api: { interceptors: [metrics] } });
+ * console.log(metrics.getMetrics()['GET /labels']);
+ * ```
+ */
+export function createMetricsInterceptor(): MetricsInterceptor {
+  let metrics: Record<string, RequestMetrics> = {};
+
+  const record = (request: InterceptedRequest, durationMs: number, status: number | undefined, failed: boolean) => {
+    let path = request.url;
+    try {
+      path = new URL(request.url).pathname;
+    } catch {
+      // keep the raw URL
+    }
+    const key = `${request.method.toUpperCase()} ${path}`;
+    const entry = metrics[key] ?? (metrics[key] = { count: 0, errors: 0, totalDurationMs: 0, maxDurationMs: 0, statuses: {} });
+    entry.count += 1;
+    entry.totalDurationMs += durationMs;
+    entry.maxDurationMs = Math.max(entry.maxDurationMs, durationMs);
+    if (failed) {
+      entry.errors += 1;
+    }
+    if (status !== undefined) {
+      entry.statuses[status] = (entry.statuses[status] ?? 0) + 1;
+    }
+  };
+
+  return {
+    name: 'metrics',
+    onResponse(response) {
+      record(response.request, response.durationMs, response.status, false);
+    },
+    onError(failure) {
+      record(failure.request, failure.durationMs, (failure.error as { status?: number })?.status, true);
+    },
+    getMetrics() {
+      return JSON.parse(JSON.stringify(metrics));
+    },
+    reset() {
+      metrics = {};
+    }
+  };
+}
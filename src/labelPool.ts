@@ -0,0 +1,724 @@
+/**
+ * In-memory index over the OLI label pool export
+ * Answers address, tag, attester, and project lookups without calling the REST API
+ */
+
+import * as helpers from './helpers';
+import type { ExpandedAttestation } from './types/attestation';
+import type {
+  AddressWithLabel,
+  LabelItem,
+  LabelSearchResponse,
+  LabelsQueryParams,
+  LabelsResponse,
+  RestAttestationQueryParams,
+  RestAttestationRecord
+} from './types/api';
+import type { LabelDisplayConfig, LabelFilterConfig } from './types/common';
+import type { TrustPolicy } from './types/trust';
+import { normalizeTagValue } from './trust';
+
+/** Default `limit` of the `/labels` endpoint */
+const DEFAULT_LABELS_LIMIT = 100;
+/** Default `LabelPoolSyncOptions.lookback` in seconds */
+const DEFAULT_SYNC_LOOKBACK = 3600;
+
+/**
+ * Options shared by every label pool index
+ */
+export interface LabelPoolIndexOptions {
+  /** Filters applied by `getBestLabel` and `getAddressSummary` */
+  filterConfig?: LabelFilterConfig;
+  /** Formatting used by `getAddressSummary` and `getDisplayName` */
+  displayConfig?: LabelDisplayConfig;
+  /** Trust policy used to rank labels */
+  trustPolicy?: TrustPolicy;
+}
+
+/**
+ * Minimal view of DataFetcher used to download the decoded export
+ */
+export interface LabelPoolExportSource {
+  getFullDecodedExport(): Promise<unknown[]>;
+}
+
+/**
+ * Minimal view of RestClient used to pull attestations newer than the pool
+ */
+export interface LabelPoolSyncSource<TCustomTags extends Record<string, unknown> = Record<string, unknown>> {
+  iterateAttestations(
+    params?: RestAttestationQueryParams,
+    options?: { pageSize?: number; maxItems?: number; signal?: AbortSignal }
+  ): AsyncIterable<ExpandedAttestation<TCustomTags>>;
+}
+
+/**
+ * Options for `LabelPoolIndex.sync`
+ */
+export interface LabelPoolSyncOptions {
+  /** Watermark in unix seconds; defaults to the newest `timeCreated` in the pool */
+  since?: number;
+  /**
+   * Seconds to rewind the watermark by. Revocations do not change an attestation's `time`,
+   * so a lookback window re-reads recent records to pick up their `revoked` flag. The API's
+   * `since` is exclusive, so values below 1 are raised to 1 to keep records created in the
+   * watermark's second (default: 3600).
+   */
+  lookback?: number;
+  /** Extra filters forwarded to `/attestations` (e.g. `schema_info`, `attester`) */
+  filters?: Omit<RestAttestationQueryParams, 'since' | 'until' | 'order' | 'limit'>;
+  /** Records per request (API maximum: 1000) */
+  pageSize?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Outcome of a pool sync
+ */
+export interface LabelPoolSyncResult {
+  /** Attestations that were not in the pool */
+  added: number;
+  /** Known attestations whose contents changed */
+  updated: number;
+  /** Attestations that became revoked */
+  revoked: number;
+  /** Known attestations returned again without changes */
+  unchanged: number;
+  /** Watermark used for the request (unix seconds), or null for a full pull */
+  since: number | null;
+  /** Newest `timeCreated` in the pool after the sync, or null when empty */
+  latestTime: number | null;
+}
+
+function pick(record: Record<string, unknown>, ...keys: string[]): unknown {
+  for (const key of keys) {
+    const value = record[key];
+    if (value !== undefined && value !== null && value !== '') {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+function toOptionalString(value: unknown): string | null {
+  return value === undefined || value === null ? null : String(value);
+}
+
+function toBoolean(value: unknown): boolean {
+  if (typeof value === 'string') {
+    return ['true', '1', 'yes'].includes(value.trim().toLowerCase());
+  }
+  return Boolean(value);
+}
+
+/**
+ * Convert seconds, milliseconds, or date strings into an ISO timestamp
+ */
+function toIsoTime(value: unknown): string {
+  if (typeof value === 'number' || (typeof value === 'string' && /^\d+(\.\d+)?$/.test(value.trim()))) {
+    const numeric = Number(value);
+    const millis = numeric > 1e12 ? numeric : numeric * 1000;
+    return new Date(millis).toISOString();
+  }
+  if (typeof value === 'string') {
+    const date = new Date(value.includes('T') || value.endsWith('Z') ? value : `${value.replace(' ', 'T')}Z`);
+    return Number.isNaN(date.getTime()) ? value : date.toISOString();
+  }
+  return '';
+}
+
+function parseTagsJson(value: unknown): Record<string, unknown> | null {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    return value as Record<string, unknown>;
+  }
+  if (typeof value === 'string' && value.trim()) {
+    try {
+      const parsed = JSON.parse(value);
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
+
+function splitCaip10(caip10: string): { chainId: string; address: string } | null {
+  const parts = caip10.split(':');
+  if (parts.length < 3) return null;
+  return { chainId: `${parts[0]}:${parts[1]}`, address: parts.slice(2).join(':') };
+}
+
+/**
+ * Entry of an EAS `decodedDataJson` array; the value may be nested as `{ name, value }`
+ */
+interface DecodedDataItem {
+  name?: string;
+  value?: unknown;
+}
+
+/**
+ * Read `caip10` and `tags_json` from an EAS `decodedDataJson` payload
+ */
+function parseDecodedDataJson(value: unknown): { caip10?: string; tags: Record<string, unknown> | null } {
+  let items: unknown = value;
+  if (typeof value === 'string') {
+    try {
+      items = JSON.parse(value);
+    } catch {
+      return { tags: null };
+    }
+  }
+  if (!Array.isArray(items)) {
+    return { tags: null };
+  }
+
+  let caip10: string | undefined;
+  let tags: Record<string, unknown> | null = null;
+  for (const item of items as Array<DecodedDataItem | null>) {
+    const nested = item?.value && typeof item.value === 'object' ? (item.value as DecodedDataItem) : undefined;
+    const name = item?.name ?? nested?.name;
+    const itemValue = nested?.value ?? item?.value;
+    if (name === 'caip10' && typeof itemValue === 'string') {
+      caip10 = itemValue;
+    } else if (name === 'tags_json') {
+      tags = parseTagsJson(itemValue);
+    }
+  }
+  return { caip10, tags };
+}
+
+/**
+ * Keep the first (newest, when sorted) label per (chain_id, attester, tag_id)
+ */
+function createLatestLabelFilter(): (label: LabelItem) => boolean {
+  const seen = new Set<string>();
+  return label => {
+    const key = `${label.chain_id}|${(label.attester ?? '').toLowerCase()}|${label.tag_id}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  };
+}
+
+function buildCaip10Key(chainId: string | null | undefined, address: string | null | undefined): string | null {
+  if (!chainId || !address) return null;
+  return `${chainId}:${address}`.toLowerCase();
+}
+
+/**
+ * Convert one record of attestation-shaped export data (REST records or EAS records
+ * with `decodedDataJson`) into a REST attestation record.
+ */
+function toRestRecord(raw: Record<string, unknown>): RestAttestationRecord | null {
+  const uid = pick(raw, 'uid', 'id', 'attestation_id');
+  if (typeof uid !== 'string') {
+    return null;
+  }
+
+  let tags = parseTagsJson(pick(raw, 'tags_json', 'tags'));
+  let caip10 = pick(raw, 'caip10') as string | undefined;
+  if (!tags && raw.decodedDataJson !== undefined) {
+    const decoded = parseDecodedDataJson(raw.decodedDataJson);
+    tags = decoded.tags;
+    caip10 = caip10 ?? decoded.caip10;
+  }
+
+  const caipParts = typeof caip10 === 'string' ? splitCaip10(caip10) : null;
+  const chainId = toOptionalString(pick(raw, 'chain_id', 'caip2')) ?? caipParts?.chainId ?? null;
+  const address = toOptionalString(pick(raw, 'address')) ?? caipParts?.address ?? null;
+
+  return {
+    uid,
+    time: toIsoTime(pick(raw, 'time', 'time_created', 'timeCreated')),
+    chain_id: chainId,
+    attester: String(pick(raw, 'attester') ?? ''),
+    recipient: address ?? toOptionalString(pick(raw, 'recipient')),
+    revoked: toBoolean(raw.revoked),
+    is_offchain: toBoolean(pick(raw, 'is_offchain', 'isOffchain')),
+    ipfs_hash: toOptionalString(pick(raw, 'ipfs_hash', 'ipfsHash')),
+    schema_info: String(pick(raw, 'schema_info', 'schemaId', 'schema') ?? ''),
+    tags_json: tags
+  };
+}
+
+/**
+ * Expand label pool export rows into typed attestations.
+ *
+ * Accepts attestation-shaped rows (REST records, EAS records with `decodedDataJson`) as
+ * well as tag-per-row exports (`tag_id`/`tag_value` columns), which are grouped by uid.
+ */
+export function expandLabelPoolExport<T extends Record<string, unknown> = Record<string, unknown>>(
+  rows: unknown[]
+): ExpandedAttestation<T>[] {
+  const tagRows = new Map<string, { base: Record<string, unknown>; tags: Record<string, unknown> }>();
+  const attestations: ExpandedAttestation<T>[] = [];
+
+  for (const row of rows) {
+    if (!row || typeof row !== 'object') continue;
+    const raw = row as Record<string, unknown>;
+
+    if (typeof raw.tag_id === 'string' && !('tags_json' in raw)) {
+      const uid = pick(raw, 'uid', 'id', 'attestation_id');
+      if (typeof uid !== 'string') continue;
+      const entry = tagRows.get(uid) ?? { base: raw, tags: {} };
+      entry.tags[raw.tag_id] = raw.tag_value;
+      tagRows.set(uid, entry);
+      continue;
+    }
+
+    const record = toRestRecord(raw);
+    if (record) {
+      attestations.push(helpers.expandRestAttestation<T>(record));
+    }
+  }
+
+  for (const { base, tags } of tagRows.values()) {
+    const record = toRestRecord({ ...base, tags_json: tags });
+    if (record) {
+      attestations.push(helpers.expandRestAttestation<T>(record));
+    }
+  }
+
+  return attestations;
+}
+
+function isSameAttestation<T extends Record<string, unknown>>(a: ExpandedAttestation<T>, b: ExpandedAttestation<T>): boolean {
+  return (
+    a.revoked === b.revoked &&
+    a.attester === b.attester &&
+    a.recipient === b.recipient &&
+    a.chain_id === b.chain_id &&
+    a.timeCreated === b.timeCreated &&
+    JSON.stringify(a.tags_json ?? null) === JSON.stringify(b.tags_json ?? null)
+  );
+}
+
+function addToIndex(index: Map<string, Set<string>>, key: string | null, uid: string): void {
+  if (!key) return;
+  const uids = index.get(key) ?? new Set<string>();
+  uids.add(uid);
+  index.set(key, uids);
+}
+
+function removeFromIndex(index: Map<string, Set<string>>, key: string | null, uid: string): void {
+  if (!key) return;
+  const uids = index.get(key);
+  if (!uids) return;
+  uids.delete(uid);
+  if (uids.size === 0) {
+    index.delete(key);
+  }
+}
+
+function tagValueToString(value: unknown): string {
+  if (Array.isArray(value)) {
+    return value.map(item => String(item)).join(',');
+  }
+  return typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * In-memory label pool index keyed by CAIP-10, attester, tag value, and owner project.
+ *
+ * @example
+ * ```ts
+ * const pool = await LabelPoolIndex.fromExport(oli.fetcher);
+ * const summary = pool.getAddressSummary('0x1234...');
+ * const bridges = pool.searchAddressesByTag({ tag_id: 'usage_category', tag_value: 'bridge' });
+ * ```
+ */
+export class LabelPoolIndex<TCustomTags extends Record<string, unknown> = Record<string, unknown>> {
+  private readonly attestations = new Map<string, ExpandedAttestation<TCustomTags>>();
+  private readonly byCaip10 = new Map<string, Set<string>>();
+  private readonly byAddress = new Map<string, Set<string>>();
+  private readonly byAttester = new Map<string, Set<string>>();
+  private readonly byTag = new Map<string, Set<string>>();
+  private readonly byOwnerProject = new Map<string, Set<string>>();
+
+  constructor(
+    attestations: ExpandedAttestation<TCustomTags>[] = [],
+    private readonly options: LabelPoolIndexOptions = {}
+  ) {
+    this.upsertMany(attestations);
+  }
+
+  /**
+   * Build an index from the decoded label pool export (`labels_decoded.json`).
+   * @param source - Usually `oli.fetcher`.
+   */
+  static async fromExport<T extends Record<string, unknown> = Record<string, unknown>>(
+    source: LabelPoolExportSource,
+    options: LabelPoolIndexOptions = {}
+  ): Promise<LabelPoolIndex<T>> {
+    const rows = await source.getFullDecodedExport();
+    return LabelPoolIndex.fromRows<T>(rows, options);
+  }
+
+  /**
+   * Build an index from export rows already held in memory.
+   */
+  static fromRows<T extends Record<string, unknown> = Record<string, unknown>>(
+    rows: unknown[],
+    options: LabelPoolIndexOptions = {}
+  ): LabelPoolIndex<T> {
+    return new LabelPoolIndex<T>(expandLabelPoolExport<T>(rows), options);
+  }
+
+  /**
+   * Build an index from a local JSON export file (Node.js only unless `readFile` is provided).
+   * @param path - Path to a `labels_decoded.json`-style file.
+   * @param options.readFile - Custom file reader; defaults to `fs/promises.readFile`.
+   */
+  static async fromFile<T extends Record<string, unknown> = Record<string, unknown>>(
+    path: string,
+    options: LabelPoolIndexOptions & { readFile?: (path: string) => Promise<string> } = {}
+  ): Promise<LabelPoolIndex<T>> {
+    const { readFile, ...indexOptions } = options;
+    const text = readFile ? await readFile(path) : await readLocalFile(path);
+    const rows = JSON.parse(text);
+    if (!Array.isArray(rows)) {
+      throw new Error(`Label pool file ${path} does not contain a JSON array`);
+    }
+    return LabelPoolIndex.fromRows<T>(rows, indexOptions);
+  }
+
+  /** Number of indexed attestations */
+  get size(): number {
+    return this.attestations.size;
+  }
+
+  /**
+   * Newest `timeCreated` (unix seconds) in the pool, or null when empty
+   */
+  get latestTime(): number | null {
+    let latest: number | null = null;
+    for (const attestation of this.attestations.values()) {
+      if (latest === null || attestation.timeCreated > latest) {
+        latest = attestation.timeCreated;
+      }
+    }
+    return latest;
+  }
+
+  /**
+   * Pull attestations created after the pool's newest record and apply them in place.
+   *
+   * New uids are inserted, known uids are replaced when their contents changed, and
+   * records carrying `revoked: true` mark the local copy as revoked.
+   *
+   * @param source - Usually `oli.api`.
+   * @example
+   * ```ts
+   * const result = await pool.sync(oli.api, { lookback: 86400 });
+   * console.log(result.added, result.updated, result.revoked);
+   * ```
+   */
+  async sync(
+    source: LabelPoolSyncSource<TCustomTags>,
+    options: LabelPoolSyncOptions = {}
+  ): Promise<LabelPoolSyncResult> {
+    const watermark = options.since ?? this.latestTime;
+    const lookback = Math.max(1, options.lookback ?? DEFAULT_SYNC_LOOKBACK);
+    const since = watermark === null ? null : Math.max(0, watermark - lookback);
+    const result: LabelPoolSyncResult = { added: 0, updated: 0, revoked: 0, unchanged: 0, since, latestTime: null };
+
+    const params: RestAttestationQueryParams = {
+      ...options.filters,
+      since: since === null ? undefined : new Date(since * 1000).toISOString(),
+      order: 'asc'
+    };
+
+    // Sources may repeat records across pages; count each uid once
+    const synced = new Set<string>();
+    for await (const attestation of source.iterateAttestations(params, {
+      pageSize: options.pageSize,
+      signal: options.signal
+    })) {
+      const uid = this.getUid(attestation);
+      if (synced.has(uid)) continue;
+      synced.add(uid);
+
+      const previous = this.attestations.get(uid);
+      if (!previous) {
+        this.upsert(attestation);
+        result.added += 1;
+      } else if (attestation.revoked && !previous.revoked) {
+        this.upsert(attestation);
+        result.revoked += 1;
+      } else if (!isSameAttestation(previous, attestation)) {
+        this.upsert(attestation);
+        result.updated += 1;
+      } else {
+        result.unchanged += 1;
+      }
+    }
+
+    result.latestTime = this.latestTime;
+    return result;
+  }
+
+  /**
+   * Insert or replace attestations by uid.
+   */
+  upsertMany(attestations: ExpandedAttestation<TCustomTags>[]): void {
+    for (const attestation of attestations) {
+      this.upsert(attestation);
+    }
+  }
+
+  /**
+   * Insert or replace an attestation by uid, keeping every index in sync.
+   * @returns The previously indexed attestation with the same uid, if any.
+   */
+  upsert(attestation: ExpandedAttestation<TCustomTags>): ExpandedAttestation<TCustomTags> | undefined {
+    const uid = this.getUid(attestation);
+    const previous = this.attestations.get(uid);
+    if (previous) {
+      this.unindex(uid, previous);
+    }
+    this.attestations.set(uid, attestation);
+    this.index(uid, attestation);
+    return previous;
+  }
+
+  /**
+   * Look up an attestation by uid.
+   */
+  get(uid: string): ExpandedAttestation<TCustomTags> | undefined {
+    return this.attestations.get(uid);
+  }
+
+  /**
+   * Iterate over every indexed attestation.
+   */
+  values(): IterableIterator<ExpandedAttestation<TCustomTags>> {
+    return this.attestations.values();
+  }
+
+  /**
+   * Attestations for a CAIP-10 account (e.g. `eip155:8453:0x...`).
+   */
+  getByCaip10(caip10: string): ExpandedAttestation<TCustomTags>[] {
+    return this.resolve(this.byCaip10.get(caip10.toLowerCase()));
+  }
+
+  /**
+   * Attestations for an address, optionally restricted to one chain.
+   */
+  getByAddress(address: string, chainId?: string | null): ExpandedAttestation<TCustomTags>[] {
+    if (chainId) {
+      return this.getByCaip10(`${chainId}:${address}`);
+    }
+    return this.resolve(this.byAddress.get(address.toLowerCase()));
+  }
+
+  /**
+   * Attestations issued by an attester.
+   */
+  getByAttester(attester: string): ExpandedAttestation<TCustomTags>[] {
+    return this.resolve(this.byAttester.get(attester.toLowerCase()));
+  }
+
+  /**
+   * Attestations carrying a tag, optionally with a specific value (compared case-insensitively).
+   * Array tags match either one element or the whole list.
+   */
+  getByTag(tagId: string, tagValue?: unknown): ExpandedAttestation<TCustomTags>[] {
+    if (tagValue === undefined) {
+      return this.resolve(this.byTag.get(tagId));
+    }
+    const normalized = normalizeTagValue(tagValue);
+    return normalized === null ? [] : this.resolve(this.byTag.get(`${tagId}=${normalized}`));
+  }
+
+  /**
+   * Attestations whose `owner_project` matches the given project id.
+   */
+  getByOwnerProject(ownerProject: string): ExpandedAttestation<TCustomTags>[] {
+    return this.resolve(this.byOwnerProject.get(ownerProject.toLowerCase()));
+  }
+
+  /**
+   * In-memory equivalent of `RestClient.getLabels`.
+   * Like the API, only the newest label per (chain_id, attester, tag_id) is returned and
+   * revoked and expired labels are skipped unless `include_all` is set; `limit` defaults to 100.
+   */
+  getLabels(params: LabelsQueryParams): LabelsResponse {
+    const labels: LabelItem[] = [];
+    for (const attestation of this.getByAddress(params.address, params.chain_id)) {
+      if (!params.include_all && !helpers.isLabelValid(attestation)) continue;
+      const tags = attestation.tags_json;
+      if (!tags || typeof tags !== 'object') continue;
+      for (const [tagId, value] of Object.entries(tags)) {
+        if (value === undefined || value === null) continue;
+        labels.push({
+          tag_id: tagId,
+          tag_value: tagValueToString(value),
+          chain_id: attestation.chain_id ?? '',
+          time: attestation.time_iso ?? new Date(attestation.timeCreated * 1000).toISOString(),
+          attester: attestation.attester ?? null
+        });
+      }
+    }
+
+    labels.sort((a, b) => b.time.localeCompare(a.time));
+    const latest = params.include_all ? labels : labels.filter(createLatestLabelFilter());
+    const limited = latest.slice(0, params.limit ?? DEFAULT_LABELS_LIMIT);
+    return {
+      address: params.address,
+      count: limited.length,
+      labels: limited
+    };
+  }
+
+  /**
+   * In-memory equivalent of `RestClient.searchAddressesByTag`.
+   */
+  searchAddressesByTag(params: {
+    tag_id: string;
+    tag_value: string;
+    chain_id?: string | null;
+    limit?: number;
+  }): LabelSearchResponse {
+    const seen = new Set<string>();
+    const results: AddressWithLabel[] = [];
+
+    const matches = this.getByTag(params.tag_id, params.tag_value)
+      .filter(attestation => helpers.isLabelValid(attestation))
+      .filter(attestation => !params.chain_id || attestation.chain_id === params.chain_id)
+      .sort((a, b) => b.timeCreated - a.timeCreated);
+
+    for (const attestation of matches) {
+      const key = buildCaip10Key(attestation.chain_id, attestation.recipient);
+      if (!key || seen.has(key)) continue;
+      seen.add(key);
+      results.push({
+        address: attestation.recipient,
+        chain_id: attestation.chain_id ?? '',
+        time: attestation.time_iso ?? new Date(attestation.timeCreated * 1000).toISOString(),
+        attester: attestation.attester ?? null
+      });
+      if (params.limit !== undefined && results.length >= params.limit) break;
+    }
+
+    return {
+      tag_id: params.tag_id,
+      tag_value: params.tag_value,
+      count: results.length,
+      results
+    };
+  }
+
+  /**
+   * Best label for an address using the index's filter and trust configuration.
+   */
+  getBestLabel(
+    address: string,
+    options: { chain_id?: string | null; trust?: TrustPolicy } = {}
+  ): ExpandedAttestation<TCustomTags> | null {
+    const labels = this.getByAddress(address, options.chain_id);
+    return helpers.getBestLabel(labels, this.options.filterConfig ?? {}, options.trust ?? this.options.trustPolicy);
+  }
+
+  /**
+   * In-memory equivalent of `RestClient.getAddressSummary`.
+   */
+  getAddressSummary(
+    address: string,
+    options: { chain_id?: string | null; trust?: TrustPolicy } = {}
+  ): helpers.LabelSummary | null {
+    const label = this.getBestLabel(address, options);
+    if (!label) return null;
+    return helpers.getLabelSummary(label, this.options.displayConfig ?? {});
+  }
+
+  /**
+   * In-memory equivalent of `RestClient.getDisplayName`.
+   */
+  getDisplayName(
+    address: string,
+    options: { chain_id?: string | null; trust?: TrustPolicy; fallback?: string } = {}
+  ): string {
+    const label = this.getBestLabel(address, options);
+    const displayConfig = this.options.displayConfig ?? {};
+    if (!label) {
+      return options.fallback ?? helpers.formatAddress(address, displayConfig.addressFormat);
+    }
+    return helpers.getDisplayName(label, displayConfig);
+  }
+
+  private getUid(attestation: ExpandedAttestation<TCustomTags>): string {
+    return attestation.uid ?? attestation.id;
+  }
+
+  private resolve(uids: Set<string> | undefined): ExpandedAttestation<TCustomTags>[] {
+    if (!uids) return [];
+    const result: ExpandedAttestation<TCustomTags>[] = [];
+    for (const uid of uids) {
+      const attestation = this.attestations.get(uid);
+      if (attestation) result.push(attestation);
+    }
+    return result;
+  }
+
+  private indexKeys(attestation: ExpandedAttestation<TCustomTags>): {
+    caip10: string | null;
+    address: string | null;
+    attester: string | null;
+    tags: string[];
+    ownerProject: string | null;
+  } {
+    const tags: string[] = [];
+    const tagsJson = attestation.tags_json;
+    if (tagsJson && typeof tagsJson === 'object') {
+      for (const [tagId, value] of Object.entries(tagsJson)) {
+        const normalized = normalizeTagValue(value);
+        if (normalized === null) continue;
+        tags.push(tagId, `${tagId}=${normalized}`);
+        // Array tags such as erc_type also match a single element, like the RPC source and webhooks
+        if (Array.isArray(value)) {
+          for (const element of value) {
+            const item = normalizeTagValue(element);
+            if (item !== null && item !== normalized) tags.push(`${tagId}=${item}`);
+          }
+        }
+      }
+    }
+    const ownerProject = typeof attestation.owner_project === 'string' ? attestation.owner_project.toLowerCase() : null;
+
+    return {
+      caip10: buildCaip10Key(attestation.chain_id, attestation.recipient),
+      address: attestation.recipient ? attestation.recipient.toLowerCase() : null,
+      attester: attestation.attester ? attestation.attester.toLowerCase() : null,
+      tags,
+      ownerProject
+    };
+  }
+
+  private index(uid: string, attestation: ExpandedAttestation<TCustomTags>): void {
+    const keys = this.indexKeys(attestation);
+    addToIndex(this.byCaip10, keys.caip10, uid);
+    addToIndex(this.byAddress, keys.address, uid);
+    addToIndex(this.byAttester, keys.attester, uid);
+    addToIndex(this.byOwnerProject, keys.ownerProject, uid);
+    keys.tags.forEach(key => addToIndex(this.byTag, key, uid));
+  }
+
+  private unindex(uid: string, attestation: ExpandedAttestation<TCustomTags>): void {
+    const keys = this.indexKeys(attestation);
+    removeFromIndex(this.byCaip10, keys.caip10, uid);
+    removeFromIndex(this.byAddress, keys.address, uid);
+    removeFromIndex(this.byAttester, keys.attester, uid);
+    removeFromIndex(this.byOwnerProject, keys.ownerProject, uid);
+    keys.tags.forEach(key => removeFromIndex(this.byTag, key, uid));
+  }
+}
+
+async function readLocalFile(path: string): Promise<string> {
+  // Resolved at runtime so browser bundles never try to include `fs`
+  const moduleName = 'fs/promises';
+  const fs = (await import(/* webpackIgnore: true */ moduleName)) as {
+    readFile: (path: string, encoding: 'utf8') => Promise<string>;
+  };
+  return fs.readFile(path, 'utf8');
+}
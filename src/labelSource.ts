@@ -0,0 +1,397 @@
+/**
+ * Source-agnostic label lookups over the REST API, the label pool export, or EAS over JSON-RPC
+ * Sources can be chained so reads fall back to the next source when one fails
+ */
+
+import type { ExpandedAttestation } from './types/attestation';
+import type { RestAttestationQueryParams } from './types/api';
+import { LabelPoolIndex } from './labelPool';
+import type { LabelPoolExportSource, LabelPoolIndexOptions } from './labelPool';
+import type { EasOnchainReader } from './easReader';
+import { normalizeTagValue } from './trust';
+
+/**
+ * Options accepted by every `LabelSource` lookup
+ */
+export interface LabelSourceQueryOptions {
+  /** Only labels for this CAIP-2 chain (e.g. `eip155:8453`) */
+  chain_id?: string | null;
+  /** Maximum number of labels to return */
+  limit?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Options for `LabelSource.stream`
+ */
+export interface LabelSourceStreamOptions {
+  /** Only attestations created at or after this unix timestamp (seconds) */
+  since?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * A backend that answers label lookups with `ExpandedAttestation` objects.
+ * Every attestation a source returns carries the answering source's name in `_source`.
+ */
+export interface LabelSource<TCustomTags extends Record<string, unknown> = Record<string, unknown>> {
+  /** Name recorded in `_source` */
+  readonly name: string;
+  /** Labels attached to an address */
+  byAddress(address: string, options?: LabelSourceQueryOptions): Promise<ExpandedAttestation<TCustomTags>[]>;
+  /** Labels carrying a tag, optionally with a specific value (compared case-insensitively) */
+  byTag(tagId: string, tagValue?: unknown, options?: LabelSourceQueryOptions): Promise<ExpandedAttestation<TCustomTags>[]>;
+  /** Labels issued by an attester */
+  byAttester(attester: string, options?: LabelSourceQueryOptions): Promise<ExpandedAttestation<TCustomTags>[]>;
+  /** Every attestation the source knows about, oldest first where the backend allows it */
+  stream(options?: LabelSourceStreamOptions): AsyncIterable<ExpandedAttestation<TCustomTags>>;
+}
+
+/**
+ * Minimal view of RestClient used by `createRestLabelSource`
+ */
+export interface LabelSourceRestApi<TCustomTags extends Record<string, unknown> = Record<string, unknown>> {
+  getAttestationsExpanded(params?: RestAttestationQueryParams): Promise<{ attestations: ExpandedAttestation<TCustomTags>[] }>;
+  iterateAttestations(
+    params?: RestAttestationQueryParams,
+    options?: { pageSize?: number; maxItems?: number; signal?: AbortSignal }
+  ): AsyncIterable<ExpandedAttestation<TCustomTags>>;
+  iterateSearchAttestations(
+    options: { address?: string; attester?: string; tagKey?: string; tagValue?: string },
+    iteratorOptions?: { pageSize?: number; maxItems?: number; signal?: AbortSignal }
+  ): AsyncIterable<ExpandedAttestation<TCustomTags>>;
+}
+
+/**
+ * Options for `createRpcLabelSource`
+ */
+export interface RpcLabelSourceOptions {
+  /** Block to start scanning from; EAS logs before it are ignored */
+  fromBlock: number | bigint;
+  /** Attestation network to scan (default: the reader's first network) */
+  chainId?: number;
+  name?: string;
+}
+
+/**
+ * Options for `createFallbackLabelSource`
+ */
+export interface FallbackLabelSourceOptions {
+  /** Name recorded in `LabelSourceError.errors`; attestations keep the name of the source that answered */
+  name?: string;
+  /**
+   * `first` (default): answer from the first source that returns labels, falling through on
+   * errors and empty results. `merge`: query every source and merge their answers by UID.
+   */
+  strategy?: 'first' | 'merge';
+}
+
+/**
+ * Thrown when every source in a fallback chain failed
+ */
+export class LabelSourceError extends Error {
+  /** Error raised by each source, in chain order */
+  public readonly errors: Array<{ source: string; error: unknown }>;
+
+  constructor(message: string, errors: Array<{ source: string; error: unknown }>) {
+    super(message);
+    this.name = 'LabelSourceError';
+    this.errors = errors;
+  }
+}
+
+function withSource<T extends Record<string, unknown>>(attestation: ExpandedAttestation<T>, name: string): ExpandedAttestation<T> {
+  return attestation._source ? attestation : { ...attestation, _source: name };
+}
+
+function getUid(attestation: ExpandedAttestation): string {
+  return String(attestation.uid ?? attestation.id).toLowerCase();
+}
+
+function matchesAddress(attestation: ExpandedAttestation, address: string): boolean {
+  return Boolean(attestation.recipient) && attestation.recipient.toLowerCase() === address.toLowerCase();
+}
+
+function matchesTag(attestation: ExpandedAttestation, tagId: string, tagValue?: unknown): boolean {
+  const tags = attestation.tags_json;
+  const value = tags && typeof tags === 'object' ? (tags as Record<string, unknown>)[tagId] : attestation[tagId];
+  const normalized = normalizeTagValue(value);
+  if (normalized === null) return false;
+  if (tagValue === undefined) return true;
+
+  const needle = normalizeTagValue(tagValue);
+  if (needle === normalized) return true;
+  return Array.isArray(value) && value.some(item => normalizeTagValue(item) === needle);
+}
+
+function finish<T extends Record<string, unknown>>(
+  attestations: ExpandedAttestation<T>[],
+  name: string,
+  options: LabelSourceQueryOptions
+): ExpandedAttestation<T>[] {
+  const scoped = options.chain_id ? attestations.filter(attestation => attestation.chain_id === options.chain_id) : attestations;
+  const limited = options.limit !== undefined ? scoped.slice(0, options.limit) : scoped;
+  return limited.map(attestation => withSource(attestation, name));
+}
+
+/**
+ * Drain an iterator into a list, applying `chain_id` and `predicate` and stopping at `limit`.
+ */
+async function collect<T extends Record<string, unknown>>(
+  iterable: AsyncIterable<ExpandedAttestation<T>>,
+  name: string,
+  options: LabelSourceQueryOptions,
+  predicate: (attestation: ExpandedAttestation<T>) => boolean = () => true
+): Promise<ExpandedAttestation<T>[]> {
+  const attestations: ExpandedAttestation<T>[] = [];
+  for await (const attestation of iterable) {
+    if (options.chain_id && attestation.chain_id !== options.chain_id) continue;
+    if (!predicate(attestation)) continue;
+    attestations.push(withSource(attestation, name));
+    if (options.limit !== undefined && attestations.length >= options.limit) break;
+  }
+  return attestations;
+}
+
+function isAbort(error: unknown, signal?: AbortSignal): boolean {
+  return Boolean(signal?.aborted) || (error instanceof Error && error.name === 'AbortError');
+}
+
+/**
+ * Merge attestations by UID, keeping the first copy unless a later one reports a revocation.
+ */
+function mergeByUid<T extends Record<string, unknown>>(lists: ExpandedAttestation<T>[][]): ExpandedAttestation<T>[] {
+  const merged = new Map<string, ExpandedAttestation<T>>();
+  for (const list of lists) {
+    for (const attestation of list) {
+      const uid = getUid(attestation);
+      const existing = merged.get(uid);
+      if (!existing || (attestation.revoked && !existing.revoked)) {
+        merged.set(uid, attestation);
+      }
+    }
+  }
+  return Array.from(merged.values());
+}
+
+/**
+ * Label source backed by the OLI REST API.
+ * @param api - Usually `oli.api`.
+ */
+export function createRestLabelSource<TCustomTags extends Record<string, unknown> = Record<string, unknown>>(
+  api: LabelSourceRestApi<TCustomTags>,
+  options: { name?: string } = {}
+): LabelSource<TCustomTags> {
+  const name = options.name ?? 'rest';
+
+  return {
+    name,
+    async byAddress(address, query = {}) {
+      const { attestations } = await api.getAttestationsExpanded({ recipient: address, chain_id: query.chain_id, limit: query.limit });
+      return finish(attestations, name, query);
+    },
+    async byTag(tagId, tagValue, query = {}) {
+      const search = api.iterateSearchAttestations(
+        { tagKey: tagId, tagValue: tagValue === undefined ? undefined : String(tagValue) },
+        { signal: query.signal }
+      );
+      return collect(search, name, query);
+    },
+    async byAttester(attester, query = {}) {
+      const { attestations } = await api.getAttestationsExpanded({ attester, chain_id: query.chain_id, limit: query.limit });
+      return finish(attestations, name, query);
+    },
+    async *stream(streamOptions = {}) {
+      // The API's `since` is exclusive; start a second earlier and drop that second to include `since`
+      const since = streamOptions.since !== undefined ? new Date((streamOptions.since - 1) * 1000).toISOString() : undefined;
+      for await (const attestation of api.iterateAttestations({ since }, { signal: streamOptions.signal })) {
+        if (streamOptions.since !== undefined && attestation.timeCreated < streamOptions.since) continue;
+        yield withSource(attestation, name);
+      }
+    }
+  };
+}
+
+/**
+ * Label source backed by the label pool export. The index is built on first use.
+ * @param source - A `LabelPoolIndex`, or something that downloads the export (usually `oli.fetcher`).
+ */
+export function createExportLabelSource<TCustomTags extends Record<string, unknown> = Record<string, unknown>>(
+  source: LabelPoolIndex<TCustomTags> | LabelPoolExportSource,
+  options: LabelPoolIndexOptions & { name?: string } = {}
+): LabelSource<TCustomTags> {
+  const { name = 'export', ...indexOptions } = options;
+  let pool: Promise<LabelPoolIndex<TCustomTags>> | null = source instanceof LabelPoolIndex ? Promise.resolve(source) : null;
+
+  const getPool = (): Promise<LabelPoolIndex<TCustomTags>> => {
+    if (!pool) {
+      pool = LabelPoolIndex.fromExport<TCustomTags>(source as LabelPoolExportSource, indexOptions).catch(error => {
+        // Let the next lookup retry the download
+        pool = null;
+        throw error;
+      });
+    }
+    return pool;
+  };
+
+  return {
+    name,
+    async byAddress(address, query = {}) {
+      return finish((await getPool()).getByAddress(address, query.chain_id), name, query);
+    },
+    async byTag(tagId, tagValue, query = {}) {
+      return finish((await getPool()).getByTag(tagId, tagValue), name, query);
+    },
+    async byAttester(attester, query = {}) {
+      return finish((await getPool()).getByAttester(attester), name, query);
+    },
+    async *stream(streamOptions = {}) {
+      const attestations = Array.from((await getPool()).values())
+        .filter(attestation => streamOptions.since === undefined || attestation.timeCreated >= streamOptions.since)
+        .sort((a, b) => a.timeCreated - b.timeCreated);
+      for (const attestation of attestations) {
+        if (streamOptions.signal?.aborted) return;
+        yield withSource(attestation, name);
+      }
+    }
+  };
+}
+
+/**
+ * Label source backed by the EAS contracts. Lookups scan `Attested`/`Revoked` logs from
+ * `fromBlock`, so they are slow but do not depend on the OLI API or export.
+ * @param reader - Reader configured with an RPC endpoint for the network to scan.
+ */
+export function createRpcLabelSource<TCustomTags extends Record<string, unknown> = Record<string, unknown>>(
+  reader: EasOnchainReader<TCustomTags>,
+  options: RpcLabelSourceOptions
+): LabelSource<TCustomTags> {
+  const name = options.name ?? 'rpc';
+
+  const scan = (
+    query: LabelSourceQueryOptions,
+    predicate: (attestation: ExpandedAttestation<TCustomTags>) => boolean,
+    attester?: string
+  ): Promise<ExpandedAttestation<TCustomTags>[]> => {
+    const logs = reader.scanAttestations({ chainId: options.chainId, fromBlock: options.fromBlock, attester, signal: query.signal });
+    return collect(logs, name, query, predicate);
+  };
+
+  return {
+    name,
+    byAddress(address, query = {}) {
+      return scan(query, attestation => matchesAddress(attestation, address));
+    },
+    byTag(tagId, tagValue, query = {}) {
+      return scan(query, attestation => matchesTag(attestation, tagId, tagValue));
+    },
+    byAttester(attester, query = {}) {
+      return scan(query, () => true, attester);
+    },
+    async *stream(streamOptions = {}) {
+      const logs = reader.scanAttestations({ chainId: options.chainId, fromBlock: options.fromBlock, signal: streamOptions.signal });
+      for await (const attestation of logs) {
+        if (streamOptions.since !== undefined && attestation.timeCreated < streamOptions.since) continue;
+        yield withSource(attestation, name);
+      }
+    }
+  };
+}
+
+/**
+ * Chain label sources in priority order. Lookups fall through to the next source when one
+ * throws (and, with the default `first` strategy, when it returns nothing). Results are
+ * deduplicated by UID and keep the `_source` of the source that answered.
+ *
+ * @example
+ * ```ts
+ * const labels = createFallbackLabelSource([
+ *   createRestLabelSource(oli.api),
+ *   createExportLabelSource(oli.fetcher),
+ *   createRpcLabelSource(reader, { fromBlock: 30_000_000 })
+ * ]);
+ * const summary = await oli.api.getAddressSummary('0x1234...', { source: labels });
+ * ```
+ * @throws LabelSourceError when every source failed.
+ */
+export function createFallbackLabelSource<TCustomTags extends Record<string, unknown> = Record<string, unknown>>(
+  sources: LabelSource<TCustomTags>[],
+  options: FallbackLabelSourceOptions = {}
+): LabelSource<TCustomTags> {
+  if (sources.length === 0) {
+    throw new Error('createFallbackLabelSource needs at least one source.');
+  }
+  const name = options.name ?? sources.map(source => source.name).join('>');
+  const strategy = options.strategy ?? 'first';
+
+  const lookup = async (
+    query: LabelSourceQueryOptions,
+    read: (source: LabelSource<TCustomTags>) => Promise<ExpandedAttestation<TCustomTags>[]>
+  ): Promise<ExpandedAttestation<TCustomTags>[]> => {
+    const errors: Array<{ source: string; error: unknown }> = [];
+    const answers: ExpandedAttestation<TCustomTags>[][] = [];
+
+    for (const source of sources) {
+      try {
+        const attestations = (await read(source)).map(attestation => withSource(attestation, source.name));
+        answers.push(attestations);
+        if (strategy === 'first' && attestations.length > 0) break;
+      } catch (error) {
+        if (isAbort(error, query.signal)) throw error;
+        errors.push({ source: source.name, error });
+      }
+    }
+
+    if (answers.length === 0) {
+      throw new LabelSourceError(`Every label source failed (${errors.map(entry => entry.source).join(', ')}).`, errors);
+    }
+    const merged = mergeByUid(answers);
+    return query.limit !== undefined ? merged.slice(0, query.limit) : merged;
+  };
+
+  return {
+    name,
+    byAddress(address, query = {}) {
+      return lookup(query, source => source.byAddress(address, query));
+    },
+    byTag(tagId, tagValue, query = {}) {
+      return lookup(query, source => source.byTag(tagId, tagValue, query));
+    },
+    byAttester(attester, query = {}) {
+      return lookup(query, source => source.byAttester(attester, query));
+    },
+    async *stream(streamOptions = {}) {
+      const errors: Array<{ source: string; error: unknown }> = [];
+      const seen = new Set<string>();
+
+      // Later sources resume where a failed source stopped, skipping UIDs already yielded
+      for (const source of sources) {
+        try {
+          for await (const attestation of source.stream(streamOptions)) {
+            const uid = getUid(attestation);
+            if (seen.has(uid)) continue;
+            seen.add(uid);
+            yield withSource(attestation, source.name);
+          }
+          if (strategy === 'first') return;
+        } catch (error) {
+          if (isAbort(error, streamOptions.signal)) throw error;
+          errors.push({ source: source.name, error });
+        }
+      }
+
+      if (errors.length === sources.length) {
+        throw new LabelSourceError(`Every label source failed (${errors.map(entry => entry.source).join(', ')}).`, errors);
+      }
+    }
+  };
+}
+
+/**
+ * Use a source as-is, or chain a list of sources with `createFallbackLabelSource`.
+ */
+export function resolveLabelSource<TCustomTags extends Record<string, unknown> = Record<string, unknown>>(
+  source: LabelSource<TCustomTags> | LabelSource<TCustomTags>[]
+): LabelSource<TCustomTags> {
+  return Array.isArray(source) ? createFallbackLabelSource(source) : source;
+}
@@ -1,4 +1,6 @@
 import type { IncomingMessage, ServerResponse } from 'http';
+import type { InterceptedRequest, RestInterceptor } from './types/interceptors';
+import { runErrorInterceptors, runRequestInterceptors, runResponseInterceptors } from './interceptors';
 
 export interface ProxyHandlerOptions {
   /** API key to inject into upstream requests */
@@ -9,6 +11,11 @@ export interface ProxyHandlerOptions {
   forwardHeaders?: string[];
   /** Optional hook to rewrite the upstream path */
   pathRewrite?: (originalPath: string) => string;
+  /**
+   * Hooks run around every upstream request, same as `APIConfig.interceptors`.
+   * `onResponse` receives the parsed JSON (or text) body; returning different data re-serializes it.
+   */
+  interceptors?: RestInterceptor[];
 }
 
 /**
@@ -27,6 +34,7 @@ export interface ProxyHandlerOptions {
 export function createProxyHandler(options: ProxyHandlerOptions) {
   const baseUrl = options.baseUrl ?? 'https://api.openlabelsinitiative.org';
   const allowList = options.forwardHeaders?.map(h => h.toLowerCase());
+  const interceptors = options.interceptors ?? [];
 
   if (!options.apiKey) {
     throw new Error('createProxyHandler requires an API key');
@@ -79,6 +87,18 @@ export function createProxyHandler(options: ProxyHandlerOptions) {
 
       const bodyInit = bodyBuffer ? new Uint8Array(bodyBuffer) : undefined;
 
+      if (interceptors.length > 0) {
+        await forwardWithInterceptors(interceptors, res, {
+          method,
+          url: targetUrl.toString(),
+          headers,
+          body: bodyInit,
+          startedAt: Date.now(),
+          context: {}
+        });
+        return;
+      }
+
       const response = await fetch(targetUrl, {
         method,
         headers,
@@ -87,10 +107,7 @@ export function createProxyHandler(options: ProxyHandlerOptions) {
       });
 
       res.statusCode = response.status;
-      response.headers.forEach((value, key) => {
-        if (key.toLowerCase() === 'content-length') return;
-        res.setHeader(key, value);
-      });
+      copyResponseHeaders(response, res);
 
       const arrayBuffer = await response.arrayBuffer();
       res.end(Buffer.from(arrayBuffer));
@@ -105,7 +122,93 @@ export function createProxyHandler(options: ProxyHandlerOptions) {
   };
 }
 
-async function readRequestBody(req: IncomingMessage): Promise<Buffer> {
+function copyResponseHeaders(response: Response, res: ServerResponse): void {
+  response.headers.forEach((value, key) => {
+    if (key.toLowerCase() === 'content-length') return;
+    res.setHeader(key, value);
+  });
+}
+
+function sendInterceptedData(res: ServerResponse, status: number, data: unknown): void {
+  res.statusCode = status;
+  if (data === undefined || data === null) {
+    res.end();
+    return;
+  }
+  if (typeof data === 'string' || data instanceof Uint8Array) {
+    res.end(data);
+    return;
+  }
+  res.setHeader('content-type', 'application/json');
+  res.end(JSON.stringify(data));
+}
+
+/**
+ * Forward a request through the interceptor pipeline.
+ * Upstream error statuses are passed through unchanged; only thrown errors reach `onError`.
+ */
+async function forwardWithInterceptors(
+  interceptors: RestInterceptor[],
+  res: ServerResponse,
+  initialRequest: InterceptedRequest
+): Promise<void> {
+  let request = initialRequest;
+  try {
+    const intercepted = await runRequestInterceptors(interceptors, request);
+    request = intercepted.request;
+    if (intercepted.response) {
+      sendInterceptedData(res, intercepted.response.status ?? 200, intercepted.response.respondWith);
+      return;
+    }
+
+    const response = await fetch(request.url, {
+      method: request.method,
+      headers: request.headers,
+      body: request.body as BodyInit | undefined,
+      redirect: 'manual'
+    });
+    const buffer = Buffer.from(await response.arrayBuffer());
+
+    const text = buffer.toString('utf8');
+    let data: unknown = text;
+    if ((response.headers.get('content-type') ?? '').includes('json') && text) {
+      try {
+        data = JSON.parse(text);
+      } catch {
+        // keep raw text
+      }
+    }
+
+    const result = await runResponseInterceptors(interceptors, {
+      request,
+      status: response.status,
+      headers: response.headers,
+      data,
+      durationMs: Date.now() - request.startedAt
+    });
+
+    copyResponseHeaders(response, res);
+    if (result.data === data && result.status === response.status) {
+      res.statusCode = response.status;
+      res.end(buffer);
+      return;
+    }
+    sendInterceptedData(res, result.status, result.data);
+  } catch (error) {
+    const outcome = await runErrorInterceptors(interceptors, {
+      request,
+      error,
+      durationMs: Date.now() - request.startedAt
+    });
+    if (outcome.response) {
+      sendInterceptedData(res, outcome.response.status ?? 200, outcome.response.respondWith);
+      return;
+    }
+    throw outcome.error;
+  }
+}
+
+export async function readRequestBody(req: IncomingMessage): Promise<Buffer> {
   const chunks: Buffer[] = [];
   for await (const chunk of req) {
     chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
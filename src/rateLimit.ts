@@ -0,0 +1,147 @@
+/**
+ * Rate limiting and retry timing for RestClient
+ * Token-bucket limiter, rate-limit header parsing, and backoff delays
+ */
+
+import type { RateLimitConfig, RetryBackoffConfig } from './types/common';
+import type { RateLimitInfo } from './types/api';
+
+function createAbortError(signal: AbortSignal): unknown {
+  if (signal.reason !== undefined) {
+    return signal.reason;
+  }
+  const error = new Error('The operation was aborted.');
+  error.name = 'AbortError';
+  return error;
+}
+
+/**
+ * Resolve after `ms` milliseconds, or reject as soon as the signal aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError(signal));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, Math.max(0, ms));
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Token-bucket limiter. Tokens refill continuously at `requests / intervalMs`
+ * and waiting callers are served in order.
+ */
+export class TokenBucketRateLimiter {
+  private readonly capacity: number;
+  private readonly refillPerMs: number;
+  private tokens: number;
+  private lastRefill: number;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(config: RateLimitConfig) {
+    if (!(config.requests > 0)) {
+      throw new Error('rateLimit.requests must be greater than 0');
+    }
+    this.capacity = Math.max(1, config.burst ?? config.requests);
+    this.refillPerMs = config.requests / (config.intervalMs ?? 1000);
+    this.tokens = this.capacity;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Wait until a request may be sent, then consume one token
+   */
+  acquire(signal?: AbortSignal): Promise<void> {
+    const turn = this.queue.then(() => this.take(signal));
+    // A cancelled waiter must not block the callers queued behind it
+    this.queue = turn.catch(() => undefined);
+    return turn;
+  }
+
+  private async take(signal?: AbortSignal): Promise<void> {
+    this.refill();
+    while (this.tokens < 1) {
+      await sleep(Math.ceil((1 - this.tokens) / this.refillPerMs), signal);
+      this.refill();
+    }
+    this.tokens -= 1;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) * this.refillPerMs);
+    this.lastRefill = now;
+  }
+}
+
+function parseNumberHeader(headers: Headers, ...names: string[]): number | null {
+  for (const name of names) {
+    const value = headers.get(name);
+    if (value !== null && value.trim() !== '' && Number.isFinite(Number(value))) {
+      return Number(value);
+    }
+  }
+  return null;
+}
+
+/**
+ * Parse a `Retry-After` value (delta seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | null {
+  if (value === null || value.trim() === '') {
+    return null;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Read `Retry-After` and `X-RateLimit-*` (or IETF `RateLimit-*`) headers
+ */
+export function parseRateLimitHeaders(headers: Headers, now: number = Date.now()): RateLimitInfo {
+  const reset = parseNumberHeader(headers, 'x-ratelimit-reset', 'ratelimit-reset');
+  let resetDate: Date | null = null;
+  if (reset !== null) {
+    // Large values are epoch seconds; small values are seconds until reset
+    resetDate = new Date(reset > 1e9 ? reset * 1000 : now + reset * 1000);
+  }
+
+  return {
+    limit: parseNumberHeader(headers, 'x-ratelimit-limit', 'ratelimit-limit'),
+    remaining: parseNumberHeader(headers, 'x-ratelimit-remaining', 'ratelimit-remaining'),
+    reset: resetDate,
+    retryAfterMs: parseRetryAfter(headers.get('retry-after'), now)
+  };
+}
+
+/**
+ * Delay before retry number `attempt` (0-based), honouring `Retry-After` (up to
+ * `maxRetryAfterMs`) when allowed
+ */
+export function computeRetryDelay(
+  attempt: number,
+  backoff: RetryBackoffConfig = {},
+  retryAfterMs: number | null = null
+): number {
+  if (retryAfterMs !== null && backoff.respectRetryAfter !== false) {
+    return Math.min(retryAfterMs, backoff.maxRetryAfterMs ?? 60_000);
+  }
+  const initial = backoff.initialDelayMs ?? 250;
+  const multiplier = backoff.multiplier ?? 2;
+  const max = backoff.maxDelayMs ?? 10_000;
+  const delay = Math.min(max, initial * Math.pow(multiplier, attempt));
+  return backoff.jitter === false ? delay : delay * (0.5 + Math.random() * 0.5);
+}
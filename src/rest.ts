@@ -6,6 +6,16 @@ import type { IOLIClient } from './types/client';
 import * as helpers from './helpers';
 import { Validation } from './validation';
 import type { ExpandedAttestation } from './types/attestation';
+import type { LabelConsensus, TrustPolicy } from './types/trust';
+import type { CacheAdapter, CacheKeyPattern, CacheRecord } from './types/cache';
+import { MemoryCacheAdapter } from './cache';
+import { resolveLabelSource } from './labelSource';
+import type { LabelSource } from './labelSource';
+import type { WatchCheckpoint, WatchEvent, WatchFilter, WatchHandle, WatchOptions } from './types/watch';
+import { TokenBucketRateLimiter, computeRetryDelay, parseRateLimitHeaders, sleep } from './rateLimit';
+import type { RetryBackoffConfig } from './types/common';
+import type { InterceptedRequest, RestInterceptor } from './types/interceptors';
+import { runErrorInterceptors, runRequestInterceptors, runResponseInterceptors } from './interceptors';
 import type {
   LabelsQueryParams,
   LabelsResponse,
@@ -25,7 +35,8 @@ import type {
   TagBreakdownQueryParams,
   TagBreakdownResponse,
   TagBreakdownItem,
-  AddressLabels
+  AddressLabels,
+  RateLimitInfo
 } from './types/api';
 
 export interface RequestOptions<TResponse = unknown> {
@@ -45,25 +56,52 @@ export interface RequestOptions<TResponse = unknown> {
 export class RestAPIError extends Error {
   public readonly status: number;
   public readonly body: unknown;
+  /** Rate-limit headers of the failed response, when present */
+  public readonly rateLimit: RateLimitInfo | null;
 
-  constructor(message: string, status: number, body: unknown) {
+  constructor(message: string, status: number, body: unknown, rateLimit: RateLimitInfo | null = null) {
     super(message);
     this.name = 'RestAPIError';
     this.status = status;
     this.body = body;
+    this.rateLimit = rateLimit;
   }
 }
 
-interface CacheEntry<T> {
-  timestamp: number;
-  data: T;
-  revalidatePromise: Promise<T> | null;
+/** Maximum `limit` accepted by the /attestations endpoint */
+const MAX_ATTESTATION_PAGE_SIZE = 1000;
+
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (!signal?.aborted) {
+    return;
+  }
+  if (signal.reason !== undefined) {
+    throw signal.reason;
+  }
+  const error = new Error('The operation was aborted.');
+  error.name = 'AbortError';
+  throw error;
+}
+
+interface FetchOptions<T> {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: unknown;
+  signal?: AbortSignal;
+  parser: (data: unknown) => T;
+  retries: number;
+  backoff?: RetryBackoffConfig;
+  timeoutMs: number;
 }
 
 export class RestClient<TCustomTags extends Record<string, unknown> = Record<string, unknown>> {
   private oli: IOLIClient;
   private pendingRequests = new Map<string, Promise<unknown>>();
-  private cacheStore = new Map<string, CacheEntry<unknown>>();
+  private cacheStore: MemoryCacheAdapter | null = null;
+  private revalidations = new Map<string, Promise<unknown>>();
+  private rateLimiter: TokenBucketRateLimiter | null = null;
+  private interceptors: RestInterceptor[] = [];
 
   constructor(oliClient: IOLIClient) {
     this.oli = oliClient;
@@ -174,36 +212,48 @@ export class RestClient<TCustomTags extends Record<string, unknown> = Record<str
 
   /**
    * Determine the best label for an address using attester and filter configuration.
+   * Pass `trust` to override the client-level trust policy; the returned label then
+   * carries its score and explanation in `_trust`.
+   * Pass `source` (a `LabelSource` or an ordered fallback list) to read labels from
+   * somewhere other than the REST API; the returned label names it in `_source`.
    */
   async getBestLabelForAddress(
     address: string,
     options: {
       limit?: number;
       order?: 'asc' | 'desc';
+      trust?: TrustPolicy;
+      source?: LabelSource<TCustomTags> | LabelSource<TCustomTags>[];
     } = {}
   ): Promise<ExpandedAttestation<TCustomTags> | null> {
-    const { attestations } = await this.getAttestationsForAddress(address, options);
+    const attestations = options.source
+      ? await resolveLabelSource(options.source).byAddress(address, { limit: options.limit })
+      : (await this.getAttestationsForAddress(address, options)).attestations;
     if (attestations.length === 0) {
       return null;
     }
 
-    const filterConfig = (this.oli as any).filterConfig ?? {};
-    return helpers.getBestLabel(attestations, filterConfig);
+    const filterConfig = this.oli.filterConfig ?? {};
+    const trustPolicy = options.trust ?? this.oli.trustPolicy;
+    return helpers.getBestLabel(attestations, filterConfig, trustPolicy);
   }
 
   /**
-   * Generate a display-friendly summary for an address using REST data.
+   * Generate a display-friendly summary for an address using REST data, or the labels of
+   * `source` when given.
    */
   async getAddressSummary(
     address: string,
     options: {
       limit?: number;
       order?: 'asc' | 'desc';
+      trust?: TrustPolicy;
+      source?: LabelSource<TCustomTags> | LabelSource<TCustomTags>[];
     } = {}
   ): Promise<helpers.LabelSummary | null> {
     const label = await this.getBestLabelForAddress(address, options);
     if (!label) return null;
-    const displayConfig = (this.oli as any).displayConfig ?? {};
+    const displayConfig = this.oli.displayConfig ?? {};
     return helpers.getLabelSummary(label, displayConfig);
   }
 
@@ -216,10 +266,12 @@ export class RestClient<TCustomTags extends Record<string, unknown> = Record<str
       limit?: number;
       order?: 'asc' | 'desc';
       fallback?: string;
+      trust?: TrustPolicy;
+      source?: LabelSource<TCustomTags> | LabelSource<TCustomTags>[];
     } = {}
   ): Promise<string> {
     const label = await this.getBestLabelForAddress(address, options);
-    const displayConfig = (this.oli as any).displayConfig ?? {};
+    const displayConfig = this.oli.displayConfig ?? {};
     if (!label) {
       const fallback = options.fallback;
       return fallback ?? helpers.formatAddress(address, displayConfig.addressFormat);
@@ -239,7 +291,7 @@ export class RestClient<TCustomTags extends Record<string, unknown> = Record<str
   ): Promise<ExpandedAttestation<TCustomTags>[]> {
     const { attestations } = await this.getAttestationsForAddress(address, options);
 
-    const filterConfig = (this.oli as any).filterConfig ?? {};
+    const filterConfig = this.oli.filterConfig ?? {};
 
     let labels = attestations.filter(label => helpers.isLabelValid(label));
     labels = helpers.filterLabels(labels, filterConfig);
@@ -247,6 +299,25 @@ export class RestClient<TCustomTags extends Record<string, unknown> = Record<str
     return labels;
   }
 
+  /**
+   * Build a per-tag consensus view for an address: every distinct value of each tag,
+   * the attesters supporting it, and whether attesters disagree.
+   * Revoked and expired labels are ignored.
+   */
+  async getLabelConsensus(
+    address: string,
+    options: {
+      limit?: number;
+      chain_id?: string;
+    } = {}
+  ): Promise<LabelConsensus> {
+    const { attestations } = await this.getAttestationsForAddress(address, { limit: options.limit });
+    const labels = options.chain_id
+      ? attestations.filter(label => label.chain_id === options.chain_id)
+      : attestations;
+    return helpers.buildLabelConsensus(address, labels);
+  }
+
   /**
    * Fetch the latest attestations with optional filtering.
    */
@@ -293,47 +364,305 @@ export class RestClient<TCustomTags extends Record<string, unknown> = Record<str
       order
     });
 
-    if (!tagKey) {
-      if (!tagValue) {
-        return attestations;
-      }
-      const needle = tagValue.toLowerCase();
-      return attestations.filter(att => {
-        const record = att as Record<string, unknown>;
-        const tags = (att as Record<string, unknown>).tags_json as Record<string, unknown> | null | undefined;
-        const directMatch = Object.entries(record)
-          .filter(([key]) => !['tags_json', '_parsing_error'].includes(key))
-          .some(([, value]) => value !== null && value !== undefined && typeof value !== 'object' && String(value).toLowerCase() === needle);
-        if (directMatch) return true;
-        if (!tags) return false;
-        return Object.values(tags).some(val => String(val).toLowerCase() === needle);
+    return attestations.filter(att => this.matchesSearch(att, tagKey, tagValue));
+  }
+
+  /**
+   * Iterate over every attestation matching the filters, fetching pages on demand.
+   *
+   * Pages are requested in ascending time order. The API's `since` is exclusive, so each
+   * page after the first asks for records newer than one second before the last seen
+   * `time`, and records repeated across page boundaries are de-duplicated by uid.
+   * `params.since` is exclusive like the API's (records created after it) and `params.until`
+   * stops the iteration once newer records are reached.
+   *
+   * @throws When more than 1000 records (the API's page maximum) share one second, since the
+   * exclusive `since` cannot page past them.
+   *
+   * @example
+   * ```ts
+   * for await (const attestation of oli.api.iterateAttestations({ attester: '0x...' })) {
+   *   console.log(attestation.uid, attestation.owner_project);
+   * }
+   * ```
+   */
+  async *iterateAttestations(
+    params: RestAttestationQueryParams = {},
+    options: {
+      /** Records per request (API maximum: 1000) */
+      pageSize?: number;
+      /** Stop after yielding this many records */
+      maxItems?: number;
+      signal?: AbortSignal;
+    } = {}
+  ): AsyncGenerator<ExpandedAttestation<TCustomTags>, void, undefined> {
+    const pageSize = Math.min(Math.max(1, options.pageSize ?? params.limit ?? MAX_ATTESTATION_PAGE_SIZE), MAX_ATTESTATION_PAGE_SIZE);
+    const untilSeconds = this.toUnixSeconds(params.until);
+    const { signal, maxItems } = options;
+
+    let since = this.normalizeTimestamp(params.since);
+    // Newest `time` yielded so far (ms); later pages re-read the second before it
+    let watermark: number | null = null;
+    // UIDs yielded inside the re-read window, with their time (ms)
+    const recentUids = new Map<string, number>();
+    let requestSize = pageSize;
+    let yielded = 0;
+
+    while (true) {
+      throwIfAborted(signal);
+
+      const response = await this.request<RestAttestationQueryResponse>('/attestations', {
+        method: 'GET',
+        query: this.buildAttestationQuery({ ...params, since, order: 'asc', limit: requestSize }),
+        parser: Validation.attestationQuery,
+        signal,
+        skipCache: true
       });
-    }
 
-    const needle = tagValue?.toLowerCase();
-    return attestations.filter(att => {
-      const value = (att as Record<string, unknown>)[tagKey];
-      if (value === undefined || value === null) {
-        const tags = (att as Record<string, unknown>).tags_json as Record<string, unknown> | null | undefined;
-        if (!tags) return false;
-        const tagVal = tags[tagKey];
-        if (tagVal === undefined || tagVal === null) {
-          return false;
+      const records = response.attestations;
+      let fresh = 0;
+      for (const record of records) {
+        if (recentUids.has(record.uid)) continue;
+        fresh += 1;
+
+        const time = Date.parse(record.time);
+        recentUids.set(record.uid, time);
+        if (watermark === null || time > watermark) {
+          watermark = time;
         }
-        if (!needle) {
-          return true;
+
+        const expanded = helpers.expandRestAttestation<TCustomTags>(record);
+        if (untilSeconds !== null && expanded.timeCreated > untilSeconds) {
+          return;
+        }
+
+        throwIfAborted(signal);
+        yield expanded;
+
+        yielded += 1;
+        if (maxItems !== undefined && yielded >= maxItems) {
+          return;
         }
-        if (Array.isArray(tagVal)) {
-          return tagVal.some(item => String(item).toLowerCase() === needle);
+      }
+
+      // A short page means the pool is exhausted
+      if (records.length < requestSize) {
+        return;
+      }
+
+      if (watermark !== null) {
+        const windowStart = watermark - 1000;
+        since = new Date(windowStart).toISOString();
+        for (const [uid, time] of recentUids) {
+          if (time <= windowStart) recentUids.delete(uid);
         }
-        return String(tagVal).toLowerCase() === needle;
       }
-      if (!needle) return true;
-      if (Array.isArray(value)) {
-        return value.some(item => String(item).toLowerCase() === needle);
+
+      // A full page without new records means every record shares the watermark timestamp;
+      // widen the page to get past them. At the API maximum the rest cannot be reached.
+      if (fresh === 0) {
+        if (requestSize >= MAX_ATTESTATION_PAGE_SIZE) {
+          throw new Error(
+            `More than ${MAX_ATTESTATION_PAGE_SIZE} attestations were created in the second before ${since}; ` +
+              'the API cannot page past them with `since`. Narrow the query, e.g. by attester or recipient.'
+          );
+        }
+        requestSize = Math.min(requestSize * 2, MAX_ATTESTATION_PAGE_SIZE);
+      } else {
+        requestSize = pageSize;
       }
-      return String(value).toLowerCase() === needle;
-    });
+    }
+  }
+
+  /**
+   * Iterate over attestations using the same filters as `searchAttestations`,
+   * paging through the full result set instead of a single page.
+   */
+  async *iterateSearchAttestations(
+    options: {
+      address?: string;
+      attester?: string;
+      tagKey?: string;
+      tagValue?: string;
+      schemaId?: string;
+      since?: string | number | Date;
+      until?: string | number | Date;
+    },
+    iteratorOptions: {
+      pageSize?: number;
+      maxItems?: number;
+      signal?: AbortSignal;
+    } = {}
+  ): AsyncGenerator<ExpandedAttestation<TCustomTags>, void, undefined> {
+    const { tagKey, tagValue, address, attester, schemaId, since, until } = options;
+    const { maxItems, ...pageOptions } = iteratorOptions;
+    let yielded = 0;
+
+    const iterator = this.iterateAttestations(
+      {
+        recipient: address ?? null,
+        attester: attester ?? null,
+        schema_id: schemaId ?? null,
+        since: this.normalizeTimestamp(since) ?? null,
+        until: this.normalizeTimestamp(until) ?? null
+      },
+      pageOptions
+    );
+
+    for await (const attestation of iterator) {
+      if (!this.matchesSearch(attestation, tagKey, tagValue)) continue;
+      yield attestation;
+      yielded += 1;
+      if (maxItems !== undefined && yielded >= maxItems) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Poll `/attestations` with a `since` watermark and report labels matching `filter` as
+   * `created` or `revoked` events, oldest first. The delay between polls starts at
+   * `intervalMs`, grows by `backoffFactor` after idle or failed polls up to `maxIntervalMs`
+   * (or the server's `Retry-After`), and resets once labels arrive again.
+   *
+   * Events are delivered at least once: the checkpoint only advances after `onEvent`
+   * resolves, and a throwing handler makes the next poll deliver the event again.
+   *
+   * @example
+   * ```ts
+   * const watcher = oli.api.watch({ addresses: ['0x1234...'] }, event => {
+   *   console.log(event.type, event.attestation.uid);
+   * }, {
+   *   checkpoint: await store.load(),
+   *   onCheckpoint: checkpoint => store.save(checkpoint)
+   * });
+   * // later
+   * watcher.stop();
+   * ```
+   */
+  watch(
+    filter: WatchFilter,
+    onEvent: (event: WatchEvent<TCustomTags>) => void | Promise<void>,
+    options: WatchOptions = {}
+  ): WatchHandle {
+    const controller = new AbortController();
+    const stopOnAbort = () => controller.abort(options.signal?.reason);
+    if (options.signal?.aborted) {
+      stopOnAbort();
+    } else {
+      options.signal?.addEventListener('abort', stopOnAbort, { once: true });
+    }
+
+    const intervalMs = Math.max(0, options.intervalMs ?? 15_000);
+    const maxIntervalMs = Math.max(intervalMs, options.maxIntervalMs ?? 300_000);
+    const backoffFactor = Math.max(1, options.backoffFactor ?? 2);
+    const lookback = Math.max(1, options.lookback ?? 3600);
+    const addresses = filter.addresses ? new Set(filter.addresses.map(address => address.toLowerCase())) : null;
+    const recipient = addresses?.size === 1 ? Array.from(addresses)[0] : null;
+
+    // Without a checkpoint, labels older than the start are recorded silently so only new ones are reported
+    const initialSince = options.checkpoint ? null : this.normalizeTimestamp(options.since ?? new Date());
+    const startedAt = initialSince === null ? null : this.toUnixSeconds(initialSince);
+    let checkpoint: WatchCheckpoint = options.checkpoint
+      ? { since: options.checkpoint.since, seen: { ...options.checkpoint.seen } }
+      : { since: startedAt === null ? null : new Date(startedAt * 1000).toISOString(), seen: {} };
+
+    const matches = (attestation: ExpandedAttestation<TCustomTags>): boolean =>
+      (!addresses || addresses.has(attestation.recipient.toLowerCase())) &&
+      (!filter.tagId || helpers.hasTag(attestation, filter.tagId));
+
+    const poll = async (): Promise<number> => {
+      const initial = checkpoint;
+      const watermark = this.toUnixSeconds(checkpoint.since);
+      let since = checkpoint.since;
+      let latest = watermark;
+      const seen = { ...checkpoint.seen };
+      let emitted = 0;
+
+      const attestations = this.iterateAttestations(
+        {
+          recipient,
+          attester: filter.attester ?? null,
+          since: watermark === null ? null : new Date(Math.max(0, watermark - lookback) * 1000).toISOString()
+        },
+        { pageSize: options.pageSize, signal: controller.signal }
+      );
+
+      for await (const attestation of attestations) {
+        if (latest === null || attestation.timeCreated > latest) {
+          latest = attestation.timeCreated;
+          since = attestation.time_iso ?? new Date(attestation.timeCreated * 1000).toISOString();
+        }
+        if (!matches(attestation)) continue;
+
+        const uid = attestation.uid ?? attestation.id;
+        const previous = seen[uid];
+        seen[uid] = { time: attestation.timeCreated, revoked: attestation.revoked || Boolean(previous?.revoked) };
+
+        let type: WatchEvent['type'] | null = null;
+        if (!previous) {
+          if (startedAt !== null && attestation.timeCreated < startedAt) continue;
+          type = attestation.revoked ? 'revoked' : 'created';
+        } else if (attestation.revoked && !previous.revoked) {
+          type = 'revoked';
+        }
+        if (!type) continue;
+
+        const next: WatchCheckpoint = { since, seen: { ...seen } };
+        await onEvent({ type, attestation, checkpoint: next });
+        checkpoint = next;
+        emitted += 1;
+      }
+
+      // Records older than the lookback window are never re-read, so they no longer need tracking
+      const horizon = latest === null ? null : latest - lookback;
+      for (const [uid, entry] of Object.entries(seen)) {
+        if (horizon !== null && entry.time < horizon) delete seen[uid];
+      }
+
+      checkpoint = { since, seen };
+      if (JSON.stringify(initial) !== JSON.stringify(checkpoint)) {
+        await options.onCheckpoint?.(checkpoint);
+      }
+      return emitted;
+    };
+
+    const run = async (): Promise<void> => {
+      const backoff = (delay: number) => Math.min(maxIntervalMs, Math.max(delay, 1) * backoffFactor);
+      let delay = intervalMs;
+      try {
+        while (!controller.signal.aborted) {
+          let wait = delay;
+          try {
+            if ((await poll()) > 0) {
+              delay = wait = intervalMs;
+            } else {
+              delay = backoff(delay);
+            }
+          } catch (error) {
+            if (controller.signal.aborted) return;
+            try {
+              options.onError?.(error);
+            } catch {
+              // A throwing onError must not end the watcher; nothing awaits `done` to see it
+            }
+            const retryAfterMs = error instanceof RestAPIError ? error.rateLimit?.retryAfterMs ?? 0 : 0;
+            wait = Math.max(wait, retryAfterMs);
+            delay = backoff(delay);
+          }
+          await sleep(wait, controller.signal).catch(() => undefined);
+        }
+      } finally {
+        options.signal?.removeEventListener('abort', stopOnAbort);
+      }
+    };
+
+    const done = run();
+    return {
+      stop: () => controller.abort(),
+      done,
+      checkpoint: () => checkpoint
+    };
   }
 
   /**
@@ -429,6 +758,79 @@ export class RestClient<TCustomTags extends Record<string, unknown> = Record<str
     }
   }
 
+  /**
+   * Register an interceptor after the ones from `APIConfig.interceptors`.
+   *
+   * @returns Function that removes the interceptor again
+   */
+  use(interceptor: RestInterceptor): () => void {
+    this.interceptors.push(interceptor);
+    return () => {
+      this.interceptors = this.interceptors.filter(entry => entry !== interceptor);
+    };
+  }
+
+  /**
+   * Remove cached responses whose cache key matches the pattern.
+   * Cache keys are prefixed by endpoint, e.g. `labels:`, `labels-bulk:`, `address-search:`, `attestations:`.
+   *
+   * @param pattern - Key prefix, regular expression, or predicate
+   * @returns Number of removed entries
+   * @throws When the configured cache adapter cannot list its keys
+   */
+  async invalidate(pattern: CacheKeyPattern): Promise<number> {
+    const cache = this.cache;
+    if (!cache.keys) {
+      throw new Error('The configured cache adapter does not support keys(); use clearCache() instead.');
+    }
+    const matches =
+      typeof pattern === 'string'
+        ? (key: string) => key.startsWith(pattern)
+        : pattern instanceof RegExp
+          ? (key: string) => pattern.test(key)
+          : pattern;
+
+    let removed = 0;
+    for (const key of await cache.keys()) {
+      if (matches(key)) {
+        await cache.delete(key);
+        removed += 1;
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Remove cached `/labels`, `/labels/bulk`, and `/attestations` responses that include an
+   * address. The `/attestations` entries back `getBestLabelForAddress` and `getAddressSummary`.
+   *
+   * @returns Number of removed entries
+   */
+  async invalidateAddress(address: string): Promise<number> {
+    const needle = address.toLowerCase();
+    return this.invalidate(key =>
+      (key.startsWith('labels:') || key.startsWith('labels-bulk:') || key.startsWith('attestations:')) &&
+      key.toLowerCase().includes(needle)
+    );
+  }
+
+  /**
+   * Remove every cached response.
+   */
+  async clearCache(): Promise<void> {
+    const cache = this.cache;
+    if (cache.clear) {
+      await cache.clear();
+      return;
+    }
+    if (!cache.keys) {
+      throw new Error('The configured cache adapter supports neither clear() nor keys().');
+    }
+    for (const key of await cache.keys()) {
+      await cache.delete(key);
+    }
+  }
+
   /**
    * Core request handler with retry and timeout support
    */
@@ -446,27 +848,25 @@ export class RestClient<TCustomTags extends Record<string, unknown> = Record<str
     const url = this.createUrl(path, query);
     const requestKey = options.cacheKey ?? this.buildRequestKey(method, url.toString(), body);
 
-    const ttl = options.cacheTtl ?? (config.enableCache ? config.cacheTtl : 0);
+    const ttl = options.cacheTtl ?? (config.enableCache ? config.endpointCacheTtl?.[path] ?? config.cacheTtl : 0);
     const swr = options.staleWhileRevalidate ?? (config.enableCache ? config.staleWhileRevalidate : 0);
     const useCache = !options.skipCache && ttl > 0;
     const useDedup = config.enableDeduplication;
 
-    let staleEntry: CacheEntry<T> | null = null;
+    let isStale = false;
     if (useCache) {
-      const cached = this.readFromCache<T>(requestKey, ttl, swr);
+      const cached = await this.readFromCache<T>(requestKey, ttl, swr);
       if (cached?.state === 'fresh') {
         return cached.value;
       }
-      if (cached?.state === 'stale') {
-        staleEntry = cached.entry;
-      }
+      isStale = cached?.state === 'stale';
     }
 
     if (useDedup && this.pendingRequests.has(requestKey)) {
       return this.pendingRequests.get(requestKey)! as Promise<T>;
     }
 
-    const fetchPromise = this.performFetch<T>({
+    const fetchPromise = this.execute<T>({
       method,
       url: url.toString(),
       headers: this.createHeaders({ method, body, headers, requiresApiKey, apiKey }),
@@ -474,24 +874,24 @@ export class RestClient<TCustomTags extends Record<string, unknown> = Record<str
       signal,
       parser: parser ?? ((data) => data as T),
       retries: config.retries,
+      backoff: config.retryBackoff,
       timeoutMs: config.timeoutMs
-    }).then(result => {
+    }).then(async result => {
       if (useCache) {
-        this.cacheStore.set(requestKey, {
-          timestamp: Date.now(),
-          data: result,
-          revalidatePromise: null
-        });
+        await this.writeToCache(requestKey, { timestamp: Date.now(), data: result }, ttl + swr);
       }
       return result;
     }).finally(() => {
       if (useDedup) {
         this.pendingRequests.delete(requestKey);
       }
+      if (isStale) {
+        this.revalidations.delete(requestKey);
+      }
     });
 
-    if (staleEntry) {
-      staleEntry.revalidatePromise = fetchPromise;
+    if (isStale) {
+      this.revalidations.set(requestKey, fetchPromise);
     }
 
     if (useDedup) {
@@ -547,58 +947,157 @@ export class RestClient<TCustomTags extends Record<string, unknown> = Record<str
     return `${method.toUpperCase()}:${url}${bodyFragment}`;
   }
 
-  private readFromCache<T>(key: string, ttl: number, swr: number):
-    | { state: 'fresh'; entry: CacheEntry<T>; value: T }
-    | { state: 'stale'; entry: CacheEntry<T>; value: T }
-    | null {
-    const entry = this.cacheStore.get(key) as CacheEntry<T> | undefined;
+  /**
+   * Cache backend from `APIConfig.cacheAdapter`, falling back to a bounded in-memory LRU
+   */
+  private get cache(): CacheAdapter {
+    const config = this.oli.apiConfig;
+    if (config.cacheAdapter) {
+      return config.cacheAdapter;
+    }
+    if (!this.cacheStore) {
+      this.cacheStore = new MemoryCacheAdapter({
+        maxEntries: config.cacheMaxEntries,
+        maxBytes: config.cacheMaxBytes
+      });
+    }
+    return this.cacheStore;
+  }
+
+  private async readFromCache<T>(key: string, ttl: number, swr: number): Promise<
+    | { state: 'fresh'; value: T }
+    | { state: 'stale'; value: T }
+    | null
+  > {
+    let entry: CacheRecord<T> | undefined;
+    try {
+      entry = await this.cache.get<T>(key);
+    } catch {
+      // A failing cache backend is treated as a cache miss
+      return null;
+    }
     if (!entry || entry.data === undefined) {
       return null;
     }
 
     const age = Date.now() - entry.timestamp;
     if (age < ttl) {
-      return { state: 'fresh', entry, value: entry.data };
+      return { state: 'fresh', value: entry.data };
     }
 
     if (age < ttl + swr) {
-      return { state: 'stale', entry, value: entry.data };
+      return { state: 'stale', value: entry.data };
     }
 
-    if (entry.revalidatePromise) {
-      return { state: 'stale', entry, value: entry.data };
+    if (this.revalidations.has(key)) {
+      return { state: 'stale', value: entry.data };
     }
 
-    this.cacheStore.delete(key);
+    await this.deleteFromCache(key);
     return null;
   }
 
-  private async performFetch<T>(options: {
-    method: string;
-    url: string;
-    headers: Record<string, string>;
-    body?: unknown;
-    signal?: AbortSignal;
-    parser: (data: unknown) => T;
-    retries: number;
-    timeoutMs: number;
-  }): Promise<T> {
-    const { method, url, headers, body, signal, parser, retries, timeoutMs } = options;
-    const controller = signal ? null : new AbortController();
-    const maxAttempts = Math.max(1, retries + 1);
-    let attempt = 0;
-    let timeoutId: ReturnType<typeof setTimeout> | null = null;
+  private async writeToCache<T>(key: string, record: CacheRecord<T>, ttlMs: number): Promise<void> {
+    try {
+      await this.cache.set(key, record, ttlMs);
+    } catch {
+      // Responses are still returned when the cache backend cannot store them
+    }
+  }
 
-    const cleanup = () => {
-      if (timeoutId) {
-        clearTimeout(timeoutId);
-      }
+  private async deleteFromCache(key: string): Promise<void> {
+    try {
+      await this.cache.delete(key);
+    } catch {
+      // Ignore cache backend failures
+    }
+  }
+
+  /**
+   * Token bucket from `APIConfig.rateLimit`, created on first use
+   */
+  private getRateLimiter(): TokenBucketRateLimiter | null {
+    const rateLimit = this.oli.apiConfig.rateLimit;
+    if (!rateLimit) {
+      return null;
+    }
+    if (!this.rateLimiter) {
+      this.rateLimiter = new TokenBucketRateLimiter(rateLimit);
+    }
+    return this.rateLimiter;
+  }
+
+  /**
+   * Run a network request through the interceptor pipeline.
+   * Cache hits never reach this point, so interceptors only see network traffic.
+   * `respondWith` bodies go through the same parser as network responses.
+   */
+  private async execute<T>(options: FetchOptions<T>): Promise<T> {
+    const interceptors = [...(this.oli.apiConfig.interceptors ?? []), ...this.interceptors];
+    if (interceptors.length === 0) {
+      return (await this.performFetch<T>(options)).data;
+    }
+
+    const startedAt = Date.now();
+    let request: InterceptedRequest = {
+      method: options.method,
+      url: options.url,
+      headers: { ...options.headers },
+      body: options.body,
+      startedAt,
+      context: {}
     };
 
-    while (attempt < maxAttempts) {
+    try {
+      const intercepted = await runRequestInterceptors(interceptors, request);
+      request = intercepted.request;
+
+      const result = intercepted.response
+        ? { data: options.parser(intercepted.response.respondWith), status: intercepted.response.status ?? 200, headers: new Headers() }
+        : await this.performFetch<T>({
+          ...options,
+          method: request.method,
+          url: request.url,
+          headers: request.headers,
+          body: request.body
+        });
+
+      const response = await runResponseInterceptors(interceptors, {
+        request,
+        ...result,
+        durationMs: Date.now() - startedAt
+      });
+      return response.data as T;
+    } catch (error) {
+      const outcome = await runErrorInterceptors(interceptors, {
+        request,
+        error,
+        durationMs: Date.now() - startedAt
+      });
+      if (outcome.response) {
+        return options.parser(outcome.response.respondWith);
+      }
+      throw outcome.error;
+    }
+  }
+
+  private async performFetch<T>(options: FetchOptions<T>): Promise<{ data: T; status: number; headers: Headers }> {
+    const { method, url, headers, body, signal, parser, retries, backoff, timeoutMs } = options;
+    const maxAttempts = Math.max(1, retries + 1);
+    const rateLimiter = this.getRateLimiter();
+
+    for (let attempt = 0; ; attempt++) {
+      const isLastAttempt = attempt >= maxAttempts - 1;
+      // A fresh controller per attempt so a timed-out attempt does not abort the retry
+      const controller = signal ? null : new AbortController();
+      let timeoutId: ReturnType<typeof setTimeout> | null = null;
+
       try {
-        if (!signal && timeoutMs > 0) {
-          timeoutId = setTimeout(() => controller?.abort(), timeoutMs);
+        if (rateLimiter) {
+          await rateLimiter.acquire(signal);
+        }
+        if (controller && timeoutMs > 0) {
+          timeoutId = setTimeout(() => controller.abort(), timeoutMs);
         }
 
         const response = await fetch(url, {
@@ -619,45 +1118,88 @@ export class RestClient<TCustomTags extends Record<string, unknown> = Record<str
             // keep raw text
           }
 
-          const shouldRetry = response.status >= 500 && response.status < 600 && attempt < maxAttempts - 1;
-          if (shouldRetry) {
-            attempt += 1;
-            cleanup();
+          const rateLimit = parseRateLimitHeaders(response.headers);
+          const isRetryableStatus = response.status === 429 || (response.status >= 500 && response.status < 600);
+          if (isRetryableStatus && !isLastAttempt) {
+            await sleep(computeRetryDelay(attempt, backoff, rateLimit.retryAfterMs), signal);
             continue;
           }
 
           throw new RestAPIError(
             `Request to ${url} failed with status ${response.status}`,
             response.status,
-            errorBody
+            errorBody,
+            rateLimit
           );
         }
 
-        cleanup();
-
         if (response.status === 204) {
-          return undefined as T;
+          return { data: undefined as T, status: response.status, headers: response.headers };
         }
 
         const text = await response.text();
         const json = text ? JSON.parse(text) : undefined;
-        return parser(json);
+        return { data: parser(json), status: response.status, headers: response.headers };
       } catch (error) {
-        cleanup();
-        const isAbortError =
-          typeof error === 'object' && error !== null && 'name' in error && (error as any).name === 'AbortError';
-        if (isAbortError && attempt < maxAttempts - 1) {
-          attempt += 1;
-          continue;
-        }
-        if (attempt >= maxAttempts - 1) {
+        // HTTP errors, parse failures, and caller aborts are final; network errors and timeouts are retried
+        const isNetworkFailure =
+          !(error instanceof RestAPIError) &&
+          !(error instanceof SyntaxError) &&
+          (error instanceof TypeError || (error as { name?: string })?.name === 'AbortError');
+        if (isLastAttempt || !isNetworkFailure || signal?.aborted) {
           throw error;
         }
-        attempt += 1;
+        await sleep(computeRetryDelay(attempt, backoff), signal);
+      } finally {
+        if (timeoutId) {
+          clearTimeout(timeoutId);
+        }
       }
     }
+  }
 
-    throw new Error('Unexpected request failure');
+  private matchesSearch(
+    att: ExpandedAttestation<TCustomTags>,
+    tagKey: string | undefined,
+    tagValue: string | undefined
+  ): boolean {
+    if (!tagKey) {
+      if (!tagValue) {
+        return true;
+      }
+      const needle = tagValue.toLowerCase();
+      const record = att as Record<string, unknown>;
+      const tags = (att as Record<string, unknown>).tags_json as Record<string, unknown> | null | undefined;
+      const directMatch = Object.entries(record)
+        .filter(([key]) => !['tags_json', '_parsing_error'].includes(key))
+        .some(([, value]) => value !== null && value !== undefined && typeof value !== 'object' && String(value).toLowerCase() === needle);
+      if (directMatch) return true;
+      if (!tags) return false;
+      return Object.values(tags).some(val => String(val).toLowerCase() === needle);
+    }
+
+    const needle = tagValue?.toLowerCase();
+    const value = (att as Record<string, unknown>)[tagKey];
+    if (value === undefined || value === null) {
+      const tags = (att as Record<string, unknown>).tags_json as Record<string, unknown> | null | undefined;
+      if (!tags) return false;
+      const tagVal = tags[tagKey];
+      if (tagVal === undefined || tagVal === null) {
+        return false;
+      }
+      if (!needle) {
+        return true;
+      }
+      if (Array.isArray(tagVal)) {
+        return tagVal.some(item => String(item).toLowerCase() === needle);
+      }
+      return String(tagVal).toLowerCase() === needle;
+    }
+    if (!needle) return true;
+    if (Array.isArray(value)) {
+      return value.some(item => String(item).toLowerCase() === needle);
+    }
+    return String(value).toLowerCase() === needle;
   }
 
   private async computeTagBreakdown(params: TagBreakdownQueryParams): Promise<TagBreakdownResponse> {
@@ -712,10 +1254,23 @@ export class RestClient<TCustomTags extends Record<string, unknown> = Record<str
     // Note: The following parameters are not in the OpenAPI spec but are kept for backward compatibility
     // They may be silently ignored by the API if not supported:
     // - data_contains, chain_id, until, cursor, schema_id (as separate param)
+    // Use iterateAttestations() to page through results with a `since` watermark and `until` cutoff.
 
     return query;
   }
 
+  private toUnixSeconds(value: unknown): number | null {
+    const normalized = this.normalizeTimestamp(value);
+    if (normalized === undefined || normalized === '') {
+      return null;
+    }
+    if (/^\d+$/.test(normalized)) {
+      return Number.parseInt(normalized, 10);
+    }
+    const time = new Date(normalized).getTime();
+    return Number.isNaN(time) ? null : Math.floor(time / 1000);
+  }
+
   private normalizeTimestamp(value: any): string | undefined {
     if (value === undefined || value === null) {
       return undefined;
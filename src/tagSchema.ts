@@ -0,0 +1,322 @@
+/**
+ * Tag schema generator
+ * Turns OLI tag definitions (tag_definitions.yml) into a TypeScript tag type and zod schemas
+ */
+
+import yaml from 'js-yaml';
+import { z } from 'zod';
+import { compilePattern, schemaTypes, withValueSet } from './attest/validation/tagValues';
+import type { JSONSchema, TagDefinitions, TagDefinitionsResponse, ValueSets } from './types/tags';
+
+/**
+ * Options for `generateTagSchemaSource`
+ */
+export interface TagSchemaGeneratorOptions {
+  /** Name of the generated tag type (default: 'OLITags') */
+  interfaceName?: string;
+  /** Name of the generated per-tag zod schema map (default: 'oliTagSchemas') */
+  schemaMapName?: string;
+  /** Name of the generated object schema for a whole tag map (default: 'oliTagsSchema') */
+  objectSchemaName?: string;
+  /** Allowed values per tag_id; replaces the enum from the tag's JSON schema and matches strings case-insensitively */
+  valueSets?: ValueSets;
+  /** Module specifier zod is imported from (default: 'zod') */
+  zodImport?: string;
+}
+
+/**
+ * Options for `buildTagZodSchema`
+ */
+export interface TagZodSchemaOptions {
+  /** Allowed values per tag_id; replaces the enum from the tag's JSON schema and matches strings case-insensitively */
+  valueSets?: ValueSets;
+  /** Reject tag ids without a definition (default: false, unknown tags pass through) */
+  strict?: boolean;
+}
+
+/**
+ * Parse tag_definitions.yml into tag definitions keyed by tag_id
+ */
+export function parseTagDefinitionsYaml(text: string): TagDefinitions {
+  const data = yaml.load(text) as TagDefinitionsResponse;
+  if (!data || !Array.isArray(data.tags)) {
+    throw new Error('Tag definitions YAML must contain a `tags` list');
+  }
+
+  const tagDefinitions: TagDefinitions = {};
+  for (const tag of data.tags) {
+    tagDefinitions[tag.tag_id] = {
+      ...tag,
+      display_name: tag.name, // Normalize: API uses 'name', we use 'display_name' internally
+      name: tag.name // Keep original for compatibility
+    };
+  }
+  return tagDefinitions;
+}
+
+function isIdentifier(key: string): boolean {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key);
+}
+
+function propertyKey(key: string): string {
+  return isIdentifier(key) ? key : JSON.stringify(key);
+}
+
+/**
+ * TypeScript type expression for a JSON schema
+ */
+function toTypeScript(schema: JSONSchema): string {
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+    return schema.enum.map(value => JSON.stringify(value)).join(' | ');
+  }
+
+  const types = schemaTypes(schema).map(type => {
+    switch (type) {
+      case 'string':
+        return 'string';
+      case 'integer':
+      case 'number':
+        return 'number';
+      case 'boolean':
+        return 'boolean';
+      case 'null':
+        return 'null';
+      case 'array': {
+        const item = schema.items ? toTypeScript(schema.items) : 'unknown';
+        return item.includes('|') ? `Array<${item}>` : `${item}[]`;
+      }
+      case 'object': {
+        if (!schema.properties) return 'Record<string, unknown>';
+        const required = new Set(schema.required ?? []);
+        const fields = Object.entries(schema.properties).map(
+          ([key, value]) => `${propertyKey(key)}${required.has(key) ? '' : '?'}: ${toTypeScript(value)}`
+        );
+        return `{ ${fields.join('; ')} }`;
+      }
+      default:
+        return 'unknown';
+    }
+  });
+
+  return types.length > 0 ? [...new Set(types)].join(' | ') : 'unknown';
+}
+
+/**
+ * zod expression source for a JSON schema.
+ * `caseInsensitiveEnum` matches string enums the way `validateTagValues` matches value sets.
+ */
+function toZodSource(schema: JSONSchema, caseInsensitiveEnum = false): string {
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+    if (schema.enum.every(value => typeof value === 'string')) {
+      if (caseInsensitiveEnum) {
+        const allowed = JSON.stringify(schema.enum.map(value => value.toLowerCase()));
+        return `z.string().refine(value => ${allowed}.indexOf(value.toLowerCase()) !== -1, { message: 'Not an allowed value' })`;
+      }
+      return `z.enum([${schema.enum.map(value => JSON.stringify(value)).join(', ')}])`;
+    }
+    const literals = schema.enum.map(value => `z.literal(${JSON.stringify(value)})`);
+    return literals.length === 1 ? literals[0] : `z.union([${literals.join(', ')}])`;
+  }
+
+  const types = schemaTypes(schema).filter(type => type !== 'null');
+  const nullable = schemaTypes(schema).includes('null');
+  const variants = types.map(type => {
+    switch (type) {
+      case 'string': {
+        let source = 'z.string()';
+        if (typeof schema.minLength === 'number') source += `.min(${schema.minLength})`;
+        if (typeof schema.maxLength === 'number') source += `.max(${schema.maxLength})`;
+        if (typeof schema.pattern === 'string' && compilePattern(schema.pattern)) {
+          source += `.regex(new RegExp(${JSON.stringify(schema.pattern)}, "u"))`;
+        }
+        return source;
+      }
+      case 'integer':
+      case 'number': {
+        let source = type === 'integer' ? 'z.number().int()' : 'z.number()';
+        if (typeof schema.minimum === 'number') source += `.gte(${schema.minimum})`;
+        if (typeof schema.maximum === 'number') source += `.lte(${schema.maximum})`;
+        if (typeof schema.exclusiveMinimum === 'number') source += `.gt(${schema.exclusiveMinimum})`;
+        if (typeof schema.exclusiveMaximum === 'number') source += `.lt(${schema.exclusiveMaximum})`;
+        return source;
+      }
+      case 'boolean':
+        return 'z.boolean()';
+      case 'array': {
+        let source = `z.array(${schema.items ? toZodSource(schema.items, caseInsensitiveEnum) : 'z.unknown()'})`;
+        if (typeof schema.minItems === 'number') source += `.min(${schema.minItems})`;
+        if (typeof schema.maxItems === 'number') source += `.max(${schema.maxItems})`;
+        return source;
+      }
+      case 'object': {
+        if (!schema.properties) return 'z.record(z.unknown())';
+        const required = new Set(schema.required ?? []);
+        const fields = Object.entries(schema.properties).map(
+          ([key, value]) => `${propertyKey(key)}: ${toZodSource(value, caseInsensitiveEnum)}${required.has(key) ? '' : '.optional()'}`
+        );
+        return `z.object({ ${fields.join(', ')} })`;
+      }
+      default:
+        return 'z.unknown()';
+    }
+  });
+
+  let source = variants.length === 0 ? 'z.unknown()' : variants.length === 1 ? variants[0] : `z.union([${variants.join(', ')}])`;
+  if (nullable) source += '.nullable()';
+  return source;
+}
+
+/**
+ * Runtime zod schema for a JSON schema (mirrors `toZodSource`)
+ */
+function toZod(schema: JSONSchema, caseInsensitiveEnum = false): z.ZodTypeAny {
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+    if (caseInsensitiveEnum && schema.enum.every(value => typeof value === 'string')) {
+      const allowed = new Set(schema.enum.map(value => value.toLowerCase()));
+      return z.string().refine(value => allowed.has(value.toLowerCase()), { message: 'Not an allowed value' });
+    }
+    const literals = schema.enum.map(value => z.literal(value));
+    return literals.length === 1
+      ? literals[0]
+      : z.union(literals as unknown as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]);
+  }
+
+  const types = schemaTypes(schema).filter(type => type !== 'null');
+  const nullable = schemaTypes(schema).includes('null');
+  const variants: z.ZodTypeAny[] = types.map(type => {
+    switch (type) {
+      case 'string': {
+        let result = z.string();
+        if (typeof schema.minLength === 'number') result = result.min(schema.minLength);
+        if (typeof schema.maxLength === 'number') result = result.max(schema.maxLength);
+        const pattern = typeof schema.pattern === 'string' ? compilePattern(schema.pattern) : null;
+        if (pattern) result = result.regex(pattern);
+        return result;
+      }
+      case 'integer':
+      case 'number': {
+        let result = type === 'integer' ? z.number().int() : z.number();
+        if (typeof schema.minimum === 'number') result = result.gte(schema.minimum);
+        if (typeof schema.maximum === 'number') result = result.lte(schema.maximum);
+        if (typeof schema.exclusiveMinimum === 'number') result = result.gt(schema.exclusiveMinimum);
+        if (typeof schema.exclusiveMaximum === 'number') result = result.lt(schema.exclusiveMaximum);
+        return result;
+      }
+      case 'boolean':
+        return z.boolean();
+      case 'array': {
+        let result = z.array(schema.items ? toZod(schema.items, caseInsensitiveEnum) : z.unknown());
+        if (typeof schema.minItems === 'number') result = result.min(schema.minItems);
+        if (typeof schema.maxItems === 'number') result = result.max(schema.maxItems);
+        return result;
+      }
+      case 'object': {
+        if (!schema.properties) return z.record(z.unknown());
+        const required = new Set(schema.required ?? []);
+        const shape: Record<string, z.ZodTypeAny> = {};
+        for (const [key, value] of Object.entries(schema.properties)) {
+          shape[key] = required.has(key) ? toZod(value, caseInsensitiveEnum) : toZod(value, caseInsensitiveEnum).optional();
+        }
+        return z.object(shape);
+      }
+      default:
+        return z.unknown();
+    }
+  });
+
+  const result =
+    variants.length === 0
+      ? z.unknown()
+      : variants.length === 1
+        ? variants[0]
+        : z.union(variants as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]);
+  return nullable ? result.nullable() : result;
+}
+
+function docComment(lines: Array<string | undefined>, indent: string): string {
+  const content = lines.filter((line): line is string => Boolean(line && line.trim()));
+  if (content.length === 0) return '';
+  const escaped = content.map(line => line.replace(/\*\//g, '*\\/').replace(/\s+/g, ' ').trim());
+  return `${indent}/** ${escaped.join(' — ')} */\n`;
+}
+
+/**
+ * Build runtime zod schemas for every tag definition.
+ *
+ * @returns Per-tag schemas and an object schema that validates a whole tag map (all tags optional)
+ */
+export function buildTagZodSchema(
+  definitions: TagDefinitions,
+  options: TagZodSchemaOptions = {}
+): { tags: Record<string, z.ZodTypeAny>; schema: z.ZodTypeAny } {
+  const tags: Record<string, z.ZodTypeAny> = {};
+  for (const [tagId, definition] of Object.entries(definitions)) {
+    const values = options.valueSets?.[tagId];
+    tags[tagId] = toZod(withValueSet(definition.schema ?? {}, values), Boolean(values));
+  }
+
+  const shape: Record<string, z.ZodTypeAny> = {};
+  for (const [tagId, schema] of Object.entries(tags)) {
+    shape[tagId] = schema.optional();
+  }
+  const object = z.object(shape);
+  return { tags, schema: options.strict ? object.strict() : object.passthrough() };
+}
+
+/**
+ * Generate a TypeScript module with a tag type and matching zod schemas.
+ * The tag map is emitted as a type alias rather than an interface so it satisfies the
+ * `Record<string, unknown>` constraint of `OLIClient<TCustomTags>`.
+ *
+ * @example
+ * ```ts
+ * const source = generateTagSchemaSource(await oli.fetcher.getOLITags());
+ * await writeFile('src/oli-tags.ts', source);
+ * // then: new OLIClient<OLITags>()
+ * ```
+ */
+export function generateTagSchemaSource(definitions: TagDefinitions, options: TagSchemaGeneratorOptions = {}): string {
+  const interfaceName = options.interfaceName ?? 'OLITags';
+  const schemaMapName = options.schemaMapName ?? 'oliTagSchemas';
+  const objectSchemaName = options.objectSchemaName ?? 'oliTagsSchema';
+  const entries = Object.entries(definitions).sort(([a], [b]) => a.localeCompare(b));
+
+  const fields: string[] = [];
+  const schemas: string[] = [];
+  for (const [tagId, definition] of entries) {
+    const values = options.valueSets?.[tagId];
+    const schema = withValueSet(definition.schema ?? {}, values);
+    fields.push(
+      docComment([definition.display_name ?? definition.name, definition.description], '  ') +
+      `  ${propertyKey(tagId)}?: ${toTypeScript(schema)};`
+    );
+    schemas.push(`  ${propertyKey(tagId)}: ${toZodSource(schema, Boolean(values))}`);
+  }
+
+  return [
+    '/* eslint-disable */',
+    '// Generated from OLI tag_definitions.yml by @openlabels/oli-sdk. Do not edit by hand.',
+    '',
+    `import { z } from ${JSON.stringify(options.zodImport ?? 'zod')};`,
+    '',
+    '/**',
+    ' * OLI tags keyed by tag_id',
+    ' */',
+    `export type ${interfaceName} = {`,
+    fields.join('\n'),
+    '};',
+    '',
+    '/**',
+    ' * zod schema for each tag value',
+    ' */',
+    `export const ${schemaMapName} = {`,
+    schemas.join(',\n'),
+    '};',
+    '',
+    '/**',
+    ' * zod schema for a tag map; unknown tags pass through',
+    ' */',
+    `export const ${objectSchemaName} = z.object(${schemaMapName}).partial().passthrough();`,
+    ''
+  ].join('\n');
+}
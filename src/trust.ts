@@ -0,0 +1,173 @@
+/**
+ * Trust scoring for labels issued by multiple attesters
+ * Applies a configurable TrustPolicy and records which rules shaped each score
+ */
+
+import type { ExpandedAttestation } from './types/attestation';
+import type { TrustContribution, TrustPolicy, TrustScore } from './types/trust';
+
+/**
+ * Normalize an attester address for case-insensitive comparison
+ */
+function normalizeAttester(address: string | null | undefined): string {
+  return (address ?? '').toLowerCase();
+}
+
+/**
+ * Normalize a tag value so equivalent values from different attesters compare equal
+ */
+export function normalizeTagValue(value: unknown): string | null {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => String(item).trim().toLowerCase()).sort().join(',');
+  }
+  return String(value).trim().toLowerCase();
+}
+
+function isAttesterListed(list: string[] | undefined, attester: string): boolean {
+  return Array.isArray(list) && list.some(entry => normalizeAttester(entry) === attester);
+}
+
+function resolveAttesterWeight(policy: TrustPolicy, attester: string): number {
+  if (policy.attesterWeights) {
+    for (const [key, weight] of Object.entries(policy.attesterWeights)) {
+      if (normalizeAttester(key) === attester) {
+        return weight;
+      }
+    }
+  }
+  return policy.defaultAttesterWeight ?? 1;
+}
+
+/**
+ * Count the distinct attesters backing each value of a tag
+ */
+function collectAgreement<T extends Record<string, unknown>>(
+  labels: ExpandedAttestation<T>[],
+  tagId: string
+): Map<string, Set<string>> {
+  const agreement = new Map<string, Set<string>>();
+  for (const label of labels) {
+    const value = normalizeTagValue(label[tagId]);
+    if (value === null) continue;
+    const attesters = agreement.get(value) ?? new Set<string>();
+    attesters.add(normalizeAttester(label.attester));
+    agreement.set(value, attesters);
+  }
+  return agreement;
+}
+
+/**
+ * Score labels against a trust policy.
+ * Returns shallow copies of the labels with a `_trust` explanation attached, in the original order.
+ *
+ * Scoring steps:
+ * 1. Exclude attesters outside `allowedAttesters` or inside `blockedAttesters`.
+ * 2. Start from the attester weight (`attesterWeights`, falling back to `defaultAttesterWeight`).
+ * 3. Multiply by `0.5 ^ (age / recencyHalfLife)` when a half-life is configured.
+ * 4. For each tag in `consensusThresholds`, exclude the label when fewer distinct attesters agree
+ *    on its value than required, otherwise add `consensusBonus` per additional agreeing attester.
+ */
+export function scoreLabels<T extends Record<string, unknown> = Record<string, unknown>>(
+  labels: ExpandedAttestation<T>[],
+  policy: TrustPolicy = {},
+  now: number = Math.floor(Date.now() / 1000)
+): ExpandedAttestation<T>[] {
+  const listExcluded = new Set<ExpandedAttestation<T>>();
+  for (const label of labels) {
+    const attester = normalizeAttester(label.attester);
+    if (policy.allowedAttesters && !isAttesterListed(policy.allowedAttesters, attester)) {
+      listExcluded.add(label);
+    } else if (isAttesterListed(policy.blockedAttesters, attester)) {
+      listExcluded.add(label);
+    }
+  }
+
+  // Only attesters that pass the allow/block lists may count towards consensus
+  const eligible = labels.filter(label => !listExcluded.has(label));
+  const agreementByTag = new Map<string, Map<string, Set<string>>>();
+  for (const tagId of Object.keys(policy.consensusThresholds ?? {})) {
+    agreementByTag.set(tagId, collectAgreement(eligible, tagId));
+  }
+
+  return labels.map(label => ({
+    ...label,
+    _trust: scoreLabel(label, policy, now, listExcluded.has(label), agreementByTag)
+  }));
+}
+
+function scoreLabel<T extends Record<string, unknown>>(
+  label: ExpandedAttestation<T>,
+  policy: TrustPolicy,
+  now: number,
+  listExcluded: boolean,
+  agreementByTag: Map<string, Map<string, Set<string>>>
+): TrustScore {
+  const attester = normalizeAttester(label.attester);
+  const contributions: TrustContribution[] = [];
+
+  if (listExcluded) {
+    const blocked = isAttesterListed(policy.blockedAttesters, attester);
+    contributions.push({
+      rule: blocked ? 'attester_blocklist' : 'attester_allowlist',
+      detail: blocked
+        ? `Attester ${label.attester} is blocked`
+        : `Attester ${label.attester} is not in the allow list`,
+      score: 0
+    });
+    return { score: 0, excluded: true, contributions };
+  }
+
+  let score = resolveAttesterWeight(policy, attester);
+  if (policy.allowedAttesters) {
+    contributions.push({
+      rule: 'attester_allowlist',
+      detail: `Attester ${label.attester} is in the allow list`,
+      score
+    });
+  }
+  contributions.push({
+    rule: 'attester_weight',
+    detail: `Attester weight ${score}`,
+    score
+  });
+
+  if (policy.recencyHalfLife !== undefined && policy.recencyHalfLife > 0) {
+    const age = Math.max(0, now - label.timeCreated);
+    const factor = Math.pow(0.5, age / policy.recencyHalfLife);
+    score *= factor;
+    contributions.push({
+      rule: 'recency_decay',
+      detail: `Label is ${age}s old, decay factor ${factor.toFixed(4)}`,
+      score
+    });
+  }
+
+  for (const [tagId, threshold] of Object.entries(policy.consensusThresholds ?? {})) {
+    const value = normalizeTagValue(label[tagId]);
+    if (value === null) continue;
+
+    const agreeing = agreementByTag.get(tagId)?.get(value)?.size ?? 0;
+    if (agreeing < threshold) {
+      contributions.push({
+        rule: 'consensus',
+        detail: `${agreeing} of ${threshold} required attesters agree on ${tagId}="${value}"`,
+        score: 0,
+        tag_id: tagId
+      });
+      return { score: 0, excluded: true, contributions };
+    }
+
+    score += (agreeing - 1) * (policy.consensusBonus ?? 0);
+    contributions.push({
+      rule: 'consensus',
+      detail: `${agreeing} attesters agree on ${tagId}="${value}" (threshold ${threshold})`,
+      score,
+      tag_id: tagId
+    });
+  }
+
+  return { score, excluded: false, contributions };
+}
@@ -86,6 +86,7 @@ export interface AttestationDomain {
 }
 
 export interface AttestationMessage {
+  /** Offchain format version: 0 (legacy), 1, or 2; only version 2 is signed with a `salt` */
   version: number;
   schema: string;
   recipient: string;
@@ -94,7 +95,7 @@ export interface AttestationMessage {
   revocable: boolean;
   refUID: string;
   data: string;
-  salt: string;
+  salt?: string;
 }
 
 export interface AttestationSignatureFields {
@@ -196,3 +197,17 @@ export interface ValidationError {
   msg: string;
   type: string;
 }
+
+/**
+ * Rate-limit details parsed from response headers
+ */
+export interface RateLimitInfo {
+  /** Request quota for the current window (`X-RateLimit-Limit`) */
+  limit: number | null;
+  /** Requests left in the current window (`X-RateLimit-Remaining`) */
+  remaining: number | null;
+  /** Time the current window resets (`X-RateLimit-Reset`) */
+  reset: Date | null;
+  /** Delay requested by the server in milliseconds (`Retry-After`) */
+  retryAfterMs: number | null;
+}
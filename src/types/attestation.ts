@@ -2,6 +2,8 @@
  * Attestation-related types for expanded REST responses
  */
 
+import type { TrustScore } from './trust';
+
 /**
  * Raw attestation data from the OLI REST API
  */
@@ -101,6 +103,10 @@ export interface CommonOLITags {
 export type BaseExpandedAttestation = Omit<RawAttestation, 'decodedDataJson'> & CommonOLITags & {
   decodedDataJson?: string;
   _parsing_error?: string;
+  /** Trust score and explanation, present when a TrustPolicy was applied */
+  _trust?: TrustScore;
+  /** Name of the `LabelSource` that returned the attestation, when read through one */
+  _source?: string;
   [key: string]: any;
 };
 
@@ -0,0 +1,77 @@
+/**
+ * Cache backend types for the REST client
+ */
+
+/**
+ * Cached REST response
+ */
+export interface CacheRecord<T = unknown> {
+  /** Unix time in milliseconds when the response was stored */
+  timestamp: number;
+  data: T;
+}
+
+/**
+ * Storage backend for cached REST responses.
+ * Methods may be synchronous or return promises.
+ */
+export interface CacheAdapter {
+  /** Return the stored record, or undefined when missing or expired */
+  get<T = unknown>(key: string): CacheRecord<T> | undefined | Promise<CacheRecord<T> | undefined>;
+  /**
+   * Store a record.
+   * @param ttlMs - Time in milliseconds the record must be kept; the adapter may drop it afterwards
+   */
+  set<T = unknown>(key: string, record: CacheRecord<T>, ttlMs: number): void | Promise<void>;
+  /** Remove a record */
+  delete(key: string): void | Promise<void>;
+  /** List stored keys; required for `RestClient.invalidate` */
+  keys?(): string[] | Promise<string[]>;
+  /** Remove every record; `RestClient.clearCache` falls back to `keys` + `delete` when missing */
+  clear?(): void | Promise<void>;
+}
+
+/**
+ * Options for the in-memory LRU cache adapter
+ */
+export interface MemoryCacheAdapterOptions {
+  /** Maximum number of entries kept; least recently used entries are evicted first */
+  maxEntries?: number;
+  /** Maximum estimated size of all cached responses in bytes (JSON length) */
+  maxBytes?: number;
+}
+
+/**
+ * Key matcher for cache invalidation: a key prefix, a regular expression, or a predicate
+ */
+export type CacheKeyPattern = string | RegExp | ((key: string) => boolean);
+
+/**
+ * Options for the filesystem JSON cache adapter (Node.js)
+ */
+export interface FileSystemCacheAdapterOptions {
+  /** Path of the JSON file holding the cache */
+  path: string;
+}
+
+/**
+ * Options for the localStorage cache adapter (browser)
+ */
+export interface LocalStorageCacheAdapterOptions {
+  /** Key prefix used to namespace cache entries (default: 'oli-cache:') */
+  prefix?: string;
+  /** Storage implementation (default: globalThis.localStorage) */
+  storage?: Storage;
+}
+
+/**
+ * Options for the IndexedDB cache adapter (browser)
+ */
+export interface IndexedDBCacheAdapterOptions {
+  /** Database name (default: 'oli-sdk-cache') */
+  dbName?: string;
+  /** Object store name (default: 'responses') */
+  storeName?: string;
+  /** IndexedDB factory (default: globalThis.indexedDB) */
+  indexedDB?: IDBFactory;
+}
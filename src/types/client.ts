@@ -3,8 +3,9 @@
  * Separated to avoid circular dependencies
  */
 
-import type { ResolvedAPIConfig } from './common';
+import type { LabelDisplayConfig, LabelFilterConfig, ResolvedAPIConfig } from './common';
 import type { TagDefinitions, ValueSets } from './tags';
+import type { TrustPolicy } from './trust';
 
 /**
  * Core OLI client interface
@@ -14,4 +15,7 @@ export interface IOLIClient {
   readonly apiConfig: ResolvedAPIConfig;
   tagDefinitions: TagDefinitions;
   valueSets: ValueSets;
+  readonly filterConfig?: LabelFilterConfig;
+  readonly displayConfig?: LabelDisplayConfig;
+  readonly trustPolicy?: TrustPolicy;
 }
@@ -2,6 +2,40 @@
  * Common types used across the SDK
  */
 
+import type { TrustPolicy } from './trust';
+import type { CacheAdapter } from './cache';
+import type { RestInterceptor } from './interceptors';
+
+/**
+ * Delay schedule between automatic retries
+ */
+export interface RetryBackoffConfig {
+  /** Delay before the first retry in milliseconds (default: 250) */
+  initialDelayMs?: number;
+  /** Factor applied to the delay after each retry (default: 2) */
+  multiplier?: number;
+  /** Upper bound for computed delays in milliseconds (default: 10000) */
+  maxDelayMs?: number;
+  /** Randomize each delay between 50% and 100% of its value (default: true) */
+  jitter?: boolean;
+  /** Wait for the `Retry-After` header when present instead of the computed delay (default: true) */
+  respectRetryAfter?: boolean;
+  /** Upper bound for delays taken from `Retry-After` in milliseconds (default: 60000) */
+  maxRetryAfterMs?: number;
+}
+
+/**
+ * Client-side token-bucket rate limit applied to every request
+ */
+export interface RateLimitConfig {
+  /** Requests allowed per interval */
+  requests: number;
+  /** Interval length in milliseconds (default: 1000) */
+  intervalMs?: number;
+  /** Maximum requests sent back-to-back before throttling (default: `requests`) */
+  burst?: number;
+}
+
 /**
  * Configuration for the REST API
  */
@@ -14,8 +48,14 @@ export interface APIConfig {
   defaultHeaders?: Record<string, string>;
   /** Request timeout in milliseconds */
   timeoutMs?: number;
-  /** Number of automatic retries for transient failures */
+  /** Number of automatic retries for transient failures (network errors, timeouts, 429, and 5xx) */
   retries?: number;
+  /** Delay schedule between retries */
+  retryBackoff?: RetryBackoffConfig;
+  /** Client-side rate limit shared by all requests of this client */
+  rateLimit?: RateLimitConfig;
+  /** Hooks run around every network request, in order */
+  interceptors?: RestInterceptor[];
   /** Enable in-flight request deduplication */
   enableDeduplication?: boolean;
   /** Enable built-in caching */
@@ -24,6 +64,16 @@ export interface APIConfig {
   cacheTtl?: number;
   /** Additional window during which stale data may be served while refreshing */
   staleWhileRevalidate?: number;
+  /** Per-endpoint cache TTL overrides in milliseconds, keyed by path (e.g. `{ '/labels': 60_000 }`) */
+  endpointCacheTtl?: Record<string, number>;
+  /** Maximum entries kept by the default in-memory cache (least recently used are evicted) */
+  cacheMaxEntries?: number;
+  /** Maximum estimated size in bytes of the default in-memory cache */
+  cacheMaxBytes?: number;
+  /** Storage backend for cached responses (default: per-client in-memory LRU) */
+  cacheAdapter?: CacheAdapter;
+  /** Invalidate cached `/labels` responses for an address after `attest.submitSingleOnchain` succeeds */
+  invalidateLabelsOnSubmit?: boolean;
 }
 
 /**
@@ -35,10 +85,18 @@ export interface ResolvedAPIConfig {
   defaultHeaders: Record<string, string>;
   timeoutMs: number;
   retries: number;
+  retryBackoff?: RetryBackoffConfig;
+  rateLimit?: RateLimitConfig;
+  interceptors?: RestInterceptor[];
   enableDeduplication: boolean;
   enableCache: boolean;
   cacheTtl: number;
   staleWhileRevalidate: number;
+  endpointCacheTtl?: Record<string, number>;
+  cacheMaxEntries?: number;
+  cacheMaxBytes?: number;
+  cacheAdapter?: CacheAdapter;
+  invalidateLabelsOnSubmit?: boolean;
 }
 
 /**
@@ -50,10 +108,25 @@ export const DEFAULT_API_CONFIG: ResolvedAPIConfig = {
   defaultHeaders: {},
   timeoutMs: 15_000,
   retries: 0,
+  retryBackoff: {
+    initialDelayMs: 250,
+    multiplier: 2,
+    maxDelayMs: 10_000,
+    jitter: true,
+    respectRetryAfter: true,
+    maxRetryAfterMs: 60_000
+  },
+  rateLimit: undefined,
+  interceptors: [],
   enableDeduplication: true,
   enableCache: false,
   cacheTtl: 0,
-  staleWhileRevalidate: 0
+  staleWhileRevalidate: 0,
+  endpointCacheTtl: {},
+  cacheMaxEntries: 1000,
+  cacheMaxBytes: undefined,
+  cacheAdapter: undefined,
+  invalidateLabelsOnSubmit: false
 };
 
 /**
@@ -96,6 +169,8 @@ export interface OLIConfig {
   display?: LabelDisplayConfig;
   /** Label filtering defaults */
   filters?: LabelFilterConfig;
+  /** Trust policy used to rank labels from multiple attesters */
+  trust?: TrustPolicy;
   /** Cache duration in seconds (0 = no cache) */
   cacheDuration?: number;
   /** REST API configuration */
@@ -0,0 +1,68 @@
+/**
+ * Request/response interceptor types shared by RestClient and the proxy handler
+ */
+
+/**
+ * Outgoing request seen by interceptors.
+ * Interceptors may mutate it in place or return a replacement.
+ */
+export interface InterceptedRequest {
+  method: string;
+  /** Absolute upstream URL */
+  url: string;
+  headers: Record<string, string>;
+  body?: unknown;
+  /** Unix time in milliseconds when the request entered the pipeline */
+  startedAt: number;
+  /** Free-form values shared between hooks of the same request */
+  context: Record<string, unknown>;
+}
+
+/**
+ * Response seen by interceptors.
+ * `data` is the parsed body; replace it to change what the caller receives.
+ */
+export interface InterceptedResponse {
+  request: InterceptedRequest;
+  status: number;
+  headers: Headers;
+  data: unknown;
+  durationMs: number;
+}
+
+/**
+ * Failed request seen by interceptors
+ */
+export interface InterceptedError {
+  request: InterceptedRequest;
+  error: unknown;
+  durationMs: number;
+}
+
+/**
+ * Returned by `onRequest` or `onError` to answer without (or instead of) the upstream response
+ */
+export interface InterceptorResponse {
+  /** Response body; parsed and validated like a network response */
+  respondWith: unknown;
+  /** Status reported to `onResponse` hooks and proxy clients (default: 200) */
+  status?: number;
+}
+
+/**
+ * Hooks around every network request.
+ * Hooks run in registration order; a hook returning `undefined` keeps the current value.
+ */
+export interface RestInterceptor {
+  /** Name used in logs and metrics */
+  name?: string;
+  /** Modify the outgoing request, or return `{ respondWith }` to skip the network call */
+  onRequest?(request: InterceptedRequest): InterceptedRequest | InterceptorResponse | void | Promise<InterceptedRequest | InterceptorResponse | void>;
+  /** Inspect or replace a successful response */
+  onResponse?(response: InterceptedResponse): InterceptedResponse | void | Promise<InterceptedResponse | void>;
+  /**
+   * Observe a failure. Return `{ respondWith }` to recover, an `Error` to rethrow instead,
+   * or nothing to keep the current error.
+   */
+  onError?(failure: InterceptedError): unknown;
+}
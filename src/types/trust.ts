@@ -0,0 +1,100 @@
+/**
+ * Trust-scoring and consensus types for labels from multiple attesters
+ */
+
+/**
+ * Policy controlling how labels are scored and ranked.
+ * All attester addresses are compared case-insensitively.
+ */
+export interface TrustPolicy {
+  /** Only labels from these attesters are considered (all others are excluded) */
+  allowedAttesters?: string[];
+  /** Labels from these attesters are always excluded */
+  blockedAttesters?: string[];
+  /** Per-attester base weight, keyed by attester address */
+  attesterWeights?: Record<string, number>;
+  /** Base weight for attesters without an explicit weight (default: 1) */
+  defaultAttesterWeight?: number;
+  /** Half-life in seconds for recency decay; omit to disable decay */
+  recencyHalfLife?: number;
+  /** Minimum number of distinct attesters that must agree on a tag value, keyed by tag_id */
+  consensusThresholds?: Record<string, number>;
+  /** Score bonus added per additional attester agreeing on a thresholded tag value (default: 0) */
+  consensusBonus?: number;
+}
+
+/**
+ * Rule that contributed to a label's trust score
+ */
+export type TrustRule =
+  | 'attester_allowlist'
+  | 'attester_blocklist'
+  | 'attester_weight'
+  | 'recency_decay'
+  | 'consensus';
+
+/**
+ * Single step of a trust score explanation
+ */
+export interface TrustContribution {
+  rule: TrustRule;
+  /** Human-readable explanation of the rule outcome */
+  detail: string;
+  /** Score after this rule was applied */
+  score: number;
+  /** Tag the rule applied to (consensus rules only) */
+  tag_id?: string;
+}
+
+/**
+ * Trust score and explanation attached to a ranked label
+ */
+export interface TrustScore {
+  score: number;
+  /** True when a rule removed the label from consideration */
+  excluded: boolean;
+  contributions: TrustContribution[];
+}
+
+/**
+ * A distinct tag value and the attesters asserting it
+ */
+export interface TagValueSupport {
+  /** Value as attested by the most recent supporting attestation */
+  value: unknown;
+  /** Normalized form used to compare values across attesters */
+  normalizedValue: string;
+  /** Distinct attesters asserting this value */
+  attesters: string[];
+  /** Number of attestations asserting this value */
+  count: number;
+  /** Unix time (seconds) of the most recent supporting attestation */
+  latestTime: number;
+  /** UIDs of the supporting attestations, newest first */
+  uids: string[];
+}
+
+/**
+ * Agreement between attesters on a single tag
+ */
+export interface TagConsensus {
+  tag_id: string;
+  /** Distinct values, ordered by attester support then recency */
+  values: TagValueSupport[];
+  /** True when attesters currently disagree on the value */
+  hasConflict: boolean;
+}
+
+/**
+ * Per-tag consensus view across all valid labels of an address
+ */
+export interface LabelConsensus {
+  address: string;
+  /** Number of valid attestations considered */
+  attestationCount: number;
+  /** Distinct attesters across all considered attestations */
+  attesters: string[];
+  tags: Record<string, TagConsensus>;
+  /** Tag ids whose attesters disagree */
+  conflicts: string[];
+}
@@ -0,0 +1,88 @@
+/**
+ * Types for `RestClient.watch`
+ */
+
+import type { ExpandedAttestation } from './attestation';
+
+/**
+ * Which attestations a watcher reports
+ */
+export interface WatchFilter {
+  /** Only labels for these recipient addresses (case-insensitive) */
+  addresses?: string[];
+  /** Only labels issued by this attester */
+  attester?: string;
+  /** Only labels carrying this tag */
+  tagId?: string;
+}
+
+/**
+ * Resumable watcher position. Persist it (it is plain JSON) and pass it back as
+ * `checkpoint` to continue after a restart without repeating events.
+ */
+export interface WatchCheckpoint {
+  /** Newest attestation time seen (ISO 8601), or null before the first poll */
+  since: string | null;
+  /**
+   * Attestations inside the lookback window, keyed by uid, with their creation time
+   * (unix seconds) and whether a revocation was already reported
+   */
+  seen: Record<string, { time: number; revoked: boolean }>;
+}
+
+/**
+ * Event emitted by a watcher. A label that is already revoked when first seen is
+ * reported once, as `revoked`.
+ */
+export interface WatchEvent<TCustomTags extends Record<string, unknown> = Record<string, unknown>> {
+  type: 'created' | 'revoked';
+  attestation: ExpandedAttestation<TCustomTags>;
+  /** Checkpoint that includes this event */
+  checkpoint: WatchCheckpoint;
+}
+
+/**
+ * Options for `RestClient.watch`
+ */
+export interface WatchOptions {
+  /** Resume from a persisted checkpoint */
+  checkpoint?: WatchCheckpoint;
+  /** Where to start without a checkpoint (default: now, so only new labels are reported) */
+  since?: string | number | Date;
+  /** Delay between polls while labels keep arriving in milliseconds (default: 15000) */
+  intervalMs?: number;
+  /** Longest delay the watcher backs off to when idle or failing in milliseconds (default: 300000) */
+  maxIntervalMs?: number;
+  /** Factor applied to the delay after an idle or failed poll (default: 2) */
+  backoffFactor?: number;
+  /**
+   * Seconds behind the watermark to re-read on every poll. Revocations do not change an
+   * attestation's `time`, so this window is what catches `revoked` events (default: 3600).
+   * At least 1 second: `since` is exclusive, so a window of 0 would skip labels created in the
+   * same second as the watermark.
+   *
+   * Only a single address is filtered server-side. With several `addresses`, or none, every poll
+   * re-reads every attestation in the window and filters locally, so keep the window short for
+   * busy attesters or frequent polls.
+   */
+  lookback?: number;
+  /** Records per request (API maximum: 1000) */
+  pageSize?: number;
+  signal?: AbortSignal;
+  /** Called after every poll that moved the checkpoint, for persistence */
+  onCheckpoint?: (checkpoint: WatchCheckpoint) => void | Promise<void>;
+  /** Called when a poll fails; the watcher keeps polling with backoff */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Handle returned by `RestClient.watch`
+ */
+export interface WatchHandle {
+  /** Stop polling; `done` resolves once the current poll settles */
+  stop(): void;
+  /** Resolves when the watcher stops */
+  readonly done: Promise<void>;
+  /** Current checkpoint */
+  checkpoint(): WatchCheckpoint;
+}
@@ -20,3 +20,6 @@ export {
 
 export { DIAGNOSTIC_CODES } from './attest/validation/diagnostics';
 export type { DiagnosticCode } from './attest/validation/diagnostics';
+
+export { validateTagValue, validateTagValues } from './attest/validation/tagValues';
+export type { TagValueIssue, TagValueIssueKeyword, TagValueValidationOptions } from './attest/validation/tagValues';
@@ -0,0 +1,564 @@
+/**
+ * Webhook dispatcher for label changes (Node.js)
+ * Turns `RestClient.watch` events into HMAC-signed HTTP callbacks with retries and a dead-letter queue
+ */
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import { z } from 'zod';
+import type { ExpandedAttestation } from './types/attestation';
+import type { RetryBackoffConfig } from './types/common';
+import type { WatchCheckpoint, WatchEvent, WatchFilter, WatchHandle, WatchOptions } from './types/watch';
+import { computeRetryDelay, parseRetryAfter } from './rateLimit';
+import { normalizeTagValue } from './trust';
+import { readRequestBody } from './proxy';
+
+/**
+ * Tag condition of a subscription
+ */
+export interface WebhookTagFilter {
+  tagId: string;
+  /** Accepted values (case-insensitive); any value matches when omitted */
+  values?: string[];
+}
+
+/**
+ * A webhook target and the label changes it receives
+ */
+export interface WebhookSubscription {
+  id: string;
+  /** Endpoint that receives `POST` requests */
+  url: string;
+  /** Secret used to sign payloads with HMAC-SHA256 */
+  secret: string;
+  /** Only labels for these addresses (case-insensitive); every address when omitted */
+  addresses?: string[];
+  /** Every filter must match */
+  tags?: WebhookTagFilter[];
+  /** Event types to send (default: both) */
+  events?: Array<WatchEvent['type']>;
+  /** Extra request headers */
+  headers?: Record<string, string>;
+}
+
+/**
+ * JSON body posted to a subscription URL
+ */
+export interface WebhookPayload<TCustomTags extends Record<string, unknown> = Record<string, unknown>> {
+  /** Delivery id, stable across retries; use it to ignore duplicates */
+  id: string;
+  type: 'label.created' | 'label.revoked';
+  subscription: string;
+  /** Time the change was detected (ISO 8601) */
+  created_at: string;
+  attestation: ExpandedAttestation<TCustomTags>;
+}
+
+/**
+ * A delivery that ran out of attempts
+ */
+export interface WebhookDeadLetter {
+  payload: WebhookPayload;
+  subscriptionId: string;
+  attempts: number;
+  /** Last HTTP status, or null when the request itself failed */
+  status: number | null;
+  error: string;
+  /** Unix time in milliseconds */
+  failedAt: number;
+}
+
+/**
+ * Storage for dead-lettered deliveries. Methods may be synchronous or return promises.
+ */
+export interface WebhookDeadLetterStore {
+  add(entry: WebhookDeadLetter): void | Promise<void>;
+  list(): WebhookDeadLetter[] | Promise<WebhookDeadLetter[]>;
+  /** Remove an entry by delivery id */
+  remove(id: string): void | Promise<void>;
+}
+
+/**
+ * Minimal view of RestClient used by the dispatcher
+ */
+export interface WebhookWatchSource {
+  watch(
+    filter: WatchFilter,
+    onEvent: (event: WatchEvent) => void | Promise<void>,
+    options?: WatchOptions
+  ): WatchHandle;
+}
+
+/**
+ * Options for `WebhookDispatcher`
+ */
+export interface WebhookDispatcherOptions {
+  subscriptions?: WebhookSubscription[];
+  /** Attempts per delivery, including the first (default: 5) */
+  maxAttempts?: number;
+  /** Delay between attempts (default: 1 s doubling up to 5 min, with jitter) */
+  retryBackoff?: RetryBackoffConfig;
+  /** Per-request timeout in milliseconds (default: 10000) */
+  timeoutMs?: number;
+  /** Dead-letter storage (default: in memory) */
+  deadLetters?: WebhookDeadLetterStore;
+  /** Called whenever a delivery is dead-lettered */
+  onDeadLetter?: (entry: WebhookDeadLetter) => void;
+  /** Called when a background retry fails unexpectedly, e.g. the dead-letter store rejects */
+  onError?: (error: unknown) => void;
+  /** Polling options forwarded to `watch`, e.g. `checkpoint`, `onCheckpoint`, `intervalMs` */
+  watch?: Omit<WatchOptions, 'signal'>;
+  fetch?: typeof fetch;
+}
+
+/**
+ * Options for `createWebhookHandler`
+ */
+export interface WebhookHandlerOptions {
+  /**
+   * Reject requests this returns false for with 401. Required: the routes register webhook URLs
+   * the server will POST to and expose failed payloads.
+   */
+  authorize: (req: IncomingMessage) => boolean | Promise<boolean>;
+}
+
+/** Header carrying `t=<unix seconds>,v1=<hex hmac>` */
+export const WEBHOOK_SIGNATURE_HEADER = 'x-oli-signature';
+
+const DEFAULT_RETRY_BACKOFF: RetryBackoffConfig = { initialDelayMs: 1000, multiplier: 2, maxDelayMs: 300_000 };
+
+const webhookSubscriptionSchema = z.object({
+  id: z.string().min(1),
+  url: z
+    .string()
+    .url()
+    .refine(url => /^https?:$/.test(new URL(url).protocol), 'must be an http or https URL'),
+  secret: z.string().min(1),
+  addresses: z.array(z.string()).optional(),
+  tags: z.array(z.object({ tagId: z.string().min(1), values: z.array(z.string()).optional() })).optional(),
+  events: z.array(z.enum(['created', 'revoked'])).optional(),
+  headers: z.record(z.string()).optional()
+}) satisfies z.ZodType<WebhookSubscription>;
+
+interface PendingDelivery {
+  subscription: WebhookSubscription;
+  payload: WebhookPayload;
+  attempts: number;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+class MemoryDeadLetterStore implements WebhookDeadLetterStore {
+  private readonly entries = new Map<string, WebhookDeadLetter>();
+
+  add(entry: WebhookDeadLetter): void {
+    this.entries.set(entry.payload.id, entry);
+  }
+
+  list(): WebhookDeadLetter[] {
+    return Array.from(this.entries.values());
+  }
+
+  remove(id: string): void {
+    this.entries.delete(id);
+  }
+}
+
+async function loadCrypto(): Promise<{
+  createHmac(algorithm: string, key: string): { update(data: string): { digest(encoding: 'hex'): string } };
+  timingSafeEqual(a: Uint8Array, b: Uint8Array): boolean;
+}> {
+  // Resolved at runtime so browser bundles never try to include `crypto`
+  const moduleName = 'crypto';
+  return import(/* webpackIgnore: true */ moduleName);
+}
+
+/**
+ * Sign a webhook body. The signature covers `<timestamp>.<body>` so replays of old
+ * payloads can be rejected by timestamp.
+ *
+ * @returns The `x-oli-signature` header value.
+ */
+export async function signWebhookPayload(secret: string, body: string, timestamp: number = Math.floor(Date.now() / 1000)): Promise<string> {
+  const { createHmac } = await loadCrypto();
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${digest}`;
+}
+
+/**
+ * Check an `x-oli-signature` header on the receiving side.
+ *
+ * @param options.toleranceSeconds - Maximum age of the signature (default: 300).
+ */
+export async function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  header: string | null | undefined,
+  options: { toleranceSeconds?: number; now?: number } = {}
+): Promise<boolean> {
+  const parts = Object.fromEntries((header ?? '').split(',').map(part => part.trim().split('=', 2)));
+  const timestamp = Number(parts.t);
+  if (!Number.isFinite(timestamp) || typeof parts.v1 !== 'string') {
+    return false;
+  }
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+  if (Math.abs(now - timestamp) > (options.toleranceSeconds ?? 300)) {
+    return false;
+  }
+
+  const { timingSafeEqual } = await loadCrypto();
+  const expected = (await signWebhookPayload(secret, body, timestamp)).split('v1=')[1];
+  const encoder = new TextEncoder();
+  const a = encoder.encode(expected);
+  const b = encoder.encode(parts.v1);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+function matchesSubscription(subscription: WebhookSubscription, event: WatchEvent): boolean {
+  if (subscription.events && !subscription.events.includes(event.type)) {
+    return false;
+  }
+  const { attestation } = event;
+  if (subscription.addresses && !subscription.addresses.some(address => address.toLowerCase() === attestation.recipient.toLowerCase())) {
+    return false;
+  }
+  return (subscription.tags ?? []).every(filter => {
+    const raw = attestation[filter.tagId];
+    if (normalizeTagValue(raw) === null) return false;
+    // Array tags such as erc_type match when any element is accepted
+    const values = (Array.isArray(raw) ? raw : [raw]).map(normalizeTagValue);
+    return !filter.values || filter.values.some(candidate => values.includes(normalizeTagValue(candidate)));
+  });
+}
+
+/**
+ * Sends label changes from `RestClient.watch` to subscribed HTTP endpoints.
+ *
+ * Each matching event becomes a JSON `POST` signed with the subscription's secret
+ * (see `verifyWebhookSignature`). Failed deliveries are retried with backoff and, after
+ * `maxAttempts`, moved to the dead-letter store, from which they can be redelivered.
+ *
+ * @example
+ * ```ts
+ * const dispatcher = new WebhookDispatcher(oli.api, {
+ *   subscriptions: [{ id: 'ops', url: 'https://ops.example/hooks/oli', secret: process.env.HOOK_SECRET!, addresses: ['0x1234...'] }],
+ *   watch: { checkpoint: await load(), onCheckpoint: save }
+ * });
+ * dispatcher.start();
+ * ```
+ */
+export class WebhookDispatcher {
+  private readonly subscriptions = new Map<string, WebhookSubscription>();
+  private readonly pending = new Set<PendingDelivery>();
+  private readonly inFlight = new Set<Promise<void>>();
+  private stopping = false;
+  private readonly deadLetterStore: WebhookDeadLetterStore;
+  private watcher: WatchHandle | null = null;
+
+  constructor(
+    private readonly source: WebhookWatchSource,
+    private readonly options: WebhookDispatcherOptions = {}
+  ) {
+    this.deadLetterStore = options.deadLetters ?? new MemoryDeadLetterStore();
+    options.subscriptions?.forEach(subscription => this.subscribe(subscription));
+  }
+
+  /**
+   * Add or replace a subscription by id. Unknown fields are dropped.
+   *
+   * @returns The stored subscription.
+   * @throws When a field has the wrong type or `url` is not an http(s) URL.
+   */
+  subscribe(subscription: WebhookSubscription): WebhookSubscription {
+    const result = webhookSubscriptionSchema.safeParse(subscription);
+    if (!result.success) {
+      const message = result.error.errors.map(err => `${err.path.join('.') || 'subscription'}: ${err.message}`).join('; ');
+      throw new Error(`Invalid webhook subscription: ${message}`);
+    }
+    this.subscriptions.set(result.data.id, result.data);
+    return result.data;
+  }
+
+  /**
+   * Remove a subscription.
+   * @returns Whether it existed.
+   */
+  unsubscribe(id: string): boolean {
+    return this.subscriptions.delete(id);
+  }
+
+  /** Current subscriptions */
+  listSubscriptions(): WebhookSubscription[] {
+    return Array.from(this.subscriptions.values());
+  }
+
+  /** Whether the dispatcher is polling */
+  get running(): boolean {
+    return this.watcher !== null;
+  }
+
+  /**
+   * Start polling for label changes. Resumes from `options.watch.checkpoint` when given.
+   */
+  start(): WatchHandle {
+    if (!this.watcher) {
+      this.watcher = this.source.watch({}, event => this.dispatch(event), this.options.watch);
+    }
+    return this.watcher;
+  }
+
+  /**
+   * Stop polling and wait for deliveries in flight. Deliveries waiting for a retry, and
+   * retries that fail while stopping, are dead-lettered so they can be redelivered after a restart.
+   *
+   * Retries are only held in memory and the checkpoint advances once the first attempt is made,
+   * so call `stop()` before the process exits and use a persistent `deadLetters` store; a crash
+   * loses the retries that were waiting.
+   *
+   * @returns The watcher's last checkpoint, or null when it was not running.
+   */
+  async stop(): Promise<WatchCheckpoint | null> {
+    const watcher = this.watcher;
+    this.watcher = null;
+    this.stopping = true;
+    try {
+      if (watcher) {
+        watcher.stop();
+        await watcher.done;
+      }
+
+      for (const delivery of Array.from(this.pending)) {
+        clearTimeout(delivery.timer);
+        this.pending.delete(delivery);
+        await this.deadLetter(delivery, null, 'Dispatcher stopped before the delivery succeeded');
+      }
+      await Promise.all(Array.from(this.inFlight));
+    } finally {
+      this.stopping = false;
+    }
+    return watcher ? watcher.checkpoint() : null;
+  }
+
+  /**
+   * Deliver an event to every matching subscription. Resolves after the first attempts;
+   * retries continue in the background.
+   */
+  async dispatch(event: WatchEvent): Promise<void> {
+    const detectedAt = new Date().toISOString();
+    const deliveries = this.listSubscriptions()
+      .filter(subscription => matchesSubscription(subscription, event))
+      .map(subscription => {
+        const payload: WebhookPayload = {
+          id: `${event.attestation.uid}:${event.type}:${subscription.id}`,
+          type: event.type === 'created' ? 'label.created' : 'label.revoked',
+          subscription: subscription.id,
+          created_at: detectedAt,
+          attestation: event.attestation
+        };
+        return this.attempt({ subscription, payload, attempts: 0 });
+      });
+    await Promise.all(deliveries);
+  }
+
+  /** Deliveries that ran out of attempts */
+  async deadLetters(): Promise<WebhookDeadLetter[]> {
+    return this.deadLetterStore.list();
+  }
+
+  /**
+   * Send dead-lettered deliveries again with a fresh attempt budget.
+   * @param ids - Delivery ids to redeliver; every entry when omitted.
+   * @returns Number of deliveries that succeeded on the first new attempt.
+   */
+  async redeliver(ids?: string[]): Promise<number> {
+    const entries = (await this.deadLetterStore.list()).filter(entry => !ids || ids.includes(entry.payload.id));
+    let delivered = 0;
+    for (const entry of entries) {
+      await this.deadLetterStore.remove(entry.payload.id);
+      const subscription = this.subscriptions.get(entry.subscriptionId);
+      if (!subscription) {
+        await this.deadLetterStore.add({ ...entry, error: `Subscription ${entry.subscriptionId} no longer exists`, failedAt: Date.now() });
+        continue;
+      }
+      if (await this.attempt({ subscription, payload: entry.payload, attempts: 0 })) {
+        delivered += 1;
+      }
+    }
+    return delivered;
+  }
+
+  private async attempt(delivery: PendingDelivery): Promise<boolean> {
+    delivery.attempts += 1;
+    const { subscription, payload } = delivery;
+    const body = JSON.stringify(payload);
+    const fetchImpl = this.options.fetch ?? fetch;
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.options.timeoutMs ?? 10_000);
+
+    let status: number | null = null;
+    let retryAfterMs: number | null = null;
+    let error: string;
+    try {
+      const response = await fetchImpl(subscription.url, {
+        method: 'POST',
+        headers: {
+          ...subscription.headers,
+          'content-type': 'application/json',
+          [WEBHOOK_SIGNATURE_HEADER]: await signWebhookPayload(subscription.secret, body),
+          'x-oli-delivery': payload.id,
+          'x-oli-event': payload.type
+        },
+        body,
+        signal: controller.signal
+      });
+      status = response.status;
+      if (response.ok) {
+        return true;
+      }
+      retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+      error = `Webhook responded with HTTP ${response.status}`;
+    } catch (cause) {
+      error = cause instanceof Error ? cause.message : String(cause);
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    if (this.stopping || delivery.attempts >= (this.options.maxAttempts ?? 5)) {
+      await this.deadLetter(delivery, status, error);
+      return false;
+    }
+
+    const delay = computeRetryDelay(delivery.attempts - 1, this.options.retryBackoff ?? DEFAULT_RETRY_BACKOFF, retryAfterMs);
+    this.pending.add(delivery);
+    delivery.timer = setTimeout(() => {
+      this.pending.delete(delivery);
+      // Nothing awaits a timer, so failures go to onError instead of becoming unhandled rejections
+      const retry = this.attempt(delivery).then(
+        () => undefined,
+        error => {
+          try {
+            this.options.onError?.(error);
+          } catch {
+            // A throwing onError must not become an unhandled rejection either
+          }
+        }
+      );
+      this.inFlight.add(retry);
+      void retry.then(() => this.inFlight.delete(retry));
+    }, delay);
+    return false;
+  }
+
+  private async deadLetter(delivery: PendingDelivery, status: number | null, error: string): Promise<void> {
+    const entry: WebhookDeadLetter = {
+      payload: delivery.payload,
+      subscriptionId: delivery.subscription.id,
+      attempts: delivery.attempts,
+      status,
+      error,
+      failedAt: Date.now()
+    };
+    await this.deadLetterStore.add(entry);
+    this.options.onDeadLetter?.(entry);
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, data?: unknown): void {
+  res.statusCode = status;
+  if (data === undefined) {
+    res.end();
+    return;
+  }
+  res.setHeader('content-type', 'application/json');
+  res.end(JSON.stringify(data));
+}
+
+function redactSubscription(subscription: WebhookSubscription): Omit<WebhookSubscription, 'secret'> {
+  return Object.fromEntries(Object.entries(subscription).filter(([key]) => key !== 'secret')) as Omit<WebhookSubscription, 'secret'>;
+}
+
+/**
+ * Create an Express/Next.js compatible handler for managing a dispatcher over HTTP:
+ *
+ * - `GET /subscriptions`, `POST /subscriptions`, `DELETE /subscriptions/:id`
+ * - `GET /dead-letters`, `POST /dead-letters/redeliver` (optional `{ ids }` body)
+ *
+ * Secrets are never returned. Every request must pass `authorize`.
+ *
+ * @example
+ * ```ts
+ * app.use('/oli-webhooks', express.json(), createWebhookHandler(dispatcher, {
+ *   authorize: req => req.headers.authorization === `Bearer ${process.env.ADMIN_TOKEN}`
+ * }));
+ * ```
+ */
+export function createWebhookHandler(dispatcher: WebhookDispatcher, options: WebhookHandlerOptions) {
+  if (typeof options?.authorize !== 'function') {
+    throw new Error('createWebhookHandler requires an `authorize` function.');
+  }
+
+  return async function webhookHandler(
+    req: IncomingMessage & { body?: unknown },
+    res: ServerResponse,
+    next?: (error?: unknown) => void
+  ) {
+    try {
+      if (!(await options.authorize(req))) {
+        sendJson(res, 401, { error: 'Unauthorized' });
+        return;
+      }
+
+      const method = req.method ?? 'GET';
+      const path = new URL(req.url ?? '/', 'http://localhost').pathname.replace(/\/+$/, '') || '/';
+      const readBody = async (): Promise<Record<string, unknown>> => {
+        if (req.body !== undefined) {
+          return (typeof req.body === 'string' ? JSON.parse(req.body) : req.body) as Record<string, unknown>;
+        }
+        const text = (await readRequestBody(req)).toString('utf8');
+        return text ? (JSON.parse(text) as Record<string, unknown>) : {};
+      };
+
+      if (path === '/subscriptions' && method === 'GET') {
+        sendJson(res, 200, { subscriptions: dispatcher.listSubscriptions().map(redactSubscription) });
+        return;
+      }
+      if (path === '/subscriptions' && method === 'POST') {
+        let subscription: WebhookSubscription;
+        try {
+          subscription = dispatcher.subscribe((await readBody()) as unknown as WebhookSubscription);
+        } catch (error) {
+          sendJson(res, 400, { error: (error as Error).message });
+          return;
+        }
+        sendJson(res, 201, redactSubscription(subscription));
+        return;
+      }
+      const subscriptionMatch = /^\/subscriptions\/([^/]+)$/.exec(path);
+      if (subscriptionMatch && method === 'DELETE') {
+        const removed = dispatcher.unsubscribe(decodeURIComponent(subscriptionMatch[1]));
+        sendJson(res, removed ? 204 : 404, removed ? undefined : { error: 'Subscription not found' });
+        return;
+      }
+      if (path === '/dead-letters' && method === 'GET') {
+        sendJson(res, 200, { deadLetters: await dispatcher.deadLetters() });
+        return;
+      }
+      if (path === '/dead-letters/redeliver' && method === 'POST') {
+        const { ids } = await readBody();
+        const delivered = await dispatcher.redeliver(Array.isArray(ids) ? ids.map(String) : undefined);
+        sendJson(res, 200, { delivered });
+        return;
+      }
+
+      if (typeof next === 'function') {
+        next();
+        return;
+      }
+      sendJson(res, 404, { error: 'Not found' });
+    } catch (error) {
+      if (typeof next === 'function') {
+        next(error);
+        return;
+      }
+      sendJson(res, 500, { error: (error as Error).message });
+    }
+  };
+}
@@ -0,0 +1,282 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AttestClient, OLIClient } from '../src';
+import type {
+  OnchainAttestationRequest,
+  OnchainRevocationRequest,
+  OnchainWalletAdapter,
+  RestAttestationQueryParams,
+  RestAttestationRecord
+} from '../src';
+
+const PROJECTS = [{ owner_project: 'growthepie' }];
+const OLD_UID = `0x${'1'.repeat(64)}`;
+const NEW_UID = `0x${'2'.repeat(64)}`;
+const ADDRESS = '0x52908400098527886e0f7030069857d2e4169ee7';
+
+function createRecord(overrides: Partial<RestAttestationRecord> = {}): RestAttestationRecord {
+  return {
+    uid: OLD_UID,
+    time: '2025-01-01T00:00:00Z',
+    chain_id: 'eip155:8453',
+    attester: '0x0000000000000000000000000000000000000001',
+    recipient: ADDRESS,
+    revoked: false,
+    is_offchain: false,
+    ipfs_hash: null,
+    schema_info: '8453__0xb763e62d940bed6f527dd82418e146a904e62a297b8fa765c9b3e1f0bc6fdd68',
+    tags_json: { owner_project: 'growthepie', contract_name: 'Router', usage_category: 'dex' },
+    ...overrides
+  };
+}
+
+function createClient(records: RestAttestationRecord[], queries: RestAttestationQueryParams[] = []) {
+  return new AttestClient({
+    api: {
+      async postAttestation() {
+        throw new Error('not used');
+      },
+      async postAttestationsBulk() {
+        throw new Error('not used');
+      },
+      async getAttestations(params) {
+        queries.push(params);
+        return { count: records.length, attestations: records };
+      }
+    }
+  });
+}
+
+function createAdapter(overrides: Partial<OnchainWalletAdapter> = {}): OnchainWalletAdapter {
+  return {
+    name: 'mock-adapter',
+    async getChainId() {
+      return 8453;
+    },
+    async switchNetwork() {
+      return;
+    },
+    async isSponsorshipSupported() {
+      return false;
+    },
+    async attest() {
+      return { status: 'success', txHash: '0xattest', uids: [NEW_UID] };
+    },
+    async multiAttest() {
+      throw new Error('not used');
+    },
+    ...overrides
+  };
+}
+
+test.describe('label corrections', () => {
+  test('prepareCorrection merges the patch into tags_json and references the old UID', async () => {
+    const queries: RestAttestationQueryParams[] = [];
+    const attest = createClient([createRecord()], queries);
+
+    const correction = await attest.prepareCorrection(
+      OLD_UID,
+      { contract_name: 'Router V2', usage_category: null },
+      { projects: PROJECTS }
+    );
+
+    assert.deepEqual(queries, [{ uid: OLD_UID, limit: 1 }]);
+    assert.equal(correction.request.refUID, OLD_UID);
+    assert.equal(correction.address, ADDRESS);
+    assert.equal(correction.chainId, 'eip155:8453');
+    assert.deepEqual(correction.tags, { owner_project: 'growthepie', contract_name: 'Router V2' });
+    assert.equal(correction.supersedes.uid, OLD_UID);
+  });
+
+  test('prepareCorrection converts tags_json to row values like preparedFromOnchain', async () => {
+    const record = createRecord({
+      tags_json: {
+        owner_project: 'growthepie',
+        erc_type: ['erc20', 'erc721'],
+        deployment_date: '2024-01-02 03:04:05',
+        'erc20.decimals': 18,
+        attestation_network: 42161
+      }
+    });
+
+    const correction = await createClient([record]).prepareCorrection(OLD_UID, { contract_name: 'Token' }, { projects: PROJECTS });
+
+    assert.deepEqual(correction.raw, {
+      owner_project: 'growthepie',
+      erc_type: 'erc20,erc721',
+      deployment_date: '2024-01-02T03:04:05',
+      'erc20.decimals': '18',
+      chain_id: 'eip155:8453',
+      address: ADDRESS,
+      contract_name: 'Token'
+    });
+    assert.deepEqual(correction.tags, {
+      owner_project: 'growthepie',
+      erc_type: ['erc20', 'erc721'],
+      deployment_date: '2024-01-02 03:04:05',
+      'erc20.decimals': 18,
+      contract_name: 'Token'
+    });
+  });
+
+  test('prepareCorrection omits refUID for offchain predecessors', async () => {
+    const correction = await createClient([createRecord({ is_offchain: true })]).prepareCorrection(
+      OLD_UID,
+      { contract_name: 'Router V2' },
+      { projects: PROJECTS }
+    );
+
+    assert.equal(correction.request.refUID, `0x${'0'.repeat(64)}`);
+    assert.equal(correction.network.chainId, 8453);
+  });
+
+  test('prepareCorrection attests on the network of the predecessor', async () => {
+    const record = createRecord({ schema_info: '42161__0xschema' });
+    const attest = new AttestClient({
+      defaultAttestationNetwork: 8453,
+      api: {
+        async postAttestation() {
+          throw new Error('not used');
+        },
+        async postAttestationsBulk() {
+          throw new Error('not used');
+        },
+        async getAttestations() {
+          return { count: 1, attestations: [record] };
+        }
+      }
+    });
+
+    const correction = await attest.prepareCorrection(OLD_UID, { contract_name: 'Router V2' }, { projects: PROJECTS });
+    assert.equal(correction.network.chainId, 42161);
+    assert.equal(correction.request.refUID, OLD_UID);
+    await assert.rejects(
+      () => attest.prepareCorrection(OLD_UID, {}, { projects: PROJECTS, attestationNetwork: 8453 }),
+      /must be attested on the same network/
+    );
+  });
+
+  test('prepareCorrection rejects unknown UIDs and clients without an API', async () => {
+    await assert.rejects(() => createClient([]).prepareCorrection(OLD_UID, {}), /was not found/);
+    await assert.rejects(() => createClient([]).prepareCorrection('0x1234', {}), /Invalid attestation UID/);
+    await assert.rejects(() => new AttestClient().prepareCorrection(OLD_UID, {}), /Preparing a correction requires an API client/);
+  });
+
+  test('submitCorrectionOnchain batches attest and revoke when sponsorship is available', async () => {
+    const attest = createClient([createRecord()]);
+    const correction = await attest.prepareCorrection(OLD_UID, { contract_name: 'Router V2' }, { projects: PROJECTS });
+    let batched: [OnchainAttestationRequest, OnchainRevocationRequest] | null = null;
+
+    const result = await attest.submitCorrectionOnchain(
+      correction,
+      createAdapter({
+        async isSponsorshipSupported() {
+          return true;
+        },
+        async sponsoredAttestAndRevoke(attestRequest, revokeRequest) {
+          batched = [attestRequest, revokeRequest];
+          return { status: 'success', txHash: '0xbatch', uids: [NEW_UID, OLD_UID] };
+        }
+      })
+    );
+
+    assert.equal(result.batched, true);
+    assert.equal(result.revocation, undefined);
+    assert.equal(result.attestation.sponsored, true);
+    assert.deepEqual(result.attestation.uids, [NEW_UID]);
+    assert.equal(batched![0].data.refUID, OLD_UID);
+    assert.equal(batched![1].data.uid, OLD_UID);
+  });
+
+  test('submitCorrectionOnchain falls back to separate attest and revoke transactions', async () => {
+    const attest = createClient([createRecord()]);
+    const correction = await attest.prepareCorrection(OLD_UID, { contract_name: 'Router V2' }, { projects: PROJECTS });
+    const revoked: string[] = [];
+
+    const result = await attest.submitCorrectionOnchain(
+      correction,
+      createAdapter({
+        async revoke(request) {
+          revoked.push(request.data.uid);
+          return { status: 'success', txHash: '0xrevoke' };
+        }
+      })
+    );
+
+    assert.equal(result.batched, false);
+    assert.deepEqual(result.attestation.uids, [NEW_UID]);
+    assert.equal(result.revocation?.status, 'success');
+    assert.deepEqual(revoked, [OLD_UID]);
+  });
+
+  test('submitCorrectionOnchain only falls back when the batch was not broadcast', async () => {
+    const attest = createClient([createRecord()]);
+    const correction = await attest.prepareCorrection(OLD_UID, { contract_name: 'Router V2' }, { projects: PROJECTS });
+    let separateAttests = 0;
+    const adapter = (error: Error) =>
+      createAdapter({
+        async isSponsorshipSupported() {
+          return true;
+        },
+        async sponsoredAttestAndRevoke() {
+          throw error;
+        },
+        async attest() {
+          separateAttests += 1;
+          return { status: 'success', txHash: '0xattest', uids: [NEW_UID] };
+        },
+        async revoke() {
+          return { status: 'success', txHash: '0xrevoke' };
+        }
+      });
+
+    const rejected = Object.assign(new Error('User rejected the request.'), { code: 4001 });
+    const fallback = await attest.submitCorrectionOnchain(correction, adapter(rejected));
+    assert.equal(fallback.batched, false);
+    assert.equal(separateAttests, 1);
+
+    await assert.rejects(
+      () => attest.submitCorrectionOnchain(correction, adapter(new Error('Timed out waiting for sendCalls status: 0xcalls'))),
+      /Timed out/
+    );
+    assert.equal(separateAttests, 1);
+  });
+
+  test('submitCorrectionOnchain revokes offchain predecessors and skips revoked ones', async () => {
+    const offchainRevoked: string[][] = [];
+    const adapter = createAdapter({
+      async revoke() {
+        throw new Error('onchain revoke not expected');
+      },
+      async multiRevokeOffchain(uids) {
+        offchainRevoked.push(uids);
+        return { status: 'success', txHash: '0xrevokeoffchain' };
+      }
+    });
+
+    const offchain = createClient([createRecord({ is_offchain: true })]);
+    const offchainResult = await offchain.submitCorrectionOnchain(
+      await offchain.prepareCorrection(OLD_UID, { contract_name: 'Router V2' }, { projects: PROJECTS }),
+      adapter
+    );
+    assert.equal(offchainResult.revocation?.status, 'success');
+    assert.deepEqual(offchainRevoked, [[OLD_UID]]);
+
+    const alreadyRevoked = createClient([createRecord({ revoked: true })]);
+    const revokedResult = await alreadyRevoked.submitCorrectionOnchain(
+      await alreadyRevoked.prepareCorrection(OLD_UID, { contract_name: 'Router V2' }, { projects: PROJECTS }),
+      adapter
+    );
+    assert.equal(revokedResult.revocation, undefined);
+    assert.deepEqual(offchainRevoked, [[OLD_UID]]);
+  });
+
+  test('OLIClient looks up the superseded attestation through its REST client', async () => {
+    const oli = new OLIClient();
+    oli.api.getAttestations = async () => ({ count: 1, attestations: [createRecord()] });
+
+    const correction = await oli.attest.prepareCorrection(OLD_UID, { is_eoa: false }, { projects: PROJECTS });
+    assert.equal(correction.request.refUID, OLD_UID);
+    assert.equal(correction.tags.is_eoa, false);
+  });
+});
@@ -0,0 +1,152 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AttestClient, decodeAttestationData, tagsToRow } from '../src';
+import type { RestAttestationQueryParams, RestAttestationRecord } from '../src';
+import { prepareEncodedData, prepareTags } from '../src/attest/core/payload';
+
+const UID = `0x${'1'.repeat(64)}`;
+const ADDRESS = '0x52908400098527886E0F7030069857D2E4169EE7';
+
+const ROW = {
+  chain_id: 'eip155:8453',
+  address: ADDRESS,
+  contract_name: 'Router',
+  owner_project: 'growthepie',
+  is_contract: true,
+  erc_type: 'erc20, erc721',
+  deployment_date: '2024-01-02T03:04:05',
+  'erc20.decimals': '18',
+  version: 2
+};
+
+function createClient(records: RestAttestationRecord[], queries: RestAttestationQueryParams[] = []) {
+  return new AttestClient({
+    api: {
+      async postAttestation() {
+        throw new Error('not used');
+      },
+      async postAttestationsBulk() {
+        throw new Error('not used');
+      },
+      async getAttestations(params) {
+        queries.push(params);
+        return { count: records.length, attestations: records };
+      }
+    }
+  });
+}
+
+function createRecord(tags: Record<string, unknown>): RestAttestationRecord {
+  return {
+    uid: UID,
+    time: '2025-01-01T00:00:00Z',
+    chain_id: 'eip155:8453',
+    attester: '0x0000000000000000000000000000000000000001',
+    recipient: ADDRESS,
+    revoked: false,
+    is_offchain: false,
+    ipfs_hash: null,
+    schema_info: '8453__0xb763e62d940bed6f527dd82418e146a904e62a297b8fa765c9b3e1f0bc6fdd68',
+    tags_json: tags
+  };
+}
+
+test.describe('decoding attestation data', () => {
+  test('decodeAttestationData reverses prepareEncodedData and prepareTags', () => {
+    const tags = prepareTags(ROW);
+    const decoded = decodeAttestationData(prepareEncodedData(ROW.chain_id, ROW.address, tags));
+
+    assert.deepEqual(decoded, {
+      chain_id: 'eip155:8453',
+      address: ADDRESS,
+      contract_name: 'Router',
+      owner_project: 'growthepie',
+      is_contract: true,
+      erc_type: 'erc20,erc721',
+      deployment_date: '2024-01-02T03:04:05',
+      'erc20.decimals': '18',
+      version: '2'
+    });
+    assert.deepEqual(prepareTags(decoded), tags);
+  });
+
+  test('decodes data produced by prepareSingleAttestation', async () => {
+    const attest = new AttestClient();
+    const prepared = await attest.prepareSingleAttestation(ROW, { validate: false, mode: 'advancedProfile' });
+
+    const decoded = decodeAttestationData(prepared.encodedData);
+
+    assert.equal(decoded.chain_id, prepared.chainId);
+    assert.equal(decoded.address, prepared.address);
+    assert.deepEqual(prepareTags(decoded), prepared.tags);
+  });
+
+  test('tagsToRow round-trips every tag type in the form prepareTags produces', () => {
+    const tags = prepareTags({
+      contract_name: 'Router',
+      is_contract: true,
+      is_proxy: false,
+      'erc20.decimals': 18,
+      version: '3',
+      deployment_date: '2024-01-02T03:04:05',
+      erc_type: 'erc20, erc721',
+      paymaster_category: ['verifying', 'token'],
+      deployment_tx: `0x${'ab'.repeat(32)}`,
+      _comment: 'renamed'
+    });
+    assert.deepEqual(tags, {
+      contract_name: 'Router',
+      is_contract: true,
+      is_proxy: false,
+      'erc20.decimals': 18,
+      version: 3,
+      deployment_date: '2024-01-02 03:04:05',
+      erc_type: ['erc20', 'erc721'],
+      paymaster_category: ['verifying', 'token'],
+      deployment_tx: `0x${'ab'.repeat(32)}`,
+      _comment: 'renamed'
+    });
+
+    assert.deepEqual(prepareTags(tagsToRow(tags)), tags);
+    assert.deepEqual(prepareTags(tagsToRow({ audit: { firm: 'x' } })), { audit: '{"firm":"x"}' });
+  });
+
+  test('tagsToRow serializes nested values and drops empty tags', () => {
+    assert.deepEqual(tagsToRow({ audit: { firm: 'x' }, _comment: null, chain_id: 'eip155:1', erc_type: ['erc1155'] }), {
+      audit: '{"firm":"x"}',
+      erc_type: 'erc1155'
+    });
+  });
+
+  test('rejects data that is not an OLI attestation', () => {
+    assert.throws(() => decodeAttestationData('0x1234'), /ABI-encoded/);
+    assert.throws(() => decodeAttestationData(prepareEncodedData('eip155:1', ADDRESS, {}).replace(/7b7d/, '5b5d')), /invalid tags_json/);
+  });
+
+  test('preparedFromOnchain fetches a UID and returns an editable row', async () => {
+    const queries: RestAttestationQueryParams[] = [];
+    const record = createRecord({ owner_project: 'growthepie', erc_type: ['erc20'], deployment_date: '2024-01-02 03:04:05' });
+    const attest = createClient([record], queries);
+
+    const row = await attest.preparedFromOnchain(UID);
+
+    assert.deepEqual(queries, [{ uid: UID, limit: 1 }]);
+    assert.deepEqual(row, {
+      chain_id: 'eip155:8453',
+      address: ADDRESS,
+      owner_project: 'growthepie',
+      erc_type: 'erc20',
+      deployment_date: '2024-01-02T03:04:05'
+    });
+    assert.deepEqual(await attest.preparedFromOnchain(record), row);
+  });
+
+  test('preparedFromOnchain reports missing attestations and addresses', async () => {
+    await assert.rejects(() => createClient([]).preparedFromOnchain(UID), /was not found/);
+    await assert.rejects(() => new AttestClient().preparedFromOnchain(UID), /Loading an attestation requires an API client/);
+    await assert.rejects(
+      () => createClient([]).preparedFromOnchain({ ...createRecord({}), recipient: null }),
+      /has no chain_id or address/
+    );
+  });
+});
@@ -0,0 +1,147 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AttestClient, OLIClient } from '../src';
+import type { BulkLabelsRequest, LabelItem } from '../src';
+
+const PROJECTS = [{ owner_project: 'growthepie' }];
+const ME = '0x00000000000000000000000000000000000000aa';
+const OTHER = '0x00000000000000000000000000000000000000bb';
+const ADDRESS_A = '0x000000000000000000000000000000000000000a';
+const ADDRESS_B = '0x000000000000000000000000000000000000000b';
+const ADDRESS_C = '0x000000000000000000000000000000000000000c';
+const ADDRESS_D = '0x000000000000000000000000000000000000000d';
+
+function label(tag_id: string, tag_value: string, attester: string, chain_id = 'eip155:1'): LabelItem {
+  return { tag_id, tag_value, chain_id, attester, time: '2025-01-01T00:00:00Z' };
+}
+
+const POOL: Record<string, LabelItem[]> = {
+  [ADDRESS_A]: [label('contract_name', 'Router', ME), label('erc_type', '["erc721","erc20"]', ME)],
+  [ADDRESS_B]: [label('contract_name', 'Router', ME), label('contract_name', 'Router', OTHER, 'eip155:8453')],
+  [ADDRESS_C]: [label('usage_category', 'bridge', OTHER), label('contract_name', 'Vault', OTHER)]
+};
+
+function createClient(requests: BulkLabelsRequest[]) {
+  const oli = new OLIClient();
+  oli.api.getLabelsBulk = async (payload: BulkLabelsRequest) => {
+    requests.push(payload);
+    return { results: payload.addresses.map((address) => ({ address, labels: POOL[address] ?? [] })) };
+  };
+  return oli;
+}
+
+const ROWS = [
+  { chain_id: 'eip155:1', address: ADDRESS_A, contract_name: 'Router', erc_type: 'erc20,erc721' },
+  { chain_id: 'eip155:1', address: ADDRESS_B, contract_name: 'Router V2' },
+  { chain_id: 'eip155:1', address: ADDRESS_C, usage_category: 'dex', contract_name: 'Vault' },
+  { chain_id: 'eip155:1', address: ADDRESS_D, contract_name: 'Token' },
+  { chain_id: 'eip155:1', address: 'not-an-address', contract_name: 'Broken' }
+];
+
+test.describe('existing label checks', () => {
+  test('suggests skip, update, review, or submit for each valid row', async () => {
+    const requests: BulkLabelsRequest[] = [];
+    const oli = createClient(requests);
+
+    const result = await oli.attest.validateBulk(ROWS, {
+      mode: 'advancedProfile',
+      projects: PROJECTS,
+      checkExistingLabels: { attester: ME }
+    });
+
+    assert.deepEqual(requests, [
+      { addresses: [ADDRESS_A, ADDRESS_B, ADDRESS_C, ADDRESS_D], chain_id: 'eip155:1', limit_per_address: 1000 }
+    ]);
+    assert.deepEqual(
+      result.existingLabels!.map((check) => [check.row, check.action]),
+      [[0, 'skip'], [1, 'update'], [2, 'review'], [3, 'submit']]
+    );
+    assert.deepEqual(result.existingLabels![0].unchanged, ['contract_name', 'erc_type']);
+    assert.deepEqual(result.existingLabels![1].overrides.map((entry) => [entry.tagId, entry.existing]), [['contract_name', 'Router']]);
+    assert.deepEqual(result.existingLabels![2].conflicts.map((entry) => [entry.tagId, entry.attester]), [['usage_category', OTHER]]);
+
+    assert.deepEqual(
+      result.diagnostics.warnings
+        .filter((warning) => warning.code.startsWith('LABEL_'))
+        .map((warning) => [warning.code, warning.row, warning.field, warning.suggestion]),
+      [
+        ['LABEL_UNCHANGED', 0, undefined, 'skip'],
+        ['LABEL_CONFLICT', 2, 'usage_category', 'review']
+      ]
+    );
+    assert.deepEqual(
+      result.diagnostics.suggestions.filter((entry) => entry.code === 'LABEL_OVERRIDES_OWN').map((entry) => [entry.row, entry.field]),
+      [[1, 'contract_name']]
+    );
+    assert.deepEqual(result.invalidRows, [4]);
+  });
+
+  test('treats every existing label as another attester when no attester is given', async () => {
+    const oli = createClient([]);
+
+    const result = await oli.attest.validateBulk(ROWS.slice(0, 3), {
+      mode: 'advancedProfile',
+      projects: PROJECTS,
+      checkExistingLabels: true
+    });
+
+    assert.deepEqual(
+      result.existingLabels!.map((check) => [check.action, check.overrides.length, check.conflicts.length]),
+      [['skip', 0, 0], ['review', 0, 1], ['review', 0, 1]]
+    );
+    assert.equal(result.valid, true);
+  });
+
+  test('compares names case-sensitively and value-set tags case-insensitively', async () => {
+    const oli = createClient([]);
+
+    const result = await oli.attest.validateBulk(
+      [
+        { chain_id: 'eip155:1', address: ADDRESS_A, contract_name: 'router' },
+        { chain_id: 'eip155:1', address: ADDRESS_C, usage_category: 'Bridge', contract_name: 'Vault' }
+      ],
+      {
+        mode: 'advancedProfile',
+        projects: PROJECTS,
+        valueSets: { usage_category: ['bridge', 'dex'] },
+        checkExistingLabels: true
+      }
+    );
+
+    assert.deepEqual(result.existingLabels!.map((check) => [check.row, check.action]), [[0, 'review'], [1, 'skip']]);
+    assert.deepEqual(result.existingLabels![0].conflicts.map((entry) => [entry.tagId, entry.existing]), [['contract_name', 'Router']]);
+  });
+
+  test('is opt-in and needs an API client', async () => {
+    const requests: BulkLabelsRequest[] = [];
+    const result = await createClient(requests).attest.validateBulk(ROWS.slice(0, 1), {
+      mode: 'advancedProfile',
+      projects: PROJECTS
+    });
+    assert.equal(result.existingLabels, undefined);
+    assert.equal(requests.length, 0);
+
+    await assert.rejects(
+      () => new AttestClient().validateBulk(ROWS.slice(0, 1), { mode: 'advancedProfile', projects: PROJECTS, checkExistingLabels: true }),
+      /Checking existing labels requires an API client/
+    );
+
+    const withoutLookup = new AttestClient({
+      api: {
+        async postAttestation() {
+          throw new Error('not used');
+        },
+        async postAttestationsBulk() {
+          throw new Error('not used');
+        },
+        async getAttestations() {
+          throw new Error('not used');
+        }
+      }
+    });
+    await assert.rejects(
+      () => withoutLookup.validateBulk(ROWS.slice(0, 1), { mode: 'advancedProfile', projects: PROJECTS, checkExistingLabels: true }),
+      /requires an API client with getLabelsBulk/
+    );
+  });
+});
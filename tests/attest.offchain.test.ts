@@ -0,0 +1,276 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { privateKeyToAccount } from 'viem/accounts';
+import { encodePacked, keccak256, recoverTypedDataAddress, toHex, zeroAddress } from 'viem';
+import { AttestClient, OLIClient, computeOffchainUid, createDynamicWalletAdapter, verifyOffchainAttestation } from '../src';
+import type {
+  AttestationPayload,
+  BulkAttestationRequest,
+  OffchainAttestationTypedData,
+  OnchainWalletAdapter
+} from '../src';
+
+const PROJECTS = [{ owner_project: 'growthepie', display_name: 'Growthepie' }];
+const ACCOUNT = privateKeyToAccount('0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d');
+const SALT = `0x${'11'.repeat(32)}`;
+
+function toViemTypedData(typedData: OffchainAttestationTypedData) {
+  return {
+    domain: {
+      ...typedData.domain,
+      chainId: Number(typedData.domain.chainId),
+      verifyingContract: typedData.domain.verifyingContract as `0x${string}`
+    },
+    types: typedData.types,
+    primaryType: 'Attest' as const,
+    message: {
+      ...typedData.message,
+      time: BigInt(typedData.message.time),
+      expirationTime: BigInt(typedData.message.expirationTime)
+    }
+  };
+}
+
+function createSigningAdapter(calls: { switched: number[] }): OnchainWalletAdapter {
+  return {
+    name: 'local-signer',
+    async getChainId() {
+      return 8453;
+    },
+    async switchNetwork(chainId) {
+      calls.switched.push(chainId);
+    },
+    async attest() {
+      throw new Error('onchain not used');
+    },
+    async multiAttest() {
+      throw new Error('onchain not used');
+    },
+    async getAddress() {
+      return ACCOUNT.address;
+    },
+    async signTypedData(typedData) {
+      return ACCOUNT.signTypedData(toViemTypedData(typedData) as never);
+    }
+  };
+}
+
+async function prepare(attest: AttestClient, address = '0x1234567890123456789012345678901234567890', attestationNetwork?: number) {
+  return attest.prepareSingleAttestation(
+    { chain_id: 'eip155:1', address, owner_project: 'growthepie' },
+    { mode: 'simpleProfile', projects: PROJECTS, attestationNetwork }
+  );
+}
+
+test.describe('offchain attestations', () => {
+  test('prepareOffchainAttestation builds EAS Attest typed data with a deterministic UID', async () => {
+    const attest = new AttestClient();
+    const prepared = await prepare(attest);
+    const offchain = attest.prepareOffchainAttestation(prepared, { time: 1_700_000_000, salt: SALT });
+
+    assert.deepEqual(offchain.typedData.domain, {
+      name: 'EAS Attestation',
+      version: '1.2.0',
+      chainId: '8453',
+      verifyingContract: '0x4200000000000000000000000000000000000021'
+    });
+    assert.equal(offchain.typedData.primaryType, 'Attest');
+    assert.deepEqual(
+      offchain.typedData.types.Attest.map((field) => field.name),
+      ['version', 'schema', 'recipient', 'time', 'expirationTime', 'revocable', 'refUID', 'data', 'salt']
+    );
+    assert.equal(offchain.typedData.message.version, 2);
+    assert.equal(offchain.typedData.message.time, '1700000000');
+    assert.equal(offchain.typedData.message.expirationTime, '0');
+    assert.equal(offchain.typedData.message.data, prepared.encodedData);
+    assert.equal(offchain.typedData.message.salt, SALT);
+
+    assert.match(offchain.uid, /^0x[0-9a-f]{64}$/);
+    assert.equal(offchain.uid, computeOffchainUid(offchain.typedData.message));
+    const again = attest.prepareOffchainAttestation(prepared, { time: 1_700_000_000, salt: SALT });
+    assert.equal(again.uid, offchain.uid);
+    const otherSalt = attest.prepareOffchainAttestation(prepared, { time: 1_700_000_000 });
+    assert.notEqual(otherSalt.uid, offchain.uid);
+    assert.throws(() => attest.prepareOffchainAttestation(prepared, { salt: '0x1234' }), /32-byte hex/);
+  });
+
+  test('uses the legacy offchain format for the EAS 0.26 contract on Arbitrum', async () => {
+    const posted: AttestationPayload[] = [];
+    const attest = new AttestClient({
+      api: {
+        async postAttestation(payload) {
+          posted.push(payload);
+          return { uid: payload.sig.uid, status: 'ok' };
+        },
+        async postAttestationsBulk() {
+          throw new Error('not used');
+        },
+        async getAttestations() {
+          throw new Error('not used');
+        }
+      }
+    });
+    const prepared = await prepare(attest, undefined, 42161);
+    const offchain = attest.prepareOffchainAttestation(prepared, { time: 1_700_000_000, salt: SALT });
+    const { message } = offchain.typedData;
+
+    assert.equal(offchain.typedData.domain.version, '0.26');
+    assert.equal(offchain.typedData.domain.chainId, '42161');
+    assert.deepEqual(
+      offchain.typedData.types.Attest.map((field) => field.name),
+      ['schema', 'recipient', 'time', 'expirationTime', 'revocable', 'refUID', 'data']
+    );
+    assert.equal(message.version, 0);
+    assert.equal('salt' in message, false);
+    const legacyUid = keccak256(
+      encodePacked(
+        ['bytes', 'address', 'address', 'uint64', 'uint64', 'bool', 'bytes32', 'bytes', 'uint32'],
+        [
+          toHex(message.schema),
+          message.recipient as `0x${string}`,
+          zeroAddress,
+          1_700_000_000n,
+          0n,
+          message.revocable,
+          message.refUID as `0x${string}`,
+          message.data as `0x${string}`,
+          0
+        ]
+      )
+    );
+    assert.equal(offchain.uid, legacyUid);
+
+    const v1 = attest.prepareOffchainAttestation(prepared, { time: 1_700_000_000, easVersion: '1.0.1' });
+    assert.equal(v1.typedData.message.version, 1);
+    assert.deepEqual(v1.typedData.types.Attest.map((field) => field.name).slice(0, 2), ['version', 'schema']);
+    assert.equal(v1.typedData.types.Attest.some((field) => field.name === 'salt'), false);
+    assert.notEqual(v1.uid, legacyUid);
+
+    const calls = { switched: [] as number[] };
+    await attest.submitSingleOffchain(prepared, createSigningAdapter(calls), { time: 1_700_000_000 });
+    assert.deepEqual(calls.switched, [42161]);
+    assert.equal(posted[0].sig.version, 0);
+    assert.equal(posted[0].sig.uid, legacyUid);
+    const verification = await verifyOffchainAttestation(posted[0]);
+    assert.deepEqual(verification.mismatches, []);
+  });
+
+  test('submitSingleOffchain signs and posts a payload the signer can be recovered from', async () => {
+    const posted: AttestationPayload[] = [];
+    const submitted: string[] = [];
+    const attest = new AttestClient({
+      api: {
+        async postAttestation(payload) {
+          posted.push(payload);
+          return { uid: payload.sig.uid, status: 'ok' };
+        },
+        async postAttestationsBulk() {
+          throw new Error('not used');
+        },
+        async getAttestations() {
+          throw new Error('not used');
+        }
+      },
+      onSubmitted: (prepared) => {
+        submitted.push(prepared.address);
+      }
+    });
+    const calls = { switched: [] as number[] };
+    const prepared = await prepare(attest);
+
+    const result = await attest.submitSingleOffchain(prepared, createSigningAdapter(calls), { salt: SALT });
+
+    assert.deepEqual(calls.switched, [8453]);
+    assert.equal(posted.length, 1);
+    assert.equal(result.signer, ACCOUNT.address);
+    assert.equal(result.uid, posted[0].sig.uid);
+    assert.equal(posted[0].sig.version, 2);
+    assert.ok([27, 28].includes(posted[0].sig.signature.v));
+    assert.deepEqual(submitted, [prepared.address]);
+
+    const { r, s, v } = posted[0].sig.signature;
+    const signature = `${r}${s.slice(2)}${v.toString(16)}` as `0x${string}`;
+    const recovered = await recoverTypedDataAddress({
+      ...toViemTypedData(posted[0].sig as unknown as OffchainAttestationTypedData),
+      signature
+    } as never);
+    assert.equal(recovered, ACCOUNT.address);
+  });
+
+  test('submitBulkOffchain signs every row and posts one bulk request', async () => {
+    let bulkRequest: BulkAttestationRequest | null = null;
+    const oli = new OLIClient();
+    oli.api.postAttestationsBulk = async (payload: BulkAttestationRequest) => {
+      bulkRequest = payload;
+      return { accepted: 1, duplicates: 1, failed_validation: [] };
+    };
+
+    const rows = [
+      await prepare(oli.attest, '0x1234567890123456789012345678901234567890'),
+      await prepare(oli.attest, '0x52908400098527886e0f7030069857d2e4169ee7')
+    ];
+    const result = await oli.attest.submitBulkOffchain(rows, createSigningAdapter({ switched: [] }), { time: 1_700_000_000 });
+
+    assert.equal(bulkRequest!.attestations.length, 2);
+    assert.equal(result.uids.length, 2);
+    assert.notEqual(result.uids[0], result.uids[1]);
+    assert.deepEqual(result.uids, bulkRequest!.attestations.map((payload) => payload.sig.uid));
+    assert.equal(result.accepted, 1);
+    assert.equal(result.duplicates, 1);
+    assert.ok(bulkRequest!.attestations.every((payload) => payload.sig.message.time === '1700000000'));
+  });
+
+  test('submitBulkOffchain names itself in row errors', async () => {
+    const oli = new OLIClient();
+    const adapter = createSigningAdapter({ switched: [] });
+
+    await assert.rejects(() => oli.attest.submitBulkOffchain([], adapter), /^Error: submitBulkOffchain requires at least one row/);
+    const rows = [await prepare(oli.attest), await prepare(oli.attest, undefined, 42161)];
+    await assert.rejects(
+      () => oli.attest.submitBulkOffchain(rows, adapter),
+      /^Error: submitBulkOffchain does not support mixed attestation networks/
+    );
+  });
+
+  test('rejects adapters without signing support and clients without an API', async () => {
+    const attest = new AttestClient();
+    const prepared = await prepare(attest);
+    const adapter = { ...createSigningAdapter({ switched: [] }), signTypedData: undefined };
+
+    await assert.rejects(
+      () => attest.signOffchainAttestation(attest.prepareOffchainAttestation(prepared), adapter),
+      /does not support offchain signing/
+    );
+    await assert.rejects(
+      () => attest.submitSingleOffchain(prepared, createSigningAdapter({ switched: [] })),
+      /requires an API client/
+    );
+  });
+
+  test('Dynamic adapter signs with eth_signTypedData_v4 when signTypedData is unavailable', async () => {
+    const requests: Array<{ method: string; params?: unknown[] }> = [];
+    const adapter = createDynamicWalletAdapter({
+      address: ACCOUNT.address,
+      async getWalletClient() {
+        return {
+          async request(payload: { method: string; params?: unknown[] }) {
+            requests.push(payload);
+            return `0x${'ab'.repeat(65)}`;
+          }
+        };
+      }
+    });
+    const attest = new AttestClient();
+    const offchain = attest.prepareOffchainAttestation(await prepare(attest), { salt: SALT });
+
+    const signature = await adapter.signTypedData!(offchain.typedData);
+
+    assert.equal(signature, `0x${'ab'.repeat(65)}`);
+    assert.equal(requests[0].method, 'eth_signTypedData_v4');
+    assert.equal(requests[0].params![0], ACCOUNT.address);
+    const json = JSON.parse(requests[0].params![1] as string);
+    assert.equal(json.domain.chainId, 8453);
+    assert.equal(json.types.EIP712Domain.length, 4);
+    assert.equal(json.message.salt, SALT);
+  });
+});
@@ -0,0 +1,314 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { decodeFunctionData, parseTransaction, recoverTypedDataAddress } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { AttestClient, OLIClient, createPrivateKeyWalletAdapter } from '../src';
+import type { AttestationPayload } from '../src';
+import { EAS_ATTEST_ABI } from '../src/attest/transport/easAbi';
+
+const PRIVATE_KEY = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+const ACCOUNT = privateKeyToAccount(PRIVATE_KEY);
+const PROJECTS = [{ owner_project: 'growthepie' }];
+const EAS_ADDRESS = '0x4200000000000000000000000000000000000021';
+const GWEI = BigInt(1_000_000_000);
+const UID = `0x${'1'.repeat(64)}`;
+
+type SentTransaction = ReturnType<typeof parseTransaction> & { hash: string };
+
+interface NodeOptions {
+  /** Broadcasts ignored by the "miner" before one is included */
+  ignoreBroadcasts?: number;
+  /** Reject the first broadcast with "nonce too low" and move the pending nonce forward */
+  nonceTooLowOnce?: boolean;
+  /** Chain ID reported by `eth_chainId` (default: Base) */
+  chainId?: number;
+}
+
+/** Tiny JSON-RPC node on Base (or a fork of it) that mines a transaction as soon as it is broadcast. */
+async function startNode(options: NodeOptions = {}) {
+  const sent: SentTransaction[] = [];
+  const receipts = new Map<string, Record<string, unknown>>();
+  const methods: string[] = [];
+  let pendingNonce = 5;
+  let blockNumber = 100;
+  let ignored = 0;
+  let rejectedNonce = false;
+
+  const handle = async (method: string, params: unknown[]): Promise<unknown> => {
+    switch (method) {
+      case 'eth_chainId':
+        return `0x${(options.chainId ?? 8453).toString(16)}`;
+      case 'eth_getTransactionCount':
+        return `0x${pendingNonce.toString(16)}`;
+      case 'eth_estimateGas':
+        return '0x186a0';
+      case 'eth_getBlockByNumber':
+        return { number: `0x${blockNumber.toString(16)}`, baseFeePerGas: `0x${GWEI.toString(16)}` };
+      case 'eth_maxPriorityFeePerGas':
+        return `0x${(GWEI / BigInt(10)).toString(16)}`;
+      case 'eth_blockNumber':
+        return `0x${blockNumber.toString(16)}`;
+      case 'eth_sendRawTransaction': {
+        if (options.nonceTooLowOnce && !rejectedNonce) {
+          rejectedNonce = true;
+          pendingNonce = 9;
+          throw new Error('nonce too low');
+        }
+        const raw = params[0] as `0x${string}`;
+        const hash = `0x${(sent.length + 1).toString(16).padStart(64, '0')}`;
+        sent.push({ ...parseTransaction(raw), hash });
+        if (ignored < (options.ignoreBroadcasts ?? 0)) {
+          ignored += 1;
+          return hash;
+        }
+        blockNumber += 1;
+        receipts.set(hash, {
+          status: '0x1',
+          transactionHash: hash,
+          blockNumber: `0x${blockNumber.toString(16)}`,
+          logs: [{ address: EAS_ADDRESS, data: UID, topics: [] }]
+        });
+        return hash;
+      }
+      case 'eth_getTransactionReceipt':
+        return receipts.get(params[0] as string) ?? null;
+      default:
+        throw new Error(`Unexpected RPC method ${method}`);
+    }
+  };
+
+  const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => {
+      body += chunk;
+    });
+    req.on('end', async () => {
+      const { id, method, params } = JSON.parse(body) as { id: number; method: string; params: unknown[] };
+      methods.push(method);
+      res.setHeader('Content-Type', 'application/json');
+      try {
+        res.end(JSON.stringify({ jsonrpc: '2.0', id, result: await handle(method, params) }));
+      } catch (error) {
+        res.end(JSON.stringify({ jsonrpc: '2.0', id, error: { code: -32000, message: (error as Error).message } }));
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    sent,
+    methods,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve()))
+  };
+}
+
+async function prepareRows(oli: OLIClient | AttestClient, count: number) {
+  const rows = [];
+  for (let index = 0; index < count; index += 1) {
+    rows.push(
+      await oli.prepareSingleAttestation(
+        { chain_id: 'eip155:1', address: `0x${(index + 1).toString(16).padStart(40, '0')}`, owner_project: 'growthepie' },
+        { mode: 'simpleProfile', projects: PROJECTS }
+      )
+    );
+  }
+  return rows;
+}
+
+test.describe('private key wallet adapter', () => {
+  test('signs an EIP-1559 attest with estimated gas and reads UIDs from the receipt', async () => {
+    const node = await startNode();
+    try {
+      const oli = new OLIClient();
+      const [prepared] = await prepareRows(oli.attest, 1);
+      const adapter = createPrivateKeyWalletAdapter({ privateKey: PRIVATE_KEY, rpcUrl: node.url, pollIntervalMs: 5 });
+
+      const result = await oli.attest.submitSingleOnchain(prepared, adapter);
+
+      assert.equal(result.status, 'success');
+      assert.equal(result.sponsored, false);
+      assert.deepEqual(result.uids, [UID]);
+      assert.equal(node.sent.length, 1);
+      const [tx] = node.sent;
+      assert.equal(result.txHash, tx.hash);
+      assert.equal(tx.type, 'eip1559');
+      assert.equal(tx.chainId, 8453);
+      assert.equal(tx.nonce, 5);
+      assert.equal(tx.gas, BigInt(120_000));
+      assert.equal(tx.maxPriorityFeePerGas, GWEI / BigInt(10));
+      assert.equal(tx.maxFeePerGas, GWEI * BigInt(2) + GWEI / BigInt(10));
+      assert.equal(tx.to?.toLowerCase(), EAS_ADDRESS);
+      assert.equal(decodeFunctionData({ abi: EAS_ATTEST_ABI, data: tx.data! }).functionName, 'attest');
+      assert.equal(node.methods.filter((method) => method === 'eth_getTransactionCount').length, 1);
+    } finally {
+      await node.close();
+    }
+  });
+
+  test('allocates consecutive nonces to concurrent submissions', async () => {
+    const node = await startNode();
+    try {
+      const oli = new OLIClient();
+      const rows = await prepareRows(oli.attest, 3);
+      const adapter = createPrivateKeyWalletAdapter({ privateKey: PRIVATE_KEY, rpcUrl: node.url, pollIntervalMs: 5 });
+
+      await Promise.all(rows.map((row) => oli.attest.submitSingleOnchain(row, adapter)));
+
+      assert.deepEqual(node.sent.map((tx) => tx.nonce).sort(), [5, 6, 7]);
+      assert.equal(node.methods.filter((method) => method === 'eth_getTransactionCount').length, 1);
+    } finally {
+      await node.close();
+    }
+  });
+
+  test('resyncs the nonce once when the node reports it too low', async () => {
+    const node = await startNode({ nonceTooLowOnce: true });
+    try {
+      const oli = new OLIClient();
+      const [prepared] = await prepareRows(oli.attest, 1);
+      const adapter = createPrivateKeyWalletAdapter({ privateKey: PRIVATE_KEY, rpcUrl: node.url, pollIntervalMs: 5 });
+
+      const result = await oli.attest.submitSingleOnchain(prepared, adapter);
+
+      assert.equal(result.status, 'success');
+      assert.deepEqual(node.sent.map((tx) => tx.nonce), [9]);
+    } finally {
+      await node.close();
+    }
+  });
+
+  test('resends a stuck transaction with the same nonce and bumped fees', async () => {
+    const node = await startNode({ ignoreBroadcasts: 1 });
+    try {
+      const oli = new OLIClient();
+      const [prepared] = await prepareRows(oli.attest, 1);
+      const adapter = createPrivateKeyWalletAdapter({
+        privateKey: PRIVATE_KEY,
+        rpcUrl: node.url,
+        pollIntervalMs: 5,
+        feeBumpAfterMs: 20
+      });
+
+      const result = await oli.attest.submitSingleOnchain(prepared, adapter);
+
+      assert.equal(result.status, 'success');
+      assert.equal(node.sent.length, 2);
+      const [original, replacement] = node.sent;
+      assert.equal(result.txHash, replacement.hash);
+      assert.equal(replacement.nonce, original.nonce);
+      assert.equal(replacement.maxFeePerGas, (original.maxFeePerGas! * BigInt(1125) + BigInt(999)) / BigInt(1000));
+      assert.ok(replacement.maxPriorityFeePerGas! > original.maxPriorityFeePerGas!);
+    } finally {
+      await node.close();
+    }
+  });
+
+  test('returns submitted instead of throwing when no receipt arrives before the timeout', async () => {
+    const node = await startNode({ ignoreBroadcasts: 10 });
+    try {
+      const oli = new OLIClient();
+      const [prepared] = await prepareRows(oli.attest, 1);
+      const adapter = createPrivateKeyWalletAdapter({
+        privateKey: PRIVATE_KEY,
+        rpcUrl: node.url,
+        pollIntervalMs: 5,
+        feeBumpAfterMs: 10,
+        maxFeeBumps: 1,
+        timeoutMs: 100
+      });
+
+      const result = await oli.attest.submitSingleOnchain(prepared, adapter);
+
+      assert.equal(result.status, 'submitted');
+      assert.equal(node.sent.length, 2);
+      assert.equal(result.txHash, node.sent[1].hash);
+    } finally {
+      await node.close();
+    }
+  });
+
+  test('rejects malformed keys and endpoints on another chain', async () => {
+    assert.throws(() => createPrivateKeyWalletAdapter({ privateKey: '0x1234', rpcUrl: 'http://localhost' }), /32-byte hex/);
+
+    const node = await startNode();
+    try {
+      const adapter = createPrivateKeyWalletAdapter({ privateKey: PRIVATE_KEY, rpcUrl: { 42161: node.url } });
+      await assert.rejects(() => adapter.switchNetwork(42161), /connected to chain 8453/);
+      await assert.rejects(() => adapter.switchNetwork(8453), /No rpcUrl configured for chain 8453/);
+    } finally {
+      await node.close();
+    }
+  });
+
+  test('attests against a local fork mapped with forkChainIds', async () => {
+    const node = await startNode({ chainId: 31337 });
+    try {
+      const oli = new OLIClient();
+      const [prepared] = await prepareRows(oli.attest, 1);
+
+      const unmapped = createPrivateKeyWalletAdapter({ privateKey: PRIVATE_KEY, rpcUrl: node.url });
+      await assert.rejects(() => unmapped.switchNetwork(8453), /connected to chain 31337/);
+      await assert.rejects(() => unmapped.switchNetwork(31337), /forkChainIds, e\.g\. \{ 8453: 31337 \}/);
+
+      const adapter = createPrivateKeyWalletAdapter({
+        privateKey: PRIVATE_KEY,
+        rpcUrl: node.url,
+        forkChainIds: { 8453: 31337 },
+        pollIntervalMs: 5
+      });
+      const result = await oli.attest.submitSingleOnchain(prepared, adapter);
+
+      assert.equal(result.status, 'success');
+      assert.equal(await adapter.getChainId(), 8453);
+      assert.equal(node.sent.length, 1);
+      assert.equal(node.sent[0].chainId, 31337);
+      assert.equal(node.sent[0].to?.toLowerCase(), EAS_ADDRESS);
+    } finally {
+      await node.close();
+    }
+  });
+
+  test('signs offchain attestations for the REST path', async () => {
+    const node = await startNode();
+    try {
+      const posted: AttestationPayload[] = [];
+      const attest = new AttestClient({
+        api: {
+          async postAttestation(payload) {
+            posted.push(payload);
+            return { uid: payload.sig.uid, status: 'ok' };
+          },
+          async postAttestationsBulk() {
+            throw new Error('not used');
+          },
+          async getAttestations() {
+            throw new Error('not used');
+          }
+        }
+      });
+      const [prepared] = await prepareRows(attest, 1);
+      const adapter = createPrivateKeyWalletAdapter({ privateKey: PRIVATE_KEY, rpcUrl: node.url });
+
+      const result = await attest.submitSingleOffchain(prepared, adapter);
+
+      assert.equal(result.signer, ACCOUNT.address);
+      assert.equal(node.sent.length, 0);
+      const { sig } = posted[0];
+      const signature = `${sig.signature.r}${sig.signature.s.slice(2)}${sig.signature.v.toString(16)}` as `0x${string}`;
+      const recovered = await recoverTypedDataAddress({
+        domain: { ...sig.domain, chainId: Number(sig.domain.chainId), verifyingContract: sig.domain.verifyingContract as `0x${string}` },
+        types: sig.types,
+        primaryType: 'Attest',
+        message: { ...sig.message, time: BigInt(sig.message.time), expirationTime: BigInt(sig.message.expirationTime) },
+        signature
+      } as never);
+      assert.equal(recovered, ACCOUNT.address);
+    } finally {
+      await node.close();
+    }
+  });
+});
@@ -0,0 +1,138 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { decodeFunctionData } from 'viem';
+import { OLIClient, createEip1193WalletAdapter } from '../src';
+import type { OnchainWalletAdapter } from '../src';
+import { EAS_ATTEST_ABI } from '../src/attest/transport/easAbi';
+
+const PROJECTS = [{ owner_project: 'growthepie' }];
+const EAS_ADDRESS = '0x4200000000000000000000000000000000000021';
+const ACCOUNT = '0x00000000000000000000000000000000000000aa';
+const PAYMASTER_URL = 'https://paymaster.example/rpc';
+
+type RpcCall = { method: string; params?: unknown[] };
+
+function createProvider(options: { sponsorship?: boolean; callError?: unknown } = {}) {
+  const calls: RpcCall[] = [];
+  let chainId = '0x1';
+  const provider = {
+    async request({ method, params }: RpcCall): Promise<unknown> {
+      calls.push({ method, params });
+      switch (method) {
+        case 'eth_chainId':
+          return chainId;
+        case 'wallet_switchEthereumChain':
+          chainId = (params![0] as { chainId: string }).chainId;
+          return null;
+        case 'eth_accounts':
+          return [ACCOUNT];
+        case 'wallet_getCapabilities':
+          if (!options.sponsorship) throw new Error('Method not supported');
+          return { '0x2105': { paymasterService: { supported: true } } };
+        case 'eth_call':
+          if (options.callError) throw options.callError;
+          return `0x${'1'.repeat(64)}`;
+        case 'eth_estimateGas':
+          return '0x30d40';
+        case 'eth_gasPrice':
+          return '0x3b9aca00';
+        default:
+          throw new Error(`Unexpected RPC method ${method}`);
+      }
+    }
+  };
+  return { provider, calls };
+}
+
+async function prepareRows(oli: OLIClient, count: number) {
+  const rows = [];
+  for (let index = 0; index < count; index += 1) {
+    rows.push(
+      await oli.attest.prepareSingleAttestation(
+        { chain_id: 'eip155:1', address: `0x${(index + 1).toString(16).padStart(40, '0')}`, owner_project: 'growthepie' },
+        { mode: 'simpleProfile', projects: PROJECTS }
+      )
+    );
+  }
+  return rows;
+}
+
+test.describe('simulate', () => {
+  test('estimates gas and cost for a single attest without broadcasting', async () => {
+    const oli = new OLIClient();
+    const { provider, calls } = createProvider();
+    const [prepared] = await prepareRows(oli, 1);
+
+    const result = await oli.attest.simulate(prepared, createEip1193WalletAdapter(provider));
+
+    assert.equal(result.success, true);
+    assert.equal(result.functionName, 'attest');
+    assert.equal(result.to, EAS_ADDRESS);
+    assert.equal(result.from, ACCOUNT);
+    assert.equal(result.sponsored, false);
+    assert.equal(result.gasEstimate, BigInt(200_000));
+    assert.equal(result.gasPrice, BigInt(1_000_000_000));
+    assert.equal(result.estimatedCost, BigInt(200_000) * BigInt(1_000_000_000));
+    assert.equal(result.calldataSize, (result.calldata.length - 2) / 2);
+    assert.equal(result.network.chainId, 8453);
+
+    const decoded = decodeFunctionData({ abi: EAS_ATTEST_ABI, data: result.calldata as `0x${string}` });
+    assert.equal(decoded.functionName, 'attest');
+    const ethCall = calls.find((call) => call.method === 'eth_call')!;
+    assert.deepEqual(ethCall.params, [{ from: ACCOUNT, to: EAS_ADDRESS, data: result.calldata, value: '0x0' }, 'latest']);
+    assert.deepEqual(calls.find((call) => call.method === 'wallet_switchEthereumChain')?.params, [{ chainId: '0x2105' }]);
+    assert.ok(!calls.some((call) => call.method === 'eth_sendTransaction' || call.method === 'wallet_sendCalls'));
+  });
+
+  test('simulates an array as multiAttest and reports sponsorship', async () => {
+    const oli = new OLIClient();
+    const { provider } = createProvider({ sponsorship: true });
+    const rows = await prepareRows(oli, 3);
+
+    const result = await oli.attest.simulate(rows, createEip1193WalletAdapter(provider, { paymasterUrl: PAYMASTER_URL }));
+
+    assert.equal(result.functionName, 'multiAttest');
+    assert.equal(result.sponsored, true);
+    const decoded = decodeFunctionData({ abi: EAS_ATTEST_ABI, data: result.calldata as `0x${string}` });
+    assert.equal(decoded.functionName, 'multiAttest');
+    assert.equal((decoded.args[0] as Array<{ data: unknown[] }>)[0].data.length, 3);
+  });
+
+  test('reports reverts instead of throwing and skips the gas estimate', async () => {
+    const oli = new OLIClient();
+    const { provider, calls } = createProvider({ callError: Object.assign(new Error('execution reverted: InvalidSchema'), { code: 3 }) });
+    const [prepared] = await prepareRows(oli, 1);
+
+    const result = await oli.attest.simulate(prepared, createEip1193WalletAdapter(provider));
+
+    assert.equal(result.success, false);
+    assert.equal(result.revertReason, 'execution reverted: InvalidSchema');
+    assert.equal(result.gasEstimate, undefined);
+    assert.equal(result.estimatedCost, undefined);
+    assert.ok(!calls.some((call) => call.method === 'eth_estimateGas'));
+  });
+
+  test('rethrows transport failures and rejects adapters without RPC access', async () => {
+    const oli = new OLIClient();
+    const [prepared] = await prepareRows(oli, 1);
+    const { provider } = createProvider({ callError: new Error('fetch failed') });
+
+    await assert.rejects(() => oli.attest.simulate(prepared, createEip1193WalletAdapter(provider)), /fetch failed/);
+
+    const minimal: OnchainWalletAdapter = {
+      name: 'minimal',
+      async getChainId() {
+        return 8453;
+      },
+      async switchNetwork() {},
+      async attest() {
+        throw new Error('not used');
+      },
+      async multiAttest() {
+        throw new Error('not used');
+      }
+    };
+    await assert.rejects(() => oli.attest.simulate(prepared, minimal), /minimal does not support simulation/);
+    await assert.rejects(() => oli.attest.simulate([], minimal), /at least one attestation/);
+  });
+});
@@ -0,0 +1,196 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AttestClient, OLIClient, buildTagZodSchema, parseTagDefinitionsYaml, validateTagValue, validateTagValues } from '../src';
+
+const TAG_DEFINITIONS = parseTagDefinitionsYaml(`
+tags:
+  - tag_id: contract_name
+    name: Contract Name
+    description: The name of the contract.
+    schema:
+      type: string
+      maxLength: 10
+  - tag_id: is_eoa
+    name: Is EOA
+    description: Whether the address is an externally owned account.
+    schema:
+      type: boolean
+  - tag_id: erc20.decimals
+    name: ERC20 Decimals
+    description: Token decimals.
+    schema:
+      type: integer
+      minimum: 0
+      maximum: 36
+  - tag_id: deployment_tx
+    name: Deployment Transaction
+    description: Hash of the deployment transaction.
+    schema:
+      type: string
+      pattern: "^0x[a-fA-F0-9]{64}$"
+  - tag_id: erc_type
+    name: ERC Type
+    description: ERC standards implemented by the contract.
+    schema:
+      type: array
+      items:
+        type: string
+        enum: [erc20, erc721]
+      minItems: 1
+  - tag_id: usage_category
+    name: Usage Category
+    description: Category of the contract.
+    schema:
+      type: string
+`);
+
+const PROJECTS = [{ owner_project: 'growthepie' }];
+const ADDRESS = '0x52908400098527886e0f7030069857d2e4169ee7';
+
+test.describe('tag value validation', () => {
+  test('accepts values matching their schemas', () => {
+    const issues = validateTagValues(
+      {
+        contract_name: 'Router',
+        is_eoa: false,
+        'erc20.decimals': 18,
+        deployment_tx: `0x${'a'.repeat(64)}`,
+        erc_type: ['erc20']
+      },
+      TAG_DEFINITIONS
+    );
+    assert.deepEqual(issues, []);
+  });
+
+  test('reports types, patterns, bounds, array items, and unknown tag ids', () => {
+    const issues = validateTagValues(
+      {
+        contract_name: 'A very long contract name',
+        is_eoa: 'yes',
+        'erc20.decimals': 40,
+        deployment_tx: '0x1234',
+        erc_type: ['erc20', 'erc9999'],
+        not_a_tag: 'x'
+      },
+      TAG_DEFINITIONS
+    );
+
+    assert.deepEqual(
+      issues.map(issue => [issue.tagId, issue.keyword, issue.path]),
+      [
+        ['contract_name', 'maxLength', ''],
+        ['is_eoa', 'type', ''],
+        ['erc20.decimals', 'maximum', ''],
+        ['deployment_tx', 'pattern', ''],
+        ['erc_type', 'enum', '[1]'],
+        ['not_a_tag', 'unknown_tag', '']
+      ]
+    );
+    assert.match(issues[1].message, /is_eoa: expected boolean, got string/);
+  });
+
+  test('checks value sets case-insensitively and coerces form strings on request', () => {
+    const valueSets = { usage_category: ['dex', 'bridge'], erc_type: ['erc20', 'erc721'] };
+    assert.deepEqual(validateTagValue('usage_category', 'DEX', TAG_DEFINITIONS, { valueSets }), []);
+    assert.equal(validateTagValue('usage_category', 'lending', TAG_DEFINITIONS, { valueSets })[0].keyword, 'enum');
+    assert.equal(validateTagValue('erc_type', [], TAG_DEFINITIONS, { valueSets })[0].keyword, 'minItems');
+
+    assert.equal(validateTagValue('erc20.decimals', '18', TAG_DEFINITIONS)[0].keyword, 'type');
+    assert.deepEqual(validateTagValue('erc20.decimals', '18', TAG_DEFINITIONS, { coerceStrings: true }), []);
+    assert.deepEqual(validateTagValue('is_eoa', 'true', TAG_DEFINITIONS, { coerceStrings: true }), []);
+    assert.deepEqual(validateTagValue('erc_type', 'erc20, erc721', TAG_DEFINITIONS, { coerceStrings: true }), []);
+    assert.equal(validateTagValue('erc20.decimals', '1.5', TAG_DEFINITIONS, { coerceStrings: true })[0].keyword, 'type');
+  });
+
+  test('agrees with the generated zod schemas on inferred types, unicode patterns, and value sets', () => {
+    const definitions = parseTagDefinitionsYaml(`
+tags:
+  - tag_id: labels
+    name: Labels
+    schema:
+      items:
+        type: string
+  - tag_id: display_name
+    name: Display Name
+    schema:
+      type: string
+      pattern: "^\\\\p{Lu}"
+`);
+    const valueSets = { labels: ['dex'] };
+    const { tags } = buildTagZodSchema(definitions, { valueSets });
+    const cases: Array<[string, unknown]> = [
+      ['labels', ['DEX']],
+      ['labels', ['bridge']],
+      ['labels', 'dex'],
+      ['display_name', 'Émile'],
+      ['display_name', 'émile']
+    ];
+
+    for (const [tagId, value] of cases) {
+      const valid = validateTagValue(tagId, value, definitions, { valueSets }).length === 0;
+      assert.equal(tags[tagId].safeParse(value).success, valid, `${tagId} ${JSON.stringify(value)}`);
+    }
+    assert.equal(validateTagValue('labels', 'dex', definitions, { valueSets })[0].keyword, 'type');
+    assert.deepEqual(validateTagValue('display_name', 'Émile', definitions), []);
+  });
+
+  test('validateSingle emits diagnostics for schema violations', async () => {
+    const attest = new AttestClient();
+    const result = await attest.validateSingle(
+      {
+        chain_id: 'eip155:1',
+        address: ADDRESS,
+        'erc20.decimals': '99',
+        erc_type: 'erc20,erc9999',
+        _comment: 'seen on explorer'
+      },
+      { mode: 'advancedProfile', projects: PROJECTS, tagDefinitions: TAG_DEFINITIONS }
+    );
+
+    assert.equal(result.valid, false);
+    assert.deepEqual(
+      result.diagnostics.errors.map(error => [error.code, error.field, error.metadata?.keyword]),
+      [
+        ['TAG_VALUE_INVALID', 'erc20.decimals', 'maximum'],
+        ['TAG_VALUE_INVALID', 'erc_type', 'enum']
+      ]
+    );
+    assert.deepEqual(
+      result.diagnostics.warnings.filter(warning => warning.code === 'TAG_UNKNOWN').map(warning => warning.field),
+      ['_comment']
+    );
+  });
+
+  test('does not repeat errors already reported by field validators', async () => {
+    const attest = new AttestClient();
+    const result = await attest.validateBulk(
+      [{ chain_id: 'eip155:1', address: ADDRESS, deployment_tx: '0x1234', contract_name: 'Router' }],
+      { mode: 'advancedProfile', projects: PROJECTS, tagDefinitions: TAG_DEFINITIONS }
+    );
+
+    assert.deepEqual(
+      result.diagnostics.errors.map(error => [error.code, error.row]),
+      [['TX_HASH_INVALID', 0]]
+    );
+  });
+
+  test('OLIClient validates against the loaded tag definitions', async () => {
+    const oli = new OLIClient();
+    oli.tagDefinitions = TAG_DEFINITIONS;
+    oli.valueSets = { usage_category: ['dex'] };
+
+    const result = await oli.attest.validateSingle(
+      { chain_id: 'eip155:1', address: ADDRESS, is_eoa: 'maybe' },
+      { mode: 'advancedProfile', projects: PROJECTS }
+    );
+    assert.ok(result.diagnostics.errors.some(error => error.code === 'BOOLEAN_INVALID' && error.field === 'is_eoa'));
+    assert.ok(!result.diagnostics.errors.some(error => error.code === 'TAG_VALUE_INVALID'));
+
+    assert.equal(oli.fetcher.isValidValue('contract_name', 'x'.repeat(20)), false);
+    assert.equal(oli.fetcher.isValidValue('usage_category', 'DEX'), true);
+    assert.deepEqual(
+      oli.fetcher.validateTags({ contract_name: 'Router', usage_category: 'nft' }).map(issue => issue.keyword),
+      ['enum']
+    );
+  });
+});
@@ -1,9 +1,49 @@
 import { test } from 'node:test';
 import assert from 'node:assert/strict';
-import { OLIClient, AttestValidationError } from '../src';
-import type { OnchainAttestationRequest, OnchainSubmitContext, OnchainTxResult, OnchainWalletAdapter } from '../src/attest';
+import { OLIClient, AttestValidationError, createDynamicWalletAdapter } from '../src';
+import type {
+  BulkSubmitCheckpoint,
+  BulkSubmitProgress,
+  OnchainAttestationRequest,
+  OnchainRevocationRequest,
+  OnchainSubmitContext,
+  OnchainTxResult,
+  OnchainWalletAdapter
+} from '../src/attest';
 
 const PROJECTS = [{ owner_project: 'growthepie', display_name: 'Growthepie' }];
+const UID_1 = `0x${'1'.repeat(64)}`;
+const UID_2 = `0x${'2'.repeat(64)}`;
+const OLI_SCHEMA_UID = '0xcff83309b59685fdae9dad7c63d969150676d51d8eeda66799d1c4898b84556a';
+
+async function prepareRows(oli: OLIClient, count: number) {
+  const rows = [];
+  for (let index = 0; index < count; index += 1) {
+    rows.push(
+      await oli.attest.prepareSingleAttestation(
+        { chain_id: 'eip155:1', address: `0x${(index + 1).toString(16).padStart(40, '0')}`, owner_project: 'growthepie' },
+        { mode: 'simpleProfile', projects: PROJECTS }
+      )
+    );
+  }
+  return rows;
+}
+
+function createBatchAdapter(sent: OnchainAttestationRequest[][], failAt?: number): OnchainWalletAdapter {
+  return createMockAdapter({
+    async multiAttest(requests) {
+      if (sent.length === failAt) {
+        throw new Error('User rejected the request.');
+      }
+      sent.push(requests);
+      return {
+        status: 'success',
+        txHash: `0xtx${sent.length}`,
+        uids: requests.map((request) => `0xuid_${request.prepared.address.slice(-2)}`)
+      };
+    }
+  });
+}
 
 function createMockAdapter(overrides: Partial<OnchainWalletAdapter> = {}): OnchainWalletAdapter {
   const base: OnchainWalletAdapter = {
@@ -67,7 +107,7 @@ test.describe('attest transport boundaries', () => {
       },
       async sponsoredAttest() {
         sponsoredCalled = true;
-        throw new Error('sponsored unavailable');
+        throw new Error('Paymaster unavailable');
       },
       async attest() {
         regularCalled = true;
@@ -90,6 +130,34 @@ test.describe('attest transport boundaries', () => {
     assert.equal(result.status, 'success');
   });
 
+  test('single submit invalidates cached labels when enabled', async () => {
+    const address = '0x1234567890123456789012345678901234567890';
+    let calls = 0;
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = (async () => {
+      calls += 1;
+      return new Response(JSON.stringify({ address, count: 0, labels: [] }));
+    }) as typeof fetch;
+
+    try {
+      const oli = new OLIClient({
+        api: { apiKey: 'key', enableCache: true, cacheTtl: 60_000, invalidateLabelsOnSubmit: true }
+      });
+      await oli.api.getLabels({ address });
+
+      const prepared = await oli.attest.prepareSingleAttestation(
+        { chain_id: 'eip155:1', address, owner_project: 'growthepie' },
+        { mode: 'simpleProfile', projects: PROJECTS }
+      );
+      await oli.attest.submitSingleOnchain(prepared, createMockAdapter());
+
+      await oli.api.getLabels({ address });
+      assert.equal(calls, 2);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
   test('bulk submit normalizes row-level results', async () => {
     const oli = new OLIClient();
 
@@ -150,4 +218,310 @@ test.describe('attest transport boundaries', () => {
       }
     );
   });
+
+  test('revokeOnchain revokes one UID with sponsored fallback to regular', async () => {
+    const oli = new OLIClient();
+    let revoked: OnchainRevocationRequest | null = null;
+    let switchedTo: number | null = null;
+
+    const adapter = createMockAdapter({
+      async switchNetwork(chainId) {
+        switchedTo = chainId;
+      },
+      async isSponsorshipSupported() {
+        return true;
+      },
+      async sponsoredRevoke() {
+        throw new Error('Paymaster unavailable');
+      },
+      async revoke(request) {
+        revoked = request;
+        return { status: 'success', txHash: '0xrevoke' };
+      }
+    });
+
+    const result = await oli.attest.revokeOnchain(UID_1, adapter, { attestationNetwork: 42161 });
+
+    assert.equal(switchedTo, 42161);
+    assert.deepEqual(revoked, { schemaUID: OLI_SCHEMA_UID, data: { uid: UID_1, value: BigInt(0) } });
+    assert.equal(result.status, 'success');
+    assert.equal(result.txHash, '0xrevoke');
+    assert.equal(result.sponsored, false);
+    assert.deepEqual(result.uids, [UID_1]);
+    assert.equal(result.network.name, 'Arbitrum One');
+  });
+
+  test('revokeOnchain uses sponsored multiRevoke for several UIDs', async () => {
+    const oli = new OLIClient();
+    let sponsoredRequests: OnchainRevocationRequest[] = [];
+
+    const adapter = createMockAdapter({
+      async isSponsorshipSupported() {
+        return true;
+      },
+      async multiRevoke() {
+        throw new Error('regular path should not run');
+      },
+      async sponsoredMultiRevoke(requests) {
+        sponsoredRequests = requests;
+        return { status: 'success', txHash: '0xsponsored' };
+      }
+    });
+
+    const result = await oli.attest.revokeOnchain([UID_1, UID_2], adapter);
+
+    assert.equal(result.sponsored, true);
+    assert.equal(result.network.chainId, 8453);
+    assert.deepEqual(sponsoredRequests.map((request) => request.data.uid), [UID_1, UID_2]);
+    assert.deepEqual(result.uids, [UID_1, UID_2]);
+  });
+
+  test('revokeOffchain records offchain UIDs with multiRevokeOffchain', async () => {
+    const oli = new OLIClient();
+    let recorded: string[] = [];
+
+    const result = await oli.attest.revokeOffchain(
+      [UID_1],
+      createMockAdapter({
+        async multiRevokeOffchain(uids) {
+          recorded = uids;
+          return { status: 'success', txHash: '0xoffchain' };
+        }
+      })
+    );
+
+    assert.deepEqual(recorded, [UID_1]);
+    assert.equal(result.txHash, '0xoffchain');
+    assert.deepEqual(result.uids, [UID_1]);
+  });
+
+  test('revocation rejects invalid UIDs and adapters without revoke support', async () => {
+    const oli = new OLIClient();
+
+    const revokingAdapter = createMockAdapter({
+      async revoke() {
+        return { status: 'success' };
+      }
+    });
+
+    await assert.rejects(() => oli.attest.revokeOnchain('0x1234', revokingAdapter), /Invalid attestation UID/);
+    await assert.rejects(() => oli.attest.revokeOnchain(UID_1, createMockAdapter()), /does not support revoke/);
+    await assert.rejects(() => oli.attest.revokeOnchain([UID_1, UID_2], createMockAdapter()), /does not support multiRevoke/);
+    await assert.rejects(() => oli.attest.revokeOffchain(UID_1, createMockAdapter()), /does not support multiRevokeOffchain/);
+  });
+
+  test('Dynamic adapter encodes revoke calls against the EAS contract', async () => {
+    const writes: Array<Record<string, unknown>> = [];
+    const adapter = createDynamicWalletAdapter({
+      async switchNetwork() {
+        return;
+      },
+      async getWalletClient() {
+        return {
+          async writeContract(params: Record<string, unknown>) {
+            writes.push(params);
+            return '0xtx';
+          },
+          async waitForTransactionReceipt() {
+            return { status: 'success', logs: [] };
+          }
+        } as never;
+      }
+    });
+
+    const oli = new OLIClient();
+    const result = await oli.attest.revokeOnchain([UID_1, UID_2], adapter);
+    await oli.attest.revokeOffchain(UID_1, adapter);
+
+    assert.equal(result.status, 'success');
+    assert.equal(writes[0].functionName, 'multiRevoke');
+    assert.equal(writes[0].address, '0x4200000000000000000000000000000000000021');
+    assert.deepEqual(writes[0].args, [
+      [
+        {
+          schema: OLI_SCHEMA_UID,
+          data: [
+            { uid: UID_1, value: BigInt(0) },
+            { uid: UID_2, value: BigInt(0) }
+          ]
+        }
+      ]
+    ]);
+    assert.equal(writes[1].functionName, 'multiRevokeOffchain');
+    assert.deepEqual(writes[1].args, [[UID_1]]);
+  });
+
+  test('chunked bulk submit sends sequential batches with progress and checkpoints', async () => {
+    const oli = new OLIClient();
+    const rows = await prepareRows(oli, 5);
+    const sent: OnchainAttestationRequest[][] = [];
+    const progress: BulkSubmitProgress[] = [];
+    const checkpoints: BulkSubmitCheckpoint[] = [];
+
+    const result = await oli.attest.submitBulkOnchain(rows, createBatchAdapter(sent), {
+      chunkSize: 2,
+      onProgress: (event) => {
+        progress.push(event);
+      },
+      onCheckpoint: (checkpoint) => {
+        checkpoints.push(JSON.parse(JSON.stringify(checkpoint)));
+      }
+    });
+
+    assert.deepEqual(sent.map((batch) => batch.length), [2, 2, 1]);
+    assert.equal(result.status, 'success');
+    assert.equal(result.resumedBatches, 0);
+    assert.deepEqual(result.uids, ['0xuid_01', '0xuid_02', '0xuid_03', '0xuid_04', '0xuid_05']);
+    assert.deepEqual(
+      result.results.map((entry) => [entry.row, entry.batch, entry.txHash]),
+      [[0, 0, '0xtx1'], [1, 0, '0xtx1'], [2, 1, '0xtx2'], [3, 1, '0xtx2'], [4, 2, '0xtx3']]
+    );
+    assert.deepEqual(progress.map((event) => [event.batch, event.completedRows, event.totalBatches]), [[0, 2, 3], [1, 4, 3], [2, 5, 3]]);
+    assert.deepEqual(checkpoints.map((checkpoint) => checkpoint.batches.map((batch) => batch.status)), [
+      ['pending'],
+      ['success'],
+      ['success', 'pending'],
+      ['success', 'success'],
+      ['success', 'success', 'pending'],
+      ['success', 'success', 'success']
+    ]);
+    assert.deepEqual(result.checkpoint, checkpoints[checkpoints.length - 1]);
+  });
+
+  test('chunked bulk submit accepts more than 50 rows', async () => {
+    const oli = new OLIClient();
+    const [row] = await prepareRows(oli, 1);
+    const rows = Array.from({ length: 51 }, () => row);
+    const sent: OnchainAttestationRequest[][] = [];
+
+    await assert.rejects(() => oli.attest.submitBulkOnchain(rows, createBatchAdapter(sent)), /up to 50 attestations/);
+    const result = await oli.attest.submitBulkOnchain(rows, createBatchAdapter(sent), { chunkSize: 50 });
+
+    assert.deepEqual(sent.map((batch) => batch.length), [50, 1]);
+    assert.equal(result.results.length, 51);
+    await assert.rejects(() => oli.attest.submitBulkOnchain(rows, createBatchAdapter(sent), { chunkSize: 51 }), /chunkSize/);
+  });
+
+  test('chunked bulk submit resumes from the checkpoint without resending confirmed batches', async () => {
+    const oli = new OLIClient();
+    const rows = await prepareRows(oli, 5);
+    const sent: OnchainAttestationRequest[][] = [];
+    let saved: BulkSubmitCheckpoint | null = null;
+    const onCheckpoint = (checkpoint: BulkSubmitCheckpoint) => {
+      saved = JSON.parse(JSON.stringify(checkpoint));
+    };
+
+    await assert.rejects(
+      () => oli.attest.submitBulkOnchain(rows, createBatchAdapter(sent, 1), { chunkSize: 2, onCheckpoint }),
+      /User rejected/
+    );
+    assert.deepEqual(saved!.batches.map((batch) => [batch.batch, batch.status]), [[0, 'success']]);
+
+    const resumedSent: OnchainAttestationRequest[][] = [];
+    const result = await oli.attest.submitBulkOnchain(rows, createBatchAdapter(resumedSent), {
+      chunkSize: 2,
+      checkpoint: saved,
+      onCheckpoint
+    });
+
+    assert.deepEqual(resumedSent.map((batch) => batch.map((request) => request.prepared.address.slice(-2))), [['03', '04'], ['05']]);
+    assert.equal(result.resumedBatches, 1);
+    assert.equal(result.status, 'success');
+    assert.deepEqual(result.uids, ['0xuid_01', '0xuid_02', '0xuid_03', '0xuid_04', '0xuid_05']);
+  });
+
+  test('chunked bulk submit keeps a batch pending when it fails after sending', async () => {
+    const oli = new OLIClient();
+    const rows = await prepareRows(oli, 3);
+    const txHash = `0x${'a'.repeat(64)}`;
+    let saved: BulkSubmitCheckpoint | null = null;
+    const adapter = createMockAdapter({
+      async multiAttest() {
+        throw new Error(`Timed out waiting for transaction receipt: ${txHash}`);
+      }
+    });
+
+    await assert.rejects(
+      () =>
+        oli.attest.submitBulkOnchain(rows, adapter, {
+          chunkSize: 2,
+          onCheckpoint: (checkpoint) => {
+            saved = JSON.parse(JSON.stringify(checkpoint));
+          }
+        }),
+      /Timed out/
+    );
+    assert.deepEqual(saved!.batches.map((batch) => [batch.batch, batch.status, batch.txHash]), [[0, 'pending', txHash]]);
+
+    const sent: OnchainAttestationRequest[][] = [];
+    await assert.rejects(
+      () => oli.attest.submitBulkOnchain(rows, createBatchAdapter(sent), { chunkSize: 2, checkpoint: saved }),
+      new RegExp(`may already be onchain in transaction ${txHash}`)
+    );
+    assert.equal(sent.length, 0);
+  });
+
+  test('chunked bulk submit does not resend a sponsored batch as a regular transaction after it was sent', async () => {
+    const oli = new OLIClient();
+    const rows = await prepareRows(oli, 3);
+    const sent: OnchainAttestationRequest[][] = [];
+    let saved: BulkSubmitCheckpoint | null = null;
+    const adapter = createMockAdapter({
+      async isSponsorshipSupported() {
+        return true;
+      },
+      async sponsoredMultiAttest() {
+        throw new Error('Timed out while waiting for call bundle 0xcalls to be confirmed.');
+      },
+      async multiAttest(requests) {
+        sent.push(requests);
+        return { status: 'success', txHash: '0xregular', uids: [] };
+      }
+    });
+
+    await assert.rejects(
+      () =>
+        oli.attest.submitBulkOnchain(rows, adapter, {
+          chunkSize: 2,
+          onCheckpoint: (checkpoint) => {
+            saved = JSON.parse(JSON.stringify(checkpoint));
+          }
+        }),
+      /Timed out/
+    );
+    assert.equal(sent.length, 0);
+    assert.deepEqual(saved!.batches.map((batch) => [batch.batch, batch.status]), [[0, 'pending']]);
+  });
+
+  test('chunked bulk submit refuses pending batches and mismatched checkpoints', async () => {
+    const oli = new OLIClient();
+    const rows = await prepareRows(oli, 3);
+    const { checkpoint } = await oli.attest.submitBulkOnchain(rows, createBatchAdapter([]), { chunkSize: 2 });
+    const interrupted: BulkSubmitCheckpoint = {
+      ...checkpoint,
+      batches: [checkpoint.batches[0], { ...checkpoint.batches[1], status: 'pending', uids: [], txHash: undefined }]
+    };
+
+    await assert.rejects(
+      () => oli.attest.submitBulkOnchain(rows, createBatchAdapter([]), { chunkSize: 2, checkpoint: interrupted }),
+      /may already be onchain/
+    );
+    const sent: OnchainAttestationRequest[][] = [];
+    const result = await oli.attest.submitBulkOnchain(rows, createBatchAdapter(sent), {
+      chunkSize: 2,
+      checkpoint: interrupted,
+      retryPending: true
+    });
+    assert.deepEqual(sent.map((batch) => batch.length), [1]);
+    assert.equal(result.status, 'success');
+
+    await assert.rejects(
+      () => oli.attest.submitBulkOnchain(rows.slice(1), createBatchAdapter([]), { chunkSize: 2, checkpoint }),
+      /does not match these rows/
+    );
+    await assert.rejects(
+      () => oli.attest.submitBulkOnchain(rows, createBatchAdapter([]), { chunkSize: 1, checkpoint }),
+      /same chunkSize/
+    );
+  });
 });
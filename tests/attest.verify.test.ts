@@ -0,0 +1,242 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { concat, encodeFunctionResult, keccak256, numberToHex } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import {
+  AttestClient,
+  computeOnchainUid,
+  computePreparedOffchainUid,
+  verifyAttestationRecord,
+  verifyOffchainAttestation
+} from '../src';
+import type { OnchainWalletAdapter, RestAttestationRecord } from '../src';
+import { prepareEncodedData } from '../src/attest/core/payload';
+import { computeOffchainUid, splitSignature, toSignableTypedData } from '../src/attest/core/offchain';
+import { EAS_READ_ABI } from '../src/attest/transport/easAbi';
+
+const SCHEMA_UID = '0xcff83309b59685fdae9dad7c63d969150676d51d8eeda66799d1c4898b84556a';
+const UID = `0x${'1'.repeat(64)}`;
+const ZERO_BYTES32 = `0x${'0'.repeat(64)}`;
+const ATTESTER = '0x00000000000000000000000000000000000000aa';
+const ADDRESS = '0x52908400098527886E0F7030069857D2E4169EE7';
+const SALT = `0x${'11'.repeat(32)}`;
+const ACCOUNT = privateKeyToAccount('0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d');
+const TAGS = { owner_project: 'growthepie', contract_name: 'Router', usage_category: 'dex' };
+
+function createRecord(overrides: Partial<RestAttestationRecord> = {}): RestAttestationRecord {
+  return {
+    uid: UID,
+    time: '2025-01-01T00:00:00Z',
+    chain_id: 'eip155:8453',
+    attester: ATTESTER,
+    recipient: ADDRESS,
+    revoked: false,
+    is_offchain: false,
+    ipfs_hash: null,
+    schema_info: `8453__${SCHEMA_UID}`,
+    tags_json: TAGS,
+    ...overrides
+  };
+}
+
+function createProvider(onchain: Partial<{ uid: string; data: string; revocationTime: bigint; attester: string }> = {}) {
+  const calls: Array<{ method: string; params?: unknown[] }> = [];
+  const provider = {
+    async request({ method, params }: { method: string; params?: unknown[] }): Promise<unknown> {
+      calls.push({ method, params });
+      if (method === 'eth_chainId') return '0x2105';
+      if (method !== 'eth_call') throw new Error(`Unexpected RPC method ${method}`);
+      return encodeFunctionResult({
+        abi: EAS_READ_ABI,
+        functionName: 'getAttestation',
+        result: {
+          uid: (onchain.uid ?? UID) as `0x${string}`,
+          schema: SCHEMA_UID,
+          time: BigInt(1_735_689_600),
+          expirationTime: BigInt(0),
+          revocationTime: onchain.revocationTime ?? BigInt(0),
+          refUID: ZERO_BYTES32 as `0x${string}`,
+          recipient: '0x0000000000000000000000000000000000000002',
+          attester: (onchain.attester ?? ATTESTER) as `0x${string}`,
+          revocable: true,
+          data: (onchain.data ?? prepareEncodedData('eip155:8453', ADDRESS, TAGS)) as `0x${string}`
+        }
+      });
+    }
+  };
+  return { provider, calls };
+}
+
+function createSigningAdapter(): OnchainWalletAdapter {
+  return {
+    name: 'local-signer',
+    async getChainId() {
+      return 8453;
+    },
+    async switchNetwork() {},
+    async attest() {
+      throw new Error('not used');
+    },
+    async multiAttest() {
+      throw new Error('not used');
+    },
+    async getAddress() {
+      return ACCOUNT.address;
+    },
+    async signTypedData(typedData) {
+      return ACCOUNT.signTypedData(toSignableTypedData(typedData) as never);
+    }
+  };
+}
+
+async function prepare(attest: AttestClient) {
+  return attest.prepareSingleAttestation(
+    { chain_id: 'eip155:8453', address: ADDRESS, ...TAGS },
+    { validate: false, mode: 'advancedProfile' }
+  );
+}
+
+test.describe('UID computation and verification', () => {
+  test('computeOnchainUid hashes the packed attestation fields like EAS._getUID', async () => {
+    const prepared = await prepare(new AttestClient());
+
+    const uid = computeOnchainUid(prepared, { attester: ATTESTER, time: 1_735_689_600 });
+
+    const packed = concat([
+      SCHEMA_UID,
+      prepared.request.recipient as `0x${string}`,
+      ATTESTER,
+      numberToHex(1_735_689_600, { size: 8 }),
+      numberToHex(0, { size: 8 }),
+      '0x01',
+      ZERO_BYTES32 as `0x${string}`,
+      prepared.encodedData as `0x${string}`,
+      numberToHex(0, { size: 4 })
+    ]);
+    assert.equal(uid, keccak256(packed));
+    assert.notEqual(computeOnchainUid(prepared, { attester: ATTESTER, time: 1_735_689_600, nonce: 1 }), uid);
+    assert.notEqual(computeOnchainUid(prepared, { attester: ATTESTER, time: BigInt(1_735_689_601) }), uid);
+  });
+
+  test('computePreparedOffchainUid matches prepareOffchainAttestation', async () => {
+    const attest = new AttestClient();
+    const prepared = await prepare(attest);
+
+    assert.equal(
+      computePreparedOffchainUid(prepared, { time: 1_700_000_000, salt: SALT }),
+      attest.prepareOffchainAttestation(prepared, { time: 1_700_000_000, salt: SALT }).uid
+    );
+  });
+
+  test('verifyAttestationRecord accepts a record that matches getAttestation', async () => {
+    const { provider, calls } = createProvider();
+
+    const result = await verifyAttestationRecord(createRecord(), provider);
+
+    assert.deepEqual(result, { uid: UID, valid: true, mismatches: [], exactEncoding: true });
+    const call = calls.find((entry) => entry.method === 'eth_call')!.params![0] as { to: string };
+    assert.equal(call.to, '0x4200000000000000000000000000000000000021');
+  });
+
+  test('verifyAttestationRecord tolerates reordered tags_json but reports the inexact encoding', async () => {
+    const reordered = { usage_category: 'dex', owner_project: 'growthepie', contract_name: 'Router' };
+    const { provider } = createProvider();
+
+    const result = await verifyAttestationRecord(createRecord({ tags_json: reordered }), provider);
+
+    assert.equal(result.valid, true);
+    assert.equal(result.exactEncoding, false);
+  });
+
+  test('verifyAttestationRecord reports tampered content, attester, and revocation', async () => {
+    const { provider } = createProvider({ revocationTime: BigInt(1_735_700_000), attester: '0x00000000000000000000000000000000000000bb' });
+
+    const result = await verifyAttestationRecord(createRecord({ tags_json: { ...TAGS, contract_name: 'Fake' } }), provider);
+
+    assert.equal(result.valid, false);
+    assert.deepEqual(result.mismatches.map((mismatch) => mismatch.field), ['attester', 'revoked', 'data']);
+  });
+
+  test('verifyAttestationRecord reports unknown UIDs and rejects offchain records or the wrong chain', async () => {
+    const missing = await verifyAttestationRecord(createRecord(), createProvider({ uid: ZERO_BYTES32 }).provider);
+    assert.deepEqual(missing.mismatches, [{ field: 'uid', expected: UID, actual: ZERO_BYTES32 }]);
+
+    await assert.rejects(() => verifyAttestationRecord(createRecord({ is_offchain: true }), createProvider().provider), /verifyOffchainAttestation/);
+    await assert.rejects(
+      () => verifyAttestationRecord(createRecord({ schema_info: `42161__${SCHEMA_UID}` }), createProvider().provider),
+      /connected to chain 8453, but attestation .* is on Arbitrum One/
+    );
+  });
+
+  test('AttestClient.verifyAttestation fetches the record by UID', async () => {
+    const attest = new AttestClient({
+      api: {
+        async postAttestation() {
+          throw new Error('not used');
+        },
+        async postAttestationsBulk() {
+          throw new Error('not used');
+        },
+        async getAttestations() {
+          return { count: 1, attestations: [createRecord()] };
+        }
+      }
+    });
+
+    const result = await attest.verifyAttestation(UID, createProvider().provider);
+
+    assert.equal(result.valid, true);
+  });
+
+  test('verifyOffchainAttestation recovers the signer and checks the UID and record data', async () => {
+    const attest = new AttestClient();
+    const prepared = await prepare(attest);
+    const offchain = attest.prepareOffchainAttestation(prepared, { time: 1_700_000_000, salt: SALT });
+    const payload = await attest.signOffchainAttestation(offchain, createSigningAdapter());
+    const record = createRecord({ uid: offchain.uid, attester: ACCOUNT.address, is_offchain: true });
+
+    const valid = await verifyOffchainAttestation(payload, { record });
+    assert.deepEqual(valid, { uid: offchain.uid, valid: true, mismatches: [], signer: ACCOUNT.address, exactEncoding: true });
+
+    const forged = await verifyOffchainAttestation({ ...payload, signer: ATTESTER });
+    assert.deepEqual(forged.mismatches, [{ field: 'signer', expected: ATTESTER, actual: ACCOUNT.address }]);
+
+    const tampered = await verifyOffchainAttestation(
+      { ...payload, sig: { ...payload.sig, message: { ...payload.sig.message, time: '1700000001' } } },
+      { record: createRecord({ attester: ACCOUNT.address, tags_json: { ...TAGS, usage_category: 'lending' } }) }
+    );
+    assert.deepEqual(tampered.mismatches.map((mismatch) => mismatch.field), ['uid', 'signer', 'attester', 'data']);
+  });
+
+  test('verifyOffchainAttestation rejects signatures over a foreign domain or schema', async () => {
+    const attest = new AttestClient();
+    const prepared = await prepare(attest);
+    const offchain = attest.prepareOffchainAttestation(prepared, { time: 1_700_000_000, salt: SALT });
+    const payload = await attest.signOffchainAttestation(offchain, createSigningAdapter());
+    const resign = async (typedData: typeof offchain.typedData) => {
+      const signature = splitSignature(await createSigningAdapter().signTypedData!(typedData));
+      return {
+        ...payload,
+        sig: { ...payload.sig, domain: typedData.domain, message: typedData.message, uid: computeOffchainUid(typedData.message), signature }
+      };
+    };
+
+    const foreignContract = await resign({
+      ...offchain.typedData,
+      domain: { ...offchain.typedData.domain, verifyingContract: '0x000000000000000000000000000000000000dEaD' }
+    });
+    const contractResult = await verifyOffchainAttestation(foreignContract);
+    assert.equal(contractResult.valid, false);
+    assert.deepEqual(contractResult.mismatches.map((mismatch) => mismatch.field), ['domain']);
+
+    const foreignChain = await resign({ ...offchain.typedData, domain: { ...offchain.typedData.domain, chainId: '1' } });
+    assert.deepEqual((await verifyOffchainAttestation(foreignChain)).mismatches.map((mismatch) => mismatch.field), ['domain']);
+    const record = createRecord({ uid: foreignChain.sig.uid, attester: ACCOUNT.address, is_offchain: true });
+    assert.deepEqual((await verifyOffchainAttestation(foreignChain, { record })).mismatches.map((mismatch) => mismatch.field), ['domain']);
+
+    const foreignSchema = await resign({ ...offchain.typedData, message: { ...offchain.typedData.message, schema: `0x${'ab'.repeat(32)}` } });
+    assert.deepEqual((await verifyOffchainAttestation(foreignSchema)).mismatches, [
+      { field: 'schema', expected: SCHEMA_UID, actual: `0x${'ab'.repeat(32)}` }
+    ]);
+  });
+});
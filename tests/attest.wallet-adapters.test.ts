@@ -0,0 +1,184 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createPublicClient, createWalletClient, custom, decodeFunctionData } from 'viem';
+import { base, mainnet } from 'viem/chains';
+import { OLIClient, createEip1193WalletAdapter, createViemWalletAdapter } from '../src';
+import { EAS_ATTEST_ABI } from '../src/attest/transport/easAbi';
+
+const PROJECTS = [{ owner_project: 'growthepie' }];
+const EAS_ADDRESS = '0x4200000000000000000000000000000000000021';
+const ACCOUNT = '0x00000000000000000000000000000000000000aa';
+const TX_HASH = `0x${'ab'.repeat(32)}`;
+const UID_1 = `0x${'1'.repeat(64)}`;
+const UID_2 = `0x${'2'.repeat(64)}`;
+const PAYMASTER_URL = 'https://paymaster.example/rpc';
+
+function receipt(uids: string[]) {
+  return {
+    status: '0x1',
+    transactionHash: TX_HASH,
+    blockHash: `0x${'00'.repeat(32)}`,
+    blockNumber: '0x1',
+    gasUsed: '0x1',
+    logs: uids.map((uid) => ({ address: EAS_ADDRESS, data: uid, topics: [] }))
+  };
+}
+
+type RpcCall = { method: string; params?: unknown[] };
+
+/** Minimal EIP-1193 wallet on Ethereum mainnet that switches to Base on request. */
+function createProvider(options: { sponsorship?: boolean } = {}) {
+  const calls: RpcCall[] = [];
+  let chainId = '0x1';
+  const provider = {
+    async request({ method, params }: RpcCall): Promise<unknown> {
+      calls.push({ method, params });
+      switch (method) {
+        case 'eth_chainId':
+          return chainId;
+        case 'wallet_switchEthereumChain':
+          chainId = (params![0] as { chainId: string }).chainId;
+          return null;
+        case 'eth_accounts':
+          return [ACCOUNT];
+        case 'eth_sendTransaction':
+          return TX_HASH;
+        case 'eth_getTransactionReceipt':
+          return receipt([UID_1]);
+        case 'wallet_getCapabilities':
+          if (!options.sponsorship) throw new Error('Method not supported');
+          return { '0x2105': { paymasterService: { supported: true } } };
+        case 'wallet_sendCalls':
+          return { id: '0xcalls' };
+        case 'wallet_getCallsStatus':
+          return { version: '2.0.0', id: '0xcalls', chainId: '0x2105', status: 200, atomic: true, receipts: [receipt([UID_1, UID_2])] };
+        default:
+          throw new Error(`Unexpected RPC method ${method}`);
+      }
+    }
+  };
+  return { provider, calls };
+}
+
+async function prepareRows(oli: OLIClient, count: number) {
+  const rows = [];
+  for (let index = 0; index < count; index += 1) {
+    rows.push(
+      await oli.attest.prepareSingleAttestation(
+        { chain_id: 'eip155:1', address: `0x${(index + 1).toString(16).padStart(40, '0')}`, owner_project: 'growthepie' },
+        { mode: 'simpleProfile', projects: PROJECTS }
+      )
+    );
+  }
+  return rows;
+}
+
+test.describe('EIP-1193 and viem wallet adapters', () => {
+  test('EIP-1193 adapter switches chain, sends attest, and reads UIDs from the receipt', async () => {
+    const oli = new OLIClient();
+    const { provider, calls } = createProvider();
+    const [prepared] = await prepareRows(oli, 1);
+
+    const result = await oli.attest.submitSingleOnchain(prepared, createEip1193WalletAdapter(provider));
+
+    assert.equal(result.status, 'success');
+    assert.equal(result.sponsored, false);
+    assert.equal(result.txHash, TX_HASH);
+    assert.deepEqual(result.uids, [UID_1]);
+    assert.deepEqual(calls.find((call) => call.method === 'wallet_switchEthereumChain')?.params, [{ chainId: '0x2105' }]);
+
+    const tx = calls.find((call) => call.method === 'eth_sendTransaction')!.params![0] as Record<string, string>;
+    assert.equal(tx.from, ACCOUNT);
+    assert.equal(tx.to, EAS_ADDRESS);
+    const decoded = decodeFunctionData({ abi: EAS_ATTEST_ABI, data: tx.data as `0x${string}` });
+    assert.equal(decoded.functionName, 'attest');
+  });
+
+  test('EIP-1193 adapter sponsors multiAttest through wallet_sendCalls when the wallet supports paymasters', async () => {
+    const oli = new OLIClient();
+    const { provider, calls } = createProvider({ sponsorship: true });
+    const rows = await prepareRows(oli, 2);
+
+    const result = await oli.attest.submitBulkOnchain(rows, createEip1193WalletAdapter(provider, { paymasterUrl: PAYMASTER_URL }));
+
+    assert.equal(result.sponsored, true);
+    assert.equal(result.status, 'success');
+    assert.deepEqual(result.uids, [UID_1, UID_2]);
+    const request = calls.find((call) => call.method === 'wallet_sendCalls')!.params![0] as {
+      chainId: string;
+      from: string;
+      calls: Array<{ to: string; data: `0x${string}` }>;
+      capabilities: { paymasterService: { url: string } };
+    };
+    assert.equal(request.chainId, '0x2105');
+    assert.equal(request.from, ACCOUNT);
+    assert.equal(request.capabilities.paymasterService.url, PAYMASTER_URL);
+    assert.equal(decodeFunctionData({ abi: EAS_ATTEST_ABI, data: request.calls[0].data }).functionName, 'multiAttest');
+  });
+
+  test('EIP-1193 adapter reports no sponsorship without a paymaster or EIP-5792 support', async () => {
+    const withoutCapabilities = createEip1193WalletAdapter(createProvider().provider, { paymasterUrl: PAYMASTER_URL });
+    const withoutPaymaster = createEip1193WalletAdapter(createProvider({ sponsorship: true }).provider);
+    const supported = createEip1193WalletAdapter(createProvider({ sponsorship: true }).provider, { paymasterUrl: PAYMASTER_URL });
+
+    assert.equal(await withoutCapabilities.isSponsorshipSupported!(8453), false);
+    assert.equal(await withoutPaymaster.isSponsorshipSupported!(8453), Boolean(process.env.OLI_COINBASE_PAYMASTER_URL));
+    assert.equal(await supported.isSponsorshipSupported!(8453), true);
+  });
+
+  test('viem adapter writes through the wallet client and waits with the public client', async () => {
+    const oli = new OLIClient();
+    const { provider, calls } = createProvider();
+    const walletClient = createWalletClient({ account: ACCOUNT, chain: base, transport: custom(provider) });
+    const receiptHashes: string[] = [];
+    const publicClient = createPublicClient({ chain: base, transport: custom(provider) });
+    publicClient.waitForTransactionReceipt = (async ({ hash }: { hash: string }) => {
+      receiptHashes.push(hash);
+      return receipt([UID_1]);
+    }) as never;
+    const [prepared] = await prepareRows(oli, 1);
+
+    const result = await oli.attest.submitSingleOnchain(prepared, createViemWalletAdapter(walletClient, publicClient));
+
+    assert.equal(result.status, 'success');
+    assert.deepEqual(result.uids, [UID_1]);
+    assert.deepEqual(receiptHashes, [TX_HASH]);
+    assert.ok(calls.some((call) => call.method === 'wallet_switchEthereumChain'));
+    const tx = calls.find((call) => call.method === 'eth_sendTransaction')!.params![0] as Record<string, string>;
+    assert.equal(decodeFunctionData({ abi: EAS_ATTEST_ABI, data: tx.data as `0x${string}` }).functionName, 'attest');
+  });
+
+  test('viem adapter sponsors calls with sendCalls and waitForCallsStatus', async () => {
+    const oli = new OLIClient();
+    const { provider, calls } = createProvider({ sponsorship: true });
+    const walletClient = createWalletClient({ account: ACCOUNT, chain: base, transport: custom(provider) });
+    const rows = await prepareRows(oli, 2);
+
+    const result = await oli.attest.submitBulkOnchain(rows, createViemWalletAdapter(walletClient, undefined, { paymasterUrl: PAYMASTER_URL }));
+
+    assert.equal(result.sponsored, true);
+    assert.deepEqual(result.uids, [UID_1, UID_2]);
+    assert.ok(calls.some((call) => call.method === 'wallet_getCallsStatus'));
+    const request = calls.find((call) => call.method === 'wallet_sendCalls')!.params![0] as {
+      capabilities: { paymasterService: { url: string } };
+    };
+    assert.equal(request.capabilities.paymasterService.url, PAYMASTER_URL);
+  });
+
+  test('viem adapter targets the attestation network when the wallet client is bound to another chain', async () => {
+    const oli = new OLIClient();
+    const { provider, calls } = createProvider({ sponsorship: true });
+    const walletClient = createWalletClient({ account: ACCOUNT, chain: mainnet, transport: custom(provider) });
+    const [prepared] = await prepareRows(oli, 1);
+
+    const single = await oli.attest.submitSingleOnchain(prepared, createViemWalletAdapter(walletClient));
+    assert.equal(single.status, 'success');
+    assert.ok(calls.some((call) => call.method === 'eth_sendTransaction'));
+
+    const rows = await prepareRows(oli, 2);
+    const bulk = await oli.attest.submitBulkOnchain(rows, createViemWalletAdapter(walletClient, undefined, { paymasterUrl: PAYMASTER_URL }));
+    assert.equal(bulk.sponsored, true);
+    const request = calls.find((call) => call.method === 'wallet_sendCalls')!.params![0] as { chainId: string };
+    assert.equal(request.chainId, '0x2105');
+  });
+});
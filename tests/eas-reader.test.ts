@@ -0,0 +1,212 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { decodeFunctionData, encodeAbiParameters, encodeEventTopics, encodeFunctionResult, numberToHex } from 'viem';
+import { EasOnchainReader } from '../src';
+import { prepareEncodedData } from '../src/attest/core/payload';
+import { EAS_EVENTS_ABI, EAS_READ_ABI } from '../src/attest/transport/easAbi';
+
+const SCHEMA_UID = '0xcff83309b59685fdae9dad7c63d969150676d51d8eeda66799d1c4898b84556a';
+const OTHER_SCHEMA = `0x${'2'.repeat(64)}` as const;
+const ZERO_BYTES32 = `0x${'0'.repeat(64)}` as const;
+const ATTESTER = '0x00000000000000000000000000000000000000aa';
+const ADDRESS = '0x52908400098527886E0F7030069857D2E4169EE7';
+const UID_A = `0x${'a'.repeat(64)}` as const;
+const UID_B = `0x${'b'.repeat(64)}` as const;
+const UID_C = `0x${'c'.repeat(64)}` as const;
+
+interface StoredAttestation {
+  schema?: `0x${string}`;
+  revocationTime?: bigint;
+  data?: `0x${string}`;
+}
+
+interface StoredLog {
+  event: 'Attested' | 'Revoked';
+  uid: `0x${string}`;
+  block: number;
+  schema?: `0x${string}`;
+}
+
+function createProvider(attestations: Record<string, StoredAttestation>, logs: StoredLog[] = [], maxRange = Infinity) {
+  const calls: Array<{ method: string; params?: unknown[] }> = [];
+  const provider = {
+    async request({ method, params }: { method: string; params?: unknown[] }): Promise<unknown> {
+      calls.push({ method, params });
+      if (method === 'eth_blockNumber') return numberToHex(200);
+
+      if (method === 'eth_getLogs') {
+        const filter = params![0] as { fromBlock: string; toBlock: string; topics: unknown[] };
+        const from = Number(filter.fromBlock);
+        const to = Number(filter.toBlock);
+        if (to - from + 1 > maxRange) throw new Error('query exceeds max block range');
+        return logs
+          .filter((log) => log.block >= from && log.block <= to && (log.schema ?? SCHEMA_UID) === filter.topics[3])
+          .map((log, index) => ({
+            topics: encodeEventTopics({
+              abi: EAS_EVENTS_ABI,
+              eventName: log.event,
+              args: { recipient: ADDRESS, attester: ATTESTER, schemaUID: log.schema ?? SCHEMA_UID }
+            }),
+            data: encodeAbiParameters([{ type: 'bytes32' }], [log.uid]),
+            blockNumber: numberToHex(log.block),
+            transactionHash: `0x${String(log.block).padStart(64, '0')}`,
+            logIndex: numberToHex(index)
+          }))
+          .reverse();
+      }
+
+      if (method === 'eth_call') {
+        const { data } = params![0] as { data: `0x${string}` };
+        const [uid] = decodeFunctionData({ abi: EAS_READ_ABI, data }).args as [`0x${string}`];
+        const stored = attestations[uid];
+        return encodeFunctionResult({
+          abi: EAS_READ_ABI,
+          functionName: 'getAttestation',
+          result: {
+            uid: stored ? uid : ZERO_BYTES32,
+            schema: stored ? (stored.schema ?? SCHEMA_UID) : ZERO_BYTES32,
+            time: stored ? BigInt(1_735_689_600) : BigInt(0),
+            expirationTime: BigInt(0),
+            revocationTime: stored?.revocationTime ?? BigInt(0),
+            refUID: ZERO_BYTES32,
+            recipient: '0x0000000000000000000000000000000000000000',
+            attester: stored ? ATTESTER : '0x0000000000000000000000000000000000000000',
+            revocable: Boolean(stored),
+            data:
+              stored?.data ??
+              (stored ? (prepareEncodedData('eip155:8453', ADDRESS, { owner_project: 'growthepie', usage_category: 'dex' }) as `0x${string}`) : '0x')
+          }
+        });
+      }
+
+      throw new Error(`Unexpected RPC method ${method}`);
+    }
+  };
+  return { provider, calls };
+}
+
+test.describe('EasOnchainReader', () => {
+  test('getAttestation decodes an onchain attestation into an ExpandedAttestation', async () => {
+    const { provider, calls } = createProvider({ [UID_A]: { revocationTime: BigInt(1_735_700_000) } });
+    const reader = new EasOnchainReader({ rpc: { 8453: provider } });
+
+    const attestation = await reader.getAttestation(UID_A);
+
+    assert.ok(attestation);
+    assert.equal(attestation.uid, UID_A);
+    assert.equal(attestation.chain_id, 'eip155:8453');
+    assert.equal(attestation.recipient, ADDRESS);
+    assert.equal(attestation.attester.toLowerCase(), ATTESTER);
+    assert.equal(attestation.owner_project, 'growthepie');
+    assert.equal(attestation.usage_category, 'dex');
+    assert.equal(attestation.revoked, true);
+    assert.equal(attestation.revocationTime, 1_735_700_000);
+    assert.equal(attestation.schema_info, `8453__${SCHEMA_UID}`);
+    assert.equal((calls[0].params![0] as { to: string }).to, '0x4200000000000000000000000000000000000021');
+  });
+
+  test('getAttestation returns null for unknown UIDs and other schemas, trying every network', async () => {
+    const base = createProvider({ [UID_B]: { schema: OTHER_SCHEMA } });
+    const arbitrum = createProvider({});
+    const reader = new EasOnchainReader({ rpc: { 8453: base.provider, 42161: arbitrum.provider } });
+
+    assert.equal(await reader.getAttestation(UID_A), null);
+    assert.equal(await reader.getAttestation(UID_B), null);
+    assert.equal(arbitrum.calls.length, 2);
+    assert.equal((arbitrum.calls[0].params![0] as { to: string }).to, '0xbD75f629A22Dc1ceD33dDA0b68c546A1c035c458');
+    await assert.rejects(() => reader.getAttestation(UID_A, { chainId: 10 }), /No rpc endpoint configured for attestation network 10/);
+  });
+
+  test('getAttestation flags attestation data that cannot be decoded', async () => {
+    const { provider } = createProvider({ [UID_A]: { data: '0x1234' } });
+    const reader = new EasOnchainReader({ rpc: { 8453: provider } });
+
+    const attestation = await reader.getAttestation(UID_A);
+
+    assert.ok(attestation?._parsing_error);
+    assert.equal(attestation.chain_id, undefined);
+  });
+
+  test('scanAttestations yields each OLI attestation once, in log order, with its current state', async () => {
+    const { provider } = createProvider(
+      { [UID_A]: { revocationTime: BigInt(1_735_700_000) }, [UID_B]: {}, [UID_C]: {} },
+      [
+        { event: 'Attested', uid: UID_A, block: 10 },
+        { event: 'Attested', uid: UID_B, block: 50 },
+        { event: 'Revoked', uid: UID_A, block: 120 },
+        { event: 'Attested', uid: UID_C, block: 150, schema: OTHER_SCHEMA }
+      ]
+    );
+    const reader = new EasOnchainReader({ rpc: { 8453: provider } });
+
+    const seen = [];
+    for await (const attestation of reader.scanAttestations({ fromBlock: 0 })) {
+      seen.push([attestation.uid, attestation.revoked, attestation.txid]);
+    }
+
+    assert.deepEqual(seen, [
+      [UID_A, true, `0x${'10'.padStart(64, '0')}`],
+      [UID_B, false, `0x${'50'.padStart(64, '0')}`]
+    ]);
+  });
+
+  test('scanAttestations halves the block range when the node rejects it', async () => {
+    const { provider, calls } = createProvider({ [UID_A]: {} }, [{ event: 'Attested', uid: UID_A, block: 90 }], 30);
+    const reader = new EasOnchainReader({ rpc: { 8453: provider }, blockRange: 100 });
+
+    const uids = [];
+    for await (const attestation of reader.scanAttestations({ fromBlock: 0, toBlock: 99 })) {
+      uids.push(attestation.uid);
+    }
+
+    assert.deepEqual(uids, [UID_A]);
+    const ranges = calls
+      .filter((call) => call.method === 'eth_getLogs')
+      .map((call) => {
+        const filter = call.params![0] as { fromBlock: string; toBlock: string };
+        return [Number(filter.fromBlock), Number(filter.toBlock)];
+      });
+    assert.deepEqual(ranges, [
+      [0, 99],
+      [0, 49],
+      [0, 24],
+      [25, 49],
+      [50, 74],
+      [75, 99]
+    ]);
+  });
+
+  test('scanAttestations filters by attester and stops when aborted', async () => {
+    const { provider, calls } = createProvider({ [UID_A]: {} }, [{ event: 'Attested', uid: UID_A, block: 10 }]);
+    const reader = new EasOnchainReader({ rpc: { 8453: provider } });
+
+    const controller = new AbortController();
+    const iterator = reader.scanAttestations({ fromBlock: 0, toBlock: 10, attester: ATTESTER, signal: controller.signal });
+    assert.equal((await iterator.next()).value?.uid, UID_A);
+
+    const filter = calls.find((call) => call.method === 'eth_getLogs')!.params![0] as { topics: unknown[] };
+    assert.equal(filter.topics[2], `0x${ATTESTER.slice(2).padStart(64, '0')}`);
+
+    controller.abort();
+    const aborted = reader.scanAttestations({ fromBlock: 0, signal: controller.signal });
+    await assert.rejects(() => aborted.next(), { name: 'AbortError' });
+  });
+
+  test('getAttestation posts JSON-RPC requests when given an endpoint URL', async () => {
+    const { provider } = createProvider({ [UID_A]: {} });
+    const bodies: Array<{ method: string; id: number }> = [];
+    const fetchImpl = (async (url: string, init: RequestInit) => {
+      assert.equal(url, 'https://rpc.example');
+      const body = JSON.parse(init.body as string) as { id: number; method: string; params: unknown[] };
+      bodies.push(body);
+      const result = await provider.request(body);
+      return new Response(JSON.stringify({ jsonrpc: '2.0', id: body.id, result }), { status: 200 });
+    }) as unknown as typeof fetch;
+    const reader = new EasOnchainReader({ rpc: { 8453: 'https://rpc.example' }, fetch: fetchImpl });
+
+    const attestation = await reader.getAttestation(UID_A);
+
+    assert.equal(attestation?.uid, UID_A);
+    assert.deepEqual(bodies.map((body) => body.method), ['eth_call']);
+  });
+});
@@ -0,0 +1,218 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { LabelPoolIndex, OLIClient, expandLabelPoolExport } from '../src';
+import type { RestAttestationRecord } from '../src';
+
+const ADDRESS = '0x52908400098527886E0F7030069857D2E4169EE7';
+const OTHER_ADDRESS = '0x8617E340B3D01FA5F11F306F4090FD50E238070D';
+const ATTESTER_A = '0x1111111111111111111111111111111111111111';
+const ATTESTER_B = '0x2222222222222222222222222222222222222222';
+
+const rows = [
+  {
+    uid: '0x01',
+    time: '2026-01-01T00:00:00Z',
+    chain_id: 'eip155:8453',
+    attester: ATTESTER_A,
+    recipient: ADDRESS,
+    revoked: false,
+    is_offchain: true,
+    ipfs_hash: null,
+    schema_info: '8453__0xschema',
+    tags_json: JSON.stringify({ owner_project: 'uniswap', usage_category: 'dex', contract_name: 'Router' })
+  },
+  {
+    uid: '0x02',
+    time: 1767312000,
+    attester: ATTESTER_B,
+    revoked: true,
+    decodedDataJson: JSON.stringify([
+      { name: 'caip10', type: 'string', value: { name: 'caip10', type: 'string', value: `eip155:8453:${ADDRESS}` } },
+      { name: 'tags_json', type: 'string', value: { name: 'tags_json', type: 'string', value: '{"owner_project":"sushiswap"}' } }
+    ])
+  },
+  { id: '0x03', time: '2026-01-03 00:00:00', chain_id: 'eip155:1', attester: ATTESTER_B, address: OTHER_ADDRESS, tag_id: 'usage_category', tag_value: 'dex' },
+  { id: '0x03', time: '2026-01-03 00:00:00', chain_id: 'eip155:1', attester: ATTESTER_B, address: OTHER_ADDRESS, tag_id: 'owner_project', tag_value: 'Uniswap' }
+];
+
+test.describe('label pool index', () => {
+  test('expands REST, decoded EAS, and tag-per-row export shapes', () => {
+    const expanded = expandLabelPoolExport(rows);
+    assert.equal(expanded.length, 3);
+
+    const decoded = expanded.find(att => att.uid === '0x02');
+    assert.equal(decoded?.chain_id, 'eip155:8453');
+    assert.equal(decoded?.recipient, ADDRESS);
+    assert.equal(decoded?.owner_project, 'sushiswap');
+    assert.equal(decoded?.timeCreated, 1767312000);
+
+    const grouped = expanded.find(att => att.uid === '0x03');
+    assert.deepEqual(grouped?.tags_json, { usage_category: 'dex', owner_project: 'Uniswap' });
+    assert.equal(grouped?.time_iso, '2026-01-03T00:00:00.000Z');
+  });
+
+  test('indexes by CAIP-10, attester, tag value, and owner project', () => {
+    const pool = LabelPoolIndex.fromRows(rows);
+    assert.equal(pool.size, 3);
+    assert.equal(pool.getByCaip10(`eip155:8453:${ADDRESS.toLowerCase()}`).length, 2);
+    assert.equal(pool.getByAddress(ADDRESS, 'eip155:1').length, 0);
+    assert.deepEqual(pool.getByAttester(ATTESTER_B.toUpperCase()).map(att => att.uid).sort(), ['0x02', '0x03']);
+    assert.deepEqual(pool.getByTag('usage_category', 'DEX').map(att => att.uid).sort(), ['0x01', '0x03']);
+    assert.equal(pool.getByTag('owner_project').length, 3);
+    assert.deepEqual(pool.getByOwnerProject('uniswap').map(att => att.uid).sort(), ['0x01', '0x03']);
+  });
+
+  test('matches array tags by element and by the whole list', () => {
+    const pool = LabelPoolIndex.fromRows([{ ...rows[0], tags_json: { erc_type: ['ERC20', 'erc721'] } }]);
+
+    assert.deepEqual(pool.getByTag('erc_type', 'erc20').map(att => att.uid), ['0x01']);
+    assert.deepEqual(pool.getByTag('erc_type', ['erc721', 'erc20']).map(att => att.uid), ['0x01']);
+    assert.equal(pool.getByTag('erc_type', 'erc1155').length, 0);
+    assert.equal(pool.searchAddressesByTag({ tag_id: 'erc_type', tag_value: 'erc721' }).count, 1);
+
+    const [replacement] = expandLabelPoolExport([{ ...rows[0], tags_json: { erc_type: ['erc1155'] } }]);
+    pool.upsert(replacement);
+    assert.equal(pool.getByTag('erc_type', 'erc20').length, 0);
+    assert.deepEqual(pool.getByTag('erc_type', 'erc1155').map(att => att.uid), ['0x01']);
+  });
+
+  test('upsert replaces an attestation and its index entries', () => {
+    const pool = LabelPoolIndex.fromRows(rows);
+    const [replacement] = expandLabelPoolExport([{ ...rows[0], tags_json: { owner_project: 'curve' } }]);
+    const previous = pool.upsert(replacement);
+
+    assert.equal(previous?.owner_project, 'uniswap');
+    assert.equal(pool.size, 3);
+    assert.deepEqual(pool.getByOwnerProject('uniswap').map(att => att.uid), ['0x03']);
+    assert.deepEqual(pool.getByOwnerProject('curve').map(att => att.uid), ['0x01']);
+  });
+
+  test('answers getLabels, searchAddressesByTag, and getAddressSummary in memory', () => {
+    const pool = LabelPoolIndex.fromRows(rows, { displayConfig: { addressFormat: 'full' } });
+
+    const labels = pool.getLabels({ address: ADDRESS });
+    assert.equal(labels.count, 3);
+    assert.ok(labels.labels.every(label => label.attester === ATTESTER_A));
+    assert.equal(pool.getLabels({ address: ADDRESS, include_all: true }).count, 4);
+
+    const relabeled = LabelPoolIndex.fromRows([
+      ...rows,
+      { ...rows[0], uid: '0x04', time: '2026-01-05T00:00:00Z', tags_json: { owner_project: 'uniswap-v4' } }
+    ]);
+    const latest = relabeled.getLabels({ address: ADDRESS });
+    assert.deepEqual(
+      latest.labels.filter(label => label.tag_id === 'owner_project').map(label => label.tag_value),
+      ['uniswap-v4']
+    );
+    assert.equal(latest.count, 3);
+    assert.equal(relabeled.getLabels({ address: ADDRESS, include_all: true }).count, 5);
+    assert.equal(relabeled.getLabels({ address: ADDRESS, limit: 1 }).count, 1);
+
+    const search = pool.searchAddressesByTag({ tag_id: 'usage_category', tag_value: 'dex' });
+    assert.deepEqual(search.results.map(result => result.address), [OTHER_ADDRESS, ADDRESS]);
+    assert.equal(pool.searchAddressesByTag({ tag_id: 'usage_category', tag_value: 'dex', chain_id: 'eip155:1' }).count, 1);
+
+    const summary = pool.getAddressSummary(ADDRESS);
+    assert.equal(summary?.name, 'Router');
+    assert.equal(summary?.project, 'uniswap');
+    assert.equal(pool.getAddressSummary('0xdead'), null);
+    assert.equal(pool.getDisplayName(OTHER_ADDRESS), OTHER_ADDRESS);
+  });
+
+  test('fromFile reads JSON through a custom reader', async () => {
+    const pool = await LabelPoolIndex.fromFile('labels.json', { readFile: async () => JSON.stringify(rows) });
+    assert.equal(pool.size, 3);
+    await assert.rejects(
+      LabelPoolIndex.fromFile('labels.json', { readFile: async () => '{}' }),
+      /does not contain a JSON array/
+    );
+  });
+});
+
+test.describe('label pool sync', () => {
+  function createRecord(uid: string, time: string, overrides: Partial<RestAttestationRecord> = {}): RestAttestationRecord {
+    return {
+      uid,
+      time,
+      chain_id: 'eip155:8453',
+      attester: ATTESTER_A,
+      recipient: ADDRESS,
+      revoked: false,
+      is_offchain: true,
+      ipfs_hash: null,
+      schema_info: '8453__0xschema',
+      tags_json: { owner_project: 'uniswap' },
+      ...overrides
+    };
+  }
+
+  test('applies inserts, updates, and revocations after the watermark', async () => {
+    const pool = LabelPoolIndex.fromRows([
+      createRecord('0x01', '2026-01-01T00:00:00Z'),
+      createRecord('0x02', '2026-01-02T00:00:00Z'),
+      createRecord('0x03', '2026-01-02T00:00:00Z')
+    ]);
+    const remote = [
+      createRecord('0x01', '2026-01-01T00:00:00Z', { revoked: true }),
+      createRecord('0x02', '2026-01-02T00:00:00Z', { revoked: true }),
+      createRecord('0x03', '2026-01-02T00:00:00Z', { tags_json: { owner_project: 'curve' } }),
+      createRecord('0x04', '2026-01-03T00:00:00Z')
+    ];
+
+    const requests: URL[] = [];
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = (async (input: string | URL | Request) => {
+      const url = new URL(String(input));
+      requests.push(url);
+      const since = url.searchParams.get('since');
+      const page = remote.filter(record => !since || new Date(record.time).getTime() > new Date(since).getTime());
+      return new Response(JSON.stringify({ count: page.length, attestations: page }));
+    }) as typeof fetch;
+
+    try {
+      const oli = new OLIClient();
+      const result = await pool.sync(oli.api);
+
+      assert.equal(requests[0].searchParams.get('since'), '2026-01-01T23:00:00.000Z');
+      assert.equal(requests[0].searchParams.get('order'), 'asc');
+      assert.deepEqual(
+        { added: result.added, updated: result.updated, revoked: result.revoked, unchanged: result.unchanged },
+        { added: 1, updated: 1, revoked: 1, unchanged: 0 }
+      );
+      assert.equal(result.latestTime, Date.parse('2026-01-03T00:00:00Z') / 1000);
+      assert.equal(pool.get('0x01')?.revoked, false);
+      assert.equal(pool.get('0x02')?.revoked, true);
+      assert.deepEqual(pool.getByOwnerProject('curve').map(att => att.uid), ['0x03']);
+      assert.deepEqual(pool.getLabels({ address: ADDRESS }).labels.map(label => label.tag_value), ['uniswap']);
+      assert.equal(pool.getLabels({ address: ADDRESS, include_all: true }).count, 4);
+
+      const again = await pool.sync(oli.api, { lookback: 2 * 86400 + 60 });
+      assert.equal(again.since, Date.parse('2025-12-31T23:59:00Z') / 1000);
+      assert.deepEqual([again.added, again.updated, again.revoked, again.unchanged], [0, 0, 1, 3]);
+      assert.equal(pool.get('0x01')?.revoked, true);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  test('counts a uid repeated by the source once and keeps same-second records with lookback 0', async () => {
+    const pool = LabelPoolIndex.fromRows([createRecord('0x01', '2026-01-02T00:00:00Z')]);
+    const [sameSecond, later] = expandLabelPoolExport([
+      createRecord('0x02', '2026-01-02T00:00:00Z'),
+      createRecord('0x03', '2026-01-03T00:00:00Z')
+    ]);
+    const queries: unknown[] = [];
+    const source = {
+      async *iterateAttestations(params: unknown) {
+        queries.push(params);
+        yield* [sameSecond, later, later];
+      }
+    };
+
+    const result = await pool.sync(source, { lookback: 0 });
+
+    assert.equal(result.since, Date.parse('2026-01-02T00:00:00Z') / 1000 - 1);
+    assert.deepEqual([result.added, result.updated, result.revoked, result.unchanged], [2, 0, 0, 0]);
+    assert.equal(pool.size, 3);
+  });
+});
@@ -0,0 +1,233 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  LabelPoolIndex,
+  LabelSourceError,
+  OLIClient,
+  createExportLabelSource,
+  createFallbackLabelSource,
+  createRestLabelSource,
+  createRpcLabelSource,
+  helpers
+} from '../src';
+import type { EasOnchainReader, EasScanOptions, ExpandedAttestation, LabelSource, LabelSourceRestApi, RestAttestationRecord } from '../src';
+
+const ADDRESS = '0x52908400098527886E0F7030069857D2E4169EE7';
+const OTHER_ADDRESS = '0x8617E340B3D01FA5F11F306F4090FD50E238070D';
+const ATTESTER_A = '0x1111111111111111111111111111111111111111';
+const ATTESTER_B = '0x2222222222222222222222222222222222222222';
+
+function createRecord(uid: string, overrides: Partial<RestAttestationRecord> = {}): RestAttestationRecord {
+  return {
+    uid,
+    time: '2026-01-01T00:00:00Z',
+    chain_id: 'eip155:8453',
+    attester: ATTESTER_A,
+    recipient: ADDRESS,
+    revoked: false,
+    is_offchain: true,
+    ipfs_hash: null,
+    schema_info: '8453__0xschema',
+    tags_json: { owner_project: 'uniswap', usage_category: 'dex', contract_name: 'Router' },
+    ...overrides
+  };
+}
+
+const exportRows = [
+  createRecord('0x01'),
+  createRecord('0x02', { time: '2026-01-02T00:00:00Z', attester: ATTESTER_B, tags_json: { owner_project: 'sushiswap' } }),
+  createRecord('0x03', { time: '2026-01-03T00:00:00Z', chain_id: 'eip155:1', recipient: OTHER_ADDRESS, tags_json: { erc_type: ['erc20', 'erc4626'] } })
+];
+
+function expand(records: RestAttestationRecord[]): ExpandedAttestation[] {
+  return helpers.expandRestAttestations(records);
+}
+
+function staticSource(name: string, attestations: ExpandedAttestation[]): LabelSource {
+  return {
+    name,
+    async byAddress(address) {
+      return attestations.filter(att => att.recipient.toLowerCase() === address.toLowerCase()).map(att => ({ ...att, _source: name }));
+    },
+    async byTag() {
+      return [];
+    },
+    async byAttester() {
+      return [];
+    },
+    async *stream() {
+      for (const attestation of attestations) yield { ...attestation, _source: name };
+    }
+  };
+}
+
+function failingSource(name: string, message = `${name} is down`): LabelSource {
+  const fail = async (): Promise<never> => {
+    throw new Error(message);
+  };
+  return {
+    name,
+    byAddress: fail,
+    byTag: fail,
+    byAttester: fail,
+    async *stream() {
+      yield* [] as ExpandedAttestation[];
+      throw new Error(message);
+    }
+  };
+}
+
+test.describe('label sources', () => {
+  test('createExportLabelSource builds the pool once and retries after a failed download', async () => {
+    let downloads = 0;
+    const fetcher = {
+      async getFullDecodedExport() {
+        downloads += 1;
+        if (downloads === 1) throw new Error('CDN unavailable');
+        return exportRows;
+      }
+    };
+    const source = createExportLabelSource(fetcher);
+
+    await assert.rejects(source.byAddress(ADDRESS), /CDN unavailable/);
+    const labels = await source.byAddress(ADDRESS.toLowerCase());
+    assert.deepEqual(labels.map(att => [att.uid, att._source]), [['0x01', 'export'], ['0x02', 'export']]);
+    assert.deepEqual((await source.byTag('erc_type', 'ERC4626')).map(att => att.uid), ['0x03']);
+    assert.deepEqual((await source.byTag('erc_type', ['erc4626', 'erc20'])).map(att => att.uid), ['0x03']);
+    assert.deepEqual((await source.byAttester(ATTESTER_B, { limit: 1 })).map(att => att.uid), ['0x02']);
+    assert.equal((await source.byAddress(ADDRESS, { chain_id: 'eip155:1' })).length, 0);
+
+    const streamed = [];
+    for await (const attestation of source.stream({ since: Date.parse('2026-01-02T00:00:00Z') / 1000 })) {
+      streamed.push(attestation.uid);
+    }
+    assert.deepEqual(streamed, ['0x02', '0x03']);
+    assert.equal(downloads, 2);
+  });
+
+  test('createRestLabelSource maps lookups onto RestClient queries', async () => {
+    const queries: unknown[] = [];
+    const api: LabelSourceRestApi = {
+      async getAttestationsExpanded(params) {
+        queries.push(params);
+        return { attestations: expand(exportRows.slice(0, 2)) };
+      },
+      async *iterateAttestations(params) {
+        queries.push(params);
+        yield* expand(exportRows);
+      },
+      async *iterateSearchAttestations(options) {
+        queries.push(options);
+        yield* expand(exportRows);
+      }
+    };
+    const source = createRestLabelSource(api);
+
+    const labels = await source.byAddress(ADDRESS, { chain_id: 'eip155:8453', limit: 5 });
+    assert.deepEqual(labels.map(att => att._source), ['rest', 'rest']);
+    assert.deepEqual((await source.byTag('usage_category', 'dex', { chain_id: 'eip155:1' })).map(att => att.uid), ['0x03']);
+    const streamed = [];
+    for await (const attestation of source.stream({ since: Date.parse('2026-01-02T00:00:00Z') / 1000 })) {
+      assert.equal(attestation._source, 'rest');
+      streamed.push(attestation.uid);
+    }
+    assert.deepEqual(streamed, ['0x02', '0x03']);
+
+    assert.deepEqual(queries, [
+      { recipient: ADDRESS, chain_id: 'eip155:8453', limit: 5 },
+      { tagKey: 'usage_category', tagValue: 'dex' },
+      { since: '2026-01-01T23:59:59.000Z' }
+    ]);
+  });
+
+  test('createRpcLabelSource filters scanned attestations and forwards the attester', async () => {
+    const scans: EasScanOptions[] = [];
+    const reader = {
+      async *scanAttestations(options: EasScanOptions) {
+        scans.push(options);
+        yield* expand(exportRows);
+      }
+    } as unknown as EasOnchainReader;
+    const source = createRpcLabelSource(reader, { fromBlock: 100, chainId: 8453 });
+
+    assert.deepEqual((await source.byAddress(OTHER_ADDRESS)).map(att => [att.uid, att._source]), [['0x03', 'rpc']]);
+    assert.deepEqual((await source.byTag('owner_project', 'SushiSwap')).map(att => att.uid), ['0x02']);
+    assert.deepEqual((await source.byTag('usage_category', undefined, { limit: 1 })).map(att => att.uid), ['0x01']);
+    await source.byAttester(ATTESTER_B);
+
+    assert.deepEqual(scans.map(scan => [scan.fromBlock, scan.chainId, scan.attester]), [
+      [100, 8453, undefined],
+      [100, 8453, undefined],
+      [100, 8453, undefined],
+      [100, 8453, ATTESTER_B]
+    ]);
+  });
+
+  test('createFallbackLabelSource falls through errors and empty answers and records the source', async () => {
+    const pool = LabelPoolIndex.fromRows(exportRows);
+    const chain = createFallbackLabelSource([failingSource('rest'), staticSource('empty', []), createExportLabelSource(pool)]);
+
+    const labels = await chain.byAddress(ADDRESS);
+    assert.deepEqual(labels.map(att => att._source), ['export', 'export']);
+    assert.equal(chain.name, 'rest>empty>export');
+
+    const allDown = createFallbackLabelSource([failingSource('rest'), failingSource('rpc')]);
+    await assert.rejects(allDown.byAddress(ADDRESS), (error: unknown) => {
+      assert.ok(error instanceof LabelSourceError);
+      assert.deepEqual(error.errors.map(entry => entry.source), ['rest', 'rpc']);
+      return true;
+    });
+    assert.deepEqual(await createFallbackLabelSource([failingSource('rest'), staticSource('empty', [])]).byAddress(ADDRESS), []);
+  });
+
+  test('merge strategy combines every source by UID and keeps revocations', async () => {
+    const [first, second] = expand(exportRows);
+    const chain = createFallbackLabelSource(
+      [
+        staticSource('rest', [first]),
+        failingSource('rpc'),
+        staticSource('export', [{ ...first, revoked: true }, second])
+      ],
+      { strategy: 'merge' }
+    );
+
+    const labels = await chain.byAddress(ADDRESS);
+    assert.deepEqual(labels.map(att => [att.uid, att.revoked, att._source]), [
+      ['0x01', true, 'export'],
+      ['0x02', false, 'export']
+    ]);
+  });
+
+  test('stream resumes from the next source and skips UIDs already yielded', async () => {
+    const attestations = expand(exportRows);
+    const flaky: LabelSource = {
+      ...failingSource('rest'),
+      async *stream() {
+        yield { ...attestations[0], _source: 'rest' };
+        throw new Error('connection reset');
+      }
+    };
+    const chain = createFallbackLabelSource([flaky, staticSource('export', attestations)]);
+
+    const streamed = [];
+    for await (const attestation of chain.stream()) {
+      streamed.push([attestation.uid, attestation._source]);
+    }
+    assert.deepEqual(streamed, [
+      ['0x01', 'rest'],
+      ['0x02', 'export'],
+      ['0x03', 'export']
+    ]);
+  });
+
+  test('getAddressSummary and getDisplayName read from a fallback chain', async () => {
+    const oli = new OLIClient();
+    const sources = [failingSource('rest'), createExportLabelSource(LabelPoolIndex.fromRows(exportRows))];
+
+    const summary = await oli.api.getAddressSummary(ADDRESS, { source: sources });
+    assert.equal(summary?.source, 'export');
+    assert.equal(summary?.project, 'sushiswap');
+    assert.equal(await oli.api.getDisplayName(ADDRESS, { source: sources }), summary?.name);
+    assert.equal(await oli.api.getDisplayName('0xdead', { source: sources, fallback: 'unknown' }), 'unknown');
+  });
+});
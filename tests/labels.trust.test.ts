@@ -0,0 +1,160 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { OLIClient, helpers } from '../src';
+import type { ExpandedAttestation, RestAttestationRecord, TrustPolicy } from '../src';
+
+const NOW = Math.floor(Date.now() / 1000);
+const TRUSTED = '0x1111111111111111111111111111111111111111';
+const OTHER = '0x2222222222222222222222222222222222222222';
+const SPAM = '0x3333333333333333333333333333333333333333';
+
+function createLabel(overrides: Record<string, unknown>): ExpandedAttestation {
+  return {
+    attester: TRUSTED,
+    expirationTime: 0,
+    id: '0xuid',
+    ipfsHash: '',
+    isOffchain: true,
+    recipient: '0x52908400098527886E0F7030069857D2E4169EE7',
+    refUID: '0xuid',
+    revocable: true,
+    revocationTime: 0,
+    revoked: false,
+    time: NOW,
+    timeCreated: NOW,
+    txid: '',
+    ...overrides
+  } as ExpandedAttestation;
+}
+
+test.describe('label trust scoring', () => {
+  test('without a policy, ranking stays recency-based', () => {
+    const older = createLabel({ id: 'older', timeCreated: NOW - 100 });
+    const newer = createLabel({ id: 'newer', timeCreated: NOW });
+
+    const best = helpers.getBestLabel([older, newer]);
+    assert.equal(best?.id, 'newer');
+    assert.equal(best?._trust, undefined);
+  });
+
+  test('attester weights outrank recency and explain the winner', () => {
+    const policy: TrustPolicy = {
+      attesterWeights: { [TRUSTED.toUpperCase().replace('0X', '0x')]: 5 },
+      defaultAttesterWeight: 1
+    };
+    const trusted = createLabel({ id: 'trusted', attester: TRUSTED, timeCreated: NOW - 1000 });
+    const other = createLabel({ id: 'other', attester: OTHER, timeCreated: NOW });
+
+    const best = helpers.getBestLabel([other, trusted], {}, policy);
+    assert.equal(best?.id, 'trusted');
+    assert.equal(best?._trust?.score, 5);
+    assert.deepEqual(best?._trust?.contributions.map(entry => entry.rule), ['attester_weight']);
+  });
+
+  test('allow and block lists exclude attesters', () => {
+    const spam = createLabel({ id: 'spam', attester: SPAM });
+    const other = createLabel({ id: 'other', attester: OTHER, timeCreated: NOW - 10 });
+
+    assert.equal(helpers.getBestLabel([spam, other], {}, { blockedAttesters: [SPAM] })?.id, 'other');
+    assert.equal(helpers.getBestLabel([spam, other], {}, { allowedAttesters: [TRUSTED] }), null);
+
+    const ranked = helpers.rankLabels([spam, other], { blockedAttesters: [SPAM] });
+    assert.equal(ranked[1].id, 'spam');
+    assert.equal(ranked[1]._trust?.excluded, true);
+    assert.equal(ranked[1]._trust?.contributions[0].rule, 'attester_blocklist');
+  });
+
+  test('recency decay halves the score per half-life', () => {
+    const [scored] = helpers.scoreLabels([createLabel({ timeCreated: NOW - 3600 })], { recencyHalfLife: 3600 }, NOW);
+    assert.equal(scored._trust?.score, 0.5);
+    assert.equal(scored._trust?.contributions[1].rule, 'recency_decay');
+  });
+
+  test('consensus thresholds require agreeing attesters', () => {
+    const policy: TrustPolicy = { consensusThresholds: { owner_project: 2 }, consensusBonus: 1 };
+    const first = createLabel({ id: 'a', attester: TRUSTED, owner_project: 'Uniswap' });
+    const second = createLabel({ id: 'b', attester: OTHER, owner_project: 'uniswap', timeCreated: NOW - 5 });
+    const lone = createLabel({ id: 'c', attester: SPAM, owner_project: 'sushiswap', timeCreated: NOW + 5 });
+
+    const ranked = helpers.rankLabels([lone, first, second], policy);
+    assert.deepEqual(ranked.map(label => label.id), ['a', 'b', 'c']);
+    assert.equal(ranked[0]._trust?.score, 2);
+    assert.equal(ranked[2]._trust?.excluded, true);
+
+    const summary = helpers.getLabelSummary(ranked[0]);
+    assert.equal(summary.trust?.score, 2);
+    assert.deepEqual(helpers.getAvailableTags(ranked[0]), ['owner_project']);
+  });
+});
+
+test.describe('label consensus', () => {
+  test('groups values per tag and flags conflicts', () => {
+    const consensus = helpers.buildLabelConsensus('0xabc', [
+      createLabel({ id: 'a', attester: TRUSTED, tags_json: { owner_project: 'uniswap', usage_category: 'dex' } }),
+      createLabel({ id: 'b', attester: OTHER, timeCreated: NOW - 10, tags_json: { owner_project: 'Uniswap' } }),
+      createLabel({ id: 'c', attester: SPAM, timeCreated: NOW - 20, tags_json: { usage_category: 'bridge' } }),
+      createLabel({ id: 'd', attester: SPAM, revoked: true, tags_json: { owner_project: 'sushiswap' } })
+    ]);
+
+    assert.equal(consensus.attestationCount, 3);
+    assert.deepEqual(consensus.conflicts, ['usage_category']);
+    assert.equal(consensus.tags.owner_project.hasConflict, false);
+    assert.deepEqual(consensus.tags.owner_project.values[0].attesters, [TRUSTED, OTHER]);
+    assert.deepEqual(consensus.tags.owner_project.values[0].uids, ['a', 'b']);
+    assert.equal(consensus.tags.owner_project.values[0].latestTime, NOW);
+    assert.deepEqual(consensus.tags.usage_category.values.map(entry => entry.value), ['dex', 'bridge']);
+  });
+
+  test('an attester re-attesting a tag does not conflict with itself', () => {
+    const consensus = helpers.buildLabelConsensus('0xabc', [
+      createLabel({ id: 'new', tags_json: { usage_category: 'dex' } }),
+      createLabel({ id: 'old', timeCreated: NOW - 100, tags_json: { usage_category: 'other' } })
+    ]);
+
+    assert.deepEqual(consensus.conflicts, []);
+    assert.deepEqual(consensus.tags.usage_category.values[0].uids, ['new']);
+  });
+
+  test('RestClient.getLabelConsensus expands REST records', async () => {
+    const records: RestAttestationRecord[] = [
+      {
+        uid: '0x01',
+        time: new Date().toISOString(),
+        chain_id: 'eip155:8453',
+        attester: TRUSTED,
+        recipient: '0xabc',
+        revoked: false,
+        is_offchain: true,
+        ipfs_hash: null,
+        schema_info: 'schema',
+        tags_json: { owner_project: 'uniswap' }
+      },
+      {
+        uid: '0x02',
+        time: new Date().toISOString(),
+        chain_id: 'eip155:1',
+        attester: OTHER,
+        recipient: '0xabc',
+        revoked: false,
+        is_offchain: true,
+        ipfs_hash: null,
+        schema_info: 'schema',
+        tags_json: { owner_project: 'sushiswap' }
+      }
+    ];
+
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = (async () => new Response(JSON.stringify({ count: 2, attestations: records }))) as typeof fetch;
+    try {
+      const oli = new OLIClient();
+      const all = await oli.api.getLabelConsensus('0xabc');
+      assert.deepEqual(all.conflicts, ['owner_project']);
+
+      const base = await oli.api.getLabelConsensus('0xabc', { chain_id: 'eip155:8453' });
+      assert.deepEqual(base.conflicts, []);
+      assert.equal(base.tags.owner_project.values[0].value, 'uniswap');
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+});
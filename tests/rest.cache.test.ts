@@ -0,0 +1,245 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  OLIClient,
+  createFileSystemCacheAdapter,
+  createLocalStorageCacheAdapter,
+  createMemoryCacheAdapter
+} from '../src';
+import type { CacheAdapter, CacheRecord } from '../src';
+
+function installCountingFetch() {
+  let calls = 0;
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (async () => {
+    calls += 1;
+    return new Response(JSON.stringify({ address: '0xabc', count: calls, labels: [] }));
+  }) as typeof fetch;
+  return {
+    get calls() {
+      return calls;
+    },
+    restore() {
+      globalThis.fetch = originalFetch;
+    }
+  };
+}
+
+class MapStorage {
+  private readonly items = new Map<string, string>();
+  get length() {
+    return this.items.size;
+  }
+  clear() {
+    this.items.clear();
+  }
+  getItem(key: string) {
+    return this.items.get(key) ?? null;
+  }
+  key(index: number) {
+    return [...this.items.keys()][index] ?? null;
+  }
+  removeItem(key: string) {
+    this.items.delete(key);
+  }
+  setItem(key: string, value: string) {
+    this.items.set(key, value);
+  }
+}
+
+test.describe('REST cache adapters', () => {
+  test('memory adapter evicts the least recently used entry', async () => {
+    const cache = createMemoryCacheAdapter({ maxEntries: 2 });
+    const record = (data: string): CacheRecord => ({ timestamp: Date.now(), data });
+    await cache.set('a', record('a'), 1000);
+    await cache.set('b', record('b'), 1000);
+    await cache.get('a');
+    await cache.set('c', record('c'), 1000);
+
+    assert.equal((await cache.get('a'))?.data, 'a');
+    assert.equal(await cache.get('b'), undefined);
+    assert.equal((await cache.get('c'))?.data, 'c');
+
+    await cache.set('expired', record('x'), 0);
+    assert.equal(await cache.get('expired'), undefined);
+  });
+
+  test('localStorage adapter stores prefixed JSON entries', async () => {
+    const storage = new MapStorage();
+    const cache = createLocalStorageCacheAdapter({ storage: storage as unknown as Storage, prefix: 'test:' });
+    await cache.set('key', { timestamp: 1, data: { ok: true } }, 1000);
+
+    assert.ok(storage.getItem('test:key'));
+    assert.deepEqual((await cache.get('key'))?.data, { ok: true });
+    await cache.delete('key');
+    assert.equal(storage.getItem('test:key'), null);
+  });
+
+  test('filesystem adapter survives a new client instance', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'oli-cache-'));
+    const path = join(dir, 'cache.json');
+    const api = installCountingFetch();
+    try {
+      const config = { api: { enableCache: true, cacheTtl: 60_000, apiKey: 'key' } };
+      const first = new OLIClient({ api: { ...config.api, cacheAdapter: createFileSystemCacheAdapter({ path }) } });
+      assert.equal((await first.api.getLabels({ address: '0xabc' })).count, 1);
+
+      const persisted = JSON.parse(await readFile(path, 'utf8'));
+      assert.equal(Object.keys(persisted).length, 1);
+
+      const second = new OLIClient({ api: { ...config.api, cacheAdapter: createFileSystemCacheAdapter({ path }) } });
+      assert.equal((await second.api.getLabels({ address: '0xabc' })).count, 1);
+      assert.equal(api.calls, 1);
+    } finally {
+      api.restore();
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('keeps TTL and stale-while-revalidate semantics with a custom adapter', async () => {
+    const store = new Map<string, CacheRecord>();
+    const ttls: number[] = [];
+    const adapter: CacheAdapter = {
+      get: async key => store.get(key) as never,
+      set: async (key, record, ttlMs) => {
+        store.set(key, record);
+        ttls.push(ttlMs);
+      },
+      delete: async key => {
+        store.delete(key);
+      }
+    };
+    const api = installCountingFetch();
+    try {
+      const oli = new OLIClient({
+        api: { enableCache: true, cacheTtl: 1000, staleWhileRevalidate: 500, apiKey: 'key', cacheAdapter: adapter }
+      });
+      await oli.api.getLabels({ address: '0xabc' });
+      await oli.api.getLabels({ address: '0xabc' });
+      assert.equal(api.calls, 1);
+      assert.deepEqual(ttls, [1500]);
+
+      // Expired past the stale window: entry is dropped and refetched
+      const [key] = store.keys();
+      store.set(key, { ...store.get(key)!, timestamp: Date.now() - 2000 });
+      assert.equal((await oli.api.getLabels({ address: '0xabc' })).count, 2);
+      assert.equal(api.calls, 2);
+    } finally {
+      api.restore();
+    }
+  });
+
+  test('a failing adapter falls back to network requests', async () => {
+    const adapter: CacheAdapter = {
+      get: () => {
+        throw new Error('unavailable');
+      },
+      set: async () => {
+        throw new Error('unavailable');
+      },
+      delete: () => undefined
+    };
+    const api = installCountingFetch();
+    try {
+      const oli = new OLIClient({ api: { enableCache: true, cacheTtl: 1000, apiKey: 'key', cacheAdapter: adapter } });
+      assert.equal((await oli.api.getLabels({ address: '0xabc' })).count, 1);
+      assert.equal((await oli.api.getLabels({ address: '0xabc' })).count, 2);
+    } finally {
+      api.restore();
+    }
+  });
+
+  test('memory adapter evicts by estimated size', async () => {
+    const cache = createMemoryCacheAdapter({ maxBytes: 20 });
+    await cache.set('a', { timestamp: Date.now(), data: 'aaaaaaaa' }, 1000);
+    await cache.set('b', { timestamp: Date.now(), data: 'bbbbbbbb' }, 1000);
+    await cache.set('c', { timestamp: Date.now(), data: 'cccccccc' }, 1000);
+    await cache.set('huge', { timestamp: Date.now(), data: 'x'.repeat(100) }, 1000);
+
+    assert.deepEqual(await cache.keys?.(), ['b', 'c']);
+  });
+
+  test('per-endpoint TTL overrides the default TTL', async () => {
+    const api = installCountingFetch();
+    try {
+      const oli = new OLIClient({
+        api: { enableCache: true, cacheTtl: 60_000, endpointCacheTtl: { '/labels': 0 }, apiKey: 'key' }
+      });
+      await oli.api.getLabels({ address: '0xabc' });
+      await oli.api.getLabels({ address: '0xabc' });
+      assert.equal(api.calls, 2);
+    } finally {
+      api.restore();
+    }
+  });
+
+  test('invalidate and clearCache remove cached responses', async () => {
+    const api = installCountingFetch();
+    try {
+      const oli = new OLIClient({ api: { enableCache: true, cacheTtl: 60_000, apiKey: 'key' } });
+      await oli.api.getLabels({ address: '0xAbC' });
+      await oli.api.getLabels({ address: '0xdef' });
+      assert.equal(api.calls, 2);
+
+      assert.equal(await oli.api.invalidateAddress('0xabc'), 1);
+      await oli.api.getLabels({ address: '0xAbC' });
+      await oli.api.getLabels({ address: '0xdef' });
+      assert.equal(api.calls, 3);
+
+      assert.equal(await oli.api.invalidate(/0xdef/), 1);
+      assert.equal(await oli.api.invalidate('address-search:'), 0);
+
+      await oli.api.clearCache();
+      await oli.api.getLabels({ address: '0xAbC' });
+      assert.equal(api.calls, 4);
+    } finally {
+      api.restore();
+    }
+  });
+
+  test('invalidateAddress drops cached attestations behind address summaries', async () => {
+    let project = 'uniswap';
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = (async () =>
+      new Response(
+        JSON.stringify({
+          count: 1,
+          attestations: [
+            {
+              uid: '0x01',
+              time: '2026-01-01T00:00:00Z',
+              chain_id: 'eip155:8453',
+              attester: '0x1111111111111111111111111111111111111111',
+              recipient: '0xAbC',
+              revoked: false,
+              is_offchain: true,
+              ipfs_hash: null,
+              schema_info: '8453__0xschema',
+              tags_json: { owner_project: project }
+            }
+          ]
+        })
+      )) as typeof fetch;
+    try {
+      const oli = new OLIClient({ api: { enableCache: true, cacheTtl: 60_000 } });
+      assert.equal((await oli.api.getAddressSummary('0xAbC'))?.project, 'uniswap');
+
+      project = 'curve';
+      assert.equal((await oli.api.getAddressSummary('0xAbC'))?.project, 'uniswap');
+      assert.equal(await oli.api.invalidateAddress('0xabc'), 1);
+      assert.equal((await oli.api.getAddressSummary('0xAbC'))?.project, 'curve');
+      assert.equal((await oli.api.getBestLabelForAddress('0xAbC'))?.owner_project, 'curve');
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  test('invalidate requires an adapter that lists keys', async () => {
+    const adapter: CacheAdapter = { get: () => undefined, set: () => undefined, delete: () => undefined };
+    const oli = new OLIClient({ api: { cacheAdapter: adapter } });
+    await assert.rejects(oli.api.invalidate('labels:'), /does not support keys/);
+  });
+});
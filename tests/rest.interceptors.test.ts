@@ -0,0 +1,169 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  OLIClient,
+  RestAPIError,
+  createLoggingInterceptor,
+  createMetricsInterceptor,
+  createProxyHandler
+} from '../src';
+import type { RestInterceptor } from '../src';
+
+function installFetch(handler: (url: string, init?: RequestInit) => Response) {
+  const calls: Array<{ url: string; headers: Record<string, string> }> = [];
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (async (input: string | URL | Request, init?: RequestInit) => {
+    const url = String(input);
+    calls.push({ url, headers: (init?.headers ?? {}) as Record<string, string> });
+    return handler(url, init);
+  }) as typeof fetch;
+  return {
+    calls,
+    restore() {
+      globalThis.fetch = originalFetch;
+    }
+  };
+}
+
+const labels = () => new Response(JSON.stringify({ address: '0xabc', count: 0, labels: [] }), { status: 200 });
+
+test.describe('REST interceptors', () => {
+  test('onRequest can add headers and rewrite URLs; onResponse can replace data', async () => {
+    const api = installFetch(labels);
+    try {
+      const order: string[] = [];
+      const tracing: RestInterceptor = {
+        onRequest(request) {
+          order.push('tracing');
+          request.headers['x-trace-id'] = 'trace-1';
+        }
+      };
+      const gateway: RestInterceptor = {
+        onRequest(request) {
+          order.push('gateway');
+          return { ...request, url: request.url.replace('https://api.openlabelsinitiative.org', 'https://gateway.test/oli') };
+        },
+        onResponse(response) {
+          return { ...response, data: { ...(response.data as object), count: 42 } };
+        }
+      };
+
+      const oli = new OLIClient({ api: { apiKey: 'key', interceptors: [tracing, gateway] } });
+      const result = await oli.api.getLabels({ address: '0xabc' });
+
+      assert.deepEqual(order, ['tracing', 'gateway']);
+      assert.ok(api.calls[0].url.startsWith('https://gateway.test/oli/labels'));
+      assert.equal(api.calls[0].headers['x-trace-id'], 'trace-1');
+      assert.equal(result.count, 42);
+    } finally {
+      api.restore();
+    }
+  });
+
+  test('onRequest can short-circuit and onError can recover', async () => {
+    const api = installFetch(() => new Response('boom', { status: 500 }));
+    try {
+      const oli = new OLIClient({ api: { apiKey: 'key' } });
+      const remove = oli.api.use({
+        onRequest: request =>
+          request.url.includes('cached') ? { respondWith: { address: 'cached', count: 0, labels: [] } } : undefined
+      });
+      assert.equal((await oli.api.getLabels({ address: 'cached' })).address, 'cached');
+      assert.equal(api.calls.length, 0);
+      remove();
+
+      const invalid = oli.api.use({ onRequest: () => ({ respondWith: { address: 'cached' } }) });
+      await assert.rejects(oli.api.getLabels({ address: 'cached' }), /Invalid labels response/);
+      invalid();
+
+      oli.api.use({
+        onError: ({ error }) =>
+          error instanceof RestAPIError && error.status === 500 ? { respondWith: { address: '0xabc', count: 0, labels: [] } } : undefined
+      });
+      assert.deepEqual(await oli.api.getLabels({ address: '0xabc' }), { address: '0xabc', count: 0, labels: [] });
+    } finally {
+      api.restore();
+    }
+  });
+
+  test('logging interceptor redacts credentials and metrics count requests', async () => {
+    const api = installFetch(url => (url.includes('missing') ? new Response('nope', { status: 404 }) : labels()));
+    try {
+      const lines: unknown[][] = [];
+      const logger = { info: (...args: unknown[]) => lines.push(args), error: (...args: unknown[]) => lines.push(args) };
+      const metrics = createMetricsInterceptor();
+      const oli = new OLIClient({
+        api: { apiKey: 'secret-key', interceptors: [createLoggingInterceptor({ logger, logHeaders: true }), metrics] }
+      });
+
+      await oli.api.getLabels({ address: '0xabc' });
+      await assert.rejects(oli.api.getLabels({ address: 'missing' }), RestAPIError);
+
+      assert.ok(!JSON.stringify(lines).includes('secret-key'));
+      assert.deepEqual((lines[0][1] as Record<string, string>)['x-api-key'], '[REDACTED]');
+      assert.match(String(lines[1][0]), /← 200 GET .*\/labels/);
+      assert.match(String(lines[3][0]), /✕ 404/);
+
+      const entry = metrics.getMetrics()['GET /labels'];
+      assert.equal(entry.count, 2);
+      assert.equal(entry.errors, 1);
+      assert.deepEqual(entry.statuses, { 200: 1, 404: 1 });
+      metrics.reset();
+      assert.deepEqual(metrics.getMetrics(), {});
+    } finally {
+      api.restore();
+    }
+  });
+
+  test('proxy handler runs the same hooks', async () => {
+    const api = installFetch(() =>
+      new Response(JSON.stringify({ count: 1 }), { status: 200, headers: { 'content-type': 'application/json' } })
+    );
+    const handler = createProxyHandler({
+      apiKey: 'key',
+      baseUrl: 'https://upstream.test',
+      interceptors: [
+        {
+          onRequest(request) {
+            if (request.url.endsWith('/blocked')) {
+              return { respondWith: { error: 'blocked' }, status: 403 };
+            }
+            request.headers['x-trace-id'] = 'proxy';
+          },
+          onResponse: response => ({ ...response, data: { ...(response.data as object), proxied: true } })
+        }
+      ]
+    });
+
+    const send = async (url: string) => {
+      const res = {
+        statusCode: 0,
+        headers: {} as Record<string, string>,
+        body: '',
+        setHeader(key: string, value: string) {
+          this.headers[key] = value;
+        },
+        end(chunk?: string | Uint8Array) {
+          this.body = chunk === undefined ? '' : Buffer.from(chunk).toString('utf8');
+        }
+      };
+      await handler({ url, method: 'GET', headers: {} } as never, res as never);
+      return res;
+    };
+
+    try {
+      const ok = await send('/labels?address=0xabc');
+      assert.equal(ok.statusCode, 200);
+      assert.deepEqual(JSON.parse(ok.body), { count: 1, proxied: true });
+      assert.equal(api.calls[0].headers['x-trace-id'], 'proxy');
+      assert.equal(api.calls[0].headers['x-api-key'], 'key');
+
+      const blocked = await send('/blocked');
+      assert.equal(blocked.statusCode, 403);
+      assert.deepEqual(JSON.parse(blocked.body), { error: 'blocked' });
+      assert.equal(api.calls.length, 1);
+    } finally {
+      api.restore();
+    }
+  });
+});
@@ -0,0 +1,145 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { OLIClient } from '../src';
+import type { RestAttestationRecord } from '../src';
+
+function createRecord(index: number, time: string): RestAttestationRecord {
+  return {
+    uid: `0x${index.toString(16).padStart(64, '0')}`,
+    time,
+    chain_id: 'eip155:8453',
+    attester: '0x1111111111111111111111111111111111111111',
+    recipient: '0xabc',
+    revoked: false,
+    is_offchain: true,
+    ipfs_hash: null,
+    schema_info: '8453__0xschema',
+    tags_json: { owner_project: `project-${index}` }
+  };
+}
+
+// Fake /attestations endpoint with an exclusive `since` filter and ascending order
+function installFakeApi(records: RestAttestationRecord[]) {
+  const requests: URL[] = [];
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (async (input: string | URL | Request) => {
+    const url = new URL(String(input));
+    requests.push(url);
+    const since = url.searchParams.get('since');
+    const limit = Number(url.searchParams.get('limit') ?? 30);
+    const page = records
+      .filter(record => !since || new Date(record.time).getTime() > new Date(since).getTime())
+      .sort((a, b) => new Date(a.time).getTime() - new Date(b.time).getTime())
+      .slice(0, limit);
+    return new Response(JSON.stringify({ count: page.length, attestations: page }));
+  }) as typeof fetch;
+
+  return {
+    requests,
+    restore() {
+      globalThis.fetch = originalFetch;
+    }
+  };
+}
+
+const RECORDS = [
+  createRecord(1, '2025-01-01T00:00:00Z'),
+  createRecord(2, '2025-01-02T00:00:00Z'),
+  createRecord(3, '2025-01-02T00:00:00Z'),
+  createRecord(4, '2025-01-03T00:00:00Z'),
+  createRecord(5, '2025-01-04T00:00:00Z')
+];
+
+test.describe('attestation pagination', () => {
+  test('pages with the since watermark and de-duplicates by uid', async () => {
+    const api = installFakeApi(RECORDS);
+    try {
+      const oli = new OLIClient();
+      const uids: string[] = [];
+      for await (const attestation of oli.api.iterateAttestations({}, { pageSize: 2 })) {
+        uids.push(attestation.uid);
+      }
+
+      assert.deepEqual(uids, RECORDS.map(record => record.uid));
+      assert.equal(api.requests[0].searchParams.get('order'), 'asc');
+      assert.equal(api.requests[0].searchParams.get('limit'), '2');
+      assert.equal(api.requests[1].searchParams.get('since'), '2025-01-01T23:59:59.000Z');
+    } finally {
+      api.restore();
+    }
+  });
+
+  test('throws instead of skipping records when a full page shares one second', async () => {
+    const crowded = Array.from({ length: 1001 }, (_, index) => createRecord(index + 10, '2025-01-05T00:00:00Z'));
+    const api = installFakeApi([...RECORDS, ...crowded]);
+    try {
+      const oli = new OLIClient();
+      let count = 0;
+      await assert.rejects(async () => {
+        for await (const attestation of oli.api.iterateAttestations({ since: '2025-01-03T12:00:00Z' }, { pageSize: 500 })) {
+          assert.ok(attestation.uid);
+          count += 1;
+        }
+      }, /More than 1000 attestations were created in the second before 2025-01-04T23:59:59.000Z/);
+      assert.equal(count, 1001);
+    } finally {
+      api.restore();
+    }
+  });
+
+  test('honours until and maxItems', async () => {
+    const api = installFakeApi(RECORDS);
+    try {
+      const oli = new OLIClient();
+      const untilUids: string[] = [];
+      for await (const attestation of oli.api.iterateAttestations({ until: '2025-01-02T12:00:00Z' }, { pageSize: 2 })) {
+        untilUids.push(attestation.uid);
+      }
+      assert.equal(untilUids.length, 3);
+
+      const limited: string[] = [];
+      for await (const attestation of oli.api.iterateAttestations({}, { pageSize: 2, maxItems: 4 })) {
+        limited.push(attestation.uid);
+      }
+      assert.equal(limited.length, 4);
+    } finally {
+      api.restore();
+    }
+  });
+
+  test('stops when the signal is aborted', async () => {
+    const api = installFakeApi(RECORDS);
+    try {
+      const oli = new OLIClient();
+      const controller = new AbortController();
+      const seen: string[] = [];
+
+      await assert.rejects(async () => {
+        for await (const attestation of oli.api.iterateAttestations({}, { pageSize: 2, signal: controller.signal })) {
+          seen.push(attestation.uid);
+          controller.abort();
+        }
+      });
+      assert.equal(seen.length, 1);
+    } finally {
+      api.restore();
+    }
+  });
+
+  test('iterateSearchAttestations applies tag filters across pages', async () => {
+    const api = installFakeApi(RECORDS);
+    try {
+      const oli = new OLIClient();
+      const matches: string[] = [];
+      for await (const attestation of oli.api.iterateSearchAttestations(
+        { tagKey: 'owner_project', tagValue: 'project-4' },
+        { pageSize: 2 }
+      )) {
+        matches.push(attestation.uid);
+      }
+      assert.deepEqual(matches, [RECORDS[3].uid]);
+    } finally {
+      api.restore();
+    }
+  });
+});
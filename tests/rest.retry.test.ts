@@ -0,0 +1,133 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { OLIClient, RestAPIError } from '../src';
+import { TokenBucketRateLimiter, computeRetryDelay, parseRateLimitHeaders, parseRetryAfter } from '../src/rateLimit';
+
+function installFetch(responses: Array<() => Response | Promise<Response>>) {
+  const times: number[] = [];
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (async () => {
+    times.push(Date.now());
+    const next = responses[Math.min(times.length - 1, responses.length - 1)];
+    return next();
+  }) as typeof fetch;
+  return {
+    times,
+    restore() {
+      globalThis.fetch = originalFetch;
+    }
+  };
+}
+
+const ok = () => new Response(JSON.stringify({ address: '0xabc', count: 0, labels: [] }));
+
+test.describe('REST retries and rate limits', () => {
+  test('computes exponential delays capped at maxDelayMs', () => {
+    const backoff = { initialDelayMs: 100, multiplier: 2, maxDelayMs: 300, jitter: false };
+    assert.deepEqual([0, 1, 2, 3].map(attempt => computeRetryDelay(attempt, backoff)), [100, 200, 300, 300]);
+    assert.equal(computeRetryDelay(0, backoff, 5000), 5000);
+    assert.equal(computeRetryDelay(0, backoff, 4 * 3600_000), 60_000);
+    assert.equal(computeRetryDelay(0, { ...backoff, maxRetryAfterMs: 1000 }, 5000), 1000);
+    assert.equal(computeRetryDelay(0, { ...backoff, respectRetryAfter: false }, 5000), 100);
+
+    const jittered = computeRetryDelay(1, { ...backoff, jitter: true });
+    assert.ok(jittered >= 100 && jittered <= 200);
+  });
+
+  test('parses Retry-After and rate-limit headers', () => {
+    const now = Date.parse('2026-01-01T00:00:00Z');
+    assert.equal(parseRetryAfter('2', now), 2000);
+    assert.equal(parseRetryAfter('Thu, 01 Jan 2026 00:00:05 GMT', now), 5000);
+    assert.equal(parseRetryAfter('soon', now), null);
+
+    const info = parseRateLimitHeaders(
+      new Headers({ 'Retry-After': '1', 'X-RateLimit-Limit': '100', 'X-RateLimit-Remaining': '0', 'X-RateLimit-Reset': '30' }),
+      now
+    );
+    assert.deepEqual(info, { limit: 100, remaining: 0, reset: new Date(now + 30_000), retryAfterMs: 1000 });
+  });
+
+  test('retries 429 responses after Retry-After', async () => {
+    const api = installFetch([
+      () => new Response('slow down', { status: 429, headers: { 'Retry-After': '0.05' } }),
+      ok
+    ]);
+    try {
+      const oli = new OLIClient({ api: { apiKey: 'key', retries: 1 } });
+      const result = await oli.api.getLabels({ address: '0xabc' });
+      assert.equal(result.address, '0xabc');
+      assert.equal(api.times.length, 2);
+      assert.ok(api.times[1] - api.times[0] >= 45);
+    } finally {
+      api.restore();
+    }
+  });
+
+  test('does not retry client errors and exposes rate-limit headers', async () => {
+    const api = installFetch([
+      () => new Response('{"detail":"nope"}', { status: 429, headers: { 'X-RateLimit-Remaining': '0', 'Retry-After': '0' } })
+    ]);
+    try {
+      const oli = new OLIClient({ api: { apiKey: 'key', retries: 2, retryBackoff: { initialDelayMs: 1 } } });
+      await assert.rejects(oli.api.getLabels({ address: '0xabc' }), (error: unknown) => {
+        assert.ok(error instanceof RestAPIError);
+        assert.equal(error.status, 429);
+        assert.equal(error.rateLimit?.remaining, 0);
+        assert.equal(error.rateLimit?.retryAfterMs, 0);
+        return true;
+      });
+      assert.equal(api.times.length, 3);
+
+      api.times.length = 0;
+      globalThis.fetch = (async () => {
+        api.times.push(Date.now());
+        return new Response('missing', { status: 404 });
+      }) as typeof fetch;
+      await assert.rejects(oli.api.getLabels({ address: '0xdef' }), RestAPIError);
+      assert.equal(api.times.length, 1);
+    } finally {
+      api.restore();
+    }
+  });
+
+  test('retries network failures with backoff', async () => {
+    const api = installFetch([
+      () => {
+        throw new TypeError('fetch failed');
+      },
+      ok
+    ]);
+    try {
+      const oli = new OLIClient({ api: { apiKey: 'key', retries: 1, retryBackoff: { initialDelayMs: 1 } } });
+      assert.equal((await oli.api.getLabels({ address: '0xabc' })).count, 0);
+      assert.equal(api.times.length, 2);
+    } finally {
+      api.restore();
+    }
+  });
+
+  test('token bucket throttles requests beyond the burst', async () => {
+    const limiter = new TokenBucketRateLimiter({ requests: 2, intervalMs: 100 });
+    const start = Date.now();
+    await Promise.all([limiter.acquire(), limiter.acquire(), limiter.acquire()]);
+    assert.ok(Date.now() - start >= 40);
+
+    const controller = new AbortController();
+    const pending = limiter.acquire(controller.signal);
+    controller.abort();
+    await assert.rejects(pending);
+    await limiter.acquire();
+  });
+
+  test('applies the configured rate limit to requests', async () => {
+    const api = installFetch([ok]);
+    try {
+      const oli = new OLIClient({ api: { apiKey: 'key', rateLimit: { requests: 1, intervalMs: 50 } } });
+      await oli.api.getLabels({ address: '0x1' });
+      await oli.api.getLabels({ address: '0x2' });
+      assert.ok(api.times[1] - api.times[0] >= 40);
+    } finally {
+      api.restore();
+    }
+  });
+});
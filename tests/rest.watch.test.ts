@@ -0,0 +1,289 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { OLIClient } from '../src';
+import type { RestAttestationRecord, WatchCheckpoint, WatchEvent } from '../src';
+
+const ADDRESS = '0x52908400098527886E0F7030069857D2E4169EE7';
+const OTHER_ADDRESS = '0x8617E340B3D01FA5F11F306F4090FD50E238070D';
+const ATTESTER = '0x1111111111111111111111111111111111111111';
+const DAY = 86400;
+
+function createRecord(index: number, time: string, overrides: Partial<RestAttestationRecord> = {}): RestAttestationRecord {
+  return {
+    uid: `0x${index.toString(16).padStart(64, '0')}`,
+    time,
+    chain_id: 'eip155:8453',
+    attester: ATTESTER,
+    recipient: ADDRESS,
+    revoked: false,
+    is_offchain: true,
+    ipfs_hash: null,
+    schema_info: '8453__0xschema',
+    tags_json: { owner_project: `project-${index}` },
+    ...overrides
+  };
+}
+
+// Fake /attestations endpoint with exclusive `since`, `recipient`, and `attester` filters
+function installFakeApi(records: RestAttestationRecord[], options: { failures?: number } = {}) {
+  const requests: URL[] = [];
+  let failures = options.failures ?? 0;
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (async (input: string | URL | Request) => {
+    const url = new URL(String(input));
+    requests.push(url);
+    if (failures > 0) {
+      failures -= 1;
+      return new Response(JSON.stringify({ detail: 'unavailable' }), { status: 503 });
+    }
+    const since = url.searchParams.get('since');
+    const recipient = url.searchParams.get('recipient');
+    const attester = url.searchParams.get('attester');
+    const limit = Number(url.searchParams.get('limit') ?? 30);
+    const page = records
+      .filter(record => !since || new Date(record.time).getTime() > new Date(since).getTime())
+      .filter(record => !recipient || record.recipient?.toLowerCase() === recipient.toLowerCase())
+      .filter(record => !attester || record.attester.toLowerCase() === attester.toLowerCase())
+      .sort((a, b) => new Date(a.time).getTime() - new Date(b.time).getTime())
+      .slice(0, limit);
+    return new Response(JSON.stringify({ count: page.length, attestations: page }));
+  }) as typeof fetch;
+
+  return {
+    requests,
+    restore() {
+      globalThis.fetch = originalFetch;
+    }
+  };
+}
+
+// Resolve once `count` events were collected
+function collectEvents(count: number) {
+  const events: WatchEvent[] = [];
+  let resolve: () => void = () => {};
+  const reached = new Promise<void>(done => {
+    resolve = done;
+  });
+  return {
+    events,
+    reached,
+    onEvent(event: WatchEvent) {
+      events.push(event);
+      if (events.length >= count) resolve();
+    }
+  };
+}
+
+const FAST = { intervalMs: 5, maxIntervalMs: 20, lookback: 10 * DAY };
+
+test.describe('attestation watcher', () => {
+  test('reports labels created after the start and later revocations', async () => {
+    const records = [
+      createRecord(1, '2025-01-01T00:00:00Z'),
+      createRecord(2, '2025-01-02T00:00:00Z'),
+      createRecord(3, '2025-01-03T00:00:00Z')
+    ];
+    const api = installFakeApi(records);
+    try {
+      const oli = new OLIClient();
+      const created = collectEvents(1);
+      const checkpoints: WatchCheckpoint[] = [];
+      const watcher = oli.api.watch({}, event => created.onEvent(event), {
+        ...FAST,
+        since: '2025-01-02T12:00:00Z',
+        onCheckpoint: checkpoint => {
+          checkpoints.push(checkpoint);
+        }
+      });
+
+      await created.reached;
+      records[1] = { ...records[1], revoked: true };
+      records.push(createRecord(4, '2025-01-04T00:00:00Z', { revoked: true }));
+      while (created.events.length < 3) {
+        await new Promise(resolve => setTimeout(resolve, 5));
+      }
+      watcher.stop();
+      await watcher.done;
+
+      assert.deepEqual(created.events.map(event => [event.type, event.attestation.uid]), [
+        ['created', records[2].uid],
+        ['revoked', records[1].uid],
+        ['revoked', records[3].uid]
+      ]);
+      assert.equal(api.requests[0].searchParams.get('since'), '2024-12-23T12:00:00.000Z');
+      assert.equal(created.events[2].checkpoint.since, '2025-01-04T00:00:00Z');
+      assert.equal(watcher.checkpoint().since, '2025-01-04T00:00:00Z');
+      assert.deepEqual(checkpoints.at(-1), watcher.checkpoint());
+    } finally {
+      api.restore();
+    }
+  });
+
+  test('resumes from a persisted checkpoint without repeating events', async () => {
+    const records = [createRecord(1, '2025-01-01T00:00:00Z'), createRecord(2, '2025-01-02T00:00:00Z')];
+    const api = installFakeApi(records);
+    try {
+      const oli = new OLIClient();
+      const first = collectEvents(2);
+      const firstWatcher = oli.api.watch({}, event => first.onEvent(event), { ...FAST, since: '2025-01-01T00:00:00Z' });
+      await first.reached;
+      firstWatcher.stop();
+      await firstWatcher.done;
+
+      const persisted = JSON.parse(JSON.stringify(firstWatcher.checkpoint())) as WatchCheckpoint;
+      records.push(createRecord(3, '2025-01-03T00:00:00Z'));
+
+      const second = collectEvents(1);
+      const secondWatcher = oli.api.watch({}, event => second.onEvent(event), { ...FAST, checkpoint: persisted });
+      await second.reached;
+      await new Promise(resolve => setTimeout(resolve, 30));
+      secondWatcher.stop();
+      await secondWatcher.done;
+
+      assert.deepEqual(first.events.map(event => event.attestation.uid), [records[0].uid, records[1].uid]);
+      assert.deepEqual(second.events.map(event => [event.type, event.attestation.uid]), [['created', records[2].uid]]);
+    } finally {
+      api.restore();
+    }
+  });
+
+  test('re-reads at least the watermark second when lookback is 0', async () => {
+    const records = [createRecord(1, '2025-01-01T00:00:00Z')];
+    const api = installFakeApi(records);
+    try {
+      const oli = new OLIClient();
+      const received = collectEvents(1);
+      const watcher = oli.api.watch({}, event => received.onEvent(event), { ...FAST, lookback: 0, since: '2024-12-31T23:00:00Z' });
+      await received.reached;
+      records.push(createRecord(2, '2025-01-01T00:00:00Z'));
+      for (let attempt = 0; attempt < 100 && received.events.length < 2; attempt += 1) {
+        await new Promise(resolve => setTimeout(resolve, 5));
+      }
+      watcher.stop();
+      await watcher.done;
+
+      assert.deepEqual(received.events.map(event => event.attestation.uid), [records[0].uid, records[1].uid]);
+      assert.equal(api.requests.at(-1)?.searchParams.get('since'), '2024-12-31T23:59:59.000Z');
+    } finally {
+      api.restore();
+    }
+  });
+
+  test('filters by address, attester, and tag', async () => {
+    const records = [
+      createRecord(1, '2025-01-01T00:00:00Z', { tags_json: { usage_category: 'dex' } }),
+      createRecord(2, '2025-01-02T00:00:00Z', { recipient: OTHER_ADDRESS, tags_json: { usage_category: 'dex' } }),
+      createRecord(3, '2025-01-03T00:00:00Z', { recipient: '0xdead', tags_json: { usage_category: 'dex' } }),
+      createRecord(4, '2025-01-04T00:00:00Z')
+    ];
+    const api = installFakeApi(records);
+    try {
+      const oli = new OLIClient();
+      const single = collectEvents(2);
+      const singleWatcher = oli.api.watch({ addresses: [ADDRESS.toLowerCase()], attester: ATTESTER }, event => single.onEvent(event), {
+        ...FAST,
+        since: 0
+      });
+      await single.reached;
+      singleWatcher.stop();
+      await singleWatcher.done;
+
+      assert.deepEqual(single.events.map(event => event.attestation.uid), [records[0].uid, records[3].uid]);
+      assert.equal(api.requests[0].searchParams.get('recipient'), ADDRESS.toLowerCase());
+      assert.equal(api.requests[0].searchParams.get('attester'), ATTESTER);
+
+      const tagged = collectEvents(2);
+      const taggedWatcher = oli.api.watch({ addresses: [ADDRESS, OTHER_ADDRESS], tagId: 'usage_category' }, event => tagged.onEvent(event), {
+        ...FAST,
+        since: 0
+      });
+      await tagged.reached;
+      taggedWatcher.stop();
+      await taggedWatcher.done;
+
+      assert.deepEqual(tagged.events.map(event => event.attestation.uid), [records[0].uid, records[1].uid]);
+      assert.equal(api.requests.at(-1)?.searchParams.get('recipient'), null);
+    } finally {
+      api.restore();
+    }
+  });
+
+  test('backs off while idle or failing and recovers', async () => {
+    const api = installFakeApi([createRecord(1, '2025-01-01T00:00:00Z')], { failures: 2 });
+    try {
+      const oli = new OLIClient({ api: { retries: 0 } });
+      const errors: unknown[] = [];
+      const received = collectEvents(1);
+      const watcher = oli.api.watch({}, event => received.onEvent(event), {
+        intervalMs: 10,
+        maxIntervalMs: 1000,
+        backoffFactor: 4,
+        since: 0,
+        onError: error => errors.push(error)
+      });
+
+      await received.reached;
+      const requestsAtEvent = api.requests.length;
+      await new Promise(resolve => setTimeout(resolve, 250));
+      watcher.stop();
+      await watcher.done;
+
+      assert.equal(errors.length, 2);
+      assert.equal(requestsAtEvent, 3);
+      // Polls after the event wait 10, 10, 40, then 160 ms, so at most four more requests fit in 250 ms
+      assert.ok(api.requests.length - requestsAtEvent <= 4, `made ${api.requests.length - requestsAtEvent} idle requests`);
+    } finally {
+      api.restore();
+    }
+  });
+
+  test('keeps polling when onError throws', async () => {
+    const api = installFakeApi([createRecord(1, '2025-01-01T00:00:00Z')], { failures: 1 });
+    try {
+      const oli = new OLIClient({ api: { retries: 0 } });
+      const received = collectEvents(1);
+      const watcher = oli.api.watch({}, event => received.onEvent(event), {
+        ...FAST,
+        since: 0,
+        onError: () => {
+          throw new Error('onError failed');
+        }
+      });
+
+      await received.reached;
+      watcher.stop();
+      await watcher.done;
+
+      assert.equal(received.events[0].attestation.uid, createRecord(1, '2025-01-01T00:00:00Z').uid);
+    } finally {
+      api.restore();
+    }
+  });
+
+  test('redelivers an event whose handler threw and stops on abort', async () => {
+    const api = installFakeApi([createRecord(1, '2025-01-01T00:00:00Z')]);
+    try {
+      const oli = new OLIClient();
+      const controller = new AbortController();
+      const attempts: string[] = [];
+      const errors: unknown[] = [];
+      const watcher = oli.api.watch(
+        {},
+        event => {
+          attempts.push(event.attestation.uid);
+          if (attempts.length === 1) throw new Error('handler failed');
+          controller.abort();
+        },
+        { ...FAST, since: 0, signal: controller.signal, onError: error => errors.push(error) }
+      );
+
+      await watcher.done;
+
+      assert.equal(attempts.length, 2);
+      assert.equal(attempts[0], attempts[1]);
+      assert.match(String(errors[0]), /handler failed/);
+    } finally {
+      api.restore();
+    }
+  });
+});
@@ -0,0 +1,123 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import ts from 'typescript';
+import { buildTagZodSchema, generateTagSchemaSource, parseTagDefinitionsYaml } from '../src';
+
+const TAG_DEFINITIONS_YAML = `
+version: 1.0.0
+tags:
+  - tag_id: contract_name
+    name: Contract Name
+    description: The name of the contract.
+    schema:
+      type: string
+      maxLength: 66
+  - tag_id: is_eoa
+    name: Is EOA
+    description: Whether the address is an externally owned account.
+    schema:
+      type: boolean
+  - tag_id: deployment_block
+    name: Deployment Block
+    description: Block the contract was deployed in.
+    schema:
+      type: integer
+      minimum: 0
+  - tag_id: deployment_tx
+    name: Deployment Transaction
+    description: Hash of the deployment transaction.
+    schema:
+      type: string
+      pattern: "^0x[a-fA-F0-9]{64}$"
+  - tag_id: erc_type
+    name: ERC Type
+    description: ERC standards implemented by the contract.
+    schema:
+      type: array
+      items:
+        type: string
+        enum: [erc20, erc721]
+      minItems: 1
+  - tag_id: erc20.symbol
+    name: ERC20 Symbol
+    description: Token symbol.
+    schema:
+      type: string
+  - tag_id: usage_category
+    name: Usage Category
+    description: Category of the contract.
+    schema:
+      type: string
+`;
+
+test.describe('tag schema generator', () => {
+  const definitions = parseTagDefinitionsYaml(TAG_DEFINITIONS_YAML);
+  const valueSets = { usage_category: ['dex', 'bridge'] };
+
+  test('parses YAML into normalized definitions', () => {
+    assert.equal(definitions.contract_name.display_name, 'Contract Name');
+    assert.throws(() => parseTagDefinitionsYaml('version: 1'), /tags/);
+  });
+
+  test('emits a typed interface with enums from schemas and value sets', () => {
+    const source = generateTagSchemaSource(definitions, { valueSets });
+
+    assert.match(source, /export type OLITags = \{/);
+    assert.match(source, /\/\*\* Contract Name — The name of the contract\. \*\/\n {2}contract_name\?: string;/);
+    assert.match(source, /deployment_block\?: number;/);
+    assert.match(source, /erc_type\?: Array<"erc20" \| "erc721">;/);
+    assert.match(source, /"erc20\.symbol"\?: string;/);
+    assert.match(source, /usage_category\?: "dex" \| "bridge";/);
+    assert.match(source, /deployment_tx: z\.string\(\)\.regex\(new RegExp\("\^0x\[a-fA-F0-9\]\{64\}\$", "u"\)\)/);
+    assert.match(source, /export const oliTagsSchema = z\.object\(oliTagSchemas\)\.partial\(\)\.passthrough\(\);/);
+  });
+
+  test('generated module compiles and validates tag maps', async () => {
+    const dir = await mkdtemp(join(process.cwd(), 'node_modules', '.oli-tags-'));
+    try {
+      const file = join(dir, 'oli-tags.ts');
+      await writeFile(file, generateTagSchemaSource(definitions, { valueSets }), 'utf8');
+      const generated = await import(pathToFileURL(file).href);
+
+      assert.equal(generated.oliTagsSchema.safeParse({ usage_category: 'dex', erc_type: ['erc20'], custom: 1 }).success, true);
+      assert.equal(generated.oliTagsSchema.safeParse({ usage_category: 'casino' }).success, false);
+      // Value sets match case-insensitively, like validateTagValues
+      assert.deepEqual(generated.oliTagSchemas.usage_category.safeParse('DEX'), { success: true, data: 'DEX' });
+      assert.equal(generated.oliTagSchemas.erc_type.safeParse(['ERC20']).success, false);
+      assert.equal(generated.oliTagSchemas.deployment_block.safeParse(-1).success, false);
+
+      // The tag type must satisfy OLIClient's `TCustomTags extends Record<string, unknown>`
+      const check = join(dir, 'check.ts');
+      await writeFile(
+        check,
+        "import type { OLITags } from './oli-tags';\n" +
+          'type CustomTags<T extends Record<string, unknown>> = T;\n' +
+          'export type Checked = CustomTags<OLITags>;\n',
+        'utf8'
+      );
+      const program = ts.createProgram([check], { strict: true, noEmit: true, skipLibCheck: true, moduleResolution: ts.ModuleResolutionKind.Node10, types: [] });
+      assert.deepEqual(ts.getPreEmitDiagnostics(program).map(diagnostic => ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')), []);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('builds equivalent runtime zod schemas', () => {
+    const { tags, schema } = buildTagZodSchema(definitions, { valueSets });
+
+    assert.equal(tags.contract_name.safeParse('x'.repeat(67)).success, false);
+    assert.equal(tags.deployment_tx.safeParse(`0x${'a'.repeat(64)}`).success, true);
+    assert.equal(tags.deployment_tx.safeParse('0x1234').success, false);
+    assert.equal(tags.erc_type.safeParse([]).success, false);
+    assert.equal(tags.erc_type.safeParse(['erc1155']).success, false);
+    assert.equal(schema.safeParse({ is_eoa: true, unknown_tag: 'kept' }).success, true);
+    assert.equal(tags.usage_category.safeParse('Bridge').success, true);
+    assert.equal(tags.usage_category.safeParse('casino').success, false);
+    assert.equal(buildTagZodSchema(definitions, { valueSets: { erc_type: ['erc20'] } }).tags.erc_type.safeParse(['ERC20']).success, true);
+    assert.equal(buildTagZodSchema(definitions, { strict: true }).schema.safeParse({ unknown_tag: 1 }).success, false);
+  });
+});
@@ -0,0 +1,310 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  WEBHOOK_SIGNATURE_HEADER,
+  WebhookDispatcher,
+  createWebhookHandler,
+  helpers,
+  signWebhookPayload,
+  verifyWebhookSignature
+} from '../src';
+import type { WatchEvent, WatchOptions, WebhookDeadLetter, WebhookPayload, WebhookSubscription, WebhookWatchSource } from '../src';
+
+const ADDRESS = '0x52908400098527886E0F7030069857D2E4169EE7';
+const OTHER_ADDRESS = '0x8617E340B3D01FA5F11F306F4090FD50E238070D';
+const SECRET = 'whsec_test';
+const FAST_RETRY = { initialDelayMs: 1, multiplier: 1, jitter: false };
+
+function createEvent(uid: string, overrides: { type?: WatchEvent['type']; recipient?: string; tags?: Record<string, unknown> } = {}): WatchEvent {
+  return {
+    type: overrides.type ?? 'created',
+    attestation: helpers.expandRestAttestation({
+      uid,
+      time: '2026-01-01T00:00:00Z',
+      chain_id: 'eip155:8453',
+      attester: '0x1111111111111111111111111111111111111111',
+      recipient: overrides.recipient ?? ADDRESS,
+      revoked: overrides.type === 'revoked',
+      is_offchain: true,
+      ipfs_hash: null,
+      schema_info: '8453__0xschema',
+      tags_json: overrides.tags ?? { usage_category: 'dex', erc_type: ['erc20', 'erc4626'] }
+    }),
+    checkpoint: { since: '2026-01-01T00:00:00Z', seen: {} }
+  };
+}
+
+function subscription(overrides: Partial<WebhookSubscription> = {}): WebhookSubscription {
+  return { id: 'ops', url: 'https://hooks.test/oli', secret: SECRET, ...overrides };
+}
+
+// Webhook endpoint that answers with the queued statuses, then 200
+function installEndpoint(statuses: number[] = []) {
+  const calls: Array<{ url: string; headers: Record<string, string>; body: string }> = [];
+  const fetchImpl = (async (url: string, init: RequestInit) => {
+    calls.push({ url, headers: init.headers as Record<string, string>, body: init.body as string });
+    return new Response(null, { status: statuses.shift() ?? 200 });
+  }) as unknown as typeof fetch;
+  return { calls, fetchImpl };
+}
+
+async function waitFor(condition: () => boolean): Promise<void> {
+  while (!condition()) {
+    await new Promise(resolve => setTimeout(resolve, 2));
+  }
+}
+
+const noopSource: WebhookWatchSource = {
+  watch() {
+    throw new Error('not used');
+  }
+};
+
+test.describe('webhook dispatcher', () => {
+  test('signs payloads and verifies signatures with a timestamp tolerance', async () => {
+    const body = JSON.stringify({ hello: 'world' });
+    const header = await signWebhookPayload(SECRET, body, 1_700_000_000);
+
+    assert.match(header, /^t=1700000000,v1=[0-9a-f]{64}$/);
+    assert.equal(await verifyWebhookSignature(SECRET, body, header, { now: 1_700_000_100 }), true);
+    assert.equal(await verifyWebhookSignature(SECRET, `${body} `, header, { now: 1_700_000_100 }), false);
+    assert.equal(await verifyWebhookSignature('other', body, header, { now: 1_700_000_100 }), false);
+    assert.equal(await verifyWebhookSignature(SECRET, body, header, { now: 1_700_001_000 }), false);
+    assert.equal(await verifyWebhookSignature(SECRET, body, undefined), false);
+  });
+
+  test('delivers signed payloads to subscriptions matching address, tag, and event filters', async () => {
+    const endpoint = installEndpoint();
+    const dispatcher = new WebhookDispatcher(noopSource, {
+      fetch: endpoint.fetchImpl,
+      subscriptions: [
+        subscription({ id: 'tracked', addresses: [ADDRESS.toLowerCase()], headers: { authorization: 'Bearer x' } }),
+        subscription({ id: 'tokens', url: 'https://hooks.test/tokens', tags: [{ tagId: 'erc_type', values: ['ERC4626'] }] }),
+        subscription({ id: 'revocations', url: 'https://hooks.test/revocations', events: ['revoked'] })
+      ]
+    });
+
+    await dispatcher.dispatch(createEvent('0x01'));
+    await dispatcher.dispatch(createEvent('0x02', { recipient: OTHER_ADDRESS, tags: { usage_category: 'dex' } }));
+
+    assert.deepEqual(endpoint.calls.map(call => call.url), ['https://hooks.test/oli', 'https://hooks.test/tokens']);
+    const [call] = endpoint.calls;
+    const payload = JSON.parse(call.body) as WebhookPayload;
+    assert.equal(payload.id, '0x01:created:tracked');
+    assert.equal(payload.type, 'label.created');
+    assert.equal(payload.attestation.usage_category, 'dex');
+    assert.equal(call.headers.authorization, 'Bearer x');
+    assert.equal(call.headers['x-oli-event'], 'label.created');
+    assert.equal(await verifyWebhookSignature(SECRET, call.body, call.headers[WEBHOOK_SIGNATURE_HEADER]), true);
+  });
+
+  test('retries failed deliveries and dead-letters them after maxAttempts', async () => {
+    const endpoint = installEndpoint([500, 503, 200, 500, 500, 500]);
+    const deadLettered: WebhookDeadLetter[] = [];
+    const dispatcher = new WebhookDispatcher(noopSource, {
+      fetch: endpoint.fetchImpl,
+      maxAttempts: 3,
+      retryBackoff: FAST_RETRY,
+      subscriptions: [subscription()],
+      onDeadLetter: entry => deadLettered.push(entry)
+    });
+
+    await dispatcher.dispatch(createEvent('0x01'));
+    await waitFor(() => endpoint.calls.length === 3);
+    assert.equal((await dispatcher.deadLetters()).length, 0);
+
+    await dispatcher.dispatch(createEvent('0x02'));
+    await waitFor(() => deadLettered.length === 1);
+
+    assert.equal(endpoint.calls.length, 6);
+    assert.deepEqual(
+      { id: deadLettered[0].payload.id, attempts: deadLettered[0].attempts, status: deadLettered[0].status },
+      { id: '0x02:created:ops', attempts: 3, status: 500 }
+    );
+    const retried = endpoint.calls.slice(3).map(call => JSON.parse(call.body).id);
+    assert.deepEqual(retried, ['0x02:created:ops', '0x02:created:ops', '0x02:created:ops']);
+
+    assert.equal(await dispatcher.redeliver(), 1);
+    assert.deepEqual(await dispatcher.deadLetters(), []);
+  });
+
+  test('starts the watcher and dead-letters pending retries on stop', async () => {
+    const endpoint = installEndpoint([500]);
+    let watchOptions: WatchOptions | undefined;
+    let stopped = false;
+    let deliver: ((event: WatchEvent) => void | Promise<void>) | undefined;
+    const source: WebhookWatchSource = {
+      watch(filter, onEvent, options) {
+        assert.deepEqual(filter, {});
+        watchOptions = options;
+        deliver = onEvent;
+        return {
+          stop: () => {
+            stopped = true;
+          },
+          done: Promise.resolve(),
+          checkpoint: () => ({ since: '2026-01-02T00:00:00Z', seen: {} })
+        };
+      }
+    };
+    const dispatcher = new WebhookDispatcher(source, {
+      fetch: endpoint.fetchImpl,
+      retryBackoff: { initialDelayMs: 60_000, jitter: false },
+      subscriptions: [subscription()],
+      watch: { intervalMs: 1000 }
+    });
+
+    assert.equal(dispatcher.start(), dispatcher.start());
+    assert.equal(dispatcher.running, true);
+    assert.deepEqual(watchOptions, { intervalMs: 1000 });
+    await deliver!(createEvent('0x01'));
+
+    const checkpoint = await dispatcher.stop();
+
+    assert.equal(stopped, true);
+    assert.equal(dispatcher.running, false);
+    assert.deepEqual(checkpoint, { since: '2026-01-02T00:00:00Z', seen: {} });
+    const [entry] = await dispatcher.deadLetters();
+    assert.equal(entry.payload.id, '0x01:created:ops');
+    assert.match(entry.error, /stopped/);
+  });
+
+  test('createWebhookHandler manages subscriptions and dead letters', async () => {
+    const endpoint = installEndpoint([500]);
+    const dispatcher = new WebhookDispatcher(noopSource, { fetch: endpoint.fetchImpl, maxAttempts: 1 });
+    const handler = createWebhookHandler(dispatcher, { authorize: req => req.headers.authorization === 'Bearer admin' });
+
+    const send = async (method: string, url: string, body?: unknown, authorization = 'Bearer admin') => {
+      const res = {
+        statusCode: 0,
+        headers: {} as Record<string, string>,
+        body: '',
+        setHeader(key: string, value: string) {
+          this.headers[key] = value;
+        },
+        end(chunk?: string) {
+          this.body = chunk ?? '';
+        }
+      };
+      await handler({ url, method, headers: { authorization }, body } as never, res as never);
+      return { status: res.statusCode, json: res.body ? JSON.parse(res.body) : undefined };
+    };
+
+    assert.equal((await send('GET', '/subscriptions', undefined, 'Bearer nope')).status, 401);
+    assert.equal((await send('POST', '/subscriptions', subscription({ id: 'intruder' }), 'Bearer nope')).status, 401);
+    assert.equal((await send('GET', '/dead-letters', undefined, 'Bearer nope')).status, 401);
+    assert.deepEqual(dispatcher.listSubscriptions(), []);
+
+    const created = await send('POST', '/subscriptions', subscription({ addresses: [ADDRESS] }));
+    assert.equal(created.status, 201);
+    assert.equal(created.json.secret, undefined);
+    assert.equal((await send('POST', '/subscriptions', { id: 'bad', url: 'not a url', secret: 'x' })).status, 400);
+    assert.deepEqual((await send('GET', '/subscriptions/')).json, {
+      subscriptions: [{ id: 'ops', url: 'https://hooks.test/oli', addresses: [ADDRESS] }]
+    });
+
+    await dispatcher.dispatch(createEvent('0x01'));
+    const deadLetters = await send('GET', '/dead-letters');
+    assert.deepEqual(deadLetters.json.deadLetters.map((entry: WebhookDeadLetter) => entry.payload.id), ['0x01:created:ops']);
+    assert.deepEqual((await send('POST', '/dead-letters/redeliver', { ids: ['0x01:created:ops'] })).json, { delivered: 1 });
+
+    assert.equal((await send('DELETE', '/subscriptions/ops')).status, 204);
+    assert.equal((await send('DELETE', '/subscriptions/ops')).status, 404);
+    assert.equal((await send('GET', '/unknown')).status, 404);
+  });
+
+  test('rejects malformed subscriptions so one bad body cannot break dispatch', async () => {
+    const endpoint = installEndpoint();
+    const dispatcher = new WebhookDispatcher(noopSource, { fetch: endpoint.fetchImpl, subscriptions: [subscription()] });
+    const handler = createWebhookHandler(dispatcher, { authorize: () => true });
+    const post = async (body: unknown) => {
+      const res = { statusCode: 0, body: '', setHeader() {}, end(chunk?: string) { this.body = chunk ?? ''; } };
+      await handler({ url: '/subscriptions', method: 'POST', headers: {}, body } as never, res as never);
+      return { status: res.statusCode, json: JSON.parse(res.body) };
+    };
+
+    const invalid = [
+      subscription({ id: 'a', addresses: ADDRESS as never }),
+      subscription({ id: 'b', tags: [{ values: ['dex'] }] as never }),
+      subscription({ id: 'c', tags: [{ tagId: 'usage_category', values: 'dex' }] as never }),
+      subscription({ id: 'd', url: 42 as never }),
+      subscription({ id: 'e', secret: { key: 'x' } as never }),
+      subscription({ id: 'f', url: 'javascript:alert(1)' }),
+      subscription({ id: 'g', url: 'file:///etc/passwd' }),
+      [subscription({ id: 'h' })]
+    ];
+    for (const body of invalid) {
+      const response = await post(body);
+      assert.equal(response.status, 400, JSON.stringify(body));
+      assert.match(response.json.error, /^Invalid webhook subscription/);
+    }
+    assert.deepEqual(dispatcher.listSubscriptions().map(entry => entry.id), ['ops']);
+    assert.throws(() => dispatcher.subscribe(subscription({ url: 'ftp://hooks.test/oli' })), /http or https/);
+
+    const created = await post({ ...subscription({ id: 'extra' }), admin: true });
+    assert.equal(created.status, 201);
+    assert.deepEqual(created.json, { id: 'extra', url: 'https://hooks.test/oli' });
+
+    await dispatcher.dispatch(createEvent('0x01'));
+    assert.equal(endpoint.calls.length, 2);
+  });
+
+  test('reports background retry failures through onError', async () => {
+    const endpoint = installEndpoint([500, 500]);
+    const errors: unknown[] = [];
+    const dispatcher = new WebhookDispatcher(noopSource, {
+      fetch: endpoint.fetchImpl,
+      maxAttempts: 2,
+      retryBackoff: FAST_RETRY,
+      subscriptions: [subscription()],
+      deadLetters: {
+        add: async () => {
+          throw new Error('dead-letter store offline');
+        },
+        list: () => [],
+        remove: () => undefined
+      },
+      onError: error => errors.push(error)
+    });
+
+    await dispatcher.dispatch(createEvent('0x01'));
+    await waitFor(() => errors.length === 1);
+
+    assert.match((errors[0] as Error).message, /dead-letter store offline/);
+  });
+
+  test('stop waits for retries in flight and dead-letters them if they fail', async () => {
+    let release: (() => void) | undefined;
+    let calls = 0;
+    const fetchImpl = (async () => {
+      calls += 1;
+      if (calls === 2) {
+        await new Promise<void>(resolve => {
+          release = resolve;
+        });
+      }
+      return new Response(null, { status: 500 });
+    }) as unknown as typeof fetch;
+    const dispatcher = new WebhookDispatcher(noopSource, { fetch: fetchImpl, retryBackoff: FAST_RETRY, subscriptions: [subscription()] });
+
+    await dispatcher.dispatch(createEvent('0x01'));
+    await waitFor(() => release !== undefined);
+    let stopped = false;
+    const stopping = dispatcher.stop().then(() => {
+      stopped = true;
+    });
+    await new Promise(resolve => setTimeout(resolve, 10));
+    assert.equal(stopped, false);
+
+    release!();
+    await stopping;
+    assert.equal(calls, 2);
+    const [entry] = await dispatcher.deadLetters();
+    assert.deepEqual([entry.payload.id, entry.attempts, entry.status], ['0x01:created:ops', 2, 500]);
+  });
+
+  test('createWebhookHandler requires authorize', () => {
+    const dispatcher = new WebhookDispatcher(noopSource);
+    assert.throws(() => createWebhookHandler(dispatcher, {} as never), /requires an `authorize` function/);
+  });
+});